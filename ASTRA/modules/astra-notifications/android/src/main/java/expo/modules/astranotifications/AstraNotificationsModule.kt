@@ -0,0 +1,117 @@
+package expo.modules.astranotifications
+
+import android.Manifest
+import android.content.Context
+import android.os.Build
+import android.os.Bundle
+import expo.modules.interfaces.permissions.Permissions
+import expo.modules.kotlin.Promise
+import expo.modules.kotlin.exception.Exceptions
+import expo.modules.kotlin.modules.Module
+import expo.modules.kotlin.modules.ModuleDefinition
+import expo.modules.kotlin.records.Field
+import expo.modules.kotlin.records.Record
+import org.json.JSONArray
+
+/**
+ * AstraNotificationsModule — Expo module exposing nudge notifications to JS.
+ *
+ * Methods:
+ * - areNotificationsEnabled() / requestNotificationPermission() → Promise<{ granted }>
+ * - showNudgeNotification(notification) / cancelNudgeNotification(id)
+ * - consumeNudgeActions() → Promise<JSON array of queued presses>
+ * - scheduleNudgeNotifications(json) / consumeDeliveredNudges() → Promise<JSON array>
+ *
+ * Events:
+ * - nudgeNotificationAction (accept / snooze / dismiss presses)
+ */
+class AstraNotificationsModule : Module() {
+
+    companion object {
+        const val EVENT_ACTION = "nudgeNotificationAction"
+
+        @Volatile
+        private var listening: AstraNotificationsModule? = null
+
+        /** Send a press to JS; false when no JS listener is subscribed. */
+        fun emit(response: Bundle): Boolean {
+            val module = listening ?: return false
+            module.sendEvent(EVENT_ACTION, response)
+            return true
+        }
+    }
+
+    class NudgeActionRecord : Record {
+        @Field val label: String = ""
+        @Field val action: String = ""
+        @Field val target: String? = null
+    }
+
+    class NudgeNotificationRecord : Record {
+        @Field val id: String = ""
+        @Field val title: String = ""
+        @Field val body: String = ""
+        @Field val highPriority: Boolean = false
+        @Field val actions: List<NudgeActionRecord> = emptyList()
+    }
+
+    private val context: Context
+        get() = appContext.reactContext ?: throw Exceptions.ReactContextLost()
+
+    override fun definition() = ModuleDefinition {
+        Name("AstraNotifications")
+
+        Events(EVENT_ACTION)
+
+        OnStartObserving(EVENT_ACTION) { listening = this@AstraNotificationsModule }
+
+        OnStopObserving(EVENT_ACTION) {
+            if (listening === this@AstraNotificationsModule) listening = null
+        }
+
+        // False when the user turned notifications off or never granted POST_NOTIFICATIONS (Android 13+)
+        Function("areNotificationsEnabled") {
+            NudgeNotifier.canPost(context)
+        }
+
+        AsyncFunction("requestNotificationPermission") { promise: Promise ->
+            if (Build.VERSION.SDK_INT < Build.VERSION_CODES.TIRAMISU) {
+                // Granted at install time; the user can only switch it off in settings
+                promise.resolve(Bundle().apply { putBoolean("granted", NudgeNotifier.canPost(context)) })
+            } else {
+                Permissions.askForPermissionsWithPermissionsManager(
+                    appContext.permissions, promise, Manifest.permission.POST_NOTIFICATIONS
+                )
+            }
+        }
+
+        AsyncFunction("showNudgeNotification") { nudge: NudgeNotificationRecord ->
+            if (nudge.id.isEmpty()) throw IllegalArgumentException("Nudge id missing")
+            val posted = NudgeNotifier.show(
+                context,
+                nudgeId = nudge.id,
+                title = nudge.title,
+                body = nudge.body,
+                highPriority = nudge.highPriority,
+                buttons = nudge.actions.map { NudgeNotifier.NudgeButton(it.label, it.action, it.target) },
+            )
+            if (!posted) throw IllegalStateException("Notifications are disabled")
+        }
+
+        AsyncFunction("cancelNudgeNotification") { nudgeId: String ->
+            NudgeNotifier.cancel(context, nudgeId)
+        }
+
+        AsyncFunction("consumeNudgeActions") {
+            NudgeNotifier.consumeResponses(context).toString()
+        }
+
+        AsyncFunction("scheduleNudgeNotifications") { scheduledJson: String ->
+            NudgeAlarms.replaceAll(context, JSONArray(scheduledJson))
+        }
+
+        AsyncFunction("consumeDeliveredNudges") {
+            NudgeAlarms.consumeDelivered(context).toString()
+        }
+    }
+}
@@ -0,0 +1,53 @@
+package expo.modules.astranotifications
+
+import android.content.BroadcastReceiver
+import android.content.Context
+import android.content.Intent
+import android.os.Bundle
+import android.util.Log
+import org.json.JSONObject
+
+/**
+ * NudgeActionReceiver — Handles accept / snooze / dismiss buttons on nudge
+ * notifications. Emits "nudgeNotificationAction" to JS when it is listening,
+ * otherwise queues the response for consumeNudgeActions().
+ */
+class NudgeActionReceiver : BroadcastReceiver() {
+
+    companion object {
+        const val TAG = "AstraNudgeReceiver"
+    }
+
+    override fun onReceive(context: Context, intent: Intent) {
+        if (intent.action != NudgeNotifier.ACTION_RESPONSE) return
+
+        val nudgeId = intent.getStringExtra(NudgeNotifier.EXTRA_NUDGE_ID) ?: return
+        val action = intent.getStringExtra(NudgeNotifier.EXTRA_ACTION) ?: return
+        val target = intent.getStringExtra(NudgeNotifier.EXTRA_TARGET)
+        val at = System.currentTimeMillis()
+
+        NudgeNotifier.cancel(context, nudgeId)
+
+        val emitted = try {
+            AstraNotificationsModule.emit(Bundle().apply {
+                putString("nudgeId", nudgeId)
+                putString("action", action)
+                target?.let { putString("target", it) }
+                putDouble("at", at.toDouble())
+            })
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to emit ${AstraNotificationsModule.EVENT_ACTION}", e)
+            false
+        }
+
+        if (!emitted) {
+            NudgeNotifier.queueResponse(context, JSONObject().apply {
+                put("nudgeId", nudgeId)
+                put("action", action)
+                target?.let { put("target", it) }
+                put("at", at)
+            })
+            Log.d(TAG, "JS not listening — queued $action for $nudgeId")
+        }
+    }
+}
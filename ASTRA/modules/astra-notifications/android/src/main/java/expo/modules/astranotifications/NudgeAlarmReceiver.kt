@@ -0,0 +1,18 @@
+package expo.modules.astranotifications
+
+import android.content.BroadcastReceiver
+import android.content.Context
+import android.content.Intent
+
+/**
+ * NudgeAlarmReceiver — Fires when a scheduled nudge is due and posts it
+ * through NudgeAlarms, whether or not JS is running.
+ */
+class NudgeAlarmReceiver : BroadcastReceiver() {
+
+    override fun onReceive(context: Context, intent: Intent) {
+        if (intent.action != NudgeAlarms.ACTION_DELIVER) return
+        val nudgeId = intent.getStringExtra(NudgeNotifier.EXTRA_NUDGE_ID) ?: return
+        NudgeAlarms.deliver(context, nudgeId)
+    }
+}
@@ -0,0 +1,116 @@
+package expo.modules.astranotifications
+
+import android.app.AlarmManager
+import android.app.PendingIntent
+import android.content.Context
+import android.content.Intent
+import android.util.Log
+import org.json.JSONArray
+import org.json.JSONObject
+
+/**
+ * NudgeAlarms — Posts queued nudges at their delivery time while JS is
+ * suspended.
+ *
+ * - JS replaces the whole schedule each time the queue changes in the
+ *   background; alarms for nudges left out (superseded, expired) are cancelled
+ * - the payloads are kept in SharedPreferences, so an alarm only carries the id
+ * - NudgeAlarmReceiver posts the nudge unless it expired meanwhile or
+ *   notifications are off, and records the delivery for consumeDeliveredNudges()
+ */
+object NudgeAlarms {
+
+    const val TAG = "AstraNudgeAlarms"
+    const val ACTION_DELIVER = "expo.modules.astranotifications.NUDGE_DELIVER"
+
+    private const val PREFS = "astra_nudge_prefs"
+    private const val KEY_SCHEDULED = "scheduled_nudges"
+    private const val KEY_DELIVERED = "delivered_nudges"
+
+    // ── Scheduling ───────────────────────────────────────────────────────
+
+    /** Replace every scheduled nudge with `scheduled` ([{ notification, deliverAt, expiresAt? }]). */
+    fun replaceAll(context: Context, scheduled: JSONArray) {
+        val prefs = context.getSharedPreferences(PREFS, Context.MODE_PRIVATE)
+        val previous = JSONObject(prefs.getString(KEY_SCHEDULED, "{}"))
+        val next = JSONObject()
+        for (i in 0 until scheduled.length()) {
+            val item = scheduled.getJSONObject(i)
+            next.put(item.getJSONObject("notification").getString("id"), item)
+        }
+
+        val alarms = context.getSystemService(AlarmManager::class.java) ?: return
+        previous.keys().forEach { nudgeId ->
+            if (!next.has(nudgeId)) alarms.cancel(alarmIntent(context, nudgeId))
+        }
+        next.keys().forEach { nudgeId ->
+            // Inexact is fine for a nudge and needs no exact-alarm permission
+            val deliverAt = next.getJSONObject(nudgeId).getLong("deliverAt")
+            alarms.setAndAllowWhileIdle(AlarmManager.RTC_WAKEUP, deliverAt, alarmIntent(context, nudgeId))
+        }
+
+        prefs.edit().putString(KEY_SCHEDULED, next.toString()).apply()
+        Log.d(TAG, "Scheduled ${next.length()} nudges (was ${previous.length()})")
+    }
+
+    /** Post a scheduled nudge whose alarm went off, unless it has expired. */
+    fun deliver(context: Context, nudgeId: String) {
+        val prefs = context.getSharedPreferences(PREFS, Context.MODE_PRIVATE)
+        val scheduled = JSONObject(prefs.getString(KEY_SCHEDULED, "{}"))
+        val item = scheduled.optJSONObject(nudgeId) ?: return
+        scheduled.remove(nudgeId)
+        prefs.edit().putString(KEY_SCHEDULED, scheduled.toString()).apply()
+
+        val now = System.currentTimeMillis()
+        val expiresAt = if (item.has("expiresAt")) item.getLong("expiresAt") else null
+        if (expiresAt != null && expiresAt <= now) {
+            Log.d(TAG, "Skipped expired nudge $nudgeId")
+            return
+        }
+
+        val notification = item.getJSONObject("notification")
+        val actions = notification.optJSONArray("actions") ?: JSONArray()
+        val buttons = (0 until actions.length()).map { index ->
+            val action = actions.getJSONObject(index)
+            NudgeNotifier.NudgeButton(
+                label = action.getString("label"),
+                action = action.getString("action"),
+                target = if (action.has("target")) action.getString("target") else null,
+            )
+        }
+        val posted = NudgeNotifier.show(
+            context,
+            nudgeId = nudgeId,
+            title = notification.optString("title"),
+            body = notification.optString("body"),
+            highPriority = notification.optBoolean("highPriority"),
+            buttons = buttons,
+            timeoutAfterMs = expiresAt?.let { it - now },
+        )
+        // Not shown (notifications turned off) → stays queued in JS, not a delivery
+        if (!posted) return
+
+        val delivered = JSONArray(prefs.getString(KEY_DELIVERED, "[]"))
+        delivered.put(JSONObject().put("nudgeId", nudgeId).put("at", now))
+        prefs.edit().putString(KEY_DELIVERED, delivered.toString()).apply()
+    }
+
+    /** Return and clear every scheduled nudge posted since the last call. */
+    fun consumeDelivered(context: Context): JSONArray {
+        val prefs = context.getSharedPreferences(PREFS, Context.MODE_PRIVATE)
+        val delivered = JSONArray(prefs.getString(KEY_DELIVERED, "[]"))
+        prefs.edit().remove(KEY_DELIVERED).apply()
+        return delivered
+    }
+
+    private fun alarmIntent(context: Context, nudgeId: String): PendingIntent {
+        val intent = Intent(context, NudgeAlarmReceiver::class.java).apply {
+            action = ACTION_DELIVER
+            putExtra(NudgeNotifier.EXTRA_NUDGE_ID, nudgeId)
+        }
+        return PendingIntent.getBroadcast(
+            context, NudgeNotifier.notificationId(nudgeId), intent,
+            PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+        )
+    }
+}
@@ -0,0 +1,168 @@
+package expo.modules.astranotifications
+
+import android.app.Notification
+import android.app.NotificationChannel
+import android.app.NotificationManager
+import android.app.PendingIntent
+import android.content.Context
+import android.content.Intent
+import android.net.Uri
+import android.os.Build
+import android.util.Log
+
+import org.json.JSONArray
+import org.json.JSONObject
+
+/**
+ * NudgeNotifier — Posts orchestrator nudges as local notifications.
+ *
+ * - accept / snooze / dismiss buttons go to NudgeActionReceiver, which records
+ *   the response without opening the app
+ * - navigate buttons open the app's launch activity directly (no receiver
+ *   trampoline, which Android 12+ blocks) with an astra-nudge:// URL the JS
+ *   side reads
+ * - responses the JS side could not receive yet are queued in SharedPreferences
+ */
+object NudgeNotifier {
+
+    const val TAG = "AstraNudgeNotifier"
+    const val CHANNEL_ID = "astra_nudge_channel"
+    const val ACTION_RESPONSE = "expo.modules.astranotifications.NUDGE_RESPONSE"
+    const val EXTRA_NUDGE_ID = "nudgeId"
+    const val EXTRA_ACTION = "action"
+    const val EXTRA_TARGET = "target"
+
+    private const val PREFS = "astra_nudge_prefs"
+    private const val KEY_PENDING = "pending_responses"
+
+    data class NudgeButton(val label: String, val action: String, val target: String?)
+
+    fun notificationId(nudgeId: String): Int = nudgeId.hashCode()
+
+    /** Whether a nudge posted now would reach the shade (permission granted, app not blocked). */
+    fun canPost(context: Context): Boolean =
+        context.getSystemService(NotificationManager::class.java)?.areNotificationsEnabled() == true
+
+    // ── Posting ──────────────────────────────────────────────────────────
+
+    fun show(
+        context: Context,
+        nudgeId: String,
+        title: String,
+        body: String,
+        highPriority: Boolean,
+        buttons: List<NudgeButton>,
+        timeoutAfterMs: Long? = null,
+    ): Boolean {
+        if (!canPost(context)) {
+            Log.d(TAG, "Notifications disabled — nudge $nudgeId not posted")
+            return false
+        }
+        createChannel(context)
+
+        val openIntent = PendingIntent.getActivity(
+            context, notificationId(nudgeId), launchIntent(context),
+            PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+        )
+
+        val builder = if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
+            Notification.Builder(context, CHANNEL_ID)
+        } else {
+            @Suppress("DEPRECATION")
+            Notification.Builder(context).setPriority(
+                if (highPriority) Notification.PRIORITY_HIGH else Notification.PRIORITY_DEFAULT
+            )
+        }
+
+        builder
+            .setContentTitle(title)
+            .setContentText(body)
+            .setStyle(Notification.BigTextStyle().bigText(body))
+            .setSmallIcon(android.R.drawable.ic_dialog_info)
+            .setContentIntent(openIntent)
+            .setAutoCancel(true)
+
+        // Remove the nudge from the shade once it expires (API 26+)
+        if (timeoutAfterMs != null && Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
+            builder.setTimeoutAfter(timeoutAfterMs)
+        }
+
+        buttons.forEachIndexed { index, button ->
+            val intent = buttonIntent(context, nudgeId, index, button)
+            builder.addAction(Notification.Action.Builder(null, button.label, intent).build())
+        }
+
+        val manager = context.getSystemService(NotificationManager::class.java)
+        manager?.notify(notificationId(nudgeId), builder.build())
+        Log.d(TAG, "Posted nudge $nudgeId with ${buttons.size} actions")
+        return true
+    }
+
+    fun cancel(context: Context, nudgeId: String) {
+        context.getSystemService(NotificationManager::class.java)?.cancel(notificationId(nudgeId))
+    }
+
+    private fun buttonIntent(context: Context, nudgeId: String, index: Int, button: NudgeButton): PendingIntent {
+        val requestCode = notificationId(nudgeId) * 31 + index
+        val pendingFlags = PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+
+        if (button.action == "navigate") {
+            val uri = Uri.Builder()
+                .scheme("astra-nudge")
+                .authority("response")
+                .appendQueryParameter(EXTRA_NUDGE_ID, nudgeId)
+                .appendQueryParameter(EXTRA_ACTION, button.action)
+                .apply { button.target?.let { appendQueryParameter(EXTRA_TARGET, it) } }
+                .build()
+            val intent = launchIntent(context).apply {
+                action = Intent.ACTION_VIEW
+                data = uri
+                flags = Intent.FLAG_ACTIVITY_NEW_TASK or Intent.FLAG_ACTIVITY_SINGLE_TOP
+            }
+            return PendingIntent.getActivity(context, requestCode, intent, pendingFlags)
+        }
+
+        val intent = Intent(context, NudgeActionReceiver::class.java).apply {
+            action = ACTION_RESPONSE
+            putExtra(EXTRA_NUDGE_ID, nudgeId)
+            putExtra(EXTRA_ACTION, button.action)
+            button.target?.let { putExtra(EXTRA_TARGET, it) }
+        }
+        return PendingIntent.getBroadcast(context, requestCode, intent, pendingFlags)
+    }
+
+    /** The app's own launcher activity; the module doesn't know its class. */
+    private fun launchIntent(context: Context): Intent =
+        context.packageManager.getLaunchIntentForPackage(context.packageName)
+            ?: Intent().setPackage(context.packageName)
+
+    private fun createChannel(context: Context) {
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
+            val channel = NotificationChannel(
+                CHANNEL_ID,
+                "ASTRA Nudges",
+                NotificationManager.IMPORTANCE_HIGH
+            ).apply {
+                description = "Coaching nudges from ASTRA"
+            }
+            context.getSystemService(NotificationManager::class.java)?.createNotificationChannel(channel)
+        }
+    }
+
+    // ── Pending Responses ────────────────────────────────────────────────
+
+    fun queueResponse(context: Context, response: JSONObject) {
+        val prefs = context.getSharedPreferences(PREFS, Context.MODE_PRIVATE)
+        val pending = JSONArray(prefs.getString(KEY_PENDING, "[]"))
+        pending.put(response)
+        prefs.edit().putString(KEY_PENDING, pending.toString()).apply()
+    }
+
+    /** Return and clear every response recorded while JS wasn't listening. */
+    fun consumeResponses(context: Context): JSONArray {
+        val prefs = context.getSharedPreferences(PREFS, Context.MODE_PRIVATE)
+        val pending = JSONArray(prefs.getString(KEY_PENDING, "[]"))
+        prefs.edit().remove(KEY_PENDING).apply()
+        return pending
+    }
+}
@@ -0,0 +1,54 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// AstraNotifications — Local Expo module that posts nudges as notifications
+// Autolinked from modules/, so it ships without a committed android/ project.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { NativeModule, requireOptionalNativeModule } from 'expo-modules-core';
+
+export interface NativeNudgeAction {
+    label: string;
+    action: string;
+    target?: string;
+}
+
+/** What NudgeNotifier.kt posts; the id is the nudge id. */
+export interface NativeNudgeNotification {
+    id: string;
+    title: string;
+    body: string;
+    highPriority: boolean;
+    actions: NativeNudgeAction[];
+}
+
+/** An accept / snooze / dismiss press handled by NudgeActionReceiver. */
+export interface NativeNudgeResponse {
+    nudgeId: string;
+    action: string;
+    target?: string;
+    at: number;
+}
+
+type AstraNotificationsEvents = {
+    nudgeNotificationAction(response: NativeNudgeResponse): void;
+};
+
+declare class AstraNotificationsModule extends NativeModule<AstraNotificationsEvents> {
+    /** False when notifications are off or POST_NOTIFICATIONS isn't granted. */
+    areNotificationsEnabled(): boolean;
+    /** Ask for POST_NOTIFICATIONS (Android 13+); earlier versions report the current setting. */
+    requestNotificationPermission(): Promise<{ granted: boolean }>;
+    showNudgeNotification(notification: NativeNudgeNotification): Promise<void>;
+    cancelNudgeNotification(nudgeId: string): Promise<void>;
+    /** JSON array of presses recorded while JS wasn't listening (cleared once read). */
+    consumeNudgeActions(): Promise<string>;
+    /**
+     * Replace the scheduled nudges with a JSON array of
+     * { notification, deliverAt, expiresAt? }; ones left out are cancelled.
+     */
+    scheduleNudgeNotifications(scheduledJson: string): Promise<void>;
+    /** JSON array of { nudgeId, at } for scheduled nudges posted since the last call. */
+    consumeDeliveredNudges(): Promise<string>;
+}
+
+/** Null where the module isn't linked (Expo Go, iOS, web, tests). */
+export default requireOptionalNativeModule<AstraNotificationsModule>('AstraNotifications');
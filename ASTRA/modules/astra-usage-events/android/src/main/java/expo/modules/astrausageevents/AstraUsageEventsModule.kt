@@ -0,0 +1,80 @@
+package expo.modules.astrausageevents
+
+import android.app.usage.UsageEvents
+import android.app.usage.UsageStatsManager
+import android.content.Context
+import expo.modules.kotlin.exception.Exceptions
+import expo.modules.kotlin.modules.Module
+import expo.modules.kotlin.modules.ModuleDefinition
+import org.json.JSONArray
+import org.json.JSONObject
+
+/**
+ * AstraUsageEventsModule — Raw UsageStatsManager events for usageEventStream.ts.
+ *
+ * Methods:
+ * - getUsageEvents(start, end) → Promise<JSON recording of raw usage events>
+ */
+class AstraUsageEventsModule : Module() {
+
+    companion object {
+        // Foreground/background, screen on/off and keyguard shown/hidden
+        private val RECORDED_EVENT_TYPES = setOf(1, 2, 15, 16, 17, 18, 23)
+    }
+
+    private val context: Context
+        get() = appContext.reactContext ?: throw Exceptions.ReactContextLost()
+
+    override fun definition() = ModuleDefinition {
+        Name("AstraUsageEvents")
+
+        /**
+         * Raw events between start and end (epoch ms) as an "astra.usage-events"
+         * recording. Sessions, switches and unlocks are reconstructed in JS, so
+         * recordings replay off-device.
+         */
+        AsyncFunction("getUsageEvents") { startTime: Double, endTime: Double ->
+            val usm = context.getSystemService(Context.USAGE_STATS_SERVICE) as UsageStatsManager
+            val start = startTime.toLong()
+            val end = endTime.toLong()
+            val iterator = usm.queryEvents(start, end)
+            val event = UsageEvents.Event()
+            val events = JSONArray()
+            val labels = JSONObject()
+
+            while (iterator.hasNextEvent()) {
+                iterator.getNextEvent(event)
+                if (event.eventType !in RECORDED_EVENT_TYPES) continue
+                val item = JSONObject()
+                    .put("t", event.timeStamp)
+                    .put("type", event.eventType)
+                if (event.packageName != null) {
+                    item.put("pkg", event.packageName)
+                    if (!labels.has(event.packageName)) {
+                        labels.put(event.packageName, getAppLabel(event.packageName))
+                    }
+                }
+                if (event.className != null) item.put("cls", event.className)
+                events.put(item)
+            }
+
+            JSONObject()
+                .put("format", "astra.usage-events")
+                .put("version", 1)
+                .put("start", start)
+                .put("end", end)
+                .put("labels", labels)
+                .put("events", events)
+                .toString()
+        }
+    }
+
+    private fun getAppLabel(packageName: String): String {
+        return try {
+            val pm = context.packageManager
+            pm.getApplicationLabel(pm.getApplicationInfo(packageName, 0)).toString()
+        } catch (e: Exception) {
+            packageName.substringAfterLast('.')
+        }
+    }
+}
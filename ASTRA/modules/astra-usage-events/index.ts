@@ -0,0 +1,14 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// AstraUsageEvents — Local Expo module for the raw UsageStatsManager query
+// Autolinked from modules/, so it ships without a committed android/ project.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { requireOptionalNativeModule } from 'expo-modules-core';
+
+export interface AstraUsageEventsModule {
+    /** Raw usage events between two epoch-ms times as an "astra.usage-events" recording JSON string. */
+    getUsageEvents(startTime: number, endTime: number): Promise<string>;
+}
+
+/** Null where the module isn't linked (Expo Go, iOS, web, tests). */
+export default requireOptionalNativeModule<AstraUsageEventsModule>('AstraUsageEvents');
@@ -0,0 +1,170 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Focus Trainer — Unit Tests for AFI Calibration
+// Per-user ranges and weights, persistence, and the fallback to defaults
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { AppUsageSession, PomodoroSession } from '../modules/focusTrainer/models/types';
+
+const mockStore: { usage: AppUsageSession[]; pomodoros: PomodoroSession[] } = { usage: [], pomodoros: [] };
+
+jest.mock('../database/repository', () => ({
+    getUsageSessionsInRange: jest.fn(async (start: number, end: number) =>
+        mockStore.usage.filter(s => s.startTime >= start && s.startTime <= end)),
+    getPomodoroSessionsInRange: jest.fn(async (start: number, end: number) =>
+        mockStore.pomodoros.filter(s => s.startTime >= start && s.startTime <= end)),
+}));
+
+import {
+    AFIFeatures,
+    DEFAULT_AFI_PARAMETERS,
+    afiComponents,
+    computeAFI,
+} from '../modules/focusTrainer/math/attentionFragmentation';
+import {
+    LabelledAFIExample,
+    calibrateAFI,
+    fitAFIRanges,
+    fitAFIWeights,
+    focusOutcomeTarget,
+} from '../modules/focusTrainer/math/afiCalibration';
+import {
+    getAFIParameters,
+    recalibrateAFI,
+    resetAFICalibration,
+} from '../modules/focusTrainer/services/CalibrationService';
+import { AFI_CALIBRATION } from '../modules/focusTrainer/models/constants';
+import { getAFICalibration } from '../storage/mmkvStore';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+
+const HOUR = 3600 * 1000;
+const NOW = new Date(2026, 9, 19, 20).getTime();
+
+function features(overrides: Partial<AFIFeatures> = {}): AFIFeatures {
+    return { switchesPerHour: 10, unlocksPerHour: 4, avgSessionDuration: 5 * 60000, entropy: 0.5, ...overrides };
+}
+
+/** A developer's hours: 40–80 switches between IDE and terminal, everything else steady. */
+const DEVELOPER_HOURS = Array.from({ length: 60 }, (_, i) => features({ switchesPerHour: 40 + (i % 41) }));
+
+function session(startTime: number, packageName: string, switchCount: number, unlockCount: number): AppUsageSession {
+    return {
+        appName: packageName, packageName, startTime, endTime: startTime + 5 * 60000, duration: 5 * 60000,
+        switchCount, unlockCount, timeOfDay: 'evening', dayOfWeek: new Date(startTime).getDay(),
+    };
+}
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+});
+
+beforeEach(() => {
+    setKeyValueBackend(createMemoryBackend());
+    mockStore.usage = [];
+    mockStore.pomodoros = [];
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Labels
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Session Labels', () => {
+    test('completion alone, or averaged with the focus rating', () => {
+        const base: PomodoroSession = { startTime: 0, plannedDuration: 1, actualDuration: 1, wasSuccessful: true, breakDuration: 0 };
+        expect(focusOutcomeTarget(base)).toBe(0);
+        expect(focusOutcomeTarget({ ...base, wasSuccessful: false })).toBe(1);
+        expect(focusOutcomeTarget({ ...base, focusRating: 1 })).toBe(0.5);
+        expect(focusOutcomeTarget({ ...base, wasSuccessful: false, focusRating: 5 })).toBe(0.5);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Ranges
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Calibrated Ranges', () => {
+    test('too few hours keep the default ranges', () => {
+        expect(fitAFIRanges(DEVELOPER_HOURS.slice(0, AFI_CALIBRATION.minUsageHours - 1))).toBeNull();
+    });
+
+    test("a developer's switching is measured against their own normal", () => {
+        const ranges = fitAFIRanges(DEVELOPER_HOURS)!;
+        expect(ranges.switchesPerHour.min).toBeGreaterThan(20);
+
+        // Both hours saturate the default range; the calibrated one tells them apart
+        const calm = features({ switchesPerHour: 62 });
+        const busy = features({ switchesPerHour: 75 });
+        expect(afiComponents(calm, DEFAULT_AFI_PARAMETERS.ranges)[0]).toBe(afiComponents(busy, DEFAULT_AFI_PARAMETERS.ranges)[0]);
+        expect(afiComponents(calm, ranges)[0]).toBeLessThan(afiComponents(busy, ranges)[0]);
+
+        // Inputs that never vary keep their default range
+        expect(ranges.unlocksPerHour).toEqual(DEFAULT_AFI_PARAMETERS.ranges.unlocksPerHour);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Weights
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Calibrated Weights', () => {
+    // Sessions fail after unlock-heavy hours; switching says nothing
+    const examples: LabelledAFIExample[] = Array.from({ length: 40 }, (_, i) => {
+        const unlocks = 2 + (i % 10);
+        return {
+            features: features({ switchesPerHour: 5 + ((i * 7) % 30), unlocksPerHour: unlocks }),
+            fragmentation: unlocks > 6 ? 1 : 0,
+        };
+    });
+
+    test('too few labelled sessions keep the default weights', () => {
+        expect(fitAFIWeights(examples.slice(0, AFI_CALIBRATION.minLabelledSessions - 1), DEFAULT_AFI_PARAMETERS.ranges)).toBeNull();
+    });
+
+    test('inputs that predicted failed sessions gain weight', () => {
+        const w = fitAFIWeights(examples, DEFAULT_AFI_PARAMETERS.ranges)!;
+        expect(w.alpha + w.beta + w.gamma + w.delta).toBeCloseTo(1);
+        expect(w.beta).toBeGreaterThan(DEFAULT_AFI_PARAMETERS.weights.beta);
+        expect(w.alpha).toBeLessThan(DEFAULT_AFI_PARAMETERS.weights.alpha);
+        expect(Math.min(w.alpha, w.gamma, w.delta)).toBeGreaterThanOrEqual(AFI_CALIBRATION.minWeight - 1e-9);
+    });
+
+    test('computeAFI runs on the calibrated parameters it is given', () => {
+        const sessions = [session(NOW - HOUR, 'com.a', 1, 3), session(NOW - HOUR / 2, 'com.b', 1, 3)];
+        expect(computeAFI(sessions, HOUR)).toEqual(computeAFI(sessions, HOUR, DEFAULT_AFI_PARAMETERS));
+
+        const calibration = calibrateAFI(DEVELOPER_HOURS, examples, NOW);
+        expect(calibration).toMatchObject({ usageHours: 60, labelledSessions: 40, fittedAt: NOW });
+        expect(computeAFI(sessions, HOUR, calibration).score).not.toBeCloseTo(computeAFI(sessions, HOUR).score);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Calibration Service
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Calibration Service', () => {
+    test('defaults until calibrated, then the stored calibration until reset', async () => {
+        expect(getAFIParameters()).toBe(DEFAULT_AFI_PARAMETERS);
+
+        // 50 hours of usage, and 15 sessions each after an hour with or without unlocks
+        for (let h = 1; h <= 50; h++) {
+            mockStore.usage.push(session(NOW - h * HOUR - 30 * 60000, 'com.ide', h % 7, h % 3 === 0 ? 6 : 0));
+        }
+        for (let h = 1; h <= 45; h += 3) {
+            const hadUnlocks = (h + 1) % 3 === 0;
+            mockStore.pomodoros.push({
+                startTime: NOW - h * HOUR + 5 * 60000, endTime: NOW - h * HOUR + 30 * 60000,
+                plannedDuration: 25 * 60000, actualDuration: 25 * 60000, wasSuccessful: !hadUnlocks, breakDuration: 0,
+            });
+        }
+        mockStore.pomodoros.push({ startTime: NOW - 10 * 60000, plannedDuration: 1, actualDuration: 0, wasSuccessful: false, breakDuration: 0 });
+
+        const calibration = await recalibrateAFI(NOW);
+        expect(calibration.usageHours).toBe(50);
+        expect(calibration.labelledSessions).toBe(15);
+        expect(getAFICalibration()).toEqual(calibration);
+        expect(getAFIParameters()).toEqual(calibration);
+
+        resetAFICalibration();
+        expect(getAFIParameters()).toBe(DEFAULT_AFI_PARAMETERS);
+    });
+});
@@ -0,0 +1,151 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Focus Trainer — Unit Tests for the App Taxonomy
+// Bundled categories and overrides, on-task switching in AFI, DS category priors
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { computeAFI, extractAFIFeatures } from '../modules/focusTrainer/math/attentionFragmentation';
+import { computeSingleDS } from '../modules/focusTrainer/math/distractivenessScore';
+import { isOnTask } from '../modules/focusTrainer/math/appTaxonomy';
+import {
+    BUNDLED_APP_CATEGORIES,
+    clearAppCategoryOverrides,
+    getAppCategory,
+    getAppTaxonomy,
+    setAppCategoryOverride,
+} from '../modules/focusTrainer/services/AppTaxonomyService';
+import bundledCategories from '../modules/focusTrainer/models/appCategories.json';
+import { getAppCategoryOverrides } from '../storage/mmkvStore';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+import type { AppDailyStats, AppUsageSession, FocusGoal } from '../modules/focusTrainer/models/types';
+
+const HOUR = 3600 * 1000;
+const MIN = 60 * 1000;
+
+const SLACK = 'com.Slack';
+const DOCS = 'com.google.android.apps.docs.editors.docs';
+const TIKTOK = 'com.zhiliaoapp.musically';
+const INSTAGRAM = 'com.instagram.android';
+
+/** An hour alternating between two apps every 3 minutes, each arrival a switch. */
+function alternating(a: string, b: string): AppUsageSession[] {
+    return Array.from({ length: 20 }, (_, i) => ({
+        appName: i % 2 ? b : a,
+        packageName: i % 2 ? b : a,
+        startTime: i * 3 * MIN,
+        endTime: (i + 1) * 3 * MIN,
+        duration: 3 * MIN,
+        switchCount: i > 0 ? 1 : 0,
+        unlockCount: 0,
+        timeOfDay: 'morning',
+        dayOfWeek: 1,
+    }));
+}
+
+function goal(associatedApps: string[]): FocusGoal {
+    return { id: 'g', title: 'Ship the report', importance: 0.8, associatedApps, isActive: true };
+}
+
+function stats(packageName: string): AppDailyStats {
+    return {
+        appName: packageName, packageName,
+        totalTime: 2.5 * HOUR, openFrequency: 60, avgSessionDuration: 2 * MIN, conflictDuringFocus: 0.3,
+    };
+}
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+});
+
+beforeEach(() => {
+    setKeyValueBackend(createMemoryBackend());
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Taxonomy
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Categories & Overrides', () => {
+    test('every bundled mapping uses a known category', () => {
+        expect(Object.keys(BUNDLED_APP_CATEGORIES)).toHaveLength(Object.keys(bundledCategories).length);
+        expect(getAppCategory(SLACK)).toBe('work');
+        expect(getAppCategory(TIKTOK)).toBe('social');
+        expect(getAppCategory('com.example.unknown')).toBe('other');
+    });
+
+    test('overrides win, and clearing one goes back to the bundled category', () => {
+        setAppCategoryOverride('com.reddit.frontpage', 'learning');
+        setAppCategoryOverride('com.example.unknown', 'work');
+        expect(getAppCategory('com.reddit.frontpage')).toBe('learning');
+        expect(getAppCategory('com.example.unknown')).toBe('work');
+
+        setAppCategoryOverride('com.reddit.frontpage', null);
+        setAppCategoryOverride('com.example.unknown', 'other');
+        expect(getAppCategory('com.reddit.frontpage')).toBe('social');
+        expect(getAppCategoryOverrides()).toEqual({ 'com.example.unknown': 'other' });
+
+        clearAppCategoryOverrides();
+        expect(getAppCategoryOverrides()).toEqual({});
+    });
+
+    test("a goal's apps replace the focus categories as the on-task set", () => {
+        expect(isOnTask(getAppTaxonomy(), SLACK)).toBe(true);
+        expect(isOnTask(getAppTaxonomy(), 'com.whatsapp')).toBe(false);
+
+        const taxonomy = getAppTaxonomy(goal(['com.whatsapp', DOCS]));
+        expect(isOnTask(taxonomy, 'com.whatsapp')).toBe(true);
+        expect(isOnTask(taxonomy, SLACK)).toBe(false);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// AFI
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('On-task Switching in AFI', () => {
+    test('Slack ↔ Docs no longer fragments like TikTok ↔ Instagram', () => {
+        const work = alternating(SLACK, DOCS);
+        const feeds = alternating(TIKTOK, INSTAGRAM);
+        expect(computeAFI(work, HOUR).score).toBeCloseTo(computeAFI(feeds, HOUR).score);
+
+        const taxonomy = getAppTaxonomy();
+        const workAFI = computeAFI(work, HOUR, undefined, taxonomy);
+        expect(workAFI.score).toBeLessThan(computeAFI(work, HOUR).score - 0.1);
+        expect(workAFI.switchesPerHour).toBeCloseTo(19 * 0.2);
+        expect(computeAFI(feeds, HOUR, undefined, taxonomy)).toEqual(computeAFI(feeds, HOUR));
+    });
+
+    test('leaving the task still counts in full', () => {
+        const mixed = alternating(SLACK, TIKTOK);
+        const features = extractAFIFeatures(mixed, HOUR, getAppTaxonomy())!;
+        expect(features.switchesPerHour).toBe(19);
+        expect(features.entropy).toBeCloseTo(extractAFIFeatures(mixed, HOUR)!.entropy);
+    });
+
+    test("with a goal, switching among the goal's apps is discounted instead", () => {
+        const chat = alternating('com.whatsapp', DOCS);
+        const plain = computeAFI(chat, HOUR, undefined, getAppTaxonomy());
+        const onGoal = computeAFI(chat, HOUR, undefined, getAppTaxonomy(goal(['com.whatsapp', DOCS])));
+        expect(onGoal.score).toBeLessThan(plain.score);
+        expect(onGoal.entropy).toBeLessThan(plain.entropy);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Category Priors in DS', () => {
+    test('the same usage is flagged for a feed but not for a work app', () => {
+        expect(computeSingleDS(stats(TIKTOK)).score).toBeCloseTo(computeSingleDS(stats(SLACK)).score);
+        expect(computeSingleDS(stats(TIKTOK)).isDistractive).toBe(false);
+
+        const taxonomy = getAppTaxonomy();
+        expect(computeSingleDS(stats(TIKTOK), taxonomy).isDistractive).toBe(true);
+        expect(computeSingleDS(stats(SLACK), taxonomy).isDistractive).toBe(false);
+    });
+
+    test('uncategorized apps keep their usage score', () => {
+        const app = stats('com.example.unknown');
+        expect(computeSingleDS(app, getAppTaxonomy())).toEqual(computeSingleDS(app));
+    });
+});
@@ -0,0 +1,130 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Focus Trainer — Unit Tests for the Attention Forecast
+// Recency decay, day-type pooling, sleep/CRS covariates, predictive intervals
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+    forecastFocusHeatmap,
+    generateFocusHeatmap,
+    getSuggestedSchedule,
+    uncertaintyAdjustedQuality,
+} from '../modules/focusTrainer/math/attentionForecasting';
+import type { AFIObservation, ForecastCovariates, HourBlock } from '../modules/focusTrainer/models/types';
+
+// Monday 19 Oct 2026, 6am local
+const NOW = new Date(2026, 9, 19, 6).getTime();
+
+function sample(daysAgo: number, hour: number, afi: number, covariates?: ForecastCovariates): AFIObservation {
+    return { timestamp: new Date(2026, 9, 19 - daysAgo, hour).getTime(), afi, covariates };
+}
+
+function block(heatmap: HourBlock[], day: number, hour: number): HourBlock {
+    return heatmap.find(b => b.dayOfWeek === day && b.hour === hour)!;
+}
+
+/** Mondays at 9am, `weeks` back, all at `afi`. */
+function mondays(weeks: number[], afi: number): AFIObservation[] {
+    return weeks.map(w => sample(7 * w, 9, afi));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Point Forecast
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Forecast Mean', () => {
+    test('recent weeks count more than old ones', () => {
+        const heatmap = forecastFocusHeatmap([
+            ...mondays([5, 6, 7], 0.8),
+            ...mondays([1, 2, 3], 0.2),
+        ], { now: NOW });
+        const monday = block(heatmap, 1, 9);
+        // The plain average would be 0.5
+        expect(monday.predictedAFI).toBeLessThan(0.35);
+        expect(monday.label).toBe('good');
+    });
+
+    test('empty hours borrow from the same hour on the same day type only', () => {
+        const heatmap = forecastFocusHeatmap([
+            sample(1, 9, 0.2), sample(8, 9, 0.2),   // Sunday
+            sample(7, 14, 0.7),                     // Monday
+        ], { now: NOW });
+        const saturday = block(heatmap, 6, 9);
+        expect(saturday.predictedAFI).toBeCloseTo(0.2);
+        expect(saturday.confidence).toBe(0);
+        expect(block(heatmap, 2, 9)).toMatchObject({ predictedAFI: 0.5, afiInterval: { low: 0, high: 1 } });
+        expect(block(heatmap, 2, 14).predictedAFI).toBeCloseTo(0.7);
+    });
+
+    test('stored focus windows still forecast, without decay', () => {
+        const heatmap = generateFocusHeatmap([
+            { dayOfWeek: 3, hourOfDay: 10, avgAFI: 0.3, sampleCount: 6, qualityLabel: 'good' },
+        ]);
+        expect(block(heatmap, 3, 10).predictedAFI).toBeCloseTo(0.3);
+        expect(block(heatmap, 3, 10).confidence).toBeCloseTo(6 / 8);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Intervals & Ranking
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Predictive Intervals', () => {
+    test('intervals bracket the mean and narrow with evidence', () => {
+        const heatmap = forecastFocusHeatmap([
+            ...mondays([1, 2, 3, 4, 5, 6], 0.3),
+            sample(1, 15, 0.3),                     // Sunday afternoon, once
+        ], { now: NOW });
+        const measured = block(heatmap, 1, 9);
+        const once = block(heatmap, 0, 15);
+        for (const b of [measured, once]) {
+            expect(b.afiInterval.low).toBeLessThanOrEqual(b.predictedAFI);
+            expect(b.afiInterval.high).toBeGreaterThanOrEqual(b.predictedAFI);
+        }
+        const width = (b: HourBlock) => b.afiInterval.high - b.afiInterval.low;
+        expect(width(measured)).toBeLessThan(width(once));
+        expect(measured.confidence).toBeGreaterThan(once.confidence);
+    });
+
+    test('the schedule prefers a well-measured hour over a slightly better guess', () => {
+        const heatmap = forecastFocusHeatmap([
+            ...Array.from({ length: 14 }, (_, i) => sample(7 * (i % 2) + 7, 10, 0.22)),
+            sample(7, 15, 0.215),
+        ], { now: NOW });
+        const [first, second] = getSuggestedSchedule(heatmap, 1);
+        expect([first.hour, second.hour]).toEqual([10, 15]);
+        expect(first.predictedAFI).toBeGreaterThan(second.predictedAFI);
+        expect(uncertaintyAdjustedQuality(first)).toBeGreaterThan(uncertaintyAdjustedQuality(second));
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Covariates
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Sleep & CRS Covariates', () => {
+    // Ten mornings at 10am, alternating rested and short nights; short nights are fragmented
+    const history = [1, 2, 3, 4, 5, 8, 9, 10, 11, 12].map((daysAgo, i) => {
+        const rested = i % 2 === 0;
+        return sample(daysAgo, 10, rested ? 0.2 : 0.5, {
+            sleepHours: rested ? 8 : 5,
+            cognitiveReadiness: rested ? 80 : 45,
+        });
+    });
+
+    test("a short night raises today's forecast and leaves other days alone", () => {
+        const plain = forecastFocusHeatmap(history, { now: NOW });
+        const tired = forecastFocusHeatmap(history, { now: NOW, today: { sleepHours: 5, cognitiveReadiness: 45 } });
+        const rested = forecastFocusHeatmap(history, { now: NOW, today: { sleepHours: 8, cognitiveReadiness: 80 } });
+
+        expect(block(tired, 1, 10).predictedAFI).toBeGreaterThan(block(plain, 1, 10).predictedAFI + 0.03);
+        expect(block(rested, 1, 10).predictedAFI).toBeLessThan(block(plain, 1, 10).predictedAFI - 0.03);
+        expect(block(tired, 2, 10).predictedAFI).toBeCloseTo(block(plain, 2, 10).predictedAFI);
+    });
+
+    test('too few days with health data leave the forecast unadjusted', () => {
+        const sparse = history.map((s, i) => (i < 3 ? s : { ...s, covariates: undefined }));
+        const plain = forecastFocusHeatmap(sparse, { now: NOW });
+        const tired = forecastFocusHeatmap(sparse, { now: NOW, today: { sleepHours: 5, cognitiveReadiness: 45 } });
+        expect(tired).toEqual(plain);
+    });
+});
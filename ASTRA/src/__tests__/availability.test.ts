@@ -0,0 +1,229 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Interventions — Unit Tests for Availability
+// Quiet hours across midnight, pause, busy blocks and the ICS import
+// ─────────────────────────────────────────────────────────────────────────────
+
+jest.mock('../database/repository', () => ({
+    insertInterventionSuppression: jest.fn(() => Promise.resolve(1)),
+}));
+
+import {
+    activeQuietRule,
+    checkAvailability,
+    defaultAvailability,
+    newQuietRule,
+    parseClock,
+    pauseFor,
+    pruneAvailability,
+    resume,
+    toggleQuietDay,
+} from '../modules/interventions/availability';
+import { importIcsBusyBlocks, parseIcsDuration } from '../modules/interventions/icsImport';
+import { checkBudget, emptyBudgetState } from '../modules/interventions/interventionBudget';
+import { importCalendar, pauseInterventions, requestIntervention } from '../modules/interventions/budgetService';
+import type { QuietHoursRule } from '../modules/interventions/budgetTypes';
+import { insertInterventionSuppression } from '../database/repository';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+
+// Sunday 18 Oct 2026, local time
+const SUNDAY_NOON = new Date(2026, 9, 18, 12, 0).getTime();
+const HOUR = 3600_000;
+
+function at(day: number, hours: number, minutes = 0): number {
+    return new Date(2026, 9, day, hours, minutes).getTime();
+}
+
+function ics(...events: string[]): string {
+    return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events, 'END:VCALENDAR'].join('\r\n');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Quiet Hours
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Quiet Hours', () => {
+    const weeknights: QuietHoursRule = {
+        id: 'weeknights', label: 'Weeknights', days: [1, 2, 3, 4, 5],
+        startMinute: 23 * 60, endMinute: 6 * 60, enabled: true,
+    };
+
+    test('default sleep window wraps midnight', () => {
+        const rules = defaultAvailability().quietHours;
+        expect(activeQuietRule(rules, at(18, 23))?.until).toBe(at(19, 7));
+        expect(activeQuietRule(rules, at(19, 6, 59))?.until).toBe(at(19, 7));
+        expect(activeQuietRule(rules, at(19, 7))).toBeNull();
+    });
+
+    test('early-morning part belongs to the previous weekday', () => {
+        // Saturday 03:00 is Friday night's window; Monday 03:00 would be Sunday's
+        expect(activeQuietRule([weeknights], at(24, 3))?.rule.id).toBe('weeknights');
+        expect(activeQuietRule([weeknights], at(19, 3))).toBeNull();
+        expect(activeQuietRule([weeknights], at(18, 23, 30))).toBeNull();
+    });
+
+    test('disabled rules are ignored', () => {
+        expect(activeQuietRule([{ ...weeknights, enabled: false }], at(20, 23, 30))).toBeNull();
+    });
+
+    test('parseClock accepts 24-hour times only', () => {
+        expect(parseClock('22:00')).toBe(1320);
+        expect(parseClock('7:05')).toBe(425);
+        expect(parseClock('24:00')).toBeNull();
+        expect(parseClock('10pm')).toBeNull();
+    });
+
+    test('editing days adds and removes weekdays but keeps the last one', () => {
+        const rule = newQuietRule(SUNDAY_NOON);
+        expect(toggleQuietDay(rule, 6).days).toEqual([1, 2, 3, 4, 5, 6]);
+        expect(toggleQuietDay(rule, 1).days).toEqual([2, 3, 4, 5]);
+
+        const single = { ...rule, days: [3] };
+        expect(toggleQuietDay(single, 3)).toBe(single);
+        expect(activeQuietRule([toggleQuietDay(single, 0)], at(18, 12, 30))?.rule.id).toBe(rule.id);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Pause & Busy Blocks
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Pause & Busy Blocks', () => {
+    test('pause wins over busy and quiet hours, and resume clears it', () => {
+        const paused = pauseFor(
+            { ...defaultAvailability(), busyBlocks: [{ start: SUNDAY_NOON, end: SUNDAY_NOON + HOUR, summary: 'Standup' }] },
+            3, SUNDAY_NOON,
+        );
+        const status = checkAvailability(paused, SUNDAY_NOON + 30 * 60_000);
+        expect(status.available).toBe(false);
+        if (!status.available) {
+            expect(status.reason).toBe('paused');
+            expect(status.until).toBe(SUNDAY_NOON + 3 * HOUR);
+        }
+        expect(checkAvailability(resume(paused), SUNDAY_NOON + 30 * 60_000)).toMatchObject({ reason: 'busy' });
+    });
+
+    test('pause is clamped and rejects non-positive hours', () => {
+        expect(pauseFor(defaultAvailability(), 100, SUNDAY_NOON).pausedUntil).toBe(SUNDAY_NOON + 24 * HOUR);
+        expect(() => pauseFor(defaultAvailability(), 0, SUNDAY_NOON)).toThrow();
+    });
+
+    test('prune drops ended blocks and an expired pause', () => {
+        const settings = {
+            ...defaultAvailability(),
+            pausedUntil: SUNDAY_NOON - 1,
+            busyBlocks: [
+                { start: SUNDAY_NOON - 2 * HOUR, end: SUNDAY_NOON - HOUR, summary: 'Past' },
+                { start: SUNDAY_NOON + HOUR, end: SUNDAY_NOON + 2 * HOUR, summary: 'Future' },
+            ],
+        };
+        const pruned = pruneAvailability(settings, SUNDAY_NOON);
+        expect(pruned.pausedUntil).toBeNull();
+        expect(pruned.busyBlocks.map(b => b.summary)).toEqual(['Future']);
+    });
+
+    test('budget reports the availability reason before any quota', () => {
+        const busy = { ...defaultAvailability(), busyBlocks: [{ start: SUNDAY_NOON, end: SUNDAY_NOON + HOUR, summary: 'Standup' }] };
+        const decision = checkBudget(
+            emptyBudgetState(SUNDAY_NOON),
+            { producer: 'native-spiral', channel: 'overlay', priority: 'urgent', at: SUNDAY_NOON },
+            busy,
+        );
+        expect(decision).toMatchObject({ allowed: false, reason: 'busy' });
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ICS Import
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('ICS Import', () => {
+    test('reads UTC, local and all-day events and skips free or cancelled ones', () => {
+        const { blocks, skipped } = importIcsBusyBlocks(ics(
+            'BEGIN:VEVENT', 'DTSTART:20261019T090000', 'DTEND:20261019T093000', 'SUMMARY:Standup', 'END:VEVENT',
+            'BEGIN:VEVENT', 'DTSTART:20261020T140000Z', 'DURATION:PT1H', 'SUMMARY:Review', 'END:VEVENT',
+            'BEGIN:VEVENT', 'DTSTART;VALUE=DATE:20261021', 'SUMMARY:Offsite', 'END:VEVENT',
+            'BEGIN:VEVENT', 'DTSTART:20261022T100000', 'DTEND:20261022T110000', 'TRANSP:TRANSPARENT', 'END:VEVENT',
+            'BEGIN:VEVENT', 'DTSTART:20261022T120000', 'DTEND:20261022T130000', 'STATUS:CANCELLED', 'END:VEVENT',
+            'BEGIN:VEVENT', 'DTSTART:garbage', 'END:VEVENT',
+        ), SUNDAY_NOON);
+
+        expect(skipped).toBe(1);
+        expect(blocks.map(b => b.summary)).toEqual(['Standup', 'Review', 'Offsite']);
+        expect(blocks[0]).toMatchObject({ start: at(19, 9), end: at(19, 9, 30) });
+        expect(blocks[1].start).toBe(Date.UTC(2026, 9, 20, 14));
+        expect(blocks[1].end - blocks[1].start).toBe(HOUR);
+        expect(blocks[2]).toMatchObject({ start: at(21, 0), end: at(22, 0) });
+    });
+
+    test('expands weekly rules within the horizon, minus EXDATEs', () => {
+        const { blocks } = importIcsBusyBlocks(ics(
+            'BEGIN:VEVENT',
+            'DTSTART:20260105T100000',
+            'DTEND:20260105T110000',
+            'RRULE:FREQ=WEEKLY;BYDAY=MO,WE',
+            'EXDATE:20261021T100000',
+            'SUMMARY:1:1 with\\, Sam',
+            'BEGIN:VALARM', 'TRIGGER:-PT15M', 'END:VALARM',
+            'END:VEVENT',
+        ), SUNDAY_NOON);
+
+        // Mon 19, Mon 26, Wed 28 (Wed 21 excluded) inside the 14-day horizon
+        expect(blocks.map(b => b.start)).toEqual([at(19, 10), at(26, 10), at(28, 10)]);
+        expect(blocks[0].summary).toBe('1:1 with, Sam');
+    });
+
+    test('series that started years ago still expand, and COUNT counts the skipped years', () => {
+        const { blocks, skipped } = importIcsBusyBlocks(ics(
+            'BEGIN:VEVENT', 'DTSTART:20150105T100000', 'DTEND:20150105T110000',
+            'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO', 'SUMMARY:Fortnightly', 'END:VEVENT',
+            // 657 daily occurrences from 1 Jan 2025 end on Monday 19 Oct 2026
+            'BEGIN:VEVENT', 'DTSTART:20250101T080000', 'DURATION:PT30M',
+            'RRULE:FREQ=DAILY;COUNT=657', 'SUMMARY:Journal', 'END:VEVENT',
+        ), SUNDAY_NOON);
+
+        // Mon 19 is an off week for the fortnightly series
+        expect(skipped).toBe(0);
+        expect(blocks.map(b => [b.summary, b.start])).toEqual([['Journal', at(19, 8)], ['Fortnightly', at(26, 10)]]);
+    });
+
+    test('unfolds long lines and parses durations', () => {
+        const { blocks } = importIcsBusyBlocks(ics(
+            'BEGIN:VEVENT', 'DTSTART:20261019T150000', 'DURATION:PT45M', 'SUMMARY:Quarterly plan', ' ning', 'END:VEVENT',
+        ), SUNDAY_NOON);
+        expect(blocks[0].summary).toBe('Quarterly planning');
+        expect(parseIcsDuration('P1DT2H')).toBe(26 * HOUR);
+        expect(parseIcsDuration('P')).toBeNull();
+    });
+
+    test('rejects text that is not a calendar', () => {
+        expect(() => importIcsBusyBlocks('hello', SUNDAY_NOON)).toThrow(/VCALENDAR/);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Service
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Availability Service', () => {
+    beforeEach(() => {
+        setKeyValueBackend(createMemoryBackend());
+        jest.clearAllMocks();
+    });
+
+    test('a paused budget suppresses and logs the reason', () => {
+        pauseInterventions(2, SUNDAY_NOON);
+        const decision = requestIntervention({ producer: 'orchestrator', channel: 'notification', priority: 'high', at: SUNDAY_NOON + HOUR });
+        expect(decision.reason).toBe('paused');
+        expect(insertInterventionSuppression).toHaveBeenCalledWith(expect.objectContaining({ reason: 'paused' }));
+        expect(requestIntervention({ producer: 'orchestrator', channel: 'notification', priority: 'high', at: SUNDAY_NOON + 3 * HOUR }).allowed).toBe(true);
+    });
+
+    test('imported meetings suppress interventions while they run', () => {
+        importCalendar(ics(
+            'BEGIN:VEVENT', 'DTSTART:20261018T130000', 'DTEND:20261018T140000', 'SUMMARY:Planning', 'END:VEVENT',
+        ), SUNDAY_NOON);
+        const decision = requestIntervention({ producer: 'intervention-engine', channel: 'blocking', priority: 'high', at: at(18, 13, 30) });
+        expect(decision).toMatchObject({ allowed: false, reason: 'busy' });
+        expect(decision.detail).toContain('Planning');
+    });
+});
@@ -0,0 +1,377 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Backup — Unit Tests for Crypto and Encrypted Export / Import
+// Runs headlessly against in-memory database, KV and storage stand-ins
+// ─────────────────────────────────────────────────────────────────────────────
+
+const mockRandom = { available: true };
+
+jest.mock('expo-crypto', () => ({
+    getRandomValues: (bytes: Uint8Array) => {
+        if (!mockRandom.available) throw new Error("Cannot find native module 'ExpoCrypto'");
+        return require('crypto').webcrypto.getRandomValues(bytes);
+    },
+}));
+
+import {
+    MIN_KDF_ITERATIONS,
+    deriveKey,
+    open,
+    seal,
+    secureRandomSource,
+    utf8Encode,
+    utf8Decode,
+    toBase64,
+    fromBase64,
+} from '../modules/backup/engine/bundleCrypto';
+import {
+    createBackupBundle,
+    restoreBackupBundle,
+    encryptBundle,
+    decryptBundle,
+    exportEncryptedBackup,
+    importEncryptedBackup,
+} from '../modules/backup/services/BackupService';
+import { BackupSources } from '../modules/backup/models/backupTypes';
+import { MigrationDatabase } from '../database/migrations';
+import { createMemoryBackend } from '../storage/kvBackend';
+
+// Every encrypt / decrypt runs the full 600k-round key derivation
+jest.setTimeout(60000);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// In-memory stand-ins
+// Tables are keyed by their first column, which plays the primary key; an
+// `id` first column is handed out like AUTOINCREMENT on plain INSERT.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type Tables = Record<string, { columns: string[]; rows: Record<string, any>[] }>;
+
+class InMemoryDatabase implements MigrationDatabase {
+    private snapshot: Tables | null = null;
+
+    constructor(public tables: Tables, public userVersion: number) { }
+
+    async execAsync(source: string): Promise<void> {
+        if (source === 'BEGIN TRANSACTION') this.snapshot = JSON.parse(JSON.stringify(this.tables));
+        if (source === 'COMMIT') this.snapshot = null;
+        if (source === 'ROLLBACK' && this.snapshot) this.tables = this.snapshot;
+    }
+
+    async getFirstAsync<T>(source: string, params: any[] = []): Promise<T | null> {
+        if (source === 'PRAGMA user_version') return { user_version: this.userVersion } as unknown as T;
+        const lookup = source.match(/^SELECT id FROM (\w+) WHERE (.+) LIMIT 1$/);
+        if (lookup) {
+            const key = lookup[2].split(' AND ').map(c => c.replace(' IS ?', ''));
+            const row = this.tables[lookup[1]].rows.find(r => key.every((c, i) => r[c] === params[i]));
+            return row ? ({ id: row.id } as unknown as T) : null;
+        }
+        return null;
+    }
+
+    async getAllAsync<T>(source: string): Promise<T[]> {
+        if (source.includes('FROM sqlite_master')) {
+            return Object.keys(this.tables).sort().map(name => ({ name })) as unknown as T[];
+        }
+        const info = source.match(/^PRAGMA table_info\((\w+)\)$/);
+        if (info) return this.tables[info[1]].columns.map(name => ({ name })) as unknown as T[];
+        const select = source.match(/^SELECT \* FROM (\w+)$/);
+        if (select) return this.tables[select[1]].rows.map(r => ({ ...r })) as T[];
+        return [];
+    }
+
+    async runAsync(source: string, params: any[] = []): Promise<{ lastInsertRowId: number; changes: number }> {
+        const del = source.match(/^DELETE FROM (\w+)$/);
+        if (del) {
+            const changes = this.tables[del[1]].rows.length;
+            this.tables[del[1]].rows = [];
+            return { lastInsertRowId: 0, changes };
+        }
+        const update = source.match(/^UPDATE (\w+) SET (.+) WHERE id = \?$/);
+        if (update) {
+            const row = this.tables[update[1]].rows.find(r => r.id === params[params.length - 1])!;
+            update[2].split(', ').forEach((c, i) => { row[c.replace(' = ?', '')] = params[i]; });
+            return { lastInsertRowId: 0, changes: 1 };
+        }
+        const append = source.match(/^INSERT INTO (\w+) \(([^)]+)\)/);
+        if (append) {
+            const table = this.tables[append[1]];
+            const id = Math.max(0, ...table.rows.map(r => r.id)) + 1;
+            const row: Record<string, any> = {};
+            table.columns.forEach(c => { row[c] = null; });
+            append[2].split(', ').forEach((c, i) => { row[c] = params[i]; });
+            table.rows.push({ ...row, id });
+            return { lastInsertRowId: id, changes: 1 };
+        }
+        const insert = source.match(/^INSERT OR (IGNORE|REPLACE) INTO (\w+) \(([^)]+)\)/);
+        if (insert) {
+            const [, mode, name, colList] = insert;
+            const table = this.tables[name];
+            const row: Record<string, any> = {};
+            table.columns.forEach(c => { row[c] = null; });
+            colList.split(', ').forEach((c, i) => { row[c] = params[i]; });
+            if (row.boom) throw new Error('constraint failed');
+
+            const pk = table.columns[0];
+            const idx = table.rows.findIndex(r => r[pk] === row[pk]);
+            if (idx >= 0 && mode === 'IGNORE') return { lastInsertRowId: 0, changes: 0 };
+            if (idx >= 0) table.rows[idx] = row;
+            else table.rows.push(row);
+            return { lastInsertRowId: 0, changes: 1 };
+        }
+        throw new Error(`Unsupported SQL: ${source}`);
+    }
+}
+
+function memoryStorage(initial: Record<string, string> = {}) {
+    const data = new Map(Object.entries(initial));
+    return {
+        data,
+        getItem: async (k: string) => data.get(k) ?? null,
+        setItem: async (k: string, v: string) => { data.set(k, v); },
+        removeItem: async (k: string) => { data.delete(k); },
+    };
+}
+
+function makeSources(tables: Tables, userVersion = 2, kv: Record<string, string> = {}, stores: Record<string, string> = {}) {
+    const db = new InMemoryDatabase(tables, userVersion);
+    const backend = createMemoryBackend(new Map(Object.entries(kv)));
+    const storage = memoryStorage(stores);
+    const sources: BackupSources = { db, kv: backend, storage, storeKeys: ['astra-user'] };
+    return { db, backend, storage, sources };
+}
+
+function phoneA() {
+    return makeSources(
+        {
+            health_day_records: {
+                columns: ['date', 'input_json', 'cognitive_readiness'],
+                rows: [
+                    { date: '2024-03-01', input_json: '{"sleep_hours":7}', cognitive_readiness: 71 },
+                    { date: '2024-03-02', input_json: '{"sleep_hours":5}', cognitive_readiness: 48 },
+                ],
+            },
+            meditation_sessions: {
+                columns: ['id', 'date', 'rating', 'mss_at_time'],
+                rows: [{ id: 'm1', date: '2024-03-01', rating: 4, mss_at_time: 62 }],
+            },
+        },
+        2,
+        {
+            'onboarding.userProfile': JSON.stringify({ v: 1, data: { goalText: 'Ship the thesis' } }),
+            'onboarding.complete': JSON.stringify({ v: 1, data: true }),
+        },
+        { 'astra-user': '{"state":{"profile":{"id":"u1"}},"version":0}' },
+    );
+}
+
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Crypto primitives
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Bundle Crypto', () => {
+    test('AES-GCM opens what it sealed and rejects any change', () => {
+        const key = secureRandomSource(32);
+        const nonce = secureRandomSource(12);
+        const aad = utf8Encode('header');
+        const sealed = seal(key, nonce, utf8Encode('Ship the thesis'), aad);
+
+        expect(utf8Decode(open(key, nonce, sealed, aad))).toBe('Ship the thesis');
+        const flipped = Uint8Array.from(sealed);
+        flipped[0] ^= 1;
+        expect(() => open(key, nonce, flipped, aad)).toThrow();
+        expect(() => open(key, nonce, sealed, utf8Encode('Header'))).toThrow();
+    });
+
+    test('key derivation refuses fewer than 600k iterations', async () => {
+        expect(MIN_KDF_ITERATIONS).toBe(600000);
+        await expect(deriveKey('correct horse', new Uint8Array(16), 10000)).rejects.toThrow(/at least 600000/);
+    });
+
+    test('no CSPRNG → nothing is encrypted', async () => {
+        mockRandom.available = false;
+        try {
+            expect(() => secureRandomSource(16)).toThrow(/No secure random number generator/);
+            await expect(encryptBundle({} as any, 'correct horse')).rejects.toThrow(/No secure random/);
+        } finally {
+            mockRandom.available = true;
+        }
+    });
+
+    test('UTF-8 and base64 round-trip', () => {
+        const text = 'Fokus ✓ — 集中 🧘';
+        expect(utf8Decode(utf8Encode(text))).toBe(text);
+        for (const n of [0, 1, 2, 3, 31, 32, 33]) {
+            const bytes = Uint8Array.from({ length: n }, (_, i) => (i * 37) & 0xff);
+            expect(Array.from(fromBase64(toBase64(bytes)))).toEqual(Array.from(bytes));
+        }
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Encrypt / Decrypt
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Encrypted Bundle', () => {
+    test('round-trips with the right passphrase; wrong passphrase or tampering → rejected', async () => {
+        const bundle = await createBackupBundle(phoneA().sources);
+        const encrypted = await encryptBundle(bundle, 'correct horse');
+
+        expect(encrypted).toMatchObject({ cipher: 'aes-256-gcm', kdf: { iterations: 600000 } });
+        expect(encrypted.ciphertext).not.toContain('thesis');
+        expect(await decryptBundle(encrypted, 'correct horse')).toEqual(bundle);
+
+        await expect(decryptBundle(encrypted, 'wrong horse!')).rejects.toThrow(/Wrong passphrase/);
+
+        const bytes = fromBase64(encrypted.ciphertext);
+        bytes[0] ^= 1;
+        await expect(decryptBundle({ ...encrypted, ciphertext: toBase64(bytes) }, 'correct horse'))
+            .rejects.toThrow(/Wrong passphrase or corrupted/);
+        await expect(decryptBundle({ ...encrypted, kdf: { ...encrypted.kdf, iterations: 3 } }, 'correct horse'))
+            .rejects.toThrow(/too weak/);
+        await expect(decryptBundle({ ...encrypted, cipher: 'hmac-sha256-ctr' } as any, 'correct horse'))
+            .rejects.toThrow(/Unsupported backup encryption/);
+    });
+
+    test('short passphrase or weak key derivation → refused', async () => {
+        const { sources } = phoneA();
+        await expect(encryptBundle({} as any, 'short')).rejects.toThrow(/at least 8/);
+        await expect(exportEncryptedBackup(sources, 'short')).rejects.toThrow(/at least 8/);
+        await expect(encryptBundle({} as any, 'correct horse', { iterations: 10000 })).rejects.toThrow(/at least 600000/);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Device migration
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Export → Import', () => {
+    test('empty new phone receives tables, KV entries and stores', async () => {
+        const a = phoneA();
+        const payload = await exportEncryptedBackup(a.sources, 'correct horse');
+
+        const b = makeSources({
+            health_day_records: { columns: ['date', 'input_json', 'cognitive_readiness'], rows: [] },
+            meditation_sessions: { columns: ['id', 'date', 'rating', 'mss_at_time'], rows: [] },
+        });
+        const report = await importEncryptedBackup(b.sources, payload, 'correct horse');
+
+        expect(report.rowsWritten).toBe(3);
+        expect(report.tablesSkipped).toEqual([]);
+        expect(b.db.tables.health_day_records.rows).toEqual(a.db.tables.health_day_records.rows);
+        expect(b.backend.getString('onboarding.complete')).toBe(a.backend.getString('onboarding.complete'));
+        expect(b.storage.data.get('astra-user')).toBe(a.storage.data.get('astra-user'));
+    });
+
+    test('conflict policies decide who wins on matching keys', async () => {
+        const bundle = await createBackupBundle(phoneA().sources);
+        const local = () => makeSources(
+            {
+                health_day_records: {
+                    columns: ['date', 'input_json', 'cognitive_readiness'],
+                    rows: [
+                        { date: '2024-03-02', input_json: '{}', cognitive_readiness: 90 },
+                        { date: '2024-03-09', input_json: '{}', cognitive_readiness: 55 },
+                    ],
+                },
+                meditation_sessions: { columns: ['id', 'date', 'rating', 'mss_at_time'], rows: [] },
+            },
+            2,
+            { 'onboarding.complete': JSON.stringify({ v: 1, data: false }), 'local.only': '"x"' },
+        );
+
+        const keep = local();
+        const keepReport = await restoreBackupBundle(keep.sources, bundle, 'keep-local');
+        expect(keepReport.rowsKept).toBe(1);
+        expect(keep.db.tables.health_day_records.rows.find(r => r.date === '2024-03-02')!.cognitive_readiness).toBe(90);
+        expect(keep.backend.getString('onboarding.complete')).toContain('false');
+
+        const prefer = local();
+        await restoreBackupBundle(prefer.sources, bundle, 'prefer-bundle');
+        expect(prefer.db.tables.health_day_records.rows.find(r => r.date === '2024-03-02')!.cognitive_readiness).toBe(48);
+        expect(prefer.db.tables.health_day_records.rows).toHaveLength(3);
+        expect(prefer.backend.getString('onboarding.complete')).toContain('true');
+
+        const replace = local();
+        await restoreBackupBundle(replace.sources, bundle, 'replace-all');
+        expect(replace.db.tables.health_day_records.rows.map(r => r.date)).toEqual(['2024-03-01', '2024-03-02']);
+        expect(replace.backend.getString('local.only')).toBeUndefined();
+    });
+
+    test('AUTOINCREMENT rows are matched on their natural key and renumbered, references follow', async () => {
+        const tables = (): Tables => ({
+            pomodoro_sessions: { columns: ['id', 'start_time', 'was_successful'], rows: [] },
+            directive_log: { columns: ['id', 'generated_at', 'strategy_type'], rows: [] },
+            directive_nudges: { columns: ['nudge_id', 'directive_id', 'follow_up_session_id'], rows: [] },
+            planned_blocks: { columns: ['id', 'day', 'session_id'], rows: [] },
+        });
+        const exported = tables();
+        exported.pomodoro_sessions.rows.push(
+            { id: 1, start_time: 1000, was_successful: 1 },
+            { id: 2, start_time: 2000, was_successful: 1 },
+        );
+        exported.directive_log.rows.push({ id: 1, generated_at: 500, strategy_type: 'protect' });
+        exported.directive_nudges.rows.push({ nudge_id: 'n1', directive_id: 1, follow_up_session_id: 1 });
+        exported.planned_blocks.rows.push({ id: 'b1', day: '2024-03-01', session_id: 2 });
+        const bundle = await createBackupBundle(makeSources(exported).sources);
+
+        // Local id 1 is an unrelated session; local id 2 is the bundle's session 2
+        const local = () => {
+            const t = tables();
+            t.pomodoro_sessions.rows.push(
+                { id: 1, start_time: 9000, was_successful: 1 },
+                { id: 2, start_time: 2000, was_successful: 0 },
+            );
+            t.directive_log.rows.push({ id: 1, generated_at: 800, strategy_type: 'recover' });
+            return makeSources(t);
+        };
+
+        const keep = local();
+        const report = await restoreBackupBundle(keep.sources, bundle, 'keep-local');
+        expect(report).toMatchObject({ rowsWritten: 4, rowsKept: 1 });
+        expect(keep.db.tables.pomodoro_sessions.rows).toEqual([
+            { id: 1, start_time: 9000, was_successful: 1 },
+            { id: 2, start_time: 2000, was_successful: 0 },
+            { id: 3, start_time: 1000, was_successful: 1 },
+        ]);
+        expect(keep.db.tables.directive_log.rows.map(r => r.id)).toEqual([1, 2]);
+        expect(keep.db.tables.directive_nudges.rows[0]).toEqual({ nudge_id: 'n1', directive_id: 2, follow_up_session_id: 3 });
+        expect(keep.db.tables.planned_blocks.rows[0].session_id).toBe(2);
+
+        const prefer = local();
+        await restoreBackupBundle(prefer.sources, bundle, 'prefer-bundle');
+        expect(prefer.db.tables.pomodoro_sessions.rows).toEqual([
+            { id: 1, start_time: 9000, was_successful: 1 },
+            { id: 2, start_time: 2000, was_successful: 1 },
+            { id: 3, start_time: 1000, was_successful: 1 },
+        ]);
+        expect(prefer.db.tables.directive_log.rows[0].strategy_type).toBe('recover');
+    });
+
+    test('older schema → unknown columns/tables dropped; newer schema → refused', async () => {
+        const bundle = await createBackupBundle(phoneA().sources);
+
+        const older = makeSources({
+            meditation_sessions: { columns: ['id', 'date', 'rating'], rows: [] },
+        });
+        const report = await restoreBackupBundle(older.sources, bundle);
+        expect(report.tablesSkipped).toEqual(['health_day_records']);
+        expect(older.db.tables.meditation_sessions.rows[0]).toEqual({ id: 'm1', date: '2024-03-01', rating: 4 });
+
+        const outdatedApp = makeSources({}, 1);
+        await expect(restoreBackupBundle(outdatedApp.sources, bundle)).rejects.toThrow(/Update the app first/);
+    });
+
+    test('failed row write → every table rolled back, KV untouched', async () => {
+        const bundle = await createBackupBundle(phoneA().sources);
+        bundle.tables.meditation_sessions.push({ id: 'm2', date: '2024-03-03', rating: 3, boom: 1 } as any);
+
+        const b = makeSources({
+            health_day_records: { columns: ['date', 'input_json', 'cognitive_readiness'], rows: [] },
+            meditation_sessions: { columns: ['id', 'date', 'rating', 'boom'], rows: [] },
+        });
+        await expect(restoreBackupBundle(b.sources, bundle)).rejects.toThrow('constraint failed');
+        expect(b.db.tables.health_day_records.rows).toHaveLength(0);
+        expect(b.backend.getAllKeys()).toHaveLength(0);
+    });
+});
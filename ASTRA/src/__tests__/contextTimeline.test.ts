@@ -0,0 +1,183 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Agent — Unit Tests for the Context Timeline
+// Hysteresis, minimum dwell, urgent switches and the day's mode spans
+// ─────────────────────────────────────────────────────────────────────────────
+
+jest.mock('../modules/agent/engine/contextCollector', () => ({
+    collectAgentContext: jest.fn(),
+    generateModuleMessages: () => ({ dashboard: 'd', focus: 'f', meditation: 'm', health: 'h' }),
+}));
+
+import {
+    CONTEXT_HYSTERESIS,
+    describeContextSpan,
+    emptyContextHistory,
+    formatClock,
+    getContextTimeline,
+    stabilizeContext,
+    type ContextHistory,
+} from '../modules/agent/engine/contextTimeline';
+import { runOrchestrator } from '../modules/agent/engine/orchestrator';
+import { createDirectiveCache } from '../modules/agent/engine/directiveCache';
+import { createMockProvider } from '../modules/agent/llm/providers';
+import type { AgentContext } from '../modules/agent/engine/contextCollector';
+import type { ContextMode, ContextState } from '../modules/agent/types/orchestratorTypes';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+import { getContextHistory } from '../storage/mmkvStore';
+
+const at = (hour: number, minute = 0) => new Date(2026, 9, 18, hour, minute).getTime();
+const raw = (mode: ContextMode, confidence = 0.55): ContextState => ({ mode, confidence, signals: [mode] });
+
+/** Feed readings in order, returning the stabilized mode after each. */
+function replay(readings: [number, ContextState][], start: ContextHistory = emptyContextHistory()) {
+    let history = start;
+    const modes: ContextMode[] = [];
+    for (const [now, reading] of readings) {
+        const result = stabilizeContext(history, reading, now);
+        history = result.history;
+        modes.push(result.context.mode);
+    }
+    return { history, modes };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Hysteresis
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Hysteresis', () => {
+    test('a borderline user no longer flips on every refresh', () => {
+        const { modes, history } = replay([
+            [at(9), raw('maintenance')],
+            [at(9, 5), raw('drifting')],
+            [at(9, 10), raw('maintenance')],
+            [at(9, 15), raw('opportunity-window')],
+            [at(9, 20), raw('maintenance')],
+        ]);
+        expect(modes).toEqual(['maintenance', 'maintenance', 'maintenance', 'maintenance', 'maintenance']);
+        expect(history.spans).toHaveLength(1);
+    });
+
+    test('held mode reports the challenger as secondary', () => {
+        const { history } = replay([[at(9), raw('maintenance')]]);
+        const { context } = stabilizeContext(history, raw('drifting'), at(9, 5));
+        expect(context).toMatchObject({ mode: 'maintenance', secondaryMode: 'drifting', since: at(9) });
+    });
+
+    test('a persistent challenger takes over after the dwell time, dated from when it appeared', () => {
+        const { modes, history } = replay([
+            [at(13), raw('maintenance')],
+            [at(14), raw('drifting')],
+            [at(14, 5), raw('drifting')],
+            [at(14, 10), raw('drifting')],
+        ]);
+        expect(modes).toEqual(['maintenance', 'maintenance', 'maintenance', 'drifting']);
+        expect(history.spans.map(s => [s.mode, s.start, s.end])).toEqual([
+            ['maintenance', at(13), at(14)],
+            ['drifting', at(14), at(14, 10)],
+        ]);
+    });
+
+    test('a clearly stronger reading switches once the dwell time is met', () => {
+        const { history } = replay([[at(9), raw('maintenance', 0.5)]]);
+        const early = at(9) + CONTEXT_HYSTERESIS.minDwellMs - 60_000;
+        expect(stabilizeContext(history, raw('performance-ready', 0.9), early).context.mode).toBe('maintenance');
+
+        const late = at(9) + CONTEXT_HYSTERESIS.minDwellMs;
+        const result = stabilizeContext(history, raw('performance-ready', 0.9), late);
+        expect(result.switched).toBe(true);
+        expect(result.context).toMatchObject({ mode: 'performance-ready', previousMode: 'maintenance' });
+    });
+
+    test('depleted states switch in immediately', () => {
+        const { modes } = replay([
+            [at(9), raw('performance-ready')],
+            [at(9, 1), raw('overloaded', 0.4)],
+        ]);
+        expect(modes).toEqual(['performance-ready', 'overloaded']);
+    });
+
+    test('a stale history starts fresh', () => {
+        const { history } = replay([[at(8), raw('drifting')]]);
+        const later = at(8) + CONTEXT_HYSTERESIS.staleAfterMs + 60_000;
+        expect(stabilizeContext(history, raw('maintenance'), later).context.mode).toBe('maintenance');
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Timeline
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Context Timeline', () => {
+    test("today's spans, clipped at midnight, with the current one described", () => {
+        const { history } = replay([
+            [at(23) - 24 * 3_600_000, raw('maintenance')],
+            [at(13), raw('maintenance')],
+            [at(14), raw('drifting')],
+            [at(14, 30), raw('drifting')],
+        ]);
+        const timeline = getContextTimeline(history, at(15));
+
+        expect(timeline.spans.map(s => s.mode)).toEqual(['maintenance', 'drifting']);
+        expect(describeContextSpan(timeline.current!)).toBe('drifting since 2pm');
+        expect(getContextTimeline(history, at(14, 30) + CONTEXT_HYSTERESIS.staleAfterMs + 1).current).toBeNull();
+    });
+
+    test('clock labels', () => {
+        expect(formatClock(at(0))).toBe('12am');
+        expect(formatClock(at(9, 5))).toBe('9:05am');
+        expect(formatClock(at(12, 30))).toBe('12:30pm');
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Orchestrator
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Orchestrator', () => {
+    const AGENT_CONTEXT = {
+        profile: null, personalization: null, healthRecord: null, healthFlags: [],
+        cognitiveReadiness: 60, stressLevel: 3, fatigueLevel: 3, sleepHours: 7,
+        meditationSessionCount: 1, meditationTotalMinutes: 10, meditationAvgRating: 4,
+        mss: 50, lastMeditationType: null, currentAFI: 0.5, currentCRS: 60,
+        activeGoalName: null, completedSessionsToday: 0, distractiveAppNames: [],
+        isInFocusSession: false, habitStreak: 1, complianceRate: 0.6, distractionRate: 0.4,
+    } as AgentContext;
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => { });
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    test('holds the stored mode, traces it and tells the LLM since when', async () => {
+        setKeyValueBackend(createMemoryBackend());
+        const prompts: string[] = [];
+        const llm = createMockProvider(messages => {
+            prompts.push(messages.map(m => m.content).join('\n'));
+            return '{}';
+        });
+        const history: ContextHistory = {
+            spans: [{ mode: 'opportunity-window', start: at(14), end: at(14, 5), confidence: 0.6, signals: ['x'] }],
+            pending: null,
+        };
+
+        const directive = await runOrchestrator(null, null, null, 0, 0, 0, 0, 0, {
+            llm, agentContext: AGENT_CONTEXT, cache: createDirectiveCache(), bandit: null,
+            contextHistory: history, now: at(14, 10),
+        });
+
+        expect(directive.contextState.mode).toBe('opportunity-window');
+        expect(directive.trace!.find(e => e.step === 'Hysteresis')!.outcome).toBe('Held opportunity-window');
+        expect(prompts[0]).toContain('Timeline: opportunity window since 2pm');
+        expect(getContextHistory()).toEqual(emptyContextHistory());
+    });
+
+    test('stored history is updated between runs', async () => {
+        setKeyValueBackend(createMemoryBackend());
+        const llm = createMockProvider(() => '{}');
+        await runOrchestrator(null, null, null, 0, 0, 0, 0, 0, {
+            llm, agentContext: AGENT_CONTEXT, cache: createDirectiveCache(), bandit: null, now: at(9),
+        });
+        expect(getContextHistory().spans).toHaveLength(1);
+        expect(getContextHistory().spans[0].start).toBe(at(9));
+    });
+});
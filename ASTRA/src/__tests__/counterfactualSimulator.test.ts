@@ -0,0 +1,262 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Agent — Unit Tests for the Counterfactual Simulator
+// Policy thresholds, UserState reconstruction, replay diffs and the report
+// ─────────────────────────────────────────────────────────────────────────────
+
+jest.mock('../modules/agent/engine/contextCollector', () => ({
+    collectAgentContext: jest.fn(),
+    generateModuleMessages: () => ({ dashboard: 'd', focus: 'f', meditation: 'm', health: 'h' }),
+}));
+
+import { DEFAULT_ORCHESTRATOR_POLICY, applyPolicyOverride } from '../modules/agent/policy/orchestratorPolicy';
+import type { OrchestratorPolicy, OrchestratorPolicyOverride } from '../modules/agent/policy/policyTypes';
+import { buildUserState } from '../modules/agent/engine/stateIngestion';
+import { inferContext } from '../modules/agent/engine/contextInference';
+import { computeBehavioralGap } from '../modules/agent/engine/behavioralGap';
+import {
+    formatSimulationReport,
+    reconstructUserState,
+    replayTime,
+    simulateHistory,
+} from '../modules/agent/simulation/counterfactualSimulator';
+import type { SimulationHistory } from '../modules/agent/simulation/simulationTypes';
+import type { HealthDayRecord } from '../modules/shared/types';
+import type { PomodoroSession } from '../modules/focusTrainer/models/types';
+import type { ContextMode, DirectiveAuditRecord, StrategyType, TraceEntry } from '../modules/agent/types/orchestratorTypes';
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+function health(date: string, { stress = 2, fatigue = 2, sleep = 7.5, readiness = 60 } = {}): HealthDayRecord {
+    return {
+        input: {
+            date, sleep_hours: sleep, sleep_quality: 3, sleep_disturbances: 0,
+            stress_level: stress, fatigue_level: fatigue,
+        } as HealthDayRecord['input'],
+        computed: {
+            SleepScore: 60, SleepQualityScore: 60, HRVScore: 50, StressScore: 50, FatigueScore: 50,
+            RecoveryScore: 50, ExerciseScore: 50, HydrationScore: 50, SedentaryScore: 50, LifestyleScore: 50,
+            CognitiveReadiness: readiness,
+            AttentionCapacity: { level: 'moderate', minutes: 25 },
+        },
+        flags: [],
+        recommendations: [],
+    };
+}
+
+function pomodoro(startTime: number, wasSuccessful = true, minutes = 25): PomodoroSession {
+    return {
+        startTime,
+        endTime: startTime + minutes * MINUTE,
+        plannedDuration: 25 * MINUTE,
+        actualDuration: minutes * MINUTE,
+        wasSuccessful,
+        breakDuration: 5 * MINUTE,
+    };
+}
+
+let nextId = 1;
+function directive(
+    generatedAt: number,
+    contextMode: ContextMode,
+    strategyType: StrategyType,
+    outcome: 'accepted' | 'dismissed' | null = null,
+): DirectiveAuditRecord {
+    const id = nextId++;
+    return {
+        id,
+        generatedAt,
+        contextMode,
+        contextConfidence: 0.7,
+        gap: { overall: 0.3, level: 'moderate', breakdown: {} as any, primaryTension: '' },
+        strategyType,
+        tone: 'supportive',
+        strictness: 2,
+        source: 'template',
+        rationale: '',
+        policyVersion: null,
+        nudge: {
+            nudgeId: `nudge_${id}`,
+            directiveId: id,
+            title: 'Nudge',
+            message: '',
+            tone: 'supportive',
+            priority: 'medium',
+            shownAt: generatedAt,
+            outcome,
+            outcomeAt: outcome ? generatedAt + MINUTE : null,
+            snoozeCount: 0,
+            followUpSessionId: null,
+            followUpAt: null,
+        },
+    };
+}
+
+function withOverride(override: OrchestratorPolicyOverride): OrchestratorPolicy {
+    return applyPolicyOverride(override).value!;
+}
+
+function history(overrides: Partial<SimulationHistory> = {}): SimulationHistory {
+    return {
+        profile: null,
+        healthRecords: [],
+        meditationDays: [],
+        meditationSessions: [],
+        pomodoros: [],
+        complianceEvents: [],
+        directives: [],
+        ...overrides,
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Policy Thresholds
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Policy Thresholds', () => {
+    const stressed = buildUserState(null, null, health('2026-10-12', { stress: 4, fatigue: 5, readiness: 45 }), 50, 0.5, 0, 0, 0);
+
+    test('the bundled policy leaves the live rules unchanged', () => {
+        expect(inferContext(stressed, undefined, DEFAULT_ORCHESTRATOR_POLICY)).toEqual(inferContext(stressed));
+        expect(inferContext(stressed).mode).toBe('overloaded');
+    });
+
+    test('overrides merge per rule without touching the defaults', () => {
+        const policy = withOverride({ context: { overloaded: { minStress: 5 } }, gap: { levels: { critical: 0.9 } } });
+        expect(policy.context.overloaded).toEqual({ minStress: 5, minFatigue: 4 });
+        expect(policy.gap.levels).toEqual({ moderate: 0.2, high: 0.45, critical: 0.9 });
+        expect(policy.context.minConfidence).toBe(0.3);
+        expect(DEFAULT_ORCHESTRATOR_POLICY.context.overloaded.minStress).toBe(4);
+        expect(inferContext(stressed, undefined, policy).mode).toBe('cognitively-fatigued');
+    });
+
+    test('traces quote the thresholds in use', () => {
+        const trace: TraceEntry[] = [];
+        computeBehavioralGap(stressed, trace, withOverride({ gap: { levels: { moderate: 0.05 } } }));
+        const score = trace.find(t => t.step === 'Gap score')!;
+        expect(score.thresholds.join(' ')).toMatch(/0\.05/);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// State Reconstruction
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('State Reconstruction', () => {
+    const day = '2026-10-14';
+    const at = replayTime(day);
+
+    test("uses the day's check-in and the replay hour", () => {
+        const state = reconstructUserState(history({
+            healthRecords: [health('2026-10-13', { stress: 1 }), health(day, { stress: 4, fatigue: 3, readiness: 45 })],
+        }), day, at);
+        expect(state.timestamp).toBe(at);
+        expect(state.dynamic).toMatchObject({ stressLevel: 4, fatigueLevel: 3, cognitiveReadiness: 0.45, hourOfDay: 12 });
+    });
+
+    test('derives habits and behavior from sessions before the replay moment only', () => {
+        const state = reconstructUserState(history({
+            pomodoros: [
+                pomodoro(at - 3 * DAY),
+                pomodoro(at - 2 * DAY),
+                pomodoro(at - DAY, false, 10),
+                pomodoro(at - DAY + 2 * 60 * MINUTE),
+                pomodoro(at - 10 * DAY),      // outside the week
+                pomodoro(at + 60 * MINUTE),   // after the replay moment
+            ],
+        }), day, at);
+        expect(state.semiDynamic.weeklyFocusMinutes).toBe(25 + 25 + 10 + 25);
+        expect(state.semiDynamic.habitStreak).toBe(3);
+        expect(state.behavioral.sessionSurvivalRate).toBeCloseTo(4 / 5);
+        expect(state.behavioral.daysSinceLastFocus).toBe(0);
+        expect(state.behavioral.lastSessionWasSuccessful).toBe(true);
+    });
+
+    test('dismissed nudges build intervention fatigue and today’s dismiss rate', () => {
+        const calm = reconstructUserState(history(), day, at);
+        const dismissive = reconstructUserState(history({
+            directives: [
+                directive(at - 3 * 60 * MINUTE, 'drifting', 'enforcing', 'dismissed'),
+                directive(at - 2 * 60 * MINUTE, 'drifting', 'enforcing', 'dismissed'),
+                directive(at + 60 * MINUTE, 'drifting', 'enforcing', 'dismissed'),
+            ],
+        }), day, at);
+        expect(calm.behavioral.interventionFatigue).toBe(0);
+        expect(dismissive.behavioral.interventionFatigue).toBeGreaterThan(0.2);
+        expect(dismissive.behavioral.nudgeDismissRate).toBe(1);
+        expect(dismissive.behavioral.consecutiveDismissals).toBe(2);
+    });
+
+    test('nudges that were queued but never delivered add no fatigue', () => {
+        const undelivered = Array.from({ length: 30 }, (_, i) => {
+            const logged = directive(at - (i + 1) * 2 * MINUTE, 'drifting', 'enforcing');
+            return { ...logged, nudge: { ...logged.nudge!, shownAt: null, outcome: 'superseded' as const } };
+        });
+        const state = reconstructUserState(history({ directives: undelivered }), day, at);
+        expect(state.behavioral.interventionFatigue).toBe(0);
+        expect(state.behavioral.nudgeDismissRate).toBe(0);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Replay & Diff
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Replay & Diff', () => {
+    const overloadedDay = '2026-10-12';
+    const calmDay = '2026-10-13';
+    const stored = history({
+        healthRecords: [
+            health(overloadedDay, { stress: 4, fatigue: 5, readiness: 45 }),
+            health(calmDay),
+        ],
+        directives: [
+            directive(replayTime(overloadedDay, 9), 'overloaded', 'recovery-first'),
+            directive(replayTime(overloadedDay, 10), 'overloaded', 'recovery-first'),
+            directive(replayTime(overloadedDay, 11), 'cognitively-fatigued', 'recovery-first'),
+        ],
+    });
+    const alternative = withOverride({ context: { overloaded: { minStress: 5 } } });
+
+    test('the baseline replay matches what was issued', () => {
+        const report = simulateHistory(stored, alternative);
+        const overloaded = report.days.find(d => d.day === overloadedDay)!;
+        expect(overloaded.actual).toMatchObject({ directives: 3, contextMode: 'overloaded', nudgesShown: 3 });
+        expect(overloaded.baseline).toMatchObject({ contextMode: 'overloaded', strategyType: 'recovery-first' });
+        expect(report.summary.agreement.baseline.contextMode).toBe(1);
+        expect(report.summary.agreement.baseline.strategyType).toBe(1);
+    });
+
+    test('an alternative policy shows up as diffs against issued and baseline', () => {
+        const report = simulateHistory(stored, alternative);
+        const overloaded = report.days.find(d => d.day === overloadedDay)!;
+        expect(overloaded.alternative.contextMode).toBe('cognitively-fatigued');
+        expect(overloaded.changedFromActual).toContain('contextMode');
+        expect(overloaded.changedFromBaseline).toEqual(['contextMode']);
+        expect(report.summary.agreement.alternative.contextMode).toBe(0);
+        expect(report.summary.modeShifts).toEqual({ 'overloaded → cognitively-fatigued': 1 });
+        expect(report.summary.daysChangedByPolicy).toBe(1);
+    });
+
+    test('days without directives are replayed but not scored', () => {
+        const report = simulateHistory(stored, alternative);
+        expect(report.days.map(d => d.day)).toEqual([overloadedDay, calmDay]);
+        expect(report.days[1].actual).toBeNull();
+        expect(report.days[1].changedFromActual).toEqual([]);
+        expect(report.summary).toMatchObject({ days: 2, daysWithActual: 1 });
+    });
+
+    test('from/to limit the replayed days', () => {
+        const report = simulateHistory(stored, alternative, { from: calmDay });
+        expect(report.days.map(d => d.day)).toEqual([calmDay]);
+        expect(report).toMatchObject({ from: calmDay, to: calmDay });
+    });
+
+    test('the report lists agreement, shifts and per-day decisions', () => {
+        const text = formatSimulationReport(simulateHistory(stored, alternative), { details: true });
+        expect(text).toContain(`${overloadedDay} → ${calmDay}: 2 days, 1 with issued directives`);
+        expect(text).toMatch(/Context mode\s+100% \/ 0%/);
+        expect(text).toContain('overloaded → cognitively-fatigued ×1');
+        expect(text).toContain(`${overloadedDay}  overloaded/recovery-first | overloaded/recovery-first | cognitively-fatigued/recovery-first *`);
+    });
+});
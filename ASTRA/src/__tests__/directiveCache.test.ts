@@ -0,0 +1,167 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Agent — Unit Tests for the Directive Cache
+// Fingerprint quantization and prompt context, TTL and coalescing of concurrent runs
+// ─────────────────────────────────────────────────────────────────────────────
+
+jest.mock('../modules/agent/engine/contextCollector', () => ({
+    collectAgentContext: jest.fn(),
+    generateModuleMessages: () => ({ dashboard: 'd', focus: 'f', meditation: 'm', health: 'h' }),
+}));
+
+import { buildUserState } from '../modules/agent/engine/stateIngestion';
+import { inferContext } from '../modules/agent/engine/contextInference';
+import { computeBehavioralGap } from '../modules/agent/engine/behavioralGap';
+import { createDirectiveCache, fingerprintDirectiveInputs } from '../modules/agent/engine/directiveCache';
+import { runOrchestrator } from '../modules/agent/engine/orchestrator';
+import { createMockProvider } from '../modules/agent/llm/providers';
+import type { AgentContext } from '../modules/agent/engine/contextCollector';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+
+function fingerprint(mss: number, afi: number): string {
+    const state = buildUserState(null, null, null, mss, afi, 2, 20, 4);
+    return fingerprintDirectiveInputs(state, inferContext(state), computeBehavioralGap(state));
+}
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+    setKeyValueBackend(createMemoryBackend());
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Fingerprint
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Fingerprint', () => {
+    test('ignores jitter below the quantization step', () => {
+        expect(fingerprint(61, 0.42)).toBe(fingerprint(63, 0.44));
+    });
+
+    test('changes when a signal moves a full bucket', () => {
+        expect(fingerprint(60, 0.4)).not.toBe(fingerprint(60, 0.8));
+        expect(fingerprint(30, 0.4)).not.toBe(fingerprint(80, 0.4));
+    });
+
+    test('changes with the goal, sessions and mode span the prompt quotes', () => {
+        const state = buildUserState(null, null, null, 60, 0.4, 2, 20, 4);
+        const context = inferContext(state);
+        const gap = computeBehavioralGap(state);
+        const ctx = {
+            profile: { goalText: 'Ship the thesis' }, activeGoalName: null,
+            completedSessionsToday: 0, isInFocusSession: false,
+        } as AgentContext;
+        const base = fingerprintDirectiveInputs(state, context, gap, ctx);
+
+        for (const changed of [
+            { ...ctx, activeGoalName: 'Chapter 3' },
+            { ...ctx, profile: { goalText: 'Run a marathon' } } as AgentContext,
+            { ...ctx, completedSessionsToday: 1 },
+            { ...ctx, isInFocusSession: true },
+        ]) {
+            expect(fingerprintDirectiveInputs(state, context, gap, changed)).not.toBe(base);
+        }
+        expect(fingerprintDirectiveInputs(state, { ...context, since: 1_000 }, gap, ctx)).not.toBe(base);
+        expect(fingerprintDirectiveInputs(state, context, gap, { ...ctx })).toBe(base);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Cache
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Cache', () => {
+    test('hit until the TTL expires', async () => {
+        let t = 0;
+        const cache = createDirectiveCache({ ttlMs: 1000, now: () => t });
+        const compute = jest.fn(async () => ({ nudgeTitle: 'A' }));
+
+        expect((await cache.getOrCompute('k', compute)).lookup).toBe('miss');
+        t = 999;
+        expect((await cache.getOrCompute('k', compute)).lookup).toBe('hit');
+        t = 1000;
+        expect((await cache.getOrCompute('k', compute)).lookup).toBe('miss');
+        expect(compute).toHaveBeenCalledTimes(2);
+    });
+
+    test('null results are not cached', async () => {
+        const cache = createDirectiveCache();
+        const compute = jest.fn(async () => null);
+
+        await cache.getOrCompute('k', compute);
+        await cache.getOrCompute('k', compute);
+        expect(compute).toHaveBeenCalledTimes(2);
+        expect(cache.size).toBe(0);
+    });
+
+    test('concurrent lookups share one in-flight request', async () => {
+        const cache = createDirectiveCache();
+        let release!: () => void;
+        const compute = jest.fn(() => new Promise<{ nudgeTitle: string }>(resolve => {
+            release = () => resolve({ nudgeTitle: 'shared' });
+        }));
+
+        const a = cache.getOrCompute('k', compute);
+        const b = cache.getOrCompute('k', compute);
+        release();
+
+        expect((await a).lookup).toBe('miss');
+        expect(await b).toEqual({ value: { nudgeTitle: 'shared' }, lookup: 'coalesced' });
+        expect(compute).toHaveBeenCalledTimes(1);
+    });
+
+    test('evicts the oldest entry past maxEntries', async () => {
+        const cache = createDirectiveCache({ maxEntries: 2 });
+        const compute = jest.fn(async () => ({ nudgeTitle: 'x' }));
+        for (const key of ['a', 'b', 'c']) await cache.getOrCompute(key, compute);
+
+        expect(cache.size).toBe(2);
+        expect((await cache.getOrCompute('a', compute)).lookup).toBe('miss');
+        expect((await cache.getOrCompute('c', compute)).lookup).toBe('hit');
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Orchestrator Integration
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Orchestrator', () => {
+    const agentContext = {
+        profile: null, personalization: null, healthRecord: null, healthFlags: [],
+        cognitiveReadiness: 60, stressLevel: 3, fatigueLevel: 3, sleepHours: 7,
+        meditationSessionCount: 1, meditationTotalMinutes: 10, meditationAvgRating: 4,
+        mss: 50, lastMeditationType: null, currentAFI: 0.5, currentCRS: 60,
+        activeGoalName: null, completedSessionsToday: 0, distractiveAppNames: [],
+        isInFocusSession: false, habitStreak: 1, complianceRate: 0.6, distractionRate: 0.4,
+    } as AgentContext;
+
+    test('repeated and concurrent runs make a single LLM call', async () => {
+        const respond = jest.fn(() => JSON.stringify({ dashboardMessage: 'cached voice' }));
+        const llm = createMockProvider(respond);
+        const cache = createDirectiveCache();
+        const run = () => runOrchestrator(null, null, null, 0, 0, 0, 0, 0, { llm, cache, agentContext });
+
+        const [first, second] = await Promise.all([run(), run()]);
+        const third = await run();
+
+        expect(respond).toHaveBeenCalledTimes(1);
+        expect(cache.stats).toEqual({ hits: 1, misses: 1, coalesced: 1 });
+        for (const d of [first, second, third]) {
+            expect(d.source).toBe('hybrid');
+            expect(d.moduleMessages.dashboard).toBe('cached voice');
+        }
+    });
+
+    test('starting a focus session asks the LLM again', async () => {
+        const respond = jest.fn(() => JSON.stringify({ dashboardMessage: 'fresh voice' }));
+        const llm = createMockProvider(respond);
+        const cache = createDirectiveCache();
+
+        await runOrchestrator(null, null, null, 0, 0, 0, 0, 0, { llm, cache, agentContext });
+        await runOrchestrator(null, null, null, 0, 0, 0, 0, 0, {
+            llm, cache, agentContext: { ...agentContext, isInFocusSession: true, activeGoalName: 'Essay' },
+        });
+
+        expect(respond).toHaveBeenCalledTimes(2);
+        expect(cache.stats).toMatchObject({ hits: 0, misses: 2 });
+    });
+});
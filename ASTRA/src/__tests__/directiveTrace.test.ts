@@ -0,0 +1,122 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Agent — Unit Tests for the Directive Trace
+// Every stage reports its inputs, thresholds and branch; LLM overrides too
+// ─────────────────────────────────────────────────────────────────────────────
+
+jest.mock('../modules/agent/engine/contextCollector', () => ({
+    collectAgentContext: jest.fn(),
+    generateModuleMessages: () => ({ dashboard: 'd', focus: 'f', meditation: 'm', health: 'h' }),
+}));
+
+import { buildUserState } from '../modules/agent/engine/stateIngestion';
+import { inferContext } from '../modules/agent/engine/contextInference';
+import { computeBehavioralGap } from '../modules/agent/engine/behavioralGap';
+import { selectStrategy } from '../modules/agent/engine/strategySelector';
+import { groupTraceByStage } from '../modules/agent/engine/directiveTrace';
+import { runOrchestrator } from '../modules/agent/engine/orchestrator';
+import { createDirectiveCache } from '../modules/agent/engine/directiveCache';
+import { createMockProvider } from '../modules/agent/llm/providers';
+import type { AgentContext } from '../modules/agent/engine/contextCollector';
+import type { TraceEntry } from '../modules/agent/types/orchestratorTypes';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+
+const AGENT_CONTEXT = {
+    profile: null, personalization: null, healthRecord: null, healthFlags: [],
+    cognitiveReadiness: 60, stressLevel: 3, fatigueLevel: 3, sleepHours: 7,
+    meditationSessionCount: 1, meditationTotalMinutes: 10, meditationAvgRating: 4,
+    mss: 50, lastMeditationType: null, currentAFI: 0.5, currentCRS: 60,
+    activeGoalName: null, completedSessionsToday: 0, distractiveAppNames: [],
+    isInFocusSession: false, habitStreak: 1, complianceRate: 0.6, distractionRate: 0.4,
+} as AgentContext;
+
+function step(trace: TraceEntry[], name: string): TraceEntry {
+    const entry = trace.find(e => e.step === name);
+    if (!entry) throw new Error(`No trace step "${name}"`);
+    return entry;
+}
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+});
+
+beforeEach(() => {
+    setKeyValueBackend(createMemoryBackend());
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Stages
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Stage Traces', () => {
+    test('overloaded day explains the recovery strategy', () => {
+        const trace: TraceEntry[] = [];
+        const state = buildUserState(null, null, null, 20, 0.8, 0, 0, 3, trace);
+        state.dynamic.stressLevel = 5;
+        state.dynamic.fatigueLevel = 5;
+        const context = inferContext(state, trace);
+        const gap = computeBehavioralGap(state, trace);
+        selectStrategy(state, context, gap, null, trace);
+
+        expect(step(trace, 'Personality').thresholds).toEqual(['No onboarding profile — defaults used']);
+        expect(step(trace, 'Rule: overloaded')).toMatchObject({
+            outcome: 'Matched (80% confidence)',
+            thresholds: expect.arrayContaining(['Stress at 5/5', 'Fatigue at 5/5']),
+        });
+        expect(step(trace, 'Mode').outcome).toBe('overloaded');
+        expect(step(trace, 'Gap score').inputs).toHaveProperty('recoveryNeglect');
+        expect(step(trace, 'Strategy type (rules)')).toMatchObject({
+            outcome: 'recovery-first',
+            thresholds: ['overloaded → recover before pushing'],
+        });
+        expect(trace.some(e => e.step === 'Learned policy')).toBe(false);
+    });
+
+    test('no matching rule → maintenance, with the reason', () => {
+        const trace: TraceEntry[] = [];
+        const state = buildUserState(null, null, null, 50, 0.5, 0, 0, 3);
+        inferContext(state, trace);
+        expect(step(trace, 'Mode')).toMatchObject({ outcome: 'maintenance', thresholds: ['No rule matched — normal day'] });
+    });
+
+    test('stages work unchanged without a trace', () => {
+        const state = buildUserState(null, null, null, 50, 0.5, 0, 0, 3);
+        expect(inferContext(state).mode).toBe('maintenance');
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Full Pipeline
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Directive Trace', () => {
+    test('attached to the directive, covering every stage and the LLM override', async () => {
+        const llm = createMockProvider(() => JSON.stringify({
+            focusMessage: 'LLM focus',
+            rationale: 'Streak is fragile',
+        }));
+
+        const directive = await runOrchestrator(null, null, null, 0, 0, 0, 0, 0, {
+            llm, agentContext: AGENT_CONTEXT, cache: createDirectiveCache(), bandit: null,
+        });
+
+        const stages = groupTraceByStage(directive.trace!).map(g => g.stage);
+        expect(stages).toEqual(['state', 'context', 'gap', 'strategy', 'directive', 'llm']);
+        expect(step(directive.trace!, 'Focus session').thresholds).toEqual([directive.recommendedFocus.reason]);
+        expect(step(directive.trace!, 'Wording')).toMatchObject({
+            inputs: { source: 'mock LLM (Gentle)' },
+            outcome: 'Replaced focusMessage, rationale',
+            thresholds: ["Model's reasoning: Streak is fragile"],
+        });
+    });
+
+    test('template fallback is recorded as the wording source', async () => {
+        const llm = createMockProvider(() => 'not json');
+
+        const directive = await runOrchestrator(null, null, null, 0, 0, 0, 0, 0, {
+            llm, agentContext: AGENT_CONTEXT, cache: createDirectiveCache(), bandit: null,
+        });
+
+        expect(step(directive.trace!, 'Wording').inputs.source).toBe('Offline templates');
+    });
+});
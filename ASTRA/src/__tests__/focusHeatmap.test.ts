@@ -0,0 +1,190 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Focus Trainer — Unit Tests for the Focus Heatmap Pipeline
+// AFI sampling from stored sessions into focus_windows, and the due-task runner
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { AppUsageSession, FocusWindow } from '../modules/focusTrainer/models/types';
+import type { HealthDayRecord } from '../modules/shared/types';
+
+const mockStore: { sessions: AppUsageSession[]; windows: FocusWindow[]; health: HealthDayRecord[] } = {
+    sessions: [], windows: [], health: [],
+};
+
+jest.mock('../database/repository', () => ({
+    insertUsageSession: jest.fn(async () => 1),
+    getUsageSessionsInRange: jest.fn(async (start: number, end: number) =>
+        mockStore.sessions.filter(s => s.startTime >= start && s.startTime <= end)),
+    getFocusWindows: jest.fn(async () => mockStore.windows),
+    getHealthDayRecords: jest.fn(async (sinceDate: string) => mockStore.health.filter(r => r.input.date >= sinceDate)),
+    getPomodoroSessionsInRange: jest.fn(async () => []),
+    pruneDirectiveLog: jest.fn(async () => 0),
+    upsertFocusWindows: jest.fn(async (windows: FocusWindow[]) => {
+        const key = (fw: FocusWindow) => `${fw.dayOfWeek}-${fw.hourOfDay}`;
+        const replaced = new Set(windows.map(key));
+        mockStore.windows = [...mockStore.windows.filter(fw => !replaced.has(key(fw))), ...windows];
+    }),
+}));
+
+// Off-device: no local native modules are linked
+jest.mock('expo-modules-core', () => ({ requireOptionalNativeModule: () => null }));
+
+import * as forecasting from '../modules/focusTrainer/math/attentionForecasting';
+import { mergeFocusWindows } from '../modules/focusTrainer/math/attentionForecasting';
+import { loadFocusHeatmap, sampleFocusWindows } from '../modules/focusTrainer/services/HeatmapService';
+import { getTaskStatuses, runDueTasks } from '../modules/focusTrainer/services/BackgroundTaskService';
+import { getHealthDayRecords, getUsageSessionsInRange } from '../database/repository';
+import { FORECAST_MODEL } from '../modules/focusTrainer/models/constants';
+import {
+    getBackgroundTaskRuns,
+    getHeatmapSampledThrough,
+    setUsageIngestCursor,
+} from '../storage/mmkvStore';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+
+const HOUR = 3600 * 1000;
+// Local midnight, so slots line up with wall-clock hours in any timezone
+const DAY0 = new Date(2026, 5, 1).getTime();
+
+function session(startMs: number, minutes: number, switchCount = 0): AppUsageSession {
+    const date = new Date(startMs);
+    return {
+        appName: 'Docs',
+        packageName: 'com.docs',
+        startTime: startMs,
+        endTime: startMs + minutes * 60000,
+        duration: minutes * 60000,
+        switchCount,
+        unlockCount: 0,
+        timeOfDay: 'morning',
+        dayOfWeek: date.getDay(),
+    };
+}
+
+function window(hourOfDay: number, avgAFI: number, sampleCount: number): FocusWindow {
+    return { dayOfWeek: 1, hourOfDay, avgAFI, sampleCount, qualityLabel: 'fair' };
+}
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+});
+
+beforeEach(() => {
+    setKeyValueBackend(createMemoryBackend());
+    mockStore.sessions = [];
+    mockStore.windows = [];
+    mockStore.health = [];
+    jest.clearAllMocks();
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Merging
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Focus Window Merging', () => {
+    test('slots keep a running average weighted by sample count', () => {
+        const merged = mergeFocusWindows(
+            [window(9, 0.2, 3), window(10, 0.5, 1)],
+            [window(9, 0.6, 1), window(11, 0.8, 2)],
+        );
+        const nine = merged.find(fw => fw.hourOfDay === 9)!;
+        expect(nine.avgAFI).toBeCloseTo(0.3);
+        expect(nine.sampleCount).toBe(4);
+        expect(nine.qualityLabel).toBe('good');
+        expect(merged.map(fw => fw.hourOfDay).sort((a, b) => a - b)).toEqual([9, 10, 11]);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Sampling
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Heatmap Sampling', () => {
+    test('samples only complete hours before the ingest cursor', async () => {
+        mockStore.sessions = [
+            session(DAY0 + 9 * HOUR, 50),
+            session(DAY0 + 10 * HOUR + 5 * 60000, 20, 1),
+        ];
+        setUsageIngestCursor(DAY0 + 10 * HOUR + 30 * 60000);
+
+        const updated = await sampleFocusWindows(DAY0 + 12 * HOUR);
+        expect(updated.map(fw => fw.hourOfDay)).toEqual([9]);
+        expect(getHeatmapSampledThrough()).toBe(DAY0 + 10 * HOUR);
+        expect(getUsageSessionsInRange).toHaveBeenCalledWith(DAY0 + 10 * HOUR - 7 * 24 * HOUR, DAY0 + 10 * HOUR - 1);
+    });
+
+    test('later runs pick up where the last stopped and add to the slots', async () => {
+        mockStore.sessions = [session(DAY0 + 9 * HOUR, 50)];
+        setUsageIngestCursor(DAY0 + 11 * HOUR);
+        await sampleFocusWindows(DAY0 + 11 * HOUR);
+
+        // Same weekday and hour, one week later
+        mockStore.sessions.push(session(DAY0 + 7 * 24 * HOUR + 9 * HOUR, 50, 1));
+        setUsageIngestCursor(DAY0 + 7 * 24 * HOUR + 11 * HOUR);
+        const updated = await sampleFocusWindows(DAY0 + 7 * 24 * HOUR + 11 * HOUR);
+
+        expect(getUsageSessionsInRange).toHaveBeenLastCalledWith(DAY0 + 11 * HOUR, DAY0 + 7 * 24 * HOUR + 11 * HOUR - 1);
+        expect(updated).toHaveLength(1);
+        expect(updated[0].sampleCount).toBe(2);
+        expect(mockStore.windows).toHaveLength(1);
+
+        // Nothing new: no query, no writes
+        expect(await sampleFocusWindows(DAY0 + 7 * 24 * HOUR + 11 * HOUR)).toEqual([]);
+    });
+
+    test('the heatmap shows measured slots with confidence and the rest as unknown', async () => {
+        mockStore.sessions = [session(DAY0 + 9 * HOUR, 50)];
+        setUsageIngestCursor(DAY0 + 10 * HOUR);
+        await sampleFocusWindows(DAY0 + 10 * HOUR);
+
+        const heatmap = await loadFocusHeatmap(DAY0 + 10 * HOUR);
+        expect(heatmap).toHaveLength(168);
+        const measured = heatmap.filter(b => b.confidence > 0);
+        expect(measured).toHaveLength(1);
+        expect(measured[0]).toMatchObject({ dayOfWeek: new Date(DAY0).getDay(), hour: 9 });
+
+        // Outside the forecast history, the stored windows still draw the map
+        const later = await loadFocusHeatmap(DAY0 + 90 * 24 * HOUR);
+        expect(later.filter(b => b.confidence > 0)).toHaveLength(1);
+    });
+
+    test('samples pick up the health check-in of their UTC day', async () => {
+        // Check-ins are keyed by toISOString() dates; west of UTC this hour is still the previous local day
+        const utcMidnight = Date.UTC(2026, 5, 2);
+        const checkIn = (date: string, sleepHours: number, readiness: number) => ({
+            input: { date, sleep_hours: sleepHours },
+            computed: { CognitiveReadiness: readiness },
+        } as HealthDayRecord);
+        mockStore.health = [checkIn('2026-06-01', 8, 80), checkIn('2026-06-02', 4.5, 35)];
+        mockStore.sessions = [session(utcMidnight + 30 * 60000, 20)];
+        const forecast = jest.spyOn(forecasting, 'forecastFocusHeatmap');
+
+        const now = utcMidnight + 2 * HOUR;
+        await loadFocusHeatmap(now);
+
+        const from = new Date(now - FORECAST_MODEL.historyDays * 24 * HOUR).toISOString().slice(0, 10);
+        expect(getHealthDayRecords).toHaveBeenCalledWith(from);
+        const [observations, options] = forecast.mock.calls[0];
+        expect(observations[0].covariates).toEqual({ sleepHours: 4.5, cognitiveReadiness: 35 });
+        expect(options).toMatchObject({ today: { sleepHours: 4.5, cognitiveReadiness: 35 } });
+        forecast.mockRestore();
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Background Tasks
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Due Background Tasks', () => {
+    test('tasks run once their interval has passed and record the run', async () => {
+        const start = DAY0 + 12 * HOUR;
+        expect(await runDueTasks(start)).toEqual(['collect-usage-stats', 'update-heatmap', 'daily-aggregation']);
+        expect(getBackgroundTaskRuns()).toEqual({
+            'collect-usage-stats': start, 'update-heatmap': start, 'daily-aggregation': start,
+        });
+        expect(getTaskStatuses().find(t => t.id === 'update-heatmap')!.lastRun).toBe(start);
+
+        expect(await runDueTasks(start + 20 * 60000)).toEqual(['collect-usage-stats']);
+        expect(await runDueTasks(start + HOUR)).toEqual(['collect-usage-stats', 'update-heatmap']);
+    });
+});
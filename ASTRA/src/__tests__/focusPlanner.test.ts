@@ -0,0 +1,176 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Planner — Unit Tests for the Focus Planner
+// Placement, capacity, availability, adjustments, session linking
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+    PLANNER_CONFIG,
+    allocateGoals,
+    applyAdjustment,
+    linkSession,
+    markMissed,
+    planDay,
+    refreshPlans,
+} from '../modules/planner/focusPlanner';
+import type { DayPlan, PlannerInput } from '../modules/planner/plannerTypes';
+import type { FocusGoal, HourBlock } from '../modules/focusTrainer/models/types';
+import { defaultAvailability } from '../modules/interventions/availability';
+
+// Monday 19 Oct 2026, 8am local
+const MONDAY = '2026-10-19';
+const MIN = 60_000;
+
+function at(hours: number, minutes = 0, day = 19): number {
+    return new Date(2026, 9, day, hours, minutes).getTime();
+}
+
+// Mornings are best, early afternoon good, the rest poor
+const HEATMAP: HourBlock[] = Array.from({ length: 7 * 24 }, (_, i) => {
+    const dayOfWeek = Math.floor(i / 24);
+    const hour = i % 24;
+    const afi = hour === 9 || hour === 10 ? 0.2 : hour === 14 || hour === 15 || hour === 11 ? 0.35 : 0.7;
+    const label: HourBlock['label'] = afi < 0.3 ? 'optimal' : afi < 0.5 ? 'good' : 'poor';
+    return { dayOfWeek, hour, predictedAFI: afi, afiInterval: { low: afi, high: afi }, confidence: 1, label };
+});
+
+const thesis: FocusGoal = { id: 'thesis', title: 'Thesis', importance: 0.9, associatedApps: [], isActive: true };
+const admin: FocusGoal = { id: 'admin', title: 'Admin', importance: 0.3, associatedApps: [], isActive: true };
+
+function input(overrides: Partial<PlannerInput> = {}): PlannerInput {
+    return {
+        goals: [thesis, admin],
+        heatmap: HEATMAP,
+        capacity: { level: 'high', minutes: 25 },
+        now: at(8),
+        ...overrides,
+    };
+}
+
+function hours(plan: DayPlan, status: string = 'planned'): number[] {
+    return plan.blocks.filter(b => b.status === status).map(b => new Date(b.start).getHours());
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Placement
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Placement', () => {
+    test('fills the best windows, sized by attention capacity', () => {
+        const plan = planDay(MONDAY, input(), { level: 'high', minutes: 25 });
+        expect(hours(plan)).toEqual([9, 10, 11, 14]);
+        expect(plan.blocks.every(b => b.end - b.start === 25 * MIN)).toBe(true);
+
+        expect(planDay(MONDAY, input(), { level: 'light', minutes: 8 }).blocks).toHaveLength(2);
+        expect(planDay(MONDAY, input(), { level: 'recovery', minutes: 0 }).blocks).toHaveLength(0);
+    });
+
+    test('most important goal gets the best slots', () => {
+        expect(allocateGoals([admin, thesis], 4).map(g => g.id)).toEqual(['thesis', 'thesis', 'thesis', 'admin']);
+        const plan = planDay(MONDAY, input(), { level: 'high', minutes: 25 });
+        expect(plan.blocks.find(b => b.start === at(9))?.goalId).toBe('thesis');
+    });
+
+    test('no active goals → general focus blocks', () => {
+        const plan = planDay(MONDAY, input({ goals: [] }), { level: 'moderate', minutes: 25 });
+        expect(plan.blocks).toHaveLength(3);
+        expect(plan.blocks.every(b => b.goalId === undefined && b.goalTitle === 'Focus block')).toBe(true);
+    });
+
+    test('skips the past, busy blocks and quiet hours', () => {
+        const availability = {
+            ...defaultAvailability(),
+            busyBlocks: [{ start: at(10, 15), end: at(11, 30), summary: 'Standup' }],
+        };
+        const plan = planDay(MONDAY, input({ now: at(9, 30), availability }), { level: 'high', minutes: 25 });
+        // 9 is past, 10 overlaps the meeting, 11 too
+        expect(hours(plan)).toEqual([14, 15]);
+    });
+
+    test('a scheduled goal only gets blocks inside its schedule', () => {
+        const scheduled = { ...thesis, scheduledStart: at(14), scheduledEnd: at(16) };
+        const plan = planDay(MONDAY, input({ goals: [scheduled] }), { level: 'high', minutes: 25 });
+        expect(hours(plan)).toEqual([14, 15]);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Adjustments
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Adjustments', () => {
+    const base = () => refreshPlans([], input());
+
+    test('refresh plans the whole horizon and keeps unchanged plans', () => {
+        const plans = base();
+        expect(plans).toHaveLength(PLANNER_CONFIG.horizonDays);
+        expect(plans[0].day).toBe(MONDAY);
+        expect(plans[1].capacity).toEqual(PLANNER_CONFIG.assumedCapacity);
+
+        const again = refreshPlans(plans, input());
+        expect(again[0]).toBe(plans[0]);
+    });
+
+    test('delay keeps the next two hours free and is applied once', () => {
+        // Nothing before 10:30 → 9 and 10 move, one block no longer fits
+        const delayed = applyAdjustment(base(), 'delay', input({ now: at(8, 30) }));
+        expect(hours(delayed[0])).toEqual([11, 14, 15]);
+        expect(hours(delayed[0], 'cancelled')).toHaveLength(1);
+        expect(delayed[0].adjustment).toBe('delay');
+
+        expect(applyAdjustment(delayed, 'delay', input({ now: at(8, 31) }))).toBe(delayed);
+    });
+
+    test('reduce-load keeps the most important half', () => {
+        const reduced = applyAdjustment(base(), 'reduce-load', input());
+        const kept = reduced[0].blocks.filter(b => b.status === 'planned');
+        expect(kept).toHaveLength(2);
+        expect(kept.every(b => b.goalId === 'thesis')).toBe(true);
+        expect(reduced[0].blocks.filter(b => b.status === 'cancelled').every(b => b.note === 'Load reduced')).toBe(true);
+    });
+
+    test('reschedule moves blocks away from hours that were missed', () => {
+        const sunday = planDay('2026-10-18', input({ now: at(0, 0, 18) }), { level: 'light', minutes: 25 });
+        const missed = markMissed([sunday], at(8))[0];
+        expect(hours(missed, 'missed')).toEqual([9, 10]);
+
+        const rescheduled = applyAdjustment([missed, ...base()], 'reschedule', input());
+        expect(hours(rescheduled[1])).toEqual([11, 14, 15]);
+        expect(hours(rescheduled[2])).not.toContain(9);
+        expect(rescheduled[2].adjustment).toBe('proceed');
+    });
+
+    test('a capacity drop re-sizes the rest of today', () => {
+        const plans = base();
+        const refreshed = refreshPlans(plans, input({ now: at(8, 5), capacity: { level: 'light', minutes: 8 } }));
+        const planned = refreshed[0].blocks.filter(b => b.status === 'planned');
+        expect(planned).toHaveLength(2);
+        expect(planned.every(b => b.end - b.start === 8 * MIN)).toBe(true);
+        expect(refreshed[0].blocks.some(b => b.note === 'Capacity now light')).toBe(true);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Sessions
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Session Linking', () => {
+    test('a session started in a block marks it done with the session id', () => {
+        const plans = refreshPlans([], input());
+        const linked = linkSession(plans, 42, {
+            goalId: 'thesis', startTime: at(8, 50), endTime: at(9, 15),
+            plannedDuration: 25 * MIN, actualDuration: 25 * MIN, wasSuccessful: true, breakDuration: 5 * MIN,
+        });
+        const block = linked[0].blocks.find(b => b.start === at(9));
+        expect(block).toMatchObject({ status: 'done', sessionId: 42 });
+    });
+
+    test('blocks without a session become missed; unrelated sessions link nothing', () => {
+        const plans = refreshPlans([], input());
+        expect(hours(markMissed(plans, at(10))[0], 'missed')).toEqual([9]);
+
+        const unrelated = linkSession(plans, 7, {
+            startTime: at(19), plannedDuration: 25 * MIN, actualDuration: 25 * MIN, wasSuccessful: true, breakDuration: 0,
+        });
+        expect(unrelated).toBe(plans);
+    });
+});
@@ -0,0 +1,194 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Interventions — Unit Tests for the Intervention Budget
+// Channel quotas, dismiss cooldown, fatigue decay, quiet hours, suppression log
+// ─────────────────────────────────────────────────────────────────────────────
+
+jest.mock('../database/repository', () => ({
+    insertInterventionSuppression: jest.fn(() => Promise.resolve(1)),
+}));
+
+import {
+    BUDGET_CONFIG,
+    checkBudget,
+    currentFatigue,
+    deliveriesToday,
+    emptyBudgetState,
+    recordDelivery,
+    recordResponse,
+} from '../modules/interventions/interventionBudget';
+import { recordInterventionResponse, requestIntervention } from '../modules/interventions/budgetService';
+import type { InterventionRequest } from '../modules/interventions/budgetTypes';
+import { insertInterventionSuppression } from '../database/repository';
+import { extractBehavioralSignals } from '../modules/agent/engine/stateIngestion';
+import { computeInterventionSuitability } from '../modules/personalization/layers/contextualDecisionEngine';
+import type { PersonalizationContext, PersonalizationState } from '../modules/personalization/models/personalizationTypes';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+import { getInterventionBudget } from '../storage/mmkvStore';
+
+const NOON = new Date(2026, 9, 18, 12, 0).getTime();
+const MIN = 60_000;
+const DAY = 24 * 60 * MIN;
+
+function request(overrides: Partial<InterventionRequest> = {}): InterventionRequest {
+    return { producer: 'orchestrator', channel: 'overlay', priority: 'medium', at: NOON, ...overrides };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Rules
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Budget Rules', () => {
+    test('fresh budget allows a daytime intervention', () => {
+        expect(checkBudget(emptyBudgetState(NOON), request())).toEqual({ allowed: true });
+    });
+
+    test('quiet hours suppress everything, urgent included', () => {
+        const late = new Date(2026, 9, 18, 23, 30).getTime();
+        const early = new Date(2026, 9, 19, 6, 30).getTime();
+        for (const at of [late, early]) {
+            expect(checkBudget(emptyBudgetState(at), request({ at, priority: 'urgent' })).reason).toBe('quiet-hours');
+        }
+    });
+
+    test('channels have independent spacing and quotas', () => {
+        let state = emptyBudgetState(NOON);
+        state = recordDelivery(state, request());
+
+        expect(checkBudget(state, request({ at: NOON + 5 * MIN })).reason).toBe('channel-interval');
+        expect(checkBudget(state, request({ at: NOON + 5 * MIN, channel: 'blocking' })).allowed).toBe(true);
+
+        const full = {
+            ...state,
+            channels: { ...state.channels, notification: { count: BUDGET_CONFIG.channels.notification.maxPerDay, lastAt: 0 } },
+        };
+        expect(checkBudget(full, request({ channel: 'notification', at: NOON + 2 * 3600_000 })).reason).toBe('channel-quota');
+    });
+
+    test('counts reset at local midnight', () => {
+        const budget = emptyBudgetState(NOON);
+        const full = { ...budget, channels: { ...budget.channels, overlay: { count: 99, lastAt: NOON } } };
+        const tomorrow = NOON + DAY;
+        expect(checkBudget(full, request({ at: tomorrow })).allowed).toBe(true);
+        expect(recordDelivery(full, request({ at: tomorrow })).channels.overlay.count).toBe(1);
+    });
+
+    test('post-dismiss cooldown holds everything but urgent', () => {
+        const state = recordResponse(emptyBudgetState(NOON), 'dismissed', NOON);
+        const later = NOON + 20 * MIN;
+        expect(checkBudget(state, request({ at: later, priority: 'high' })).reason).toBe('dismiss-cooldown');
+        expect(checkBudget(state, request({ at: later, priority: 'urgent' })).allowed).toBe(true);
+        expect(checkBudget(state, request({ at: NOON + 61 * MIN })).allowed).toBe(true);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Fatigue
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Fatigue', () => {
+    test('consecutive dismissals compound; an acceptance breaks the streak', () => {
+        let state = emptyBudgetState(NOON);
+        state = recordResponse(state, 'dismissed', NOON);
+        const first = state.fatigue;
+        state = recordResponse(state, 'dismissed', NOON);
+        expect(state.fatigue - first).toBeGreaterThan(first);
+        expect(state.consecutiveDismissals).toBe(2);
+
+        expect(recordResponse(state, 'accepted', NOON).consecutiveDismissals).toBe(0);
+    });
+
+    test("today's dismissals and deliveries reset at local midnight", () => {
+        let state = recordDelivery(emptyBudgetState(NOON), request());
+        state = recordDelivery(state, request({ channel: 'notification' }));
+        state = recordResponse(state, 'dismissed', NOON);
+        state = recordResponse(state, 'snoozed', NOON);
+        expect(deliveriesToday(state)).toBe(2);
+        expect(state.dismissalsToday).toBe(1);
+
+        const tomorrow = recordResponse(state, 'accepted', NOON + DAY);
+        expect(deliveriesToday(tomorrow)).toBe(0);
+        expect(tomorrow.dismissalsToday).toBe(0);
+    });
+
+    test('decays continuously over time', () => {
+        const state = { ...emptyBudgetState(NOON), fatigue: 0.8 };
+        expect(currentFatigue(state, NOON + DAY)).toBeCloseTo(0.48, 2);
+        expect(currentFatigue(state, NOON + DAY / 2)).toBeGreaterThan(0.48);
+    });
+
+    test('high fatigue lets only high priority through', () => {
+        const state = { ...emptyBudgetState(NOON), fatigue: 0.75 };
+        expect(checkBudget(state, request({ priority: 'medium' })).reason).toBe('fatigue');
+        expect(checkBudget(state, request({ priority: 'high' })).allowed).toBe(true);
+
+        const critical = { ...state, fatigue: 0.95 };
+        expect(checkBudget(critical, request({ priority: 'high' })).reason).toBe('fatigue');
+        expect(checkBudget(critical, request({ priority: 'urgent' })).allowed).toBe(true);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Consumers
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Fatigue Consumers', () => {
+    const fatigued = { ...recordResponse(recordDelivery(emptyBudgetState(NOON), request()), 'dismissed', NOON), fatigue: 0.95 };
+
+    test('orchestrator behavior signals come from the budget', () => {
+        expect(extractBehavioralSignals(null, fatigued)).toMatchObject({
+            interventionFatigue: 0.95,
+            consecutiveDismissals: 1,
+            nudgeDismissRate: 1,
+        });
+        expect(extractBehavioralSignals(null, emptyBudgetState(NOON))).toMatchObject({
+            interventionFatigue: 0,
+            nudgeDismissRate: 0,
+        });
+    });
+
+    test('personalization backs off on the budget fatigue it is given', () => {
+        const context: PersonalizationContext = {
+            timeOfDay: 'afternoon', hourOfDay: 14, cognitiveReadinessScore: 0.9, recentAFI: 0.5,
+            goalConflict: 1, distractionSeverity: 1, isInFocusSession: true, stressProxy: 0.2,
+            goalUrgency: 0.8, interventionFatigue: 0,
+        };
+        const state = { authorityResistanceScore: 0.2 } as PersonalizationState;
+
+        expect(computeInterventionSuitability(context, state).recommendedType).toBe('hard_block');
+        expect(computeInterventionSuitability({ ...context, interventionFatigue: 0.75 }, state).recommendedType).toBe('soft_delay');
+        expect(computeInterventionSuitability({ ...context, interventionFatigue: fatigued.fatigue }, state).recommendedType).toBe('reflective');
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Service
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Budget Service', () => {
+    beforeEach(() => {
+        setKeyValueBackend(createMemoryBackend());
+        jest.clearAllMocks();
+    });
+
+    test('allowed requests are counted and persisted', () => {
+        expect(requestIntervention(request({ producer: 'native-binge' })).allowed).toBe(true);
+        expect(getInterventionBudget().channels.overlay).toEqual({ count: 1, lastAt: NOON });
+        expect(insertInterventionSuppression).not.toHaveBeenCalled();
+    });
+
+    test('suppressed requests are logged with their reason', () => {
+        requestIntervention(request());
+        recordInterventionResponse('dismissed', NOON);
+        const decision = requestIntervention(request({ producer: 'native-spiral', at: NOON + 40 * MIN, label: 'TikTok' }));
+
+        expect(decision.reason).toBe('dismiss-cooldown');
+        expect(getInterventionBudget().channels.overlay.count).toBe(1);
+        expect(insertInterventionSuppression).toHaveBeenCalledWith(expect.objectContaining({
+            producer: 'native-spiral',
+            channel: 'overlay',
+            reason: 'dismiss-cooldown',
+            label: 'TikTok',
+            suppressedAt: NOON + 40 * MIN,
+        }));
+    });
+});
@@ -0,0 +1,110 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Storage — Unit Tests for the Key-Value Backend
+// Typed, versioned values and durability across backend instances
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+    createMemoryBackend,
+    setKeyValueBackend,
+    getKeyValueBackend,
+    defineValue,
+    readValue,
+    writeValue,
+    removeValue,
+} from '../storage/kvBackend';
+import {
+    getInterventionBudget,
+    setInterventionBudget,
+    getBlockingOverride,
+    setBlockingOverride,
+    getCachedCRS,
+    setCachedCRS,
+} from '../storage/mmkvStore';
+import { emptyBudgetState } from '../modules/interventions/interventionBudget';
+
+beforeEach(() => {
+    setKeyValueBackend(createMemoryBackend());
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Typed Values
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Typed Values', () => {
+    test('missing value → fallback', () => {
+        const spec = defineValue<number>('test.count', 1, () => 7);
+        expect(readValue(spec)).toBe(7);
+    });
+
+    test('round-trips through a versioned envelope', () => {
+        const spec = defineValue<{ a: number }>('test.obj', 1, () => ({ a: 0 }));
+        writeValue(spec, { a: 3 });
+
+        expect(readValue(spec)).toEqual({ a: 3 });
+        expect(JSON.parse(getKeyValueBackend().getString('test.obj')!)).toEqual({ v: 1, data: { a: 3 } });
+    });
+
+    test('older version is migrated and rewritten', () => {
+        const v1 = defineValue<number>('test.minutes', 1, () => 0);
+        writeValue(v1, 2);
+
+        const v2 = defineValue<{ seconds: number }>(
+            'test.minutes', 2, () => ({ seconds: 0 }),
+            (data, from) => (from === 1 ? { seconds: (data as number) * 60 } : undefined),
+        );
+        expect(readValue(v2)).toEqual({ seconds: 120 });
+        expect(JSON.parse(getKeyValueBackend().getString('test.minutes')!).v).toBe(2);
+    });
+
+    test('unmigratable or corrupt value → fallback', () => {
+        const spec = defineValue<number>('test.n', 2, () => -1);
+        getKeyValueBackend().setString('test.n', JSON.stringify({ v: 1, data: 5 }));
+        expect(readValue(spec)).toBe(-1);
+
+        getKeyValueBackend().setString('test.n', '{not json');
+        expect(readValue(spec)).toBe(-1);
+    });
+
+    test('removeValue → fallback on next read', () => {
+        const spec = defineValue<string>('test.s', 1, () => 'none');
+        writeValue(spec, 'x');
+        removeValue(spec);
+        expect(readValue(spec)).toBe('none');
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// mmkvStore over a shared backend
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('mmkvStore durability', () => {
+    test('values survive a backend swap onto the same storage (simulated restart)', () => {
+        const disk = new Map<string, string>();
+        setKeyValueBackend(createMemoryBackend(disk));
+
+        const budget = { ...emptyBudgetState(1000), lastDismissAt: 500, fatigue: 0.4 };
+        setInterventionBudget(budget);
+        setBlockingOverride(2);
+        setCachedCRS(0.8);
+
+        setKeyValueBackend(createMemoryBackend(disk));
+        expect(getInterventionBudget()).toEqual(budget);
+        expect(getBlockingOverride()).toBe(2);
+        expect(getCachedCRS()).toBe(0.8);
+    });
+
+    test('a v1 budget gains an empty dismissal count', () => {
+        const disk = new Map<string, string>();
+        const { dismissalsToday: _dropped, ...v1 } = { ...emptyBudgetState(1000), fatigue: 0.4 };
+        disk.set('interventions.budget', JSON.stringify({ v: 1, data: v1 }));
+        setKeyValueBackend(createMemoryBackend(disk));
+
+        expect(getInterventionBudget()).toEqual({ ...v1, dismissalsToday: 0 });
+    });
+
+    test('clearing the blocking override removes it', () => {
+        setBlockingOverride(3);
+        setBlockingOverride(null);
+        expect(getBlockingOverride()).toBeNull();
+    });
+});
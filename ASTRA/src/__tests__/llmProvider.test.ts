@@ -0,0 +1,275 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Agent — Unit Tests for LLM Providers
+// Retry/backoff, provider selection and an offline end-to-end orchestrator run
+// ─────────────────────────────────────────────────────────────────────────────
+
+jest.mock('../modules/agent/engine/contextCollector', () => ({
+    collectAgentContext: jest.fn(() => {
+        throw new Error('collectAgentContext should not be called when agentContext is injected');
+    }),
+    generateModuleMessages: () => ({
+        dashboard: 'rules dashboard',
+        focus: 'rules focus',
+        meditation: 'rules meditation',
+        health: 'rules health',
+    }),
+}));
+
+import {
+    createOpenAICompatibleProvider,
+    createGroqProvider,
+    createLLMProvider,
+    PROVIDER_DEFAULTS,
+} from '../modules/agent/llm/providers';
+import type { FetchLike } from '../modules/agent/llm/llmTypes';
+import { runOrchestrator } from '../modules/agent/engine/orchestrator';
+import { directiveCache } from '../modules/agent/engine/directiveCache';
+import type { AgentContext } from '../modules/agent/engine/contextCollector';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+import { setLLMSettings, getLLMValidationStats } from '../storage/mmkvStore';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type FakeReply = { status: number; body?: unknown } | 'network-error';
+
+function fakeFetch(replies: FakeReply[]) {
+    const calls: { url: string; body: any; headers: Record<string, string> }[] = [];
+    const doFetch: FetchLike = async (url, init) => {
+        calls.push({ url, body: JSON.parse(init.body), headers: init.headers });
+        const reply = replies[Math.min(calls.length - 1, replies.length - 1)];
+        if (reply === 'network-error') throw new TypeError('Network request failed');
+        return {
+            ok: reply.status >= 200 && reply.status < 300,
+            status: reply.status,
+            text: async () => JSON.stringify(reply.body ?? ''),
+            json: async () => reply.body,
+        };
+    };
+    return { doFetch, calls };
+}
+
+const completion = (content: string) => ({ choices: [{ message: { content } }] });
+
+const LOCAL_CONFIG = {
+    ...PROVIDER_DEFAULTS['openai-compatible'],
+    baseUrl: 'http://127.0.0.1:8080/v1/',
+    retryBaseDelayMs: 100,
+    maxRetries: 2,
+};
+
+const MESSAGES = [{ role: 'user' as const, content: 'hi' }];
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// OpenAI-Compatible Transport
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('OpenAI-Compatible Provider', () => {
+    test('posts to /chat/completions with model and JSON mode', async () => {
+        const { doFetch, calls } = fakeFetch([{ status: 200, body: completion('{"a":1}') }]);
+        const provider = createOpenAICompatibleProvider(LOCAL_CONFIG, { fetch: doFetch });
+
+        const result = await provider.complete(MESSAGES);
+
+        expect(result).toEqual({ content: '{"a":1}', provider: 'openai-compatible', model: 'llama3.1:8b', attempts: 1 });
+        expect(calls[0].url).toBe('http://127.0.0.1:8080/v1/chat/completions');
+        expect(calls[0].body.response_format).toEqual({ type: 'json_object' });
+        expect(calls[0].headers.Authorization).toBeUndefined();
+    });
+
+    test('retries 5xx and network errors with exponential backoff', async () => {
+        const { doFetch, calls } = fakeFetch([
+            { status: 503 },
+            'network-error',
+            { status: 200, body: completion('ok') },
+        ]);
+        const delays: number[] = [];
+        const provider = createOpenAICompatibleProvider(LOCAL_CONFIG, {
+            fetch: doFetch,
+            sleep: async (ms) => { delays.push(ms); },
+        });
+
+        const result = await provider.complete(MESSAGES);
+
+        expect(result?.attempts).toBe(3);
+        expect(calls).toHaveLength(3);
+        expect(delays).toEqual([100, 200]);
+    });
+
+    test('client errors are not retried', async () => {
+        const { doFetch, calls } = fakeFetch([{ status: 400, body: 'bad request' }]);
+        const provider = createOpenAICompatibleProvider(LOCAL_CONFIG, { fetch: doFetch, sleep: async () => { } });
+
+        expect(await provider.complete(MESSAGES)).toBeNull();
+        expect(calls).toHaveLength(1);
+    });
+
+    test('gives up after maxRetries', async () => {
+        const { doFetch, calls } = fakeFetch([{ status: 429 }]);
+        const provider = createOpenAICompatibleProvider(LOCAL_CONFIG, { fetch: doFetch, sleep: async () => { } });
+
+        expect(await provider.complete(MESSAGES)).toBeNull();
+        expect(calls).toHaveLength(3);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Provider Selection
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Provider Selection', () => {
+    test('Groq without an API key never calls the network', async () => {
+        const saved = { a: process.env.EXPO_PUBLIC_GROQ_API_KEY, b: process.env.GROQ_API_KEY };
+        delete process.env.EXPO_PUBLIC_GROQ_API_KEY;
+        delete process.env.GROQ_API_KEY;
+        try {
+            const { doFetch, calls } = fakeFetch([{ status: 200, body: completion('x') }]);
+            const provider = createGroqProvider(PROVIDER_DEFAULTS.groq, { fetch: doFetch });
+
+            expect(await provider.complete(MESSAGES)).toBeNull();
+            expect(calls).toHaveLength(0);
+        } finally {
+            if (saved.a !== undefined) process.env.EXPO_PUBLIC_GROQ_API_KEY = saved.a;
+            if (saved.b !== undefined) process.env.GROQ_API_KEY = saved.b;
+        }
+    });
+
+    test('Groq sends the bearer token', async () => {
+        const { doFetch, calls } = fakeFetch([{ status: 200, body: completion('x') }]);
+        const provider = createGroqProvider({ ...PROVIDER_DEFAULTS.groq, apiKey: 'gsk_test' }, { fetch: doFetch });
+
+        await provider.complete(MESSAGES);
+        expect(calls[0].url).toBe('https://api.groq.com/openai/v1/chat/completions');
+        expect(calls[0].headers.Authorization).toBe('Bearer gsk_test');
+    });
+
+    test('settings overrides are applied to the chosen provider', () => {
+        const provider = createLLMProvider({
+            provider: 'openai-compatible',
+            overrides: { 'openai-compatible': { baseUrl: 'http://lan-box:11434/v1', model: 'qwen2.5:7b' } },
+        });
+        expect(provider.kind).toBe('openai-compatible');
+        expect(provider.config.baseUrl).toBe('http://lan-box:11434/v1');
+        expect(provider.config.model).toBe('qwen2.5:7b');
+        expect(provider.config.timeoutMs).toBe(PROVIDER_DEFAULTS['openai-compatible'].timeoutMs);
+    });
+
+    test('mock provider is deterministic', async () => {
+        const provider = createLLMProvider({ provider: 'mock', overrides: {} });
+        const a = await provider.complete(MESSAGES);
+        const b = await provider.complete(MESSAGES);
+        expect(a).toEqual(b);
+        expect(() => JSON.parse(a!.content)).not.toThrow();
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Orchestrator End-to-End (no network)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const AGENT_CONTEXT: AgentContext = {
+    profile: null,
+    personalization: null,
+    healthRecord: null,
+    healthFlags: [],
+    cognitiveReadiness: 60,
+    stressLevel: 4,
+    fatigueLevel: 4,
+    sleepHours: 7,
+    meditationSessionCount: 3,
+    meditationTotalMinutes: 30,
+    meditationAvgRating: 4,
+    mss: 55,
+    lastMeditationType: 'breathing',
+    currentAFI: 0.6,
+    currentCRS: 60,
+    activeGoalName: null,
+    completedSessionsToday: 1,
+    distractiveAppNames: [],
+    isInFocusSession: false,
+    habitStreak: 2,
+    complianceRate: 0.7,
+    distractionRate: 0.3,
+};
+
+describe('Orchestrator with injected provider', () => {
+    beforeEach(() => {
+        setKeyValueBackend(createMemoryBackend());
+        directiveCache.clear();
+    });
+
+    test('merges an OpenAI-compatible response into a hybrid directive', async () => {
+        const llmJson = JSON.stringify({
+            nudgeTitle: 'Local Title',
+            nudgeMessage: 'Local message',
+            dashboardMessage: 'local dashboard',
+            focusMessage: 'local focus',
+            meditationMessage: '',
+            healthMessage: 'local health',
+            meditationSuggestion: 'body-scan',
+            focusRecommendation: 'deep work',
+            rationale: 'local model',
+        });
+        const { doFetch, calls } = fakeFetch([{ status: 200, body: completion(llmJson) }]);
+        const llm = createOpenAICompatibleProvider(LOCAL_CONFIG, { fetch: doFetch });
+
+        const directive = await runOrchestrator(null, null, null, 0, 0, 0, 0, 0, {
+            llm,
+            agentContext: AGENT_CONTEXT,
+        });
+
+        expect(calls).toHaveLength(1);
+        expect(directive.source).toBe('hybrid');
+        expect(directive.moduleMessages.dashboard).toBe('local dashboard');
+        expect(directive.moduleMessages.meditation).toBe('rules meditation');
+        expect(directive.rationale.startsWith('[AI] local model')).toBe(true);
+    });
+
+    test('invalid fields fall back to rules one at a time', async () => {
+        const llmJson = JSON.stringify({ dashboardMessage: 'x'.repeat(500), focusMessage: 'local focus' });
+        const { doFetch } = fakeFetch([{ status: 200, body: completion(llmJson) }]);
+        const llm = createOpenAICompatibleProvider(LOCAL_CONFIG, { fetch: doFetch });
+
+        const directive = await runOrchestrator(null, null, null, 0, 0, 0, 0, 0, {
+            llm,
+            agentContext: AGENT_CONTEXT,
+        });
+
+        expect(directive.moduleMessages.dashboard).toBe('rules dashboard');
+        expect(directive.moduleMessages.focus).toBe('local focus');
+        expect(getLLMValidationStats().fieldFailures).toEqual({ dashboardMessage: 1 });
+    });
+
+    test('falls back to offline templates when the provider fails', async () => {
+        const { doFetch } = fakeFetch([{ status: 500 }]);
+        const llm = createOpenAICompatibleProvider({ ...LOCAL_CONFIG, maxRetries: 0 }, { fetch: doFetch });
+
+        const directive = await runOrchestrator(null, null, null, 0, 0, 0, 0, 0, {
+            llm,
+            agentContext: AGENT_CONTEXT,
+        });
+
+        expect(directive.source).toBe('template');
+        expect(directive.moduleMessages.dashboard).not.toBe('rules dashboard');
+        expect(directive.moduleMessages.meditation).not.toBe('rules meditation');
+    });
+
+    test('uses the fetch option with the stored provider settings', async () => {
+        const { doFetch, calls } = fakeFetch([{ status: 200, body: completion('{"dashboardMessage":"from settings"}') }]);
+        setLLMSettings({ provider: 'openai-compatible', overrides: {} });
+
+        const directive = await runOrchestrator(null, null, null, 0, 0, 0, 0, 0, {
+            fetch: doFetch,
+            agentContext: AGENT_CONTEXT,
+        });
+
+        expect(calls[0].url).toBe('http://localhost:11434/v1/chat/completions');
+        expect(directive.moduleMessages.dashboard).toBe('from settings');
+    });
+});
@@ -0,0 +1,107 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Agent — Unit Tests for LLM Response Validation
+// Schema checks, JSON repair and per-field failure counters
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+    validateGroqResponse,
+    parseGroqResponse,
+    repairJson,
+    tallyValidation,
+    emptyValidationStats,
+} from '../modules/agent/llm/responseSchema';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Schema
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Schema Validation', () => {
+    test('valid fields pass through, whitespace normalized', () => {
+        const result = validateGroqResponse({
+            nudgeTitle: '  Move   it ',
+            meditationSuggestion: 'Body-Scan',
+            extra: 'ignored',
+        });
+        expect(result!.response).toEqual({ nudgeTitle: 'Move it', meditationSuggestion: 'body-scan' });
+        expect(result!.failures).toEqual([]);
+    });
+
+    test('each bad field is dropped on its own', () => {
+        const result = validateGroqResponse({
+            nudgeTitle: 'x'.repeat(61),
+            nudgeMessage: 'Still fine.',
+            focusMessage: 42,
+            meditationSuggestion: 'cold-plunge',
+            healthMessage: '',
+        });
+        expect(result!.response).toEqual({ nudgeMessage: 'Still fine.' });
+        expect(result!.failures).toEqual([
+            { field: 'nudgeTitle', reason: 'too-long' },
+            { field: 'focusMessage', reason: 'wrong-type' },
+            { field: 'meditationSuggestion', reason: 'not-allowed' },
+        ]);
+    });
+
+    test('non-object → null', () => {
+        expect(validateGroqResponse(['a'])).toBeNull();
+        expect(validateGroqResponse('text')).toBeNull();
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// JSON Repair
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('JSON Repair', () => {
+    test('strips markdown fences and chatter', () => {
+        const fixed = repairJson('Sure!\n```json\n{"nudgeTitle": "Go"}\n```');
+        expect(JSON.parse(fixed!)).toEqual({ nudgeTitle: 'Go' });
+    });
+
+    test('removes trailing commas', () => {
+        expect(JSON.parse(repairJson('{"a": "1", "b": [1, 2,],}')!)).toEqual({ a: '1', b: [1, 2] });
+    });
+
+    test('truncated string value is dropped, earlier members kept', () => {
+        const fixed = repairJson('{"nudgeTitle": "Go", "nudgeMessage": "You said you wanted the intern');
+        expect(JSON.parse(fixed!)).toEqual({ nudgeTitle: 'Go' });
+    });
+
+    test('missing closing brace after a complete member', () => {
+        expect(JSON.parse(repairJson('{"a": "x, y", "b": "z"')!)).toEqual({ a: 'x, y', b: 'z' });
+    });
+
+    test('nothing recoverable → null', () => {
+        expect(repairJson('no json here')).toBeNull();
+        expect(repairJson('{"nudgeTitle": "cut')).toBeNull();
+    });
+
+    test('parseGroqResponse flags repaired output', () => {
+        const parsed = parseGroqResponse('{"nudgeTitle": "Go", "rationale": "half');
+        expect(parsed!.repaired).toBe(true);
+        expect(parsed!.response).toEqual({ nudgeTitle: 'Go' });
+
+        expect(parseGroqResponse('{"nudgeTitle": "Go"}')!.repaired).toBe(false);
+        expect(parseGroqResponse('<html>502</html>')).toBeNull();
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Failure Counters
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Failure Counters', () => {
+    test('tallies repairs, unparseable responses and per-field failures', () => {
+        let stats = emptyValidationStats();
+        stats = tallyValidation(stats, parseGroqResponse('{"nudgeTitle": 7}'));
+        stats = tallyValidation(stats, parseGroqResponse('{"nudgeTitle": 8, "rationale": "x'));
+        stats = tallyValidation(stats, parseGroqResponse('garbage'));
+
+        expect(stats).toEqual({
+            responses: 3,
+            repaired: 1,
+            unparseable: 1,
+            fieldFailures: { nudgeTitle: 2 },
+        });
+    });
+});
@@ -0,0 +1,303 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Database — Unit Tests for the Migration Runner
+// Runs against an in-memory SQLite stand-in (no native module required)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+    runMigrations,
+    getSchemaVersion,
+    validateMigrations,
+    columnExists,
+    MIGRATIONS,
+    Migration,
+    MigrationDatabase,
+} from '../database/migrations';
+import { DB_VERSION, CREATE_TABLES } from '../database/schema';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// In-memory SQLite stand-in
+// Understands just enough SQL for the runner: user_version, transactions,
+// table_info, DROP / RENAME TO for table rebuilds, and simple row storage for
+// backfill migrations.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface FakeState {
+    userVersion: number;
+    tables: Record<string, { columns: string[]; rows: Record<string, any>[] }>;
+    executed: string[];
+}
+
+class InMemoryDatabase implements MigrationDatabase {
+    state: FakeState = { userVersion: 0, tables: {}, executed: [] };
+    private snapshot: FakeState | null = null;
+
+    async execAsync(source: string): Promise<void> {
+        const sql = source.trim();
+        if (sql === 'BEGIN TRANSACTION') {
+            this.snapshot = JSON.parse(JSON.stringify(this.state));
+            return;
+        }
+        if (sql === 'COMMIT') {
+            this.snapshot = null;
+            return;
+        }
+        if (sql === 'ROLLBACK') {
+            if (this.snapshot) this.state = this.snapshot;
+            this.snapshot = null;
+            return;
+        }
+
+        const pragma = sql.match(/^PRAGMA user_version = (\d+)$/);
+        if (pragma) {
+            this.state.userVersion = Number(pragma[1]);
+            return;
+        }
+
+        const create = sql.match(/^CREATE TABLE IF NOT EXISTS (\w+) \(([\s\S]*)\)$/);
+        if (create) {
+            const [, name, body] = create;
+            if (!this.state.tables[name]) {
+                const columns = body
+                    .split(',')
+                    .map(c => c.trim().split(/\s+/)[0])
+                    .filter(c => /^\w+$/.test(c));
+                this.state.tables[name] = { columns, rows: [] };
+            }
+        }
+
+        const alter = sql.match(/^ALTER TABLE (\w+) ADD COLUMN (\w+)/);
+        if (alter) {
+            const table = this.state.tables[alter[1]];
+            if (table.columns.includes(alter[2])) {
+                throw new Error(`duplicate column name: ${alter[2]}`);
+            }
+            table.columns.push(alter[2]);
+        }
+
+        const rename = sql.match(/^ALTER TABLE (\w+) RENAME TO (\w+)$/);
+        if (rename) {
+            this.state.tables[rename[2]] = this.state.tables[rename[1]];
+            delete this.state.tables[rename[1]];
+        }
+
+        const drop = sql.match(/^DROP TABLE (\w+)$/);
+        if (drop) delete this.state.tables[drop[1]];
+
+        this.state.executed.push(sql);
+    }
+
+    async getFirstAsync<T>(source: string): Promise<T | null> {
+        if (source === 'PRAGMA user_version') {
+            return { user_version: this.state.userVersion } as unknown as T;
+        }
+        const rows = await this.getAllAsync<T>(source);
+        return rows[0] ?? null;
+    }
+
+    async getAllAsync<T>(source: string): Promise<T[]> {
+        const info = source.match(/^PRAGMA table_info\((\w+)\)$/);
+        if (info) {
+            const table = this.state.tables[info[1]];
+            return (table?.columns ?? []).map(name => ({ name })) as unknown as T[];
+        }
+        const select = source.match(/^SELECT \* FROM (\w+)$/);
+        if (select) {
+            return (this.state.tables[select[1]]?.rows ?? []) as T[];
+        }
+        return [];
+    }
+
+    async runAsync(source: string, params: any[] = []): Promise<{ lastInsertRowId: number; changes: number }> {
+        // Supports: UPDATE <table> SET <col> = ? WHERE id = ?
+        const update = source.match(/^UPDATE (\w+) SET (\w+) = \? WHERE id = \?$/);
+        if (update) {
+            const rows = this.state.tables[update[1]].rows;
+            const row = rows.find(r => r.id === params[1]);
+            if (row) row[update[2]] = params[0];
+            return { lastInsertRowId: 0, changes: row ? 1 : 0 };
+        }
+        this.state.executed.push(source);
+        return { lastInsertRowId: 0, changes: 0 };
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Registry Validation
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Migration Registry', () => {
+    test('shipped registry ends at DB_VERSION', () => {
+        expect(() => validateMigrations(MIGRATIONS, DB_VERSION)).not.toThrow();
+        expect(MIGRATIONS[MIGRATIONS.length - 1].version).toBe(DB_VERSION);
+    });
+
+    test('rejects gaps and out-of-order versions', () => {
+        const noop = async () => { };
+        expect(() =>
+            validateMigrations(
+                [{ version: 1, name: 'a', up: noop }, { version: 3, name: 'c', up: noop }],
+                3,
+            ),
+        ).toThrow(/expected version 2/);
+    });
+
+    test('rejects a registry that does not reach the target version', () => {
+        const noop = async () => { };
+        expect(() => validateMigrations([{ version: 1, name: 'a', up: noop }], 2)).toThrow(/DB_VERSION/);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Runner
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Migration Runner', () => {
+    test('fresh database → baseline tables created and version recorded', async () => {
+        const db = new InMemoryDatabase();
+        const version = await runMigrations(db);
+
+        expect(version).toBe(DB_VERSION);
+        expect(await getSchemaVersion(db)).toBe(DB_VERSION);
+        expect(Object.keys(db.state.tables).length).toBeGreaterThanOrEqual(CREATE_TABLES.length);
+        expect(await columnExists(db, 'pomodoro_sessions', 'goal_id')).toBe(true);
+    });
+
+    test('v2 database → directive audit tables added on upgrade', async () => {
+        const db = new InMemoryDatabase();
+        await runMigrations(db, MIGRATIONS.slice(0, 2), 2);
+        expect(db.state.tables.directive_log).toBeUndefined();
+
+        await runMigrations(db);
+        expect(await columnExists(db, 'directive_log', 'strategy_type')).toBe(true);
+        expect(await columnExists(db, 'directive_nudges', 'follow_up_session_id')).toBe(true);
+    });
+
+    test('v3 database → suppression log added on upgrade', async () => {
+        const db = new InMemoryDatabase();
+        await runMigrations(db, MIGRATIONS.slice(0, 3), 3);
+        expect(db.state.tables.intervention_suppressions).toBeUndefined();
+
+        await runMigrations(db);
+        expect(await columnExists(db, 'intervention_suppressions', 'reason')).toBe(true);
+    });
+
+    test('v4 database → focus planner tables added on upgrade', async () => {
+        const db = new InMemoryDatabase();
+        await runMigrations(db, MIGRATIONS.slice(0, 4), 4);
+        expect(db.state.tables.planned_blocks).toBeUndefined();
+
+        await runMigrations(db);
+        expect(await columnExists(db, 'focus_plans', 'adjustment')).toBe(true);
+        expect(await columnExists(db, 'planned_blocks', 'session_id')).toBe(true);
+    });
+
+    test('v5 database → directive policy version added on upgrade', async () => {
+        const db = new InMemoryDatabase();
+        await runMigrations(db, MIGRATIONS.slice(0, 5), 5);
+        expect(await columnExists(db, 'directive_log', 'policy_version')).toBe(false);
+
+        await runMigrations(db);
+        expect(await columnExists(db, 'directive_log', 'policy_version')).toBe(true);
+    });
+
+    test('v6 database → pomodoro focus rating added on upgrade', async () => {
+        const db = new InMemoryDatabase();
+        await runMigrations(db, MIGRATIONS.slice(0, 6), 6);
+        expect(await columnExists(db, 'pomodoro_sessions', 'focus_rating')).toBe(false);
+
+        await runMigrations(db);
+        expect(await columnExists(db, 'pomodoro_sessions', 'focus_rating')).toBe(true);
+    });
+
+    test('v7 database → directive nudges rebuilt with a nullable shown_at', async () => {
+        const db = new InMemoryDatabase();
+        await runMigrations(db, MIGRATIONS.slice(0, 7), 7);
+        const executedBefore = db.state.executed.length;
+
+        await runMigrations(db);
+        const rebuild = db.state.executed.slice(executedBefore).join('\n');
+        expect(rebuild).toMatch(/shown_at INTEGER,/);
+        expect(rebuild).toMatch(/INSERT INTO directive_nudges_v8/);
+        expect(db.state.tables.directive_nudges_v8).toBeUndefined();
+        expect(await columnExists(db, 'directive_nudges', 'follow_up_session_id')).toBe(true);
+    });
+
+    test('up-to-date database → no statements executed', async () => {
+        const db = new InMemoryDatabase();
+        await runMigrations(db);
+        const executedBefore = db.state.executed.length;
+
+        await runMigrations(db);
+        expect(db.state.executed.length).toBe(executedBefore);
+    });
+
+    test('pre-runner install (tables exist, user_version 0) adopts v1', async () => {
+        const db = new InMemoryDatabase();
+        for (const sql of CREATE_TABLES) await db.execAsync(sql);
+
+        await runMigrations(db);
+        expect(await getSchemaVersion(db)).toBe(DB_VERSION);
+    });
+
+    test('applies only pending migrations, in order, with data backfill', async () => {
+        const applied: number[] = [];
+        const migrations: Migration[] = [
+            ...MIGRATIONS.map(m => ({ ...m, up: async (db: MigrationDatabase) => { applied.push(m.version); await m.up(db); } })),
+            {
+                version: DB_VERSION + 1,
+                name: 'add meditation mood column',
+                up: async (db) => {
+                    applied.push(DB_VERSION + 1);
+                    if (!(await columnExists(db, 'meditation_sessions', 'mood'))) {
+                        await db.execAsync('ALTER TABLE meditation_sessions ADD COLUMN mood INTEGER');
+                    }
+                    const rows = await db.getAllAsync<{ id: string; rating: number }>('SELECT * FROM meditation_sessions');
+                    for (const row of rows) {
+                        await db.runAsync('UPDATE meditation_sessions SET mood = ? WHERE id = ?', [row.rating, row.id]);
+                    }
+                },
+            },
+        ];
+
+        const db = new InMemoryDatabase();
+        await runMigrations(db);
+        applied.length = 0;
+        db.state.tables.meditation_sessions.rows.push({ id: 'm1', rating: 4 }, { id: 'm2', rating: 2 });
+
+        const version = await runMigrations(db, migrations, DB_VERSION + 1);
+
+        expect(version).toBe(DB_VERSION + 1);
+        expect(applied).toEqual([DB_VERSION + 1]);
+        expect(await columnExists(db, 'meditation_sessions', 'mood')).toBe(true);
+        expect(db.state.tables.meditation_sessions.rows.map(r => r.mood)).toEqual([4, 2]);
+    });
+
+    test('failing migration → rolled back, version unchanged, error rethrown', async () => {
+        const migrations: Migration[] = [
+            ...MIGRATIONS,
+            {
+                version: DB_VERSION + 1,
+                name: 'broken backfill',
+                up: async (db) => {
+                    await db.execAsync('ALTER TABLE pomodoro_sessions ADD COLUMN plan_id TEXT');
+                    throw new Error('backfill exploded');
+                },
+            },
+        ];
+
+        const db = new InMemoryDatabase();
+        await expect(runMigrations(db, migrations, DB_VERSION + 1)).rejects.toThrow(
+            `Migration ${DB_VERSION + 1} (broken backfill) failed and was rolled back: backfill exploded`,
+        );
+
+        // Earlier migrations stay committed; the failed one leaves no trace
+        expect(await getSchemaVersion(db)).toBe(DB_VERSION);
+        expect(await columnExists(db, 'pomodoro_sessions', 'plan_id')).toBe(false);
+    });
+
+    test('database newer than the app → refuses to run', async () => {
+        const db = new InMemoryDatabase();
+        db.state.userVersion = DB_VERSION + 5;
+        await expect(runMigrations(db)).rejects.toThrow(/newer than this app supports/);
+    });
+});
@@ -0,0 +1,210 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Agent — Unit Tests for the Notification Channel
+// Payload mapping, budgeted delivery, fake channel responses, deep links
+// ─────────────────────────────────────────────────────────────────────────────
+
+jest.mock('../database/repository', () => ({
+    insertInterventionSuppression: jest.fn(() => Promise.resolve(1)),
+}));
+
+// Off-device: no local native modules are linked
+jest.mock('expo-modules-core', () => ({ requireOptionalNativeModule: () => null }));
+
+import {
+    MAX_NOTIFICATION_ACTIONS,
+    createFakeNotificationChannel,
+    deliverNudgeNotification,
+    recordScheduledDelivery,
+    scheduleNudgeNotifications,
+    toNudgeNotification,
+} from '../modules/agent/notifications/notificationChannel';
+import { parseNudgeResponseUrl } from '../modules/agent/notifications/nativeNotificationChannel';
+import type { NotificationResponse } from '../modules/agent/notifications/notificationTypes';
+import { BUDGET_CONFIG, emptyBudgetState } from '../modules/interventions/interventionBudget';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+import { getInterventionBudget, setInterventionBudget } from '../storage/mmkvStore';
+import type { NudgePayload } from '../modules/agent/types/orchestratorTypes';
+import type { QueuedNudge } from '../modules/agent/engine/nudgeScheduler';
+
+const NOW = new Date(2026, 9, 18, 14, 0).getTime();
+
+const NUDGE: NudgePayload = {
+    id: 'nudge_1',
+    title: 'Time to Recharge',
+    message: 'A short breathing session will help you reset.',
+    tone: 'supportive',
+    icon: '🛑',
+    priority: 'high',
+    contextMode: 'overloaded',
+    actions: [
+        { label: 'Later', action: 'snooze', isPrimary: false },
+        { label: 'Start Recovery', action: 'navigate', target: 'Meditate', isPrimary: true },
+        { label: 'Not Now', action: 'dismiss', isPrimary: false },
+        { label: 'OK', action: 'accept', isPrimary: false },
+    ],
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Mapping
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Nudge → Notification', () => {
+    test('primary action first, trimmed to the platform button limit', () => {
+        const notification = toNudgeNotification(NUDGE);
+        expect(notification).toMatchObject({ id: 'nudge_1', title: '🛑 Time to Recharge', highPriority: true });
+        expect(notification.actions).toHaveLength(MAX_NOTIFICATION_ACTIONS);
+        expect(notification.actions[0]).toEqual({ label: 'Start Recovery', action: 'navigate', target: 'Meditate' });
+    });
+
+    test('low and medium priority are not heads-up', () => {
+        expect(toNudgeNotification({ ...NUDGE, priority: 'medium' }).highPriority).toBe(false);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Delivery
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Budgeted Delivery', () => {
+    beforeEach(() => setKeyValueBackend(createMemoryBackend()));
+
+    test('delivers and counts against the notification quota', async () => {
+        const channel = createFakeNotificationChannel();
+        const result = await deliverNudgeNotification(channel, NUDGE, NOW);
+
+        expect(result.delivered).toBe(true);
+        expect(getInterventionBudget().channels.notification).toEqual({ count: 1, lastAt: NOW });
+        expect(channel.shown.map(n => n.id)).toEqual(['nudge_1']);
+    });
+
+    test('respects channel spacing and the post-dismiss cooldown', async () => {
+        const channel = createFakeNotificationChannel();
+        await deliverNudgeNotification(channel, NUDGE, NOW);
+        await channel.cancel('nudge_1');
+
+        expect((await deliverNudgeNotification(channel, NUDGE, NOW + 60_000)).delivered).toBe(false);
+
+        setInterventionBudget({ ...emptyBudgetState(NOW), lastDismissAt: NOW - 60_000 });
+        expect((await deliverNudgeNotification(channel, NUDGE, NOW)).reason).toMatch(/Post-dismiss/);
+        expect(channel.shown).toEqual([]);
+    });
+
+    test('stops at the daily notification quota', async () => {
+        const channel = createFakeNotificationChannel();
+        const budget = emptyBudgetState(NOW);
+        setInterventionBudget({
+            ...budget,
+            channels: { ...budget.channels, notification: { count: BUDGET_CONFIG.channels.notification.maxPerDay, lastAt: 0 } },
+        });
+        const result = await deliverNudgeNotification(channel, NUDGE, NOW);
+        expect(result.delivered).toBe(false);
+        expect(result.reason).toMatch(/Daily notification limit/);
+    });
+
+    test('unavailable channel leaves the budget untouched', async () => {
+        const channel = createFakeNotificationChannel({ available: false });
+        const result = await deliverNudgeNotification(channel, NUDGE, NOW);
+        expect(result).toEqual({ delivered: false, reason: 'fake channel unavailable' });
+        expect(getInterventionBudget().channels.notification.count).toBe(0);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Scheduling
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Scheduled Delivery', () => {
+    beforeEach(() => setKeyValueBackend(createMemoryBackend()));
+
+    const queued = (id: string, deliverAt: number): QueuedNudge => ({
+        nudge: { ...NUDGE, id, expiresAt: deliverAt + 3600_000 },
+        timing: 'delayed',
+        queuedAt: NOW,
+        deliverAt,
+    });
+
+    test('the OS posts queued nudges at their time, without asking the budget yet', async () => {
+        const channel = createFakeNotificationChannel();
+        const ids = await scheduleNudgeNotifications(channel, [queued('a', NOW + 30 * 60_000)], NOW);
+
+        expect(ids).toEqual(['a']);
+        expect(channel.scheduled[0]).toMatchObject({ deliverAt: NOW + 30 * 60_000, expiresAt: NOW + 90 * 60_000 });
+        expect(getInterventionBudget().channels.notification.count).toBe(0);
+
+        channel.advance(NOW + 10 * 60_000);
+        expect(channel.shown).toEqual([]);
+        channel.advance(NOW + 45 * 60_000);
+        expect(channel.shown.map(n => n.id)).toEqual(['a']);
+        expect(await channel.consumeDelivered()).toEqual([{ nudgeId: 'a', at: NOW + 30 * 60_000 }]);
+        expect(await channel.consumeDelivered()).toEqual([]);
+    });
+
+    test('nudges closer together than the channel spacing are left for the overlay', async () => {
+        const channel = createFakeNotificationChannel();
+        const ids = await scheduleNudgeNotifications(
+            channel,
+            [queued('a', NOW + 10 * 60_000), queued('b', NOW + 20 * 60_000), queued('c', NOW + 90 * 60_000)],
+            NOW,
+        );
+        expect(ids).toEqual(['a', 'c']);
+    });
+
+    test('rescheduling cancels nudges that left the queue', async () => {
+        const channel = createFakeNotificationChannel();
+        await scheduleNudgeNotifications(channel, [queued('a', NOW + 10 * 60_000)], NOW);
+        await scheduleNudgeNotifications(channel, [queued('b', NOW + 10 * 60_000)], NOW);
+        expect(channel.scheduled.map(s => s.notification.id)).toEqual(['b']);
+
+        await channel.schedule([]);
+        channel.advance(NOW + 60 * 60_000);
+        expect(channel.shown).toEqual([]);
+    });
+
+    test('without notification permission nothing is scheduled', async () => {
+        const channel = createFakeNotificationChannel({ available: false });
+        expect(await channel.requestPermission()).toBe(false);
+        expect(await scheduleNudgeNotifications(channel, [queued('a', NOW + 10 * 60_000)], NOW)).toEqual([]);
+        expect(channel.scheduled).toEqual([]);
+    });
+
+    test('a posted scheduled nudge counts against the budget once collected', () => {
+        recordScheduledDelivery(NUDGE, NOW);
+        expect(getInterventionBudget().channels.notification).toEqual({ count: 1, lastAt: NOW });
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Responses
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Fake Channel Responses', () => {
+    test('button presses reach listeners and clear the notification', async () => {
+        const channel = createFakeNotificationChannel();
+        const received: NotificationResponse[] = [];
+        channel.onResponse(r => received.push(r));
+
+        await channel.show(toNudgeNotification(NUDGE));
+        channel.press('nudge_1', 0, NOW);
+
+        expect(received).toEqual([{ nudgeId: 'nudge_1', action: 'navigate', target: 'Meditate', at: NOW }]);
+        expect(channel.shown).toEqual([]);
+    });
+
+    test('presses with nobody listening are kept for consumePending', async () => {
+        const channel = createFakeNotificationChannel();
+        await channel.show(toNudgeNotification(NUDGE));
+        channel.press('nudge_1', 2, NOW);
+
+        expect(await channel.consumePending()).toEqual([
+            { nudgeId: 'nudge_1', action: 'dismiss', target: undefined, at: NOW },
+        ]);
+        expect(await channel.consumePending()).toEqual([]);
+    });
+
+    test('navigate deep links parse back into responses', () => {
+        expect(parseNudgeResponseUrl('astra-nudge://response?nudgeId=nudge_1&action=navigate&target=Meditate', NOW))
+            .toEqual({ nudgeId: 'nudge_1', action: 'navigate', target: 'Meditate', at: NOW });
+        expect(parseNudgeResponseUrl('https://example.com/?nudgeId=x&action=accept')).toBeNull();
+        expect(parseNudgeResponseUrl('astra-nudge://response?nudgeId=x&action=explode')).toBeNull();
+    });
+});
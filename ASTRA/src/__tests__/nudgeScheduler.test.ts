@@ -0,0 +1,142 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Agent — Unit Tests for the Nudge Scheduler
+// Timing-based delivery, optimal windows, expiry and stale-context drops
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+    SCHEDULER_CONFIG,
+    emptyNudgeQueue,
+    enqueueNudge,
+    nextOptimalWindow,
+    pendingNudges,
+    planDelivery,
+    requeueNudge,
+    takeDueNudge,
+    takeNudgesById,
+} from '../modules/agent/engine/nudgeScheduler';
+import { generateFocusHeatmap } from '../modules/focusTrainer/math/attentionForecasting';
+import type { ContextMode, NudgePayload } from '../modules/agent/types/orchestratorTypes';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+import { getNudgeQueue, setNudgeQueue } from '../storage/mmkvStore';
+
+// Sunday 18 Oct 2026, local time
+const at = (hour: number, minute = 0, day = 18) => new Date(2026, 9, day, hour, minute).getTime();
+
+/** Heatmap whose only good hours are 10am and 4pm on every day. */
+const HEATMAP = generateFocusHeatmap(
+    Array.from({ length: 7 }, (_, day) => [
+        { dayOfWeek: day, hourOfDay: 10, avgAFI: 0.2, sampleCount: 7, qualityLabel: 'optimal' as const },
+        { dayOfWeek: day, hourOfDay: 16, avgAFI: 0.3, sampleCount: 7, qualityLabel: 'good' as const },
+    ]).flat(),
+);
+
+function nudge(id: string, contextMode: ContextMode = 'drifting', priority: NudgePayload['priority'] = 'medium'): NudgePayload {
+    return { id, title: id, message: 'm', tone: 'supportive', icon: '✨', actions: [], priority, contextMode };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Planning
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Delivery Planning', () => {
+    test('immediate now, delayed after the wait, both with an expiry', () => {
+        expect(planDelivery('immediate', at(9), HEATMAP)).toEqual({
+            deliverAt: at(9), expiresAt: at(9) + SCHEDULER_CONFIG.validForMs,
+        });
+        expect(planDelivery('delayed', at(9), HEATMAP).deliverAt).toBe(at(9) + SCHEDULER_CONFIG.delayedMs);
+    });
+
+    test("scheduled goes to the next optimal window, rolling over to tomorrow's", () => {
+        expect(nextOptimalWindow(HEATMAP, at(9))).toBe(at(10));
+        expect(nextOptimalWindow(HEATMAP, at(12))).toBe(at(16));
+        expect(nextOptimalWindow(HEATMAP, at(18))).toBe(at(10, 0, 19));
+        expect(planDelivery('scheduled', at(12), HEATMAP).deliverAt).toBe(at(16));
+    });
+
+    test('scheduled without a heatmap falls back to a fixed wait', () => {
+        expect(planDelivery('scheduled', at(9), []).deliverAt).toBe(at(9) + SCHEDULER_CONFIG.unscheduledFallbackMs);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Queue
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Nudge Queue', () => {
+    test('a scheduled nudge waits for its window, then is delivered', () => {
+        const { queue, queued } = enqueueNudge(emptyNudgeQueue(), nudge('n1'), 'scheduled', at(12), HEATMAP);
+        expect(queued.nudge.expiresAt).toBe(at(17));
+
+        const early = takeDueNudge(queue, at(15), 'drifting');
+        expect(early.nudge).toBeNull();
+        expect(early.queue.items).toHaveLength(1);
+
+        const due = takeDueNudge(early.queue, at(16, 5), 'drifting');
+        expect(due.nudge!.id).toBe('n1');
+        expect(due.queue.items).toEqual([]);
+    });
+
+    test('expired and stale-context nudges are dropped', () => {
+        let queue = enqueueNudge(emptyNudgeQueue(), nudge('old'), 'immediate', at(8)).queue;
+        queue = enqueueNudge(queue, nudge('stale', 'performance-ready'), 'immediate', at(9, 30)).queue;
+
+        const result = takeDueNudge(queue, at(9, 45), 'drifting');
+        expect(result.nudge).toBeNull();
+        expect(result.dropped.map(d => [d.nudge.id, d.reason])).toEqual([
+            ['old', 'expired'],
+            ['stale', 'stale-context'],
+        ]);
+    });
+
+    test("a newer nudge for the same context replaces the queued payload but keeps its slot", () => {
+        const first = enqueueNudge(emptyNudgeQueue(), nudge('a'), 'delayed', at(9));
+        const second = enqueueNudge(first.queue, nudge('b'), 'delayed', at(9, 1));
+
+        expect(second.replaced!.id).toBe('a');
+        expect(second.dropped).toEqual([]);
+        expect(second.queue.items).toEqual([{ ...first.queued, nudge: { ...nudge('b'), expiresAt: first.queued.nudge.expiresAt } }]);
+
+        // A sooner timing moves the slot up
+        const third = enqueueNudge(second.queue, nudge('c'), 'immediate', at(9, 2));
+        expect(third.queued).toMatchObject({ timing: 'immediate', queuedAt: at(9), deliverAt: at(9, 2) });
+    });
+
+    test('re-running every minute does not push a delayed nudge back', () => {
+        let queue = emptyNudgeQueue();
+        for (let minute = 0; minute < 30; minute++) {
+            queue = enqueueNudge(queue, nudge(`n${minute}`), 'delayed', at(9, minute)).queue;
+            expect(takeDueNudge(queue, at(9, minute), 'drifting').nudge).toBeNull();
+        }
+        queue = enqueueNudge(queue, nudge('n30'), 'delayed', at(9, 30)).queue;
+
+        const due = takeDueNudge(queue, at(9, 30), 'drifting');
+        expect(due.nudge!.id).toBe('n30');
+        expect(due.queue.items).toEqual([]);
+    });
+
+    test('the most urgent due nudge goes first', () => {
+        let queue = enqueueNudge(emptyNudgeQueue(), nudge('low', 'drifting', 'low'), 'immediate', at(9)).queue;
+        queue = requeueNudge(queue, nudge('urgent', 'drifting', 'urgent'), at(9), at(9));
+        expect(takeDueNudge(queue, at(9, 1), 'drifting').nudge!.id).toBe('urgent');
+    });
+
+    test('pending nudges are the live ones for the current mode, and posted ones can be pulled out', () => {
+        let queue = enqueueNudge(emptyNudgeQueue(), nudge('later', 'drifting'), 'delayed', at(9)).queue;
+        queue = enqueueNudge(queue, nudge('other', 'overloaded'), 'immediate', at(9)).queue;
+        queue = requeueNudge(queue, nudge('now', 'drifting'), at(9), at(9));
+
+        expect(pendingNudges(queue, at(9), 'drifting').map(item => item.nudge.id)).toEqual(['now', 'later']);
+        expect(pendingNudges(queue, at(9) + SCHEDULER_CONFIG.delayedMs + SCHEDULER_CONFIG.validForMs, 'drifting')).toEqual([]);
+
+        const { taken, queue: rest } = takeNudgesById(queue, ['later', 'gone']);
+        expect(taken.map(n => n.id)).toEqual(['later']);
+        expect(rest.items.map(item => item.nudge.id).sort()).toEqual(['now', 'other']);
+    });
+
+    test('survives a restart through the KV store', () => {
+        setKeyValueBackend(createMemoryBackend());
+        const { queue } = enqueueNudge(emptyNudgeQueue(), nudge('n1'), 'delayed', at(9));
+        setNudgeQueue(queue);
+        expect(takeDueNudge(getNudgeQueue(), at(9, 30), 'drifting').nudge!.id).toBe('n1');
+    });
+});
@@ -0,0 +1,147 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Agent — Unit Tests for the Orchestrator Policy
+// Bundled policy, validation, per-user overrides and the recorded version
+// ─────────────────────────────────────────────────────────────────────────────
+
+jest.mock('../modules/agent/engine/contextCollector', () => ({
+    collectAgentContext: jest.fn(),
+    generateModuleMessages: () => ({ dashboard: 'd', focus: 'f', meditation: 'm', health: 'h' }),
+}));
+
+import bundledPolicy from '../modules/agent/policy/defaultPolicy.json';
+import {
+    DEFAULT_ORCHESTRATOR_POLICY,
+    applyPolicyOverride,
+    validatePolicy,
+    validatePolicyOverride,
+} from '../modules/agent/policy/orchestratorPolicy';
+import {
+    clearUserPolicyOverride,
+    getActivePolicy,
+    importUserPolicyOverride,
+    setUserPolicyOverride,
+} from '../modules/agent/policy/policyService';
+import { buildUserState } from '../modules/agent/engine/stateIngestion';
+import { runRulesPipeline } from '../modules/agent/engine/orchestrator';
+import { setPolicyOverride } from '../storage/mmkvStore';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+
+const MESSAGES = { dashboard: 'd', focus: 'f', meditation: 'm', health: 'h' };
+
+function calmState() {
+    return buildUserState(null, null, null, 50, 0.3, 0, 0, 0);
+}
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+});
+
+beforeEach(() => {
+    setKeyValueBackend(createMemoryBackend());
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Validation
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Policy Validation', () => {
+    test('the bundled policy is valid and versioned', () => {
+        expect(validatePolicy(bundledPolicy).errors).toEqual([]);
+        expect(DEFAULT_ORCHESTRATOR_POLICY.version).toBe(bundledPolicy.version);
+    });
+
+    test('unknown keys, missing keys and out-of-range numbers are reported by path', () => {
+        const { version: _version, ...rest } = DEFAULT_ORCHESTRATOR_POLICY;
+        const broken = {
+            ...rest,
+            version: '',
+            context: { ...rest.context, minConfidense: 0.3, minConfidence: undefined },
+            strategy: { ...rest.strategy, impulsivity: 1.5 },
+            focus: { ...rest.focus, drifting: '15' },
+        };
+        const result = validatePolicy(broken);
+        expect(result.value).toBeNull();
+        expect(result.errors).toEqual(expect.arrayContaining([
+            'policy.version must be a non-empty string',
+            'policy.context.minConfidense is not a policy setting',
+            'policy.context.minConfidence is missing',
+            'policy.strategy.impulsivity must be between 0 and 1 (got 1.5)',
+            'policy.focus.drifting must be a number',
+        ]));
+    });
+
+    test('gap weights must sum to 1 and levels must rise', () => {
+        const result = applyPolicyOverride({
+            gap: { weights: { goalVsFocus: 0.5 }, levels: { high: 0.8 } },
+        });
+        expect(result.value).toBeNull();
+        expect(result.errors).toEqual([
+            'gap.weights must sum to 1 (got 1.2)',
+            'gap.levels must rise from moderate to high to critical',
+        ]);
+    });
+
+    test('overrides may not set the version', () => {
+        const result = validatePolicyOverride({ version: 'mine', focus: { drifting: 20 } });
+        expect(result.value).toBeNull();
+        expect(result.errors[0]).toMatch(/override\.version is not allowed/);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Overrides
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Policy Overrides', () => {
+    test('an override merges into the bundled policy under a derived version', () => {
+        const policy = applyPolicyOverride({ focus: { maintenance: 40 } }).value!;
+        expect(policy.focus).toEqual({ ...DEFAULT_ORCHESTRATOR_POLICY.focus, maintenance: 40 });
+        expect(policy.version).toMatch(new RegExp(`^${DEFAULT_ORCHESTRATOR_POLICY.version}\\+user\\.[0-9a-f]{6}$`));
+        expect(applyPolicyOverride({ focus: { maintenance: 41 } }).value!.version).not.toBe(policy.version);
+        expect(applyPolicyOverride({}).value).toBe(DEFAULT_ORCHESTRATOR_POLICY);
+    });
+
+    test('directives record the policy they ran on', () => {
+        const bundled = runRulesPipeline(calmState(), MESSAGES, { policy: DEFAULT_ORCHESTRATOR_POLICY });
+        expect(bundled.policyVersion).toBe(DEFAULT_ORCHESTRATOR_POLICY.version);
+
+        const mode = bundled.contextState.mode;
+        expect(mode).toBe('maintenance');
+        const policy = applyPolicyOverride({ focus: { maintenance: 40 } }).value!;
+        const tuned = runRulesPipeline(calmState(), MESSAGES, { policy });
+        expect(tuned.policyVersion).toBe(policy.version);
+        expect(tuned.recommendedFocus.sessionLength).toBe(40);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Policy Service
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Policy Service', () => {
+    test('a saved override becomes the active policy until cleared', () => {
+        expect(getActivePolicy()).toBe(DEFAULT_ORCHESTRATOR_POLICY);
+
+        const saved = setUserPolicyOverride({ meditation: { beginnerMinutes: 3 } });
+        expect(saved.errors).toEqual([]);
+        expect(getActivePolicy().meditation.beginnerMinutes).toBe(3);
+        expect(runRulesPipeline(calmState(), MESSAGES).policyVersion).toBe(saved.value!.version);
+
+        clearUserPolicyOverride();
+        expect(getActivePolicy()).toBe(DEFAULT_ORCHESTRATOR_POLICY);
+    });
+
+    test('invalid overrides and JSON are rejected without touching the stored one', () => {
+        setUserPolicyOverride({ focus: { drifting: 20 } });
+        expect(setUserPolicyOverride({ focus: { drifting: 500 } }).value).toBeNull();
+        expect(importUserPolicyOverride('{ focus: 20 }').errors[0]).toMatch(/^Not valid JSON/);
+        expect(getActivePolicy().focus.drifting).toBe(20);
+    });
+
+    test('a stored override that no longer validates falls back to the bundled policy', () => {
+        setPolicyOverride({ context: { minConfidence: 7 } });
+        expect(getActivePolicy()).toBe(DEFAULT_ORCHESTRATOR_POLICY);
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('[Policy] Ignoring stored override'));
+    });
+});
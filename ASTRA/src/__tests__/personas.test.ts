@@ -0,0 +1,166 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Agent — Unit Tests for Persona Profiles
+// Default selection, banned topics in the prompt and post-generation filtering
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+    PERSONA_PROFILES,
+    defaultPersonaForTone,
+    resolvePersona,
+    filterBannedTopics,
+    mentionsTopic,
+} from '../modules/agent/llm/personas';
+import { queryLLM } from '../modules/agent/llm/groqClient';
+import { createMockProvider } from '../modules/agent/llm/providers';
+import type { ChatMessage } from '../modules/agent/llm/llmTypes';
+import { buildUserState } from '../modules/agent/engine/stateIngestion';
+import { inferContext } from '../modules/agent/engine/contextInference';
+import { computeBehavioralGap } from '../modules/agent/engine/behavioralGap';
+import type { AgentContext } from '../modules/agent/engine/contextCollector';
+import type { UserProfile } from '../modules/onboarding/models/onboardingTypes';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+import { getLLMValidationStats } from '../storage/mmkvStore';
+
+const PROFILE = {
+    relationshipGoal: 'Feel confident enough to ask Maya out',
+    goalText: 'Land a backend internship',
+    idealFutureSelf: 'Calm and consistent',
+    rawAnswers: { selfIdentifiedWeakness: 'I give up when things get hard' },
+} as unknown as UserProfile;
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+});
+
+beforeEach(() => {
+    setKeyValueBackend(createMemoryBackend());
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Selection
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Persona Selection', () => {
+    test('auto follows the onboarding nudge tone', () => {
+        expect(defaultPersonaForTone('sharp')).toBe('savage');
+        expect(defaultPersonaForTone('challenge')).toBe('coach');
+        expect(defaultPersonaForTone('supportive')).toBe('gentle');
+        expect(defaultPersonaForTone('confidence_building')).toBe('gentle');
+        expect(resolvePersona({ persona: 'auto', optedOutTopics: [] }, 'sharp').profile.id).toBe('savage');
+    });
+
+    test('explicit choice wins; user opt-outs add to persona bans', () => {
+        const resolved = resolvePersona({ persona: 'coach', optedOutTopics: ['relationship', 'appearance'] }, 'sharp');
+        expect(resolved.profile.id).toBe('coach');
+        expect(resolved.bannedTopics.sort()).toEqual(['appearance', 'relationship', 'self-worth']);
+    });
+
+    test('only savage allows every topic', () => {
+        expect(PERSONA_PROFILES.savage.bannedTopics).toEqual([]);
+        expect(PERSONA_PROFILES.gentle.bannedTopics).toContain('relationship');
+        expect(PERSONA_PROFILES['clinical-neutral'].bannedTopics).toContain('self-worth');
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Post-generation Filter
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Banned Topic Filter', () => {
+    test('matches keywords and the user\'s own goal text', () => {
+        expect(mentionsTopic('3 sets now. Attraction later.', 'relationship')).toBe(true);
+        expect(mentionsTopic('Do it for when you ask Maya out', 'relationship', PROFILE)).toBe(true);
+        expect(mentionsTopic('Do it for your internship', 'relationship', PROFILE)).toBe(false);
+        expect(mentionsTopic('You wanted to feel confident enough to ask Maya out.', 'relationship', PROFILE)).toBe(true);
+        expect(mentionsTopic('Looks like sleep was short. One single session today.', 'relationship')).toBe(false);
+    });
+
+    test('capitalized common words in a goal are not treated as names', () => {
+        const titled = { ...PROFILE, relationshipGoal: 'Be More Confident around People' } as UserProfile;
+        expect(mentionsTopic('More people showed up to practice than expected.', 'relationship', titled)).toBe(false);
+        expect(mentionsTopic('Be confident in the next session.', 'relationship', titled)).toBe(false);
+        expect(mentionsTopic('You said you want to be more confident around people.', 'relationship', titled)).toBe(true);
+
+        const named = { ...PROFILE, relationshipGoal: 'Finally text Will back' } as UserProfile;
+        expect(mentionsTopic('You will finish this set.', 'relationship', named)).toBe(false);
+        expect(mentionsTopic('Then go text Will.', 'relationship', named)).toBe(true);
+    });
+
+    test('drops only offending fields', () => {
+        const { response, failures } = filterBannedTopics(
+            {
+                nudgeTitle: 'Get the girl',
+                focusMessage: 'Compliance 40%. One block now.',
+                healthMessage: 'You look pathetic on 5 hours of sleep.',
+                meditationSuggestion: 'breathing',
+            },
+            ['relationship', 'self-worth'],
+        );
+        expect(response).toEqual({ focusMessage: 'Compliance 40%. One block now.', meditationSuggestion: 'breathing' });
+        expect(failures).toEqual([
+            { field: 'nudgeTitle', reason: 'banned-topic' },
+            { field: 'healthMessage', reason: 'banned-topic' },
+        ]);
+    });
+
+    test('no banned topics → untouched', () => {
+        const input = { nudgeTitle: 'Get the girl' };
+        expect(filterBannedTopics(input, []).response).toBe(input);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Prompt + Filter through queryLLM
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('queryLLM with a persona', () => {
+    const state = buildUserState(null, null, null, 50, 0.5, 1, 10, 4);
+    const context = inferContext(state);
+    const gap = computeBehavioralGap(state);
+    const agentCtx = {
+        profile: PROFILE, personalization: null, healthRecord: null, healthFlags: [],
+        cognitiveReadiness: 60, stressLevel: 3, fatigueLevel: 3, sleepHours: 7,
+        meditationSessionCount: 1, meditationTotalMinutes: 10, meditationAvgRating: 4,
+        mss: 50, lastMeditationType: null, currentAFI: 0.5, currentCRS: 60,
+        activeGoalName: null, completedSessionsToday: 0, distractiveAppNames: [],
+        isInFocusSession: false, habitStreak: 1, complianceRate: 0.6, distractionRate: 0.4,
+    } as AgentContext;
+
+    function capture(reply: object) {
+        const seen: ChatMessage[][] = [];
+        const provider = createMockProvider(messages => {
+            seen.push(messages);
+            return JSON.stringify(reply);
+        });
+        return { provider, seen };
+    }
+
+    test('opted-out goals are not sent and mentions are filtered', async () => {
+        const { provider, seen } = capture({
+            dashboardMessage: 'Internship prep: 0 sessions. Start one.',
+            focusMessage: 'Focus now, then ask Maya out.',
+        });
+        const persona = resolvePersona({ persona: 'savage', optedOutTopics: ['relationship'] }, 'sharp');
+
+        const result = await queryLLM(provider, state, context, gap, agentCtx, persona);
+
+        const [system, user] = seen[0];
+        expect(user.content).not.toContain('Maya');
+        expect(user.content).toContain('Land a backend internship');
+        expect(system.content).toContain('OFF-LIMITS TOPICS');
+        expect(result).toEqual({ dashboardMessage: 'Internship prep: 0 sessions. Start one.' });
+        expect(getLLMValidationStats().fieldFailures).toEqual({ focusMessage: 1 });
+    });
+
+    test('savage without opt-outs keeps the original personal prompt', async () => {
+        const { provider, seen } = capture({ nudgeTitle: 'Get the girl' });
+        const persona = resolvePersona({ persona: 'savage', optedOutTopics: [] }, 'sharp');
+
+        const result = await queryLLM(provider, state, context, gap, agentCtx, persona);
+
+        expect(seen[0][1].content).toContain('Feel confident enough to ask Maya out');
+        expect(seen[0][0].content).not.toContain('OFF-LIMITS');
+        expect(result).toEqual({ nudgeTitle: 'Get the girl' });
+    });
+});
@@ -0,0 +1,899 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Database — Unit Tests for the Repository
+// Store records, the one-time legacy import, store hydration and the directive
+// audit log, run through the real migrations against an in-memory SQLite stand-in
+// ─────────────────────────────────────────────────────────────────────────────
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+jest.mock('expo-sqlite', () => ({
+    openDatabaseAsync: jest.fn(async () => mockDb),
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+    initializeDatabase,
+    getMetaValue,
+    upsertHealthDayRecord,
+    getHealthDayRecords,
+    insertMeditationSession,
+    getMeditationSessions,
+    upsertMeditationDayRecord,
+    getMeditationDayRecords,
+    insertFocusTrainingSession,
+    getFocusTrainingSessions,
+    getFocusDifficulty,
+    setFocusDifficulty,
+    insertDirectiveAudit,
+    recordNudgeOutcome,
+    markNudgeShown,
+    recordNudgeUnanswered,
+    recordNudgeUndelivered,
+    linkFollowUpSession,
+    getRecentDirectives,
+    getDirectiveAudit,
+    getDirectiveSnapshot,
+    getStrategyOutcomeSummary,
+    pruneDirectiveLog,
+} from '../database/repository';
+import { MIGRATIONS, runMigrations } from '../database/migrations';
+import { importLegacyStores, readPersistedState, LEGACY_STORE_KEYS } from '../database/legacyImport';
+import { useHealthStore } from '../modules/health/store/health-store';
+import { useMeditationStore } from '../modules/meditation/store/meditation-store';
+import { useFocusStore } from '../modules/shared/store/focus-store';
+import type {
+    FocusSession,
+    HealthDayRecord,
+    MeditationDayRecord,
+    MeditationSessionRecord,
+} from '../modules/shared/types';
+import type { PersonalizationDirective, StrategyType } from '../modules/agent/types/orchestratorTypes';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// In-memory SQLite stand-in
+// Like the one in migrations.test.ts, but it keeps rows and runs the
+// repository's statements: INSERT [OR IGNORE | OR REPLACE], UPDATE, DELETE,
+// and SELECT with one LEFT JOIN, AND-ed WHERE terms (IN sub-selects too),
+// GROUP BY, ORDER BY, LIMIT / OFFSET, COUNT and SUM(CASE …), plus the
+// INSERT … SELECT, DROP TABLE and RENAME TO of a table rebuild.
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type Row = Record<string, any>;
+type Scope = Record<string, Row | null>;
+
+interface FakeTable {
+    columns: string[];
+    defaults: Row;
+    notNull: string[];
+    primaryKey: string | null;
+    autoIncrement: boolean;
+    rows: Row[];
+    lastRowId: number;
+}
+
+/** Split on commas outside parentheses. */
+function splitTopLevel(source: string, separator = ','): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (ch === '(') depth++;
+        if (ch === ')') depth--;
+        if (depth === 0 && source.startsWith(separator, i)) {
+            parts.push(current.trim());
+            current = '';
+            i += separator.length - 1;
+            continue;
+        }
+        current += ch;
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+}
+
+function literal(token: string): any {
+    if (/^-?\d+(\.\d+)?$/.test(token)) return Number(token);
+    const quoted = token.match(/^'(.*)'$/);
+    return quoted ? quoted[1] : undefined;
+}
+
+class InMemoryDatabase {
+    userVersion = 0;
+    tables: Record<string, FakeTable> = {};
+    private snapshot: string | null = null;
+
+    // ── Statements ──
+
+    async execAsync(source: string): Promise<void> {
+        const sql = source.replace(/\s+/g, ' ').trim();
+        if (sql === 'BEGIN TRANSACTION') return this.begin();
+        if (sql === 'COMMIT') return this.commit();
+        if (sql === 'ROLLBACK') return this.rollback();
+
+        const pragma = sql.match(/^PRAGMA user_version = (\d+)$/);
+        if (pragma) {
+            this.userVersion = Number(pragma[1]);
+            return;
+        }
+        const create = sql.match(/^CREATE TABLE IF NOT EXISTS (\w+) \((.*)\)$/);
+        if (create) {
+            if (!this.tables[create[1]]) this.tables[create[1]] = this.parseTable(create[2]);
+            return;
+        }
+        const alter = sql.match(/^ALTER TABLE (\w+) ADD COLUMN (\w+)/);
+        if (alter) {
+            this.table(alter[1]).columns.push(alter[2]);
+            return;
+        }
+        const rename = sql.match(/^ALTER TABLE (\w+) RENAME TO (\w+)$/);
+        if (rename) {
+            this.tables[rename[2]] = this.table(rename[1]);
+            delete this.tables[rename[1]];
+            return;
+        }
+        const drop = sql.match(/^DROP TABLE (\w+)$/);
+        if (drop) {
+            delete this.tables[drop[1]];
+            return;
+        }
+        const copy = sql.match(/^INSERT INTO (\w+) \((.+?)\) (SELECT .+)$/);
+        if (copy) {
+            const columns = splitTopLevel(copy[2]);
+            for (const row of this.select(copy[3], [])) {
+                this.insert(copy[1], columns, columns.map((_, i) => `$${i}`), Object.values(row));
+            }
+            return;
+        }
+        if (/^CREATE INDEX/.test(sql)) return;
+        throw new Error(`Unsupported statement: ${sql}`);
+    }
+
+    async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+        this.begin();
+        try {
+            await task();
+            this.commit();
+        } catch (e) {
+            this.rollback();
+            throw e;
+        }
+    }
+
+    async getFirstAsync<T>(source: string, ...params: any[]): Promise<T | null> {
+        const rows = await this.getAllAsync<T>(source, ...params);
+        return rows[0] ?? null;
+    }
+
+    async getAllAsync<T>(source: string, ...params: any[]): Promise<T[]> {
+        const sql = this.bind(source);
+        if (sql === 'PRAGMA user_version') return [{ user_version: this.userVersion }] as unknown as T[];
+        const info = sql.match(/^PRAGMA table_info\((\w+)\)$/);
+        if (info) return (this.tables[info[1]]?.columns ?? []).map(name => ({ name })) as unknown as T[];
+        return this.select(sql, this.params(params)) as T[];
+    }
+
+    async runAsync(source: string, ...params: any[]): Promise<{ lastInsertRowId: number; changes: number }> {
+        const sql = this.bind(source);
+        const values = this.params(params);
+
+        const insert = sql.match(/^INSERT (?:OR (IGNORE|REPLACE) )?INTO (\w+) \((.+?)\) VALUES \((.+)\)$/);
+        if (insert) return this.insert(insert[2], splitTopLevel(insert[3]), splitTopLevel(insert[4]), values, insert[1]);
+
+        const update = sql.match(/^UPDATE (\w+) SET (.+?) WHERE (.+)$/);
+        if (update) {
+            const table = this.table(update[1]);
+            const matches = table.rows.filter(row => this.test(update[3], { [update[1]]: row }, values));
+            for (const row of matches) {
+                const scope = { [update[1]]: { ...row } };
+                for (const assignment of splitTopLevel(update[2])) {
+                    const [column, expr] = assignment.split(/ = (.+)/);
+                    row[column] = this.evaluate(expr, scope, values);
+                }
+            }
+            return { lastInsertRowId: 0, changes: matches.length };
+        }
+
+        const remove = sql.match(/^DELETE FROM (\w+)(?: WHERE (.+))?$/);
+        if (remove) {
+            const table = this.table(remove[1]);
+            const before = table.rows.length;
+            table.rows = table.rows.filter(row => remove[2] !== undefined && !this.test(remove[2], { [remove[1]]: row }, values));
+            return { lastInsertRowId: 0, changes: before - table.rows.length };
+        }
+
+        throw new Error(`Unsupported statement: ${sql}`);
+    }
+
+    // ── Transactions ──
+
+    private begin(): void {
+        this.snapshot = JSON.stringify({ userVersion: this.userVersion, tables: this.tables });
+    }
+
+    private commit(): void {
+        this.snapshot = null;
+    }
+
+    private rollback(): void {
+        if (this.snapshot) Object.assign(this, JSON.parse(this.snapshot));
+        this.snapshot = null;
+    }
+
+    // ── Tables ──
+
+    private parseTable(body: string): FakeTable {
+        const table: FakeTable = {
+            columns: [], defaults: {}, notNull: [], primaryKey: null, autoIncrement: false, rows: [], lastRowId: 0,
+        };
+        for (const definition of splitTopLevel(body)) {
+            const name = definition.split(' ')[0];
+            if (!/^[a-z_][a-z0-9_]*$/.test(name)) continue;
+            table.columns.push(name);
+            if (definition.includes('PRIMARY KEY')) table.primaryKey = name;
+            if (definition.includes('AUTOINCREMENT')) table.autoIncrement = true;
+            const fallback = definition.match(/DEFAULT (\S+)/);
+            if (fallback && literal(fallback[1]) !== undefined) table.defaults[name] = literal(fallback[1]);
+            else if (definition.includes('NOT NULL')) table.notNull.push(name);
+        }
+        return table;
+    }
+
+    private table(name: string): FakeTable {
+        const table = this.tables[name];
+        if (!table) throw new Error(`no such table: ${name}`);
+        return table;
+    }
+
+    private insert(name: string, columns: string[], exprs: string[], values: any[], conflict?: string) {
+        const table = this.table(name);
+        const row: Row = Object.fromEntries(table.columns.map(c => [c, table.defaults[c] ?? null]));
+        columns.forEach((column, i) => {
+            if (!table.columns.includes(column)) throw new Error(`table ${name} has no column named ${column}`);
+            row[column] = this.evaluate(exprs[i], {}, values);
+        });
+        if (table.autoIncrement && row[table.primaryKey!] === null) row[table.primaryKey!] = table.lastRowId + 1;
+        for (const column of table.notNull) {
+            if (row[column] === null) throw new Error(`NOT NULL constraint failed: ${name}.${column}`);
+        }
+
+        const key = table.primaryKey;
+        const existing = key ? table.rows.findIndex(r => r[key] === row[key]) : -1;
+        if (existing >= 0) {
+            if (conflict === 'IGNORE') return { lastInsertRowId: 0, changes: 0 };
+            if (conflict !== 'REPLACE') throw new Error(`UNIQUE constraint failed: ${name}.${key}`);
+            table.rows.splice(existing, 1);
+        }
+        row.__rowid = table.autoIncrement ? row[key!] : table.lastRowId + 1;
+        table.lastRowId = Math.max(table.lastRowId, row.__rowid);
+        table.rows.push(row);
+        return { lastInsertRowId: row.__rowid, changes: 1 };
+    }
+
+    // ── Queries ──
+
+    private select(sql: string, values: any[]): Row[] {
+        const clauses = '(?!WHERE|LEFT|GROUP|ORDER|LIMIT)';
+        const match = sql.match(new RegExp(
+            `^SELECT (.+?) FROM (\\w+)(?: ${clauses}(\\w+))?(?: LEFT JOIN (\\w+) (\\w+) ON (\\S+) = (\\S+))?` +
+            '(?: WHERE (.+?))?(?: GROUP BY (.+?))?(?: ORDER BY (.+?))?(?: LIMIT (\\S+))?(?: OFFSET (\\S+))?$',
+        ));
+        if (!match) throw new Error(`Unsupported query: ${sql}`);
+        const [, projection, from, alias = from, joined, joinedAlias, left, right, where, groupBy, orderBy, limit, offset] = match;
+
+        let scopes: Scope[] = this.table(from).rows.map(row => ({ [alias]: row }));
+        if (joined) {
+            scopes = scopes.flatMap((scope) => {
+                const hits = this.table(joined).rows
+                    .map(row => ({ ...scope, [joinedAlias]: row }))
+                    .filter(s => this.evaluate(left, s, values) === this.evaluate(right, s, values));
+                return hits.length > 0 ? hits : [{ ...scope, [joinedAlias]: null }];
+            });
+        }
+        if (where) scopes = scopes.filter(scope => this.test(where, scope, values));
+
+        const items = splitTopLevel(projection);
+        const aggregate = items.some(item => /^(COUNT|SUM)\(/.test(item));
+        let groups: Scope[][];
+        if (groupBy) {
+            const byKey = new Map<string, Scope[]>();
+            for (const scope of scopes) {
+                const key = JSON.stringify(this.evaluate(groupBy, scope, values));
+                byKey.set(key, [...(byKey.get(key) ?? []), scope]);
+            }
+            groups = [...byKey.values()];
+        } else {
+            groups = aggregate ? [scopes] : scopes.map(scope => [scope]);
+        }
+
+        let results = groups.map(group => ({ scope: group[0] ?? {}, row: this.project(items, group, values) }));
+
+        if (orderBy) {
+            const terms = splitTopLevel(orderBy).map((term) => {
+                const [expr, direction] = term.split(' ');
+                return { expr, sign: direction === 'DESC' ? -1 : 1 };
+            });
+            const sortKey = (r: { scope: Scope; row: Row }, expr: string) =>
+                expr in r.row ? r.row[expr] : this.evaluate(expr, r.scope, values);
+            results = [...results].sort((a, b) => {
+                for (const { expr, sign } of terms) {
+                    const x = sortKey(a, expr);
+                    const y = sortKey(b, expr);
+                    if (x !== y) return (x === null || x < y ? -1 : 1) * sign;
+                }
+                return 0;
+            });
+        }
+
+        const start = offset ? this.evaluate(offset, {}, values) : 0;
+        const end = limit ? start + this.evaluate(limit, {}, values) : undefined;
+        return results.slice(start, end).map(r => r.row);
+    }
+
+    private project(items: string[], group: Scope[], values: any[]): Row {
+        const out: Row = {};
+        for (const item of items) {
+            const star = item.match(/^(?:(\w+)\.)?\*$/);
+            if (star) {
+                const sources = star[1] ? [group[0]?.[star[1]]] : Object.values(group[0] ?? {});
+                for (const source of sources) {
+                    const { __rowid: _rowid, ...columns } = source ?? {};
+                    Object.assign(out, columns);
+                }
+                continue;
+            }
+            const named = item.match(/^(.+) AS (\w+)$/);
+            const expr = named ? named[1] : item;
+            out[named ? named[2] : item.replace(/^\w+\./, '')] = this.aggregate(expr, group, values);
+        }
+        return out;
+    }
+
+    private aggregate(expr: string, group: Scope[], values: any[]): any {
+        if (expr === 'COUNT(*)') return group.length;
+        const count = expr.match(/^COUNT\((.+)\)$/);
+        if (count) return group.filter(scope => this.evaluate(count[1], scope, values) !== null).length;
+        const sum = expr.match(/^SUM\((.+)\)$/);
+        if (sum) {
+            return group.length === 0 ? null : group.reduce((total, scope) => total + this.evaluate(sum[1], scope, values), 0);
+        }
+        return group.length > 0 ? this.evaluate(expr, group[0], values) : null;
+    }
+
+    // ── Expressions ──
+
+    /** `?` placeholders become `$0`, `$1`, … so each term can find its value. */
+    private bind(source: string): string {
+        let index = 0;
+        return source.replace(/\s+/g, ' ').trim().replace(/\?/g, () => `$${index++}`);
+    }
+
+    private params(params: any[]): any[] {
+        return params.length === 1 && Array.isArray(params[0]) ? params[0] : params;
+    }
+
+    private test(condition: string, scope: Scope, values: any[]): boolean {
+        return splitTopLevel(condition, ' AND ').every((term) => {
+            const nullCheck = term.match(/^(.+) IS (NOT )?NULL$/);
+            if (nullCheck) return (this.evaluate(nullCheck[1], scope, values) === null) !== Boolean(nullCheck[2]);
+            const subquery = term.match(/^(\S+) IN \((SELECT .+)\)$/);
+            if (subquery) {
+                const value = this.evaluate(subquery[1], scope, values);
+                return this.select(subquery[2], values).some(row => Object.values(row)[0] === value);
+            }
+            const comparison = term.match(/^(.+?) (>=|<=|=|<|>|IS) (.+)$/);
+            if (!comparison) throw new Error(`Unsupported condition: ${term}`);
+            const a = this.evaluate(comparison[1], scope, values);
+            const b = this.evaluate(comparison[3], scope, values);
+            if (comparison[2] === 'IS') return a === b;
+            if (a === null || b === null) return false;
+            switch (comparison[2]) {
+                case '=': return a === b;
+                case '>=': return a >= b;
+                case '<=': return a <= b;
+                case '<': return a < b;
+                default: return a > b;
+            }
+        });
+    }
+
+    private evaluate(expr: string, scope: Scope, values: any[]): any {
+        const caseWhen = expr.match(/^CASE WHEN (.+) THEN (\S+) ELSE (\S+) END$/);
+        if (caseWhen) {
+            return this.evaluate(this.test(caseWhen[1], scope, values) ? caseWhen[2] : caseWhen[3], scope, values);
+        }
+        const sum = splitTopLevel(expr, ' + ');
+        if (sum.length > 1) return sum.reduce((total, term) => total + this.evaluate(term, scope, values), 0);
+
+        const param = expr.match(/^\$(\d+)$/);
+        if (param) return values[Number(param[1])] ?? null;
+        if (expr === 'NULL') return null;
+        const constant = literal(expr);
+        if (constant !== undefined) return constant;
+
+        const qualified = expr.match(/^(\w+)\.(\w+)$/);
+        const column = qualified ? qualified[2] : expr;
+        const rows = qualified ? [scope[qualified[1]]] : Object.values(scope);
+        for (const row of rows) {
+            if (!row) continue;
+            if (column === 'rowid') return row.__rowid;
+            if (column in row) return row[column];
+        }
+        if (rows.some(row => row === null)) return null;
+        throw new Error(`no such column: ${expr}`);
+    }
+}
+
+let mockDb = new InMemoryDatabase();
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Fixtures
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function healthRecord(date: string, readiness = 70): HealthDayRecord {
+    return {
+        input: {
+            date, sleep_hours: 7, sleep_quality: 4, sleep_disturbances: 0, exercise_minutes: 20,
+            sedentary_hours: 6, water_ml: 1800, stress_level: 2, fatigue_level: 2,
+        },
+        computed: {
+            SleepScore: 80, SleepQualityScore: 75, HRVScore: 50, StressScore: 75, FatigueScore: 75,
+            RecoveryScore: 70, ExerciseScore: 60, HydrationScore: 70, SedentaryScore: 60, LifestyleScore: 65,
+            CognitiveReadiness: readiness, AttentionCapacity: { level: 'moderate', minutes: 45 },
+        },
+        flags: [{ id: 'flag-hydrate', label: 'Hydrate', type: 'urgent' }],
+        recommendations: [],
+    };
+}
+
+function meditationSession(id: string, date: string, overrides: Partial<MeditationSessionRecord> = {}): MeditationSessionRecord {
+    return {
+        id, date, type: 'breathing', intent: 'focus', duration_seconds: 600,
+        completed: true, rating: 4, efficacy_marked: false, ...overrides,
+    };
+}
+
+function meditationDay(date: string, mss = 60): MeditationDayRecord {
+    return {
+        input: {
+            date, stress_level: 3, fatigue_level: 2, mood: 3, available_minutes: 15,
+            experience_level: 'novice', intent: 'focus',
+        },
+        computed: {
+            RelaxationReadiness: 55, ActivationReadiness: 60, MSS: mss, recommended_type: 'breathing',
+            recommended_duration: 10, prep_seconds: 60, core_seconds: 540, attention_boost_est: 1.2, flags: [],
+        },
+        sessions: [],
+    };
+}
+
+function focusSession(id: string, startedAt: number, overrides: Partial<FocusSession> = {}): FocusSession {
+    return {
+        id, type: 'n-back', startedAt, duration: 120000, accuracy: 82,
+        reactionTimeMs: 450, completed: true, difficulty: 3, ...overrides,
+    };
+}
+
+/** A directive as the orchestrator logs it; `nudgeId: null` for a run without a nudge. */
+function directive(generatedAt: number, strategyType: StrategyType, nudgeId: string | null = `nudge_${generatedAt}`): PersonalizationDirective {
+    return {
+        contextState: { mode: 'maintenance', confidence: 0.7, signals: ['steady day'] },
+        behavioralGap: {
+            overall: 0.4, level: 'moderate', primaryTension: 'goalVsFocus',
+            breakdown: { goalVsFocus: 0.6, distractionDeviation: 0.3, complianceGap: 0.2, sessionSkipRate: 0.1, recoveryNeglect: 0 },
+        },
+        strategy: { type: strategyType, tone: 'supportive', strictness: 2, timing: 'immediate', modality: 'reflective', rationale: 'gap' },
+        strictness: 2,
+        tone: 'supportive',
+        rationale: `${strategyType} at ${generatedAt}`,
+        generatedAt,
+        source: 'template',
+        policyVersion: 'v-test',
+        nudge: nudgeId === null ? undefined : {
+            id: nudgeId, title: 'Time to focus', message: 'One block now?', tone: 'supportive', icon: '🎯',
+            actions: [], priority: 'medium', contextMode: 'maintenance',
+        },
+    } as PersonalizationDirective;
+}
+
+/** A zustand `persist` blob as the old AsyncStorage stores wrote it. */
+function persisted(state: object): string {
+    return JSON.stringify({ state, version: 0 });
+}
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+});
+
+beforeEach(async () => {
+    mockDb = new InMemoryDatabase();
+    await initializeDatabase();
+    await AsyncStorage.clear();
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Store Records
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Health Day Records', () => {
+    test('one row per date, oldest first, with the nested payloads intact', async () => {
+        await upsertHealthDayRecord(healthRecord('2026-10-18', 60));
+        await upsertHealthDayRecord(healthRecord('2026-10-16'));
+        await upsertHealthDayRecord(healthRecord('2026-10-18', 75));
+
+        const records = await getHealthDayRecords();
+        expect(records.map(r => r.input.date)).toEqual(['2026-10-16', '2026-10-18']);
+        expect(records[1]).toEqual(healthRecord('2026-10-18', 75));
+        expect(mockDb.tables.health_day_records.rows[1].cognitive_readiness).toBe(75);
+    });
+
+    test('sinceDate keeps that day and later', async () => {
+        for (const date of ['2026-10-15', '2026-10-17', '2026-10-19']) await upsertHealthDayRecord(healthRecord(date));
+        expect((await getHealthDayRecords('2026-10-17')).map(r => r.input.date)).toEqual(['2026-10-17', '2026-10-19']);
+    });
+});
+
+describe('Meditation Records', () => {
+    test('sessions are idempotent on id and round-trip their flags and optional fields', async () => {
+        const withHrv = meditationSession('m1', '2026-10-18', { pre_hrv: 42, post_hrv: 51, efficacy_marked: true, mss_at_time: 64 });
+        await insertMeditationSession(withHrv);
+        await insertMeditationSession({ ...withHrv, rating: 1 });
+        await insertMeditationSession(meditationSession('m2', '2026-10-17', { completed: false }));
+
+        const sessions = await getMeditationSessions();
+        expect(sessions).toEqual([
+            meditationSession('m2', '2026-10-17', { completed: false }),
+            withHrv,
+        ]);
+        expect(sessions[0].pre_hrv).toBeUndefined();
+        expect(await getMeditationSessions('2026-10-18')).toEqual([withHrv]);
+    });
+
+    test("day records are upserted by date and carry that day's sessions", async () => {
+        await insertMeditationSession(meditationSession('a', '2026-10-18'));
+        await insertMeditationSession(meditationSession('b', '2026-10-19'));
+        await insertMeditationSession(meditationSession('c', '2026-10-18', { type: 'body-scan' }));
+        await upsertMeditationDayRecord(meditationDay('2026-10-18', 50));
+        await upsertMeditationDayRecord(meditationDay('2026-10-18', 58));
+
+        const [day] = await getMeditationDayRecords();
+        expect(day.input.date).toBe('2026-10-18');
+        expect(day.computed.MSS).toBe(58);
+        expect(day.sessions.map(s => s.id)).toEqual(['a', 'c']);
+    });
+});
+
+describe('Focus Training', () => {
+    test('sessions come back by start time and are idempotent on id', async () => {
+        await insertFocusTrainingSession(focusSession('late', 2000));
+        await insertFocusTrainingSession(focusSession('early', 1000, { completed: false }));
+        await insertFocusTrainingSession(focusSession('late', 2000, { accuracy: 10 }));
+
+        expect(await getFocusTrainingSessions()).toEqual([
+            focusSession('early', 1000, { completed: false }),
+            focusSession('late', 2000),
+        ]);
+    });
+
+    test('difficulty is unset until stored', async () => {
+        expect(await getFocusDifficulty()).toBeNull();
+        await setFocusDifficulty(4);
+        await setFocusDifficulty(5);
+        expect(await getFocusDifficulty()).toBe(5);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Legacy Import
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Legacy Store Import', () => {
+    async function seedLegacyStores(): Promise<void> {
+        await AsyncStorage.setItem(LEGACY_STORE_KEYS.health, persisted({
+            records: [healthRecord('2026-10-17'), healthRecord('2026-10-18')],
+        }));
+        await AsyncStorage.setItem(LEGACY_STORE_KEYS.meditation, persisted({
+            dayRecords: [{ ...meditationDay('2026-10-18'), sessions: [meditationSession('m1', '2026-10-18')] }],
+            sessionRecords: [meditationSession('m1', '2026-10-18')],
+        }));
+        await AsyncStorage.setItem(LEGACY_STORE_KEYS.focus, persisted({
+            sessions: [focusSession('f1', 1000), focusSession('f2', 2000)],
+            currentDifficulty: 6,
+        }));
+    }
+
+    test('readPersistedState unwraps a persist blob and rejects anything else', () => {
+        expect(readPersistedState(persisted({ records: [] }))).toEqual({ records: [] });
+        expect(readPersistedState(null)).toBeNull();
+        expect(readPersistedState('not json')).toBeNull();
+        expect(readPersistedState(JSON.stringify({ version: 0 }))).toBeNull();
+    });
+
+    test('copies each store into SQLite, marks it imported and removes the AsyncStorage key', async () => {
+        await seedLegacyStores();
+        await importLegacyStores();
+
+        expect((await getHealthDayRecords()).map(r => r.input.date)).toEqual(['2026-10-17', '2026-10-18']);
+        const [day] = await getMeditationDayRecords();
+        expect(day.sessions.map(s => s.id)).toEqual(['m1']);
+        expect((await getFocusTrainingSessions()).map(s => s.id)).toEqual(['f1', 'f2']);
+        expect(await getFocusDifficulty()).toBe(6);
+
+        for (const key of Object.values(LEGACY_STORE_KEYS)) {
+            expect(await AsyncStorage.getItem(key)).toBeNull();
+            expect(await getMetaValue(`legacy_import.${key}`)).not.toBeNull();
+        }
+    });
+
+    test('runs once: a later blob under the same key is left alone', async () => {
+        await seedLegacyStores();
+        await importLegacyStores();
+
+        const stale = persisted({ records: [healthRecord('2026-01-01')] });
+        await AsyncStorage.setItem(LEGACY_STORE_KEYS.health, stale);
+        await importLegacyStores();
+
+        expect((await getHealthDayRecords()).map(r => r.input.date)).toEqual(['2026-10-17', '2026-10-18']);
+        expect(await AsyncStorage.getItem(LEGACY_STORE_KEYS.health)).toBe(stale);
+    });
+
+    test('a fresh install is marked without touching storage', async () => {
+        const removeItem = jest.spyOn(AsyncStorage, 'removeItem');
+        removeItem.mockClear();
+        await importLegacyStores();
+
+        expect(await getMetaValue(`legacy_import.${LEGACY_STORE_KEYS.focus}`)).not.toBeNull();
+        expect(await getFocusTrainingSessions()).toEqual([]);
+        expect(removeItem).not.toHaveBeenCalled();
+    });
+
+    test('a failed store is rolled back, keeps its key, and is retried next launch', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => { });
+        const broken = { input: { date: '2026-10-19' } };
+        await seedLegacyStores();
+        await AsyncStorage.setItem(LEGACY_STORE_KEYS.health, persisted({ records: [healthRecord('2026-10-17'), broken] }));
+
+        await importLegacyStores();
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining(LEGACY_STORE_KEYS.health), expect.any(TypeError));
+        expect(await getHealthDayRecords()).toEqual([]);
+        expect(await getMetaValue(`legacy_import.${LEGACY_STORE_KEYS.health}`)).toBeNull();
+        expect(await AsyncStorage.getItem(LEGACY_STORE_KEYS.health)).not.toBeNull();
+        // The other stores are independent
+        expect(await getFocusDifficulty()).toBe(6);
+
+        await AsyncStorage.setItem(LEGACY_STORE_KEYS.health, persisted({ records: [healthRecord('2026-10-17')] }));
+        await importLegacyStores();
+        expect((await getHealthDayRecords()).map(r => r.input.date)).toEqual(['2026-10-17']);
+        expect(await AsyncStorage.getItem(LEGACY_STORE_KEYS.health)).toBeNull();
+        warn.mockRestore();
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Store Hydration
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Store Hydration', () => {
+    test('each store loads what the repository holds', async () => {
+        await upsertHealthDayRecord(healthRecord('2026-10-18'));
+        await insertMeditationSession(meditationSession('m1', '2026-10-18'));
+        await upsertMeditationDayRecord(meditationDay('2026-10-18'));
+        await insertFocusTrainingSession(focusSession('f1', 1000));
+        await setFocusDifficulty(7);
+
+        await Promise.all([
+            useHealthStore.getState().hydrate(),
+            useMeditationStore.getState().hydrate(),
+            useFocusStore.getState().hydrate(),
+        ]);
+
+        expect(useHealthStore.getState().records).toEqual([healthRecord('2026-10-18')]);
+        expect(useMeditationStore.getState().sessionRecords).toEqual([meditationSession('m1', '2026-10-18')]);
+        expect(useMeditationStore.getState().dayRecords).toEqual([
+            { ...meditationDay('2026-10-18'), sessions: [meditationSession('m1', '2026-10-18')] },
+        ]);
+        expect(useFocusStore.getState().sessions).toEqual([focusSession('f1', 1000)]);
+        expect(useFocusStore.getState().currentDifficulty).toBe(7);
+    });
+
+    test('focus difficulty starts at 1 on an empty database', async () => {
+        useFocusStore.setState({ currentDifficulty: 9 });
+        await useFocusStore.getState().hydrate();
+        expect(useFocusStore.getState().sessions).toEqual([]);
+        expect(useFocusStore.getState().currentDifficulty).toBe(1);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Directive Audit Log
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Directive Audit Log', () => {
+    const T0 = new Date(2026, 9, 19, 9).getTime();
+    const MINUTE = 60_000;
+    const HOUR = 60 * MINUTE;
+    const DAY = 24 * HOUR;
+
+    test('a run is logged with its nudge and the full directive', async () => {
+        const logged = directive(T0, 'supportive', 'n1');
+        const id = await insertDirectiveAudit(logged);
+        const quiet = await insertDirectiveAudit(directive(T0 + MINUTE, 'reflective', null));
+        expect(quiet).toBe(id + 1);
+
+        const audit = await getDirectiveAudit(id);
+        expect(audit).toMatchObject({
+            id, generatedAt: T0, contextMode: 'maintenance', contextConfidence: 0.7, gap: logged.behavioralGap,
+            strategyType: 'supportive', strictness: 2, source: 'template', policyVersion: 'v-test',
+        });
+        expect(audit!.nudge).toEqual({
+            nudgeId: 'n1', directiveId: id, title: 'Time to focus', message: 'One block now?', tone: 'supportive',
+            priority: 'medium', shownAt: null, outcome: null, outcomeAt: null, snoozeCount: 0,
+            followUpSessionId: null, followUpAt: null,
+        });
+        expect((await getDirectiveAudit(quiet))!.nudge).toBeNull();
+        expect(await getDirectiveSnapshot(id)).toEqual(logged);
+        expect((await getRecentDirectives()).map(d => d.id)).toEqual([quiet, id]);
+    });
+
+    test('a failed nudge insert rolls the directive back', async () => {
+        await insertDirectiveAudit(directive(T0, 'supportive', 'n1'));
+        const broken = directive(T0 + MINUTE, 'enforcing', 'n2');
+        broken.nudge!.title = undefined as unknown as string;
+
+        await expect(insertDirectiveAudit(broken)).rejects.toThrow(/NOT NULL/);
+        expect(await getRecentDirectives()).toHaveLength(1);
+    });
+
+    test('a nudge is stamped when delivered, and a snoozed one keeps its first delivery', async () => {
+        const id = await insertDirectiveAudit(directive(T0, 'supportive', 'n1'));
+        await markNudgeShown('n1', T0 + 30 * MINUTE);
+        await recordNudgeOutcome('n1', 'snoozed', T0 + 31 * MINUTE);
+        await markNudgeShown('n1', T0 + 36 * MINUTE);
+
+        expect((await getDirectiveAudit(id))!.nudge).toMatchObject({ shownAt: T0 + 30 * MINUTE, outcome: 'snoozed' });
+    });
+
+    test('queue drops and suppressions are recorded, but never over a delivered nudge', async () => {
+        const dropped = await insertDirectiveAudit(directive(T0, 'supportive', 'dropped'));
+        const shown = await insertDirectiveAudit(directive(T0 + MINUTE, 'supportive', 'shown'));
+        await recordNudgeUndelivered('dropped', 'superseded', T0 + 2 * MINUTE);
+        await markNudgeShown('shown', T0 + 2 * MINUTE);
+        await recordNudgeOutcome('shown', 'snoozed', T0 + 3 * MINUTE);
+        await recordNudgeUndelivered('shown', 'expired', T0 + 90 * MINUTE);
+
+        expect((await getDirectiveAudit(dropped))!.nudge).toMatchObject({ shownAt: null, outcome: 'superseded', outcomeAt: T0 + 2 * MINUTE });
+        expect((await getDirectiveAudit(shown))!.nudge).toMatchObject({ shownAt: T0 + 2 * MINUTE, outcome: 'snoozed' });
+    });
+
+    test('a shown nudge left unanswered records why it ended, never over a response', async () => {
+        const ignored = await insertDirectiveAudit(directive(T0, 'supportive', 'ignored'));
+        const answered = await insertDirectiveAudit(directive(T0 + MINUTE, 'supportive', 'answered'));
+        const queued = await insertDirectiveAudit(directive(T0 + 2 * MINUTE, 'supportive', 'queued'));
+        await markNudgeShown('ignored', T0);
+        await markNudgeShown('answered', T0 + MINUTE);
+        await recordNudgeOutcome('answered', 'dismissed', T0 + 2 * MINUTE);
+
+        await recordNudgeUnanswered('ignored', 'expired', T0 + HOUR);
+        await recordNudgeUnanswered('answered', 'stale-context', T0 + HOUR);
+        await recordNudgeUnanswered('queued', 'expired', T0 + HOUR);
+
+        expect((await getDirectiveAudit(ignored))!.nudge).toMatchObject({ shownAt: T0, outcome: 'expired', outcomeAt: T0 + HOUR });
+        expect((await getDirectiveAudit(answered))!.nudge).toMatchObject({ outcome: 'dismissed' });
+        expect((await getDirectiveAudit(queued))!.nudge).toMatchObject({ shownAt: null, outcome: null });
+    });
+
+    test('outcomes keep the latest response and count every snooze', async () => {
+        const id = await insertDirectiveAudit(directive(T0, 'supportive', 'n1'));
+        await recordNudgeOutcome('n1', 'snoozed', T0 + MINUTE);
+        await recordNudgeOutcome('n1', 'snoozed', T0 + 20 * MINUTE);
+        await recordNudgeOutcome('n1', 'accepted', T0 + 40 * MINUTE);
+        await recordNudgeOutcome('unknown', 'dismissed', T0);
+
+        expect((await getDirectiveAudit(id))!.nudge).toMatchObject({
+            outcome: 'accepted', outcomeAt: T0 + 40 * MINUTE, snoozeCount: 2,
+        });
+    });
+
+    test('a session within 2 hours links to the latest unlinked nudge shown before it', async () => {
+        await insertDirectiveAudit(directive(T0, 'supportive', 'early'));
+        await insertDirectiveAudit(directive(T0 + HOUR, 'enforcing', 'late'));
+        await insertDirectiveAudit(directive(T0 + 80 * MINUTE, 'enforcing', 'never-shown'));
+        await markNudgeShown('early', T0);
+        await markNudgeShown('late', T0 + HOUR);
+
+        // Before any nudge, and more than 2 hours after the last one, nothing links
+        expect(await linkFollowUpSession(1, T0 - MINUTE)).toBeNull();
+        expect(await linkFollowUpSession(1, T0 + 3 * HOUR + MINUTE)).toBeNull();
+
+        expect(await linkFollowUpSession(7, T0 + 90 * MINUTE)).toBe('late');
+        // Each nudge is credited once, so the next session falls back to the earlier one
+        expect(await linkFollowUpSession(8, T0 + 2 * HOUR)).toBe('early');
+        expect(await linkFollowUpSession(9, T0 + 2 * HOUR + MINUTE)).toBeNull();
+
+        const [neverShown, late, early] = await getRecentDirectives();
+        expect(neverShown.nudge!.followUpSessionId).toBeNull();
+        expect(late.nudge).toMatchObject({ followUpSessionId: 7, followUpAt: T0 + 90 * MINUTE });
+        expect(early.nudge).toMatchObject({ followUpSessionId: 8, followUpAt: T0 + 2 * HOUR });
+    });
+
+    test('the strategy summary counts directives, nudges, outcomes and follow-ups since a time', async () => {
+        await insertDirectiveAudit(directive(T0 - DAY, 'enforcing', 'old'));
+        await insertDirectiveAudit(directive(T0, 'supportive', 's1'));
+        await insertDirectiveAudit(directive(T0 + MINUTE, 'supportive', 's2'));
+        await insertDirectiveAudit(directive(T0 + 2 * MINUTE, 'supportive', null));
+        await insertDirectiveAudit(directive(T0 + 3 * MINUTE, 'enforcing', 'e1'));
+        await insertDirectiveAudit(directive(T0 + 4 * MINUTE, 'enforcing', 'e2'));
+        for (const [id, at] of [['old', T0 - DAY], ['s1', T0], ['s2', T0 + MINUTE], ['e1', T0 + 3 * MINUTE]] as const) {
+            await markNudgeShown(id, at);
+        }
+        await recordNudgeUndelivered('e2', 'suppressed', T0 + 4 * MINUTE);
+        await recordNudgeOutcome('s1', 'accepted', T0 + 5 * MINUTE);
+        await recordNudgeOutcome('s2', 'snoozed', T0 + 5 * MINUTE);
+        await recordNudgeOutcome('e1', 'dismissed', T0 + 5 * MINUTE);
+        await recordNudgeOutcome('old', 'dismissed', T0 - DAY);
+        await linkFollowUpSession(3, T0 + 10 * MINUTE);
+
+        expect(await getStrategyOutcomeSummary(T0)).toEqual([
+            { strategyType: 'supportive', directives: 3, nudges: 2, accepted: 1, snoozed: 1, dismissed: 0, undelivered: 0, followedUp: 0 },
+            { strategyType: 'enforcing', directives: 2, nudges: 1, accepted: 0, snoozed: 0, dismissed: 1, undelivered: 1, followedUp: 1 },
+        ]);
+        expect((await getStrategyOutcomeSummary()).find(s => s.strategyType === 'enforcing')).toMatchObject({
+            directives: 3, dismissed: 2,
+        });
+        expect(await getStrategyOutcomeSummary(T0 + HOUR)).toEqual([]);
+    });
+
+    test('a nudge-less repeat of the last directive is logged once an hour, not once a run', async () => {
+        const repeat = (at: number) => ({ ...directive(at, 'supportive', null), rationale: 'steady' });
+        const first = await insertDirectiveAudit(repeat(T0));
+        for (let minute = 1; minute < 60; minute++) {
+            expect(await insertDirectiveAudit(repeat(T0 + minute * MINUTE))).toBe(first);
+        }
+        const changed = await insertDirectiveAudit({ ...repeat(T0 + 60 * MINUTE), tone: 'challenge' });
+        const hourLater = await insertDirectiveAudit({ ...repeat(T0 + 2 * HOUR), tone: 'challenge' });
+        const withNudge = await insertDirectiveAudit({ ...directive(T0 + 2 * HOUR + MINUTE, 'supportive', 'n1'), rationale: 'steady', tone: 'challenge' });
+
+        expect(new Set([first, changed, hourLater, withNudge]).size).toBe(4);
+        expect(mockDb.tables.directive_log.rows).toHaveLength(4);
+    });
+
+    test('pruning drops directives past 90 days, then all but the newest rows, with their nudges', async () => {
+        await insertDirectiveAudit(directive(T0 - 100 * DAY, 'supportive', 'stale'));
+        for (let i = 0; i < 5; i++) {
+            await insertDirectiveAudit(directive(T0 - (4 - i) * DAY, 'supportive', `n${i}`));
+        }
+
+        expect(await pruneDirectiveLog(T0, 3)).toBe(3);
+        expect((await getRecentDirectives()).map(d => d.nudge!.nudgeId)).toEqual(['n4', 'n3', 'n2']);
+        expect(mockDb.tables.directive_nudges.rows.map(r => r.nudge_id)).toEqual(['n2', 'n3', 'n4']);
+
+        expect(await pruneDirectiveLog(T0, 3)).toBe(0);
+        expect(await pruneDirectiveLog(T0 + 89 * DAY)).toBe(1);
+        expect(mockDb.tables.directive_nudges.rows).toHaveLength(2);
+    });
+
+    test('upgrading keeps the delivery time only for nudges the user answered', async () => {
+        mockDb = new InMemoryDatabase();
+        await runMigrations(mockDb, MIGRATIONS.slice(0, 7), 7);
+        const id = (await mockDb.runAsync(
+            `INSERT INTO directive_log (generated_at, context_mode, context_confidence, gap_overall, gap_level, gap_json,
+                                        strategy_type, tone, strictness, source, rationale, directive_json)
+             VALUES (?, 'maintenance', 0.7, 0.4, 'moderate', '{}', 'supportive', 'supportive', 2, 'template', 'r', '{}')`,
+            [T0]
+        )).lastInsertRowId;
+        for (const [nudgeId, outcome] of [['answered', 'accepted'], ['unanswered', null]]) {
+            await mockDb.runAsync(
+                `INSERT INTO directive_nudges (nudge_id, directive_id, title, message, tone, priority, shown_at, outcome)
+                 VALUES (?, ?, 't', 'm', 'supportive', 'medium', ?, ?)`,
+                [nudgeId, id, T0, outcome]
+            );
+        }
+
+        await runMigrations(mockDb);
+        expect(mockDb.tables.directive_nudges.rows.map(r => [r.nudge_id, r.shown_at])).toEqual([
+            ['answered', T0],
+            ['unanswered', null],
+        ]);
+    });
+});
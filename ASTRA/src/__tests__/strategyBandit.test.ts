@@ -0,0 +1,209 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Agent — Unit Tests for the Strategy Bandit
+// Cold start, learning from rewards, safety limits and reward bookkeeping
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+    BANDIT_CONFIG,
+    armKey,
+    banditFeatures,
+    chooseArm,
+    computeReward,
+    emptyBanditState,
+    isArmAllowed,
+    markDecisionShown,
+    moveDecision,
+    recordDecision,
+    recordFocus,
+    recordOutcome,
+    settleExpired,
+    summarizeBandit,
+    updateArm,
+    type BanditState,
+} from '../modules/agent/engine/strategyBandit';
+import { selectStrategy } from '../modules/agent/engine/strategySelector';
+import { buildUserState } from '../modules/agent/engine/stateIngestion';
+import { inferContext } from '../modules/agent/engine/contextInference';
+import { computeBehavioralGap } from '../modules/agent/engine/behavioralGap';
+import type { BanditDecision, ContextState, UserState } from '../modules/agent/types/orchestratorTypes';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+import { getBanditState, setBanditState } from '../storage/mmkvStore';
+
+const X = [1, 0.6, 0.5, 0.5, 0.4, 0.5, 0.4, 0];
+const RULE = { type: 'reflective', tone: 'supportive' } as const;
+const anyArm = () => true;
+
+/** Train `times` rewards of `reward` on one arm. */
+function train(bandit: BanditState, key: string, reward: number, times: number): BanditState {
+    let next = bandit;
+    for (let i = 0; i < times; i++) next = updateArm(next, key, X, reward);
+    return next;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Arm Selection
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Arm Selection', () => {
+    test('cold start returns the rule arm', () => {
+        const bandit = train(emptyBanditState(), 'enforcing/sharp', 1, BANDIT_CONFIG.coldStartUpdates - 1);
+        const decision = chooseArm(bandit, X, RULE, anyArm);
+        expect(decision).toMatchObject({ arm: 'reflective/supportive', learned: false, estimatedReward: null });
+    });
+
+    test('learns to prefer the arm that pays off', () => {
+        let bandit = train(emptyBanditState(), 'reflective/supportive', 0, 10);
+        bandit = train(bandit, 'enforcing/challenge', 1, 10);
+
+        const decision = chooseArm(bandit, X, RULE, anyArm);
+        expect(decision.arm).toBe('enforcing/challenge');
+        expect(decision.learned).toBe(true);
+        expect(decision.estimatedReward!).toBeGreaterThan(0.8);
+    });
+
+    test('rule arm keeps its prior bonus when rewards are equal', () => {
+        let bandit = train(emptyBanditState(), 'reflective/supportive', 0.5, 20);
+        bandit = train(bandit, 'enforcing/challenge', 0.5, 20);
+        const others = (arm: { type: string }) => arm.type === 'enforcing';
+
+        expect(chooseArm(bandit, X, RULE, others).arm).toBe('reflective/supportive');
+    });
+
+    test('disallowed arms are never chosen', () => {
+        const bandit = train(emptyBanditState(), 'enforcing/sharp', 1, 20);
+        const decision = chooseArm(bandit, X, RULE, arm => armKey(arm) !== 'enforcing/sharp');
+        expect(decision.arm).not.toBe('enforcing/sharp');
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Safety Limits
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Safety Limits', () => {
+    const state = { static: { authorityResistance: 0.2, emotionalReactivity: 0.2 } } as UserState;
+    const ctx = (mode: ContextState['mode']) => ({ mode }) as ContextState;
+
+    test('depleted contexts only allow recovery-first, never sharp', () => {
+        expect(isArmAllowed({ type: 'enforcing', tone: 'challenge' }, ctx('overloaded'), state)).toBe(false);
+        expect(isArmAllowed({ type: 'recovery-first', tone: 'sharp' }, ctx('cognitively-fatigued'), state)).toBe(false);
+        expect(isArmAllowed({ type: 'recovery-first', tone: 'supportive' }, ctx('overloaded'), state)).toBe(true);
+    });
+
+    test('sharp tone is off for authority-resistant users', () => {
+        const resistant = { static: { authorityResistance: 0.8, emotionalReactivity: 0.2 } } as UserState;
+        expect(isArmAllowed({ type: 'enforcing', tone: 'sharp' }, ctx('drifting'), state)).toBe(true);
+        expect(isArmAllowed({ type: 'enforcing', tone: 'sharp' }, ctx('drifting'), resistant)).toBe(false);
+    });
+
+    test('selectStrategy never lets the learner push an overloaded user', () => {
+        const overloaded = buildUserState(null, null, null, 20, 0.8, 0, 0, 3);
+        overloaded.dynamic.stressLevel = 5;
+        overloaded.dynamic.fatigueLevel = 5;
+        const context = inferContext(overloaded);
+        const gap = computeBehavioralGap(overloaded);
+        expect(context.mode).toBe('overloaded');
+
+        const features = banditFeatures(overloaded, context, gap);
+        let bandit = emptyBanditState();
+        for (let i = 0; i < 20; i++) bandit = updateArm(bandit, 'enforcing/sharp', features, 1);
+
+        const strategy = selectStrategy(overloaded, context, gap, bandit);
+        expect(strategy.type).toBe('recovery-first');
+        expect(strategy.tone).not.toBe('sharp');
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Rewards
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Rewards', () => {
+    const decision: BanditDecision = {
+        arm: 'enforcing/challenge', type: 'enforcing', tone: 'challenge', features: X, learned: false, estimatedReward: null,
+    };
+
+    test('acceptance and follow-up focus each make up half', () => {
+        expect(computeReward('accepted', 25)).toBe(1);
+        expect(computeReward('accepted', 0)).toBe(0.5);
+        expect(computeReward('snoozed', 12.5)).toBeCloseTo(0.4);
+        expect(computeReward('dismissed', 0)).toBe(0);
+        expect(computeReward(undefined, 50)).toBe(0.5);
+    });
+
+    test('dismissal settles at once', () => {
+        let bandit = recordDecision(emptyBanditState(), 'n1', decision, 0);
+        bandit = recordOutcome(bandit, 'n1', 'dismissed', 1000);
+        expect(bandit.pending).toEqual([]);
+        expect(bandit.arms['enforcing/challenge']).toMatchObject({ pulls: 1, rewardSum: 0 });
+    });
+
+    test('accepted nudge waits for the focus session that follows', () => {
+        let bandit = recordDecision(emptyBanditState(), 'n1', decision, 0);
+        bandit = recordOutcome(bandit, 'n1', 'accepted', 1000);
+        expect(bandit.updates).toBe(0);
+
+        bandit = recordFocus(bandit, 25, 60_000);
+        expect(bandit.pending).toEqual([]);
+        expect(bandit.arms['enforcing/challenge']).toMatchObject({ pulls: 1, rewardSum: 1 });
+    });
+
+    test('focus after the window is not credited; expiry settles without it', () => {
+        let bandit = recordDecision(emptyBanditState(), 'n1', decision, 0);
+        bandit = recordOutcome(bandit, 'n1', 'accepted', 0);
+        const late = BANDIT_CONFIG.followUpWindowMs + 1;
+
+        expect(recordFocus(bandit, 25, late)).toBe(bandit);
+        bandit = settleExpired(bandit, late);
+        expect(bandit.arms['enforcing/challenge']).toMatchObject({ pulls: 1, rewardSum: 0.5 });
+    });
+
+    test('the window starts at delivery and a queued nudge never settles', () => {
+        const window = BANDIT_CONFIG.followUpWindowMs;
+        let bandit = recordDecision(emptyBanditState(), 'n1', decision, 0);
+
+        // Still queued hours after the decision (a scheduled nudge)
+        expect(settleExpired(bandit, 3 * window, new Set(['n1']))).toBe(bandit);
+
+        bandit = markDecisionShown(bandit, 'n1', 3 * window);
+        expect(settleExpired(bandit, 3 * window + 60_000)).toBe(bandit);
+
+        bandit = settleExpired(bandit, 4 * window + 1);
+        expect(bandit.pending).toEqual([]);
+        expect(bandit.arms['enforcing/challenge']).toMatchObject({ pulls: 1, rewardSum: 0 });
+    });
+
+    test('a decision whose nudge was neither shown nor queued is dropped unrewarded', () => {
+        const bandit = settleExpired(recordDecision(emptyBanditState(), 'lost', decision, 0), BANDIT_CONFIG.followUpWindowMs + 1);
+        expect(bandit.pending).toEqual([]);
+        expect(bandit.arms).toEqual({});
+    });
+
+    test('a replaced queue payload takes over the decision unless it has its own', () => {
+        const moved = moveDecision(recordDecision(emptyBanditState(), 'old', decision, 0), 'old', 'new');
+        expect(moved.pending.map(p => [p.nudgeId, p.arm])).toEqual([['new', 'enforcing/challenge']]);
+
+        let both = recordDecision(emptyBanditState(), 'old', decision, 0);
+        both = recordDecision(both, 'new', { ...decision, arm: 'reflective/supportive' }, 60_000);
+        expect(moveDecision(both, 'old', 'new').pending.map(p => [p.nudgeId, p.arm])).toEqual([['new', 'reflective/supportive']]);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Persistence + Inspection
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Persistence', () => {
+    test('learned parameters survive a KV round trip and are inspectable', () => {
+        setKeyValueBackend(createMemoryBackend());
+        expect(getBanditState()).toEqual(emptyBanditState());
+
+        setBanditState(train(emptyBanditState(), 'supportive/confidence_building', 0.75, 4));
+        const [summary] = summarizeBandit(getBanditState());
+
+        expect(summary.arm).toBe('supportive/confidence_building');
+        expect(summary.pulls).toBe(4);
+        expect(summary.meanReward).toBeCloseTo(0.75);
+        expect(Object.keys(summary.weights)).toHaveLength(X.length);
+    });
+});
@@ -0,0 +1,125 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Agent — Unit Tests for the Offline Template Generator
+// Seeded phrasing, real metrics, tone adaptation and orchestrator fallback
+// ─────────────────────────────────────────────────────────────────────────────
+
+jest.mock('../modules/agent/engine/contextCollector', () => ({
+    collectAgentContext: jest.fn(),
+    generateModuleMessages: () => ({ dashboard: 'd', focus: 'f', meditation: 'm', health: 'h' }),
+}));
+
+import { generateTemplateResponse } from '../modules/agent/llm/templateGenerator';
+import { validateGroqResponse } from '../modules/agent/llm/responseSchema';
+import { resolvePersona } from '../modules/agent/llm/personas';
+import { createLLMProvider } from '../modules/agent/llm/providers';
+import { runOrchestrator } from '../modules/agent/engine/orchestrator';
+import { createDirectiveCache } from '../modules/agent/engine/directiveCache';
+import type { PersonalizationDirective, UserState } from '../modules/agent/types/orchestratorTypes';
+import type { AgentContext } from '../modules/agent/engine/contextCollector';
+import type { NudgeTone } from '../modules/onboarding/models/onboardingTypes';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+
+const AGENT_CONTEXT = {
+    profile: null, personalization: null, healthRecord: null, healthFlags: [],
+    cognitiveReadiness: 60, stressLevel: 3, fatigueLevel: 3, sleepHours: 6.5,
+    meditationSessionCount: 4, meditationTotalMinutes: 40, meditationAvgRating: 4,
+    mss: 50, lastMeditationType: null, currentAFI: 0.5, currentCRS: 60,
+    activeGoalName: 'Ship the thesis', completedSessionsToday: 2, distractiveAppNames: ['Instagram'],
+    isInFocusSession: false, habitStreak: 5, complianceRate: 0.42, distractionRate: 0.55,
+} as AgentContext;
+
+function makeInputs(tone: NudgeTone = 'sharp'): { directive: PersonalizationDirective; state: UserState } {
+    const state = {
+        static: { nudgeTone: tone },
+        semiDynamic: { habitStreak: 5, weeklyFocusMinutes: 140 },
+        dynamic: { sleepHours: 6.5, stressLevel: 3, fatigueLevel: 4 },
+        behavioral: { complianceRate: 0.42, distractionRate: 0.55 },
+    } as unknown as UserState;
+    const directive = {
+        contextState: { mode: 'drifting' },
+        tone,
+        meditationType: 'breathing',
+        recommendedFocus: { sessionLength: 15, type: 'training', reason: 'r' },
+        generatedAt: 0,
+    } as unknown as PersonalizationDirective;
+    return { directive, state };
+}
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+});
+
+beforeEach(() => {
+    setKeyValueBackend(createMemoryBackend());
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Generator
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Template Generator', () => {
+    test('same seed → same wording; other seeds vary it', () => {
+        const { directive, state } = makeInputs();
+        const a = generateTemplateResponse(directive, state, AGENT_CONTEXT, { seed: 'day-1' });
+        expect(generateTemplateResponse(directive, state, AGENT_CONTEXT, { seed: 'day-1' })).toEqual(a);
+
+        const variants = new Set(
+            ['a', 'b', 'c', 'd', 'e', 'f'].map(seed =>
+                JSON.stringify(generateTemplateResponse(directive, state, AGENT_CONTEXT, { seed }))),
+        );
+        expect(variants.size).toBeGreaterThan(1);
+    });
+
+    test('fills every message with real metrics and passes the schema', () => {
+        const { directive, state } = makeInputs();
+        for (const seed of ['a', 'b', 'c', 'd']) {
+            const response = generateTemplateResponse(directive, state, AGENT_CONTEXT, { seed });
+            expect(Object.keys(response).sort()).toEqual([
+                'dashboardMessage', 'focusMessage', 'healthMessage',
+                'meditationMessage', 'nudgeMessage', 'nudgeTitle',
+            ]);
+            expect(validateGroqResponse(response)!.failures).toEqual([]);
+            for (const text of Object.values(response)) expect(text).not.toMatch(/[{}]|undefined/);
+            expect(response.nudgeMessage).toMatch(/\d/);
+            expect(response.healthMessage).toMatch(/6\.5h|4\/5/);
+        }
+    });
+
+    test('wording follows the directive tone', () => {
+        const titles = (tone: NudgeTone) => new Set(['a', 'b', 'c', 'd', 'e'].map(seed => {
+            const { directive, state } = makeInputs(tone);
+            return generateTemplateResponse(directive, state, AGENT_CONTEXT, { seed }).nudgeTitle;
+        }));
+        const sharp = titles('sharp');
+        for (const title of titles('supportive')) expect(sharp.has(title)).toBe(false);
+    });
+
+    test('sharp tone is softened when the persona bans self-worth jabs', () => {
+        const { directive, state } = makeInputs('sharp');
+        const persona = resolvePersona({ persona: 'coach', optedOutTopics: [] }, 'sharp');
+        const softened = generateTemplateResponse(directive, state, AGENT_CONTEXT, { seed: 'x', persona });
+        const challenge = generateTemplateResponse({ ...directive, tone: 'challenge' }, state, AGENT_CONTEXT, { seed: 'x' });
+        expect(softened).toEqual(challenge);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Orchestrator Fallback
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Orchestrator without an API key', () => {
+    test('uses templates and marks the directive as template-sourced', async () => {
+        const llm = createLLMProvider({ provider: 'groq', overrides: {} }, { fetch: jest.fn() });
+
+        const directive = await runOrchestrator(null, null, null, 0, 0, 0, 0, 0, {
+            llm,
+            agentContext: AGENT_CONTEXT,
+            cache: createDirectiveCache(),
+        });
+
+        expect(directive.source).toBe('template');
+        expect(directive.moduleMessages.dashboard).not.toBe('d');
+        expect(directive.moduleMessages.health).not.toBe('h');
+    });
+});
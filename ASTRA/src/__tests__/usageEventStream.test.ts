@@ -0,0 +1,198 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ASTRA Focus Trainer — Unit Tests for the Usage Event Stream
+// Session, switch and unlock reconstruction from recorded usage events
+// ─────────────────────────────────────────────────────────────────────────────
+
+jest.mock('../database/repository', () => ({
+    insertUsageSession: jest.fn(async () => 1),
+}));
+
+const mockNative: { events: string | null | Error } = { events: null };
+
+jest.mock('../modules/backgroundTracking/NativeTrackingBridge', () => ({
+    isNativeModuleAvailable: () => true,
+    getUsageEventRecording: jest.fn(async () => {
+        if (mockNative.events instanceof Error) throw mockNative.events;
+        return mockNative.events;
+    }),
+    getTodaySessions: jest.fn(async () => [
+        { id: 1, packageName: 'com.Slack', appName: 'Slack', startTime: 1000, endTime: 61000, duration: 60000, isDistractive: false },
+        { id: 2, packageName: 'com.instagram.android', appName: 'Instagram', startTime: 90000, endTime: 150000, duration: 60000, isDistractive: true },
+    ]),
+}));
+
+import morning from './fixtures/usage-events-morning.json';
+import {
+    parseUsageEventRecording,
+    reconstructSessions,
+    toAFISamples,
+} from '../modules/focusTrainer/engine/usageEventStream';
+import { computeAFI } from '../modules/focusTrainer/math/attentionFragmentation';
+import { getUnlockCount, getUsageSessions, ingestUsageRecording } from '../modules/focusTrainer/services/UsageStatsService';
+import { insertUsageSession } from '../database/repository';
+import { getUsageIngestCursor } from '../storage/mmkvStore';
+import { createMemoryBackend, setKeyValueBackend } from '../storage/kvBackend';
+import type { RawUsageEvent, UsageEventRecording } from '../modules/focusTrainer/models/types';
+
+const T0 = morning.start;
+const SEC = 1000;
+const MORNING = parseUsageEventRecording(morning);
+
+/** Recording of `events` given as [seconds after T0, type code, package]. */
+function recording(events: Array<[number, number, string?]>, endSec: number): UsageEventRecording {
+    return {
+        format: 'astra.usage-events',
+        version: 1,
+        start: T0,
+        end: T0 + endSec * SEC,
+        labels: {},
+        events: events.map(([sec, type, pkg]): RawUsageEvent => ({ t: T0 + sec * SEC, type, pkg })),
+    };
+}
+
+beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+});
+
+beforeEach(() => {
+    setKeyValueBackend(createMemoryBackend());
+    jest.clearAllMocks();
+    mockNative.events = null;
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Recordings
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Usage Event Recordings', () => {
+    test('the fixture parses from JSON text as well as objects', () => {
+        expect(parseUsageEventRecording(JSON.stringify(morning))).toEqual(MORNING);
+        expect(MORNING.events).toHaveLength(21);
+    });
+
+    test('malformed recordings are rejected', () => {
+        expect(() => parseUsageEventRecording({ ...morning, format: 'csv' })).toThrow(/Unsupported/);
+        expect(() => parseUsageEventRecording({ ...morning, end: T0 - 1 })).toThrow(/start ≤ end/);
+        expect(() => parseUsageEventRecording({ ...morning, events: [{ t: 'now', type: 1 }] })).toThrow(/Usage event 0/);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Reconstruction
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Session Reconstruction', () => {
+    const result = reconstructSessions(MORNING);
+
+    test('rebuilds closed sessions, skipping the launcher and unknown event types', () => {
+        expect(result.sessions.map(s => [s.appName, (s.startTime - T0) / SEC, s.duration / SEC])).toEqual([
+            ['Slack', 8.1, 171.9],
+            ['GitHub', 180.1, 419.9],
+            ['Instagram', 605.1, 294.9],
+            ['WhatsApp', 1802, 40],
+        ]);
+    });
+
+    test('counts switches between apps, but not across a lock or within one app', () => {
+        expect(result.sessions.map(s => s.switchCount)).toEqual([0, 1, 1, 0]);
+        expect(result.switches).toBe(2);
+    });
+
+    test('unlocks go to the session they lead into', () => {
+        expect(result.sessions.map(s => s.unlockCount)).toEqual([1, 0, 0, 1]);
+        expect(result.unlocks).toBe(2);
+    });
+
+    test('the still-open session is left for the next query', () => {
+        expect(result.resumeFrom).toBe(T0 + 1842.1 * SEC);
+        const live = reconstructSessions(MORNING, { closeOpenAt: MORNING.end });
+        expect(live.sessions).toHaveLength(5);
+        expect(live.sessions[4]).toMatchObject({ packageName: 'com.instagram.android', switchCount: 1, endTime: MORNING.end });
+    });
+
+    test('coming back to the same app after the resume gap starts a new session', () => {
+        const { sessions } = reconstructSessions(recording([
+            [0, 1, 'com.Slack'], [30, 2, 'com.Slack'], [40, 1, 'com.Slack'], [90, 16],
+        ], 100));
+        expect(sessions.map(s => [(s.startTime - T0) / SEC, s.duration / SEC, s.switchCount])).toEqual([[0, 30, 0], [40, 50, 0]]);
+    });
+
+    test('an unlock not yet followed by a session holds the cursor back', () => {
+        const result = reconstructSessions(recording([
+            [0, 1, 'com.Slack'], [60, 16], [120, 15], [121, 18],
+        ], 125));
+        expect(result.sessions).toHaveLength(1);
+        expect(result.resumeFrom).toBe(T0 + 121 * SEC);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// AFI & Ingestion
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('AFI & Ingestion', () => {
+    test('AFI sees the reconstructed switches and unlocks', () => {
+        const { sessions } = reconstructSessions(MORNING, { closeOpenAt: MORNING.end });
+        const afi = computeAFI(sessions, MORNING.end - MORNING.start);
+        expect(afi.switchesPerHour).toBeCloseTo(3 / (2500 / 3600));
+        expect(afi.unlocksPerHour).toBeCloseTo(2 / (2500 / 3600));
+    });
+
+    test('AFI samples are hourly over the sessions starting in each hour', () => {
+        const { sessions } = reconstructSessions(MORNING);
+        const samples = toAFISamples(sessions);
+        expect(samples.map(s => s.timestamp)).toEqual([T0]);
+        expect(samples[0].afi).toBeCloseTo(computeAFI(sessions, 3600 * SEC).score);
+    });
+
+    test('ingesting stores the closed sessions and resumes without double counting', async () => {
+        const first = await ingestUsageRecording(MORNING);
+        expect(insertUsageSession).toHaveBeenCalledTimes(4);
+        expect(getUsageIngestCursor()).toBe(T0 + 1842.1 * SEC);
+        expect(first.focusWindows).toHaveLength(1);
+        expect(first.focusWindows[0].sampleCount).toBe(1);
+
+        const cursor = getUsageIngestCursor()!;
+        const next: UsageEventRecording = {
+            ...MORNING,
+            start: cursor,
+            end: cursor + 600 * SEC,
+            events: [
+                ...MORNING.events.filter(e => e.t >= cursor),
+                { t: cursor + 300 * SEC, type: 16 },
+            ],
+        };
+        const second = await ingestUsageRecording(next);
+        expect(second.sessions.map(s => [s.appName, s.duration / SEC])).toEqual([['Instagram', 300]]);
+        expect(insertUsageSession).toHaveBeenCalledTimes(5);
+        expect(getUsageIngestCursor()).toBe(next.end);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Native Fallback
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Native Builds Without the Event Query', () => {
+    beforeAll(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    test('the event stream is used when the build has it', async () => {
+        mockNative.events = JSON.stringify(morning);
+        const sessions = await getUsageSessions(MORNING.start, MORNING.end);
+        expect(sessions.map(s => s.appName)).toEqual(
+            reconstructSessions(MORNING, { closeOpenAt: MORNING.end }).sessions.map(s => s.appName),
+        );
+        expect(await getUnlockCount(MORNING.start, MORNING.end)).toBe(reconstructSessions(MORNING).unlocks);
+    });
+
+    test('a missing or failing query falls back to tracked sessions, not mock data', async () => {
+        for (const events of [null, new Error('getUsageEvents is not a function')]) {
+            mockNative.events = events;
+            const sessions = await getUsageSessions(0, 100000);
+            expect(sessions.map(s => [s.appName, s.duration, s.switchCount])).toEqual([['Slack', 60000, 0], ['Instagram', 60000, 0]]);
+            expect(await getUnlockCount(0, 3600 * SEC)).toBe(0);
+        }
+    });
+});
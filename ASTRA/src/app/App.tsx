@@ -4,34 +4,64 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 import React, { useEffect, useState } from 'react';
-import { StatusBar } from 'react-native';
+import { AppState, StatusBar } from 'react-native';
 import { NavigationContainer } from '@react-navigation/native';
 import Navigation from './Navigation';
 import { initializeDatabase } from '../database/repository';
-import { scheduleAllTasks } from '../modules/focusTrainer/services/BackgroundTaskService';
+import { importLegacyStores } from '../database/legacyImport';
+import { useHealthStore } from '../modules/health/store/health-store';
+import { useMeditationStore } from '../modules/meditation/store/meditation-store';
+import { useFocusStore as useFocusTrainingStore } from '../modules/shared/store/focus-store';
+import { runDueTasks, scheduleAllTasks } from '../modules/focusTrainer/services/BackgroundTaskService';
+import { loadFocusHeatmap } from '../modules/focusTrainer/services/HeatmapService';
 import { useFocusStore } from '../modules/focusTrainer/store/focusStore';
 import {
     getPersonalityProfile,
     isOnboardingComplete,
     getUserProfile,
 } from '../storage/mmkvStore';
+import { initKeyValueStore } from '../storage/persistentBackends';
+import { setNotificationChannel } from '../modules/agent/notifications/notificationChannel';
+import { createNativeNotificationChannel } from '../modules/agent/notifications/nativeNotificationChannel';
 import OnboardingScreen from '../screens/OnboardingScreen';
 import SplashScreen from '../screens/SplashScreen';
 import { AstraColors } from '../constants/astraTheme';
 
+/** Run due background work (usage ingest, heatmap sampling) and reload the heatmap. */
+async function refreshBackgroundData(): Promise<void> {
+    try {
+        await runDueTasks();
+        useFocusStore.getState().setFocusHeatmap(await loadFocusHeatmap());
+    } catch (err) {
+        console.warn('[App] Background refresh failed:', err);
+    }
+}
+
 export default function App() {
     const [isLoading, setIsLoading] = useState(true);
     const [showOnboarding, setShowOnboarding] = useState(false);
     const setPersonality = useFocusStore(s => s.setPersonality);
     const setInitialized = useFocusStore(s => s.setInitialized);
+    const restorePersistedState = useFocusStore(s => s.restorePersistedState);
 
     const initializeApp = async () => {
         try {
             console.log('[App] Starting initialization...');
-            // 1. Initialize database
+            // 1. Initialize storage (durable KV cache + database)
+            await initKeyValueStore();
+            restorePersistedState();
             await initializeDatabase();
+            setNotificationChannel(createNativeNotificationChannel());
 
-            // 2. Check if onboarding is complete
+            // 2. Move AsyncStorage-era store data into SQLite, then load the stores
+            await importLegacyStores();
+            await Promise.all([
+                useHealthStore.getState().hydrate(),
+                useMeditationStore.getState().hydrate(),
+                useFocusTrainingStore.getState().hydrate(),
+            ]);
+
+            // 3. Check if onboarding is complete
             const onboarded = isOnboardingComplete();
 
             if (!onboarded) {
@@ -39,7 +69,7 @@ export default function App() {
                 return;
             }
 
-            // 3. Load cached personality from onboarding profile or fallback
+            // 4. Load cached personality from onboarding profile or fallback
             const userProfile = getUserProfile();
             if (userProfile) {
                 setPersonality({
@@ -51,10 +81,11 @@ export default function App() {
                 setPersonality(personality);
             }
 
-            // 4. Schedule background tasks
+            // 5. Schedule background tasks and catch up on any that are due
             await scheduleAllTasks();
+            await refreshBackgroundData();
 
-            // 5. Mark initialized
+            // 6. Mark initialized
             setInitialized(true);
         } catch (err) {
             console.error('[App] Initialization error:', err);
@@ -78,12 +109,22 @@ export default function App() {
 
         // Schedule background tasks
         await scheduleAllTasks();
+        await refreshBackgroundData();
 
         // Transition to main app
         setInitialized(true);
         setShowOnboarding(false);
     };
 
+    // Catch up on due background work whenever the app comes back
+    useEffect(() => {
+        if (isLoading || showOnboarding) return;
+        const sub = AppState.addEventListener('change', (state) => {
+            if (state === 'active') refreshBackgroundData();
+        });
+        return () => sub.remove();
+    }, [isLoading, showOnboarding]);
+
     if (isLoading) {
         return (
             <>
@@ -2,8 +2,9 @@
 // Navigation — Bottom Tab Navigator (ASTRA Design System)
 // ─────────────────────────────────────────────────────────────────────────────
 
-import React from 'react';
+import React, { useCallback } from 'react';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
+import { useNavigation } from '@react-navigation/native';
 import { View, Text, StyleSheet } from 'react-native';
 import { AstraColors, AstraShadow } from '../constants/astraTheme';
 import DashboardScreen from '../screens/DashboardScreen';
@@ -13,6 +14,8 @@ import HeatmapScreen from '../screens/HeatmapScreen';
 import SettingsScreen from '../screens/SettingsScreen';
 import HealthScreen from '../screens/HealthScreen';
 import MeditateScreen from '../screens/MeditateScreen';
+import DirectiveTraceScreen from '../screens/DirectiveTraceScreen';
+import { useNudgeNotifications } from '../modules/agent/notifications/useNudgeNotifications';
 
 const Tab = createBottomTabNavigator();
 
@@ -40,6 +43,10 @@ const TAB_ICONS: Record<string, string> = {
 };
 
 export default function Navigation() {
+    const navigation = useNavigation<any>();
+    const navigate = useCallback((screen: string) => navigation.navigate(screen), [navigation]);
+    useNudgeNotifications(navigate);
+
     return (
         <Tab.Navigator
             screenOptions={{
@@ -117,6 +124,13 @@ export default function Navigation() {
                     tabBarButton: () => null,
                 }}
             />
+            <Tab.Screen
+                name="WhyThis"
+                component={DirectiveTraceScreen}
+                options={{
+                    tabBarButton: () => null,
+                }}
+            />
         </Tab.Navigator>
     );
 }
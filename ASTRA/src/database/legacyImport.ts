@@ -0,0 +1,119 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Legacy Store Import
+// One-time move of zustand/AsyncStorage blobs into the SQLite repository
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { StateStorage } from 'zustand/middleware';
+import { zustandStorage } from '../modules/shared/store/storage';
+import type {
+    FocusSession,
+    HealthDayRecord,
+    MeditationDayRecord,
+    MeditationSessionRecord,
+} from '../modules/shared/types';
+import {
+    getMetaValue,
+    setMetaValue,
+    runInTransaction,
+    upsertHealthDayRecord,
+    upsertMeditationDayRecord,
+    insertMeditationSession,
+    insertFocusTrainingSession,
+    setFocusDifficulty,
+} from './repository';
+
+/** AsyncStorage keys written by the old `persist` middleware. */
+export const LEGACY_STORE_KEYS = {
+    health: 'astra-health',
+    meditation: 'astra-meditation-v2',
+    focus: 'astra-focus',
+} as const;
+
+const IMPORT_MARKER_PREFIX = 'legacy_import.';
+
+interface LegacyHealthState {
+    records?: HealthDayRecord[];
+}
+
+interface LegacyMeditationState {
+    dayRecords?: MeditationDayRecord[];
+    sessionRecords?: MeditationSessionRecord[];
+}
+
+interface LegacyFocusState {
+    sessions?: FocusSession[];
+    currentDifficulty?: number;
+}
+
+/**
+ * Unwrap a zustand `persist` blob (`{ state, version }`).
+ * Returns null for missing or unreadable values.
+ */
+export function readPersistedState<T>(raw: string | null): T | null {
+    if (!raw) return null;
+    try {
+        const parsed = JSON.parse(raw);
+        if (!parsed || typeof parsed !== 'object' || typeof parsed.state !== 'object') return null;
+        return parsed.state as T;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Copy any data left behind by the AsyncStorage-persisted stores into SQLite.
+ *
+ * Each store is imported in its own transaction together with its marker,
+ * so a crash mid-import is retried on next launch. The AsyncStorage key is
+ * removed only after the transaction commits. Must run after initializeDatabase.
+ */
+export async function importLegacyStores(storage: StateStorage = zustandStorage): Promise<void> {
+    await importStore<LegacyHealthState>(storage, LEGACY_STORE_KEYS.health, async (state) => {
+        for (const record of state.records ?? []) {
+            await upsertHealthDayRecord(record);
+        }
+    });
+
+    await importStore<LegacyMeditationState>(storage, LEGACY_STORE_KEYS.meditation, async (state) => {
+        for (const session of state.sessionRecords ?? []) {
+            await insertMeditationSession(session);
+        }
+        for (const record of state.dayRecords ?? []) {
+            await upsertMeditationDayRecord(record);
+        }
+    });
+
+    await importStore<LegacyFocusState>(storage, LEGACY_STORE_KEYS.focus, async (state) => {
+        for (const session of state.sessions ?? []) {
+            await insertFocusTrainingSession(session);
+        }
+        if (typeof state.currentDifficulty === 'number') {
+            await setFocusDifficulty(state.currentDifficulty);
+        }
+    });
+}
+
+async function importStore<T>(
+    storage: StateStorage,
+    key: string,
+    write: (state: T) => Promise<void>,
+): Promise<void> {
+    const marker = IMPORT_MARKER_PREFIX + key;
+    try {
+        if (await getMetaValue(marker)) return;
+
+        const state = readPersistedState<T>(await storage.getItem(key));
+        await runInTransaction(async () => {
+            if (state) await write(state);
+            await setMetaValue(marker, String(Date.now()));
+        });
+
+        if (state) {
+            await storage.removeItem(key);
+            console.log(`[DB] Imported legacy store "${key}" into SQLite`);
+        }
+    } catch (e) {
+        // Leave the AsyncStorage copy in place; the import retries next launch
+        console.warn(`[DB] Legacy import of "${key}" failed`, e);
+    }
+}
@@ -0,0 +1,343 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// SQLite Migration Runner
+// Ordered, transactional schema migrations tracked via PRAGMA user_version
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { DB_VERSION, CREATE_TABLES, CREATE_INDICES } from './schema';
+
+/**
+ * Minimal subset of the expo-sqlite database API used by migrations.
+ * Kept structural so tests can run migrations against an in-memory stand-in.
+ */
+export interface MigrationDatabase {
+    execAsync(source: string): Promise<void>;
+    getFirstAsync<T>(source: string, ...params: any[]): Promise<T | null>;
+    getAllAsync<T>(source: string, ...params: any[]): Promise<T[]>;
+    runAsync(source: string, ...params: any[]): Promise<{ lastInsertRowId: number; changes: number }>;
+}
+
+/**
+ * A single forward migration.
+ * `up` runs inside a transaction together with the user_version bump,
+ * so schema changes and data backfills either land completely or not at all.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up: (db: MigrationDatabase) => Promise<void>;
+}
+
+// ── Migration Registry ───────────────────────────────────────────────────────
+// Append new migrations here and bump DB_VERSION in schema.ts.
+// Never edit a migration that has already shipped.
+
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'baseline schema',
+        up: async (db) => {
+            // Idempotent so installs created before the runner existed
+            // (tables present, user_version = 0) adopt version 1 cleanly.
+            for (const sql of CREATE_TABLES) {
+                await db.execAsync(sql);
+            }
+            for (const sql of CREATE_INDICES) {
+                await db.execAsync(sql);
+            }
+        },
+    },
+    {
+        version: 2,
+        name: 'store records',
+        up: async (db) => {
+            // Day records keep their nested input/computed payloads as JSON;
+            // the headline score is denormalised so it can be queried directly.
+            await db.execAsync(`CREATE TABLE IF NOT EXISTS health_day_records (
+                date TEXT PRIMARY KEY,
+                input_json TEXT NOT NULL,
+                computed_json TEXT NOT NULL,
+                flags_json TEXT NOT NULL,
+                recommendations_json TEXT NOT NULL,
+                cognitive_readiness REAL NOT NULL,
+                updated_at INTEGER NOT NULL
+            )`);
+
+            await db.execAsync(`CREATE TABLE IF NOT EXISTS meditation_day_records (
+                date TEXT PRIMARY KEY,
+                input_json TEXT NOT NULL,
+                computed_json TEXT NOT NULL,
+                mss REAL NOT NULL,
+                updated_at INTEGER NOT NULL
+            )`);
+
+            await db.execAsync(`CREATE TABLE IF NOT EXISTS focus_training_sessions (
+                id TEXT PRIMARY KEY,
+                type TEXT NOT NULL,
+                started_at INTEGER NOT NULL,
+                duration INTEGER NOT NULL,
+                accuracy REAL NOT NULL,
+                reaction_time_ms REAL NOT NULL,
+                completed INTEGER NOT NULL,
+                difficulty INTEGER NOT NULL
+            )`);
+
+            // Small scalar state (focus difficulty, one-time import markers)
+            await db.execAsync(`CREATE TABLE IF NOT EXISTS app_meta (
+                key TEXT PRIMARY KEY,
+                value TEXT NOT NULL
+            )`);
+
+            if (!(await columnExists(db, 'meditation_sessions', 'mss_at_time'))) {
+                await db.execAsync('ALTER TABLE meditation_sessions ADD COLUMN mss_at_time REAL');
+            }
+
+            await db.execAsync('CREATE INDEX IF NOT EXISTS idx_meditation_sessions_date ON meditation_sessions(date)');
+            await db.execAsync('CREATE INDEX IF NOT EXISTS idx_focus_training_started ON focus_training_sessions(started_at)');
+        },
+    },
+    {
+        version: 3,
+        name: 'directive audit log',
+        up: async (db) => {
+            // One row per orchestrator run. The queried fields are columns;
+            // the full directive is kept as JSON for the "why" view.
+            await db.execAsync(`CREATE TABLE IF NOT EXISTS directive_log (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                generated_at INTEGER NOT NULL,
+                context_mode TEXT NOT NULL,
+                context_confidence REAL NOT NULL,
+                gap_overall REAL NOT NULL,
+                gap_level TEXT NOT NULL,
+                gap_json TEXT NOT NULL,
+                strategy_type TEXT NOT NULL,
+                tone TEXT NOT NULL,
+                strictness INTEGER NOT NULL,
+                source TEXT NOT NULL,
+                rationale TEXT NOT NULL,
+                directive_json TEXT NOT NULL
+            )`);
+
+            // The nudge shown for a directive, with what the user did about it
+            await db.execAsync(`CREATE TABLE IF NOT EXISTS directive_nudges (
+                nudge_id TEXT PRIMARY KEY,
+                directive_id INTEGER NOT NULL REFERENCES directive_log(id) ON DELETE CASCADE,
+                title TEXT NOT NULL,
+                message TEXT NOT NULL,
+                tone TEXT NOT NULL,
+                priority TEXT NOT NULL,
+                shown_at INTEGER NOT NULL,
+                outcome TEXT,
+                outcome_at INTEGER,
+                snooze_count INTEGER NOT NULL DEFAULT 0,
+                follow_up_session_id INTEGER,
+                follow_up_at INTEGER
+            )`);
+
+            await db.execAsync('CREATE INDEX IF NOT EXISTS idx_directive_log_generated ON directive_log(generated_at)');
+            await db.execAsync('CREATE INDEX IF NOT EXISTS idx_directive_nudges_shown ON directive_nudges(shown_at)');
+            await db.execAsync('CREATE INDEX IF NOT EXISTS idx_directive_nudges_directive ON directive_nudges(directive_id)');
+        },
+    },
+    {
+        version: 4,
+        name: 'intervention suppression log',
+        up: async (db) => {
+            // Interventions the budget held back, with the rule that stopped them
+            await db.execAsync(`CREATE TABLE IF NOT EXISTS intervention_suppressions (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                suppressed_at INTEGER NOT NULL,
+                producer TEXT NOT NULL,
+                channel TEXT NOT NULL,
+                priority TEXT NOT NULL,
+                reason TEXT NOT NULL,
+                detail TEXT NOT NULL,
+                label TEXT
+            )`);
+
+            await db.execAsync('CREATE INDEX IF NOT EXISTS idx_intervention_suppressions_at ON intervention_suppressions(suppressed_at)');
+        },
+    },
+    {
+        version: 5,
+        name: 'focus planner',
+        up: async (db) => {
+            // One row per planned day, with the capacity and adjustment it was planned for
+            await db.execAsync(`CREATE TABLE IF NOT EXISTS focus_plans (
+                day TEXT PRIMARY KEY,
+                capacity_level TEXT NOT NULL,
+                capacity_minutes INTEGER NOT NULL,
+                adjustment TEXT NOT NULL,
+                revision INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL
+            )`);
+
+            // Focus blocks, linked to the pomodoro session that fulfilled them
+            await db.execAsync(`CREATE TABLE IF NOT EXISTS planned_blocks (
+                id TEXT PRIMARY KEY,
+                day TEXT NOT NULL REFERENCES focus_plans(day) ON DELETE CASCADE,
+                goal_id TEXT,
+                goal_title TEXT NOT NULL,
+                start_time INTEGER NOT NULL,
+                end_time INTEGER NOT NULL,
+                predicted_afi REAL NOT NULL,
+                confidence REAL NOT NULL,
+                status TEXT NOT NULL,
+                session_id INTEGER,
+                note TEXT
+            )`);
+
+            await db.execAsync('CREATE INDEX IF NOT EXISTS idx_planned_blocks_day ON planned_blocks(day)');
+            await db.execAsync('CREATE INDEX IF NOT EXISTS idx_planned_blocks_session ON planned_blocks(session_id)');
+        },
+    },
+    {
+        version: 6,
+        name: 'directive policy version',
+        up: async (db) => {
+            // Which OrchestratorPolicy each directive ran on; NULL for older rows
+            if (!(await columnExists(db, 'directive_log', 'policy_version'))) {
+                await db.execAsync('ALTER TABLE directive_log ADD COLUMN policy_version TEXT');
+            }
+        },
+    },
+    {
+        version: 7,
+        name: 'pomodoro focus rating',
+        up: async (db) => {
+            // Self-reported 1–5 focus after a session; labels AFI calibration
+            if (!(await columnExists(db, 'pomodoro_sessions', 'focus_rating'))) {
+                await db.execAsync('ALTER TABLE pomodoro_sessions ADD COLUMN focus_rating INTEGER');
+            }
+        },
+    },
+    {
+        version: 8,
+        name: 'nudge delivery time',
+        up: async (db) => {
+            // shown_at becomes the delivery time: NULL until the nudge reaches the
+            // user. SQLite can't drop NOT NULL in place, so the table is rebuilt.
+            // Older rows were stamped at generation; only answered ones were seen.
+            await db.execAsync(`CREATE TABLE IF NOT EXISTS directive_nudges_v8 (
+                nudge_id TEXT PRIMARY KEY,
+                directive_id INTEGER NOT NULL REFERENCES directive_log(id) ON DELETE CASCADE,
+                title TEXT NOT NULL,
+                message TEXT NOT NULL,
+                tone TEXT NOT NULL,
+                priority TEXT NOT NULL,
+                shown_at INTEGER,
+                outcome TEXT,
+                outcome_at INTEGER,
+                snooze_count INTEGER NOT NULL DEFAULT 0,
+                follow_up_session_id INTEGER,
+                follow_up_at INTEGER
+            )`);
+            await db.execAsync(`INSERT INTO directive_nudges_v8 (nudge_id, directive_id, title, message, tone, priority, shown_at,
+                                                                outcome, outcome_at, snooze_count, follow_up_session_id, follow_up_at)
+                SELECT nudge_id, directive_id, title, message, tone, priority, CASE WHEN outcome IS NULL THEN NULL ELSE shown_at END,
+                       outcome, outcome_at, snooze_count, follow_up_session_id, follow_up_at
+                FROM directive_nudges`);
+            await db.execAsync('DROP TABLE directive_nudges');
+            await db.execAsync('ALTER TABLE directive_nudges_v8 RENAME TO directive_nudges');
+
+            await db.execAsync('CREATE INDEX IF NOT EXISTS idx_directive_nudges_shown ON directive_nudges(shown_at)');
+            await db.execAsync('CREATE INDEX IF NOT EXISTS idx_directive_nudges_directive ON directive_nudges(directive_id)');
+        },
+    },
+];
+
+// ── Version Tracking ─────────────────────────────────────────────────────────
+
+export async function getSchemaVersion(db: MigrationDatabase): Promise<number> {
+    const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    return row?.user_version ?? 0;
+}
+
+/**
+ * Check that the registry is strictly ordered 1..N without gaps
+ * and that its last entry matches the target schema version.
+ */
+export function validateMigrations(migrations: Migration[], targetVersion: number): void {
+    migrations.forEach((m, i) => {
+        if (!Number.isInteger(m.version) || m.version !== i + 1) {
+            throw new Error(
+                `Invalid migration registry: expected version ${i + 1} at position ${i}, got ${m.version} (${m.name})`,
+            );
+        }
+    });
+
+    const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+    if (latest !== targetVersion) {
+        throw new Error(
+            `Invalid migration registry: latest migration is ${latest} but DB_VERSION is ${targetVersion}`,
+        );
+    }
+}
+
+// ── Runner ───────────────────────────────────────────────────────────────────
+
+/**
+ * Apply all pending migrations in order.
+ *
+ * Each migration runs in its own transaction. On failure the transaction is
+ * rolled back, user_version stays at the last successful migration and the
+ * error is rethrown so startup can halt instead of running on a half-migrated DB.
+ *
+ * @returns The schema version after the run
+ */
+export async function runMigrations(
+    db: MigrationDatabase,
+    migrations: Migration[] = MIGRATIONS,
+    targetVersion: number = DB_VERSION,
+): Promise<number> {
+    validateMigrations(migrations, targetVersion);
+
+    let version = await getSchemaVersion(db);
+    if (version > targetVersion) {
+        throw new Error(
+            `Database schema version ${version} is newer than this app supports (${targetVersion})`,
+        );
+    }
+
+    const pending = migrations.filter(m => m.version > version);
+
+    for (const migration of pending) {
+        await db.execAsync('BEGIN TRANSACTION');
+        try {
+            await migration.up(db);
+            // PRAGMA does not accept bound parameters; version is a validated integer
+            await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+            await db.execAsync('COMMIT');
+        } catch (e) {
+            try {
+                await db.execAsync('ROLLBACK');
+            } catch (rollbackErr) {
+                console.error('[DB] Rollback failed', rollbackErr);
+            }
+            const reason = e instanceof Error ? e.message : String(e);
+            console.error(`[DB] Migration ${migration.version} (${migration.name}) failed`, e);
+            throw new Error(
+                `Migration ${migration.version} (${migration.name}) failed and was rolled back: ${reason}`,
+            );
+        }
+
+        version = migration.version;
+        console.log(`[DB] Applied migration ${migration.version} (${migration.name})`);
+    }
+
+    return version;
+}
+
+// ── Helpers for migration authors ────────────────────────────────────────────
+
+/**
+ * Whether a column already exists — lets ALTER TABLE migrations stay safe
+ * on devices where the column was added by an older CREATE TABLE.
+ */
+export async function columnExists(
+    db: MigrationDatabase,
+    table: string,
+    column: string,
+): Promise<boolean> {
+    const rows = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+    return rows.some(r => r.name === column);
+}
@@ -16,7 +16,23 @@ import {
 } from '../modules/focusTrainer/models/types';
 import { UserProfile } from '../modules/onboarding/models/onboardingTypes';
 import { ComplianceEvent, InterventionType } from '../modules/personalization/models/personalizationTypes';
-import { DB_NAME, CREATE_TABLES, CREATE_INDICES } from './schema';
+import type {
+    FocusSession,
+    HealthDayRecord,
+    MeditationDayRecord,
+    MeditationSessionRecord,
+} from '../modules/shared/types';
+import type {
+    PersonalizationDirective,
+    NudgeOutcome,
+    NudgeUndelivered,
+    DirectiveAuditRecord,
+    StrategyOutcomeSummary,
+} from '../modules/agent/types/orchestratorTypes';
+import type { SuppressedIntervention, SuppressionReason } from '../modules/interventions/budgetTypes';
+import type { DayPlan, PlannedBlock } from '../modules/planner/plannerTypes';
+import { DB_NAME } from './schema';
+import { runMigrations } from './migrations';
 
 let db: SQLite.SQLiteDatabase | null = null;
 
@@ -26,14 +42,9 @@ export async function initializeDatabase(): Promise<void> {
     try {
         db = await SQLite.openDatabaseAsync(DB_NAME);
 
-        // Execute schema creations
-        for (const sql of CREATE_TABLES) {
-            await db.execAsync(sql);
-        }
-        for (const sql of CREATE_INDICES) {
-            await db.execAsync(sql);
-        }
-        console.log('[DB] Database initialized (expo-sqlite)');
+        // Bring the schema up to DB_VERSION (tracked in PRAGMA user_version)
+        const version = await runMigrations(db);
+        console.log(`[DB] Database initialized (expo-sqlite, schema v${version})`);
     } catch (e) {
         console.error('[DB] Failed to initialize database', e);
         throw e;
@@ -45,6 +56,11 @@ function getDB(): SQLite.SQLiteDatabase {
     return db;
 }
 
+/** Raw handle for whole-database work (backup / restore). Prefer the typed functions below. */
+export function getDatabaseHandle(): SQLite.SQLiteDatabase {
+    return getDB();
+}
+
 // ── Usage Sessions ───────────────────────────────────────────────────────────
 
 export async function insertUsageSession(session: AppUsageSession): Promise<number> {
@@ -79,12 +95,35 @@ export async function getRecentUsageSessions(limitMs: number): Promise<AppUsageS
     return getUsageSessionsInRange(since, Date.now());
 }
 
+// ── Focus Windows ────────────────────────────────────────────────────────────
+
+export async function getFocusWindows(): Promise<FocusWindow[]> {
+    const rows = await getDB().getAllAsync<any>(
+        `SELECT * FROM focus_windows ORDER BY day_of_week ASC, hour_of_day ASC`
+    );
+    return rows.map(rowToFocusWindow);
+}
+
+/** Write the given (day, hour) slots; other slots are left as they are. */
+export async function upsertFocusWindows(windows: FocusWindow[], updatedAt: number = Date.now()): Promise<void> {
+    const database = getDB();
+    await database.withTransactionAsync(async () => {
+        for (const fw of windows) {
+            await database.runAsync(
+                `INSERT OR REPLACE INTO focus_windows (day_of_week, hour_of_day, avg_afi, sample_count, quality_label, last_updated)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+                [fw.dayOfWeek, fw.hourOfDay, fw.avgAFI, fw.sampleCount, fw.qualityLabel, updatedAt]
+            );
+        }
+    });
+}
+
 // ── Pomodoro Sessions ────────────────────────────────────────────────────────
 
 export async function insertPomodoroSession(session: PomodoroSession): Promise<number> {
     const result = await getDB().runAsync(
-        `INSERT INTO pomodoro_sessions (goal_id, start_time, end_time, planned_duration, actual_duration, distraction_time, was_successful, break_duration)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        `INSERT INTO pomodoro_sessions (goal_id, start_time, end_time, planned_duration, actual_duration, distraction_time, was_successful, break_duration, focus_rating)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
             session.goalId || null,
             session.startTime,
@@ -94,11 +133,20 @@ export async function insertPomodoroSession(session: PomodoroSession): Promise<n
             session.distractionTime || null,
             session.wasSuccessful ? 1 : 0,
             session.breakDuration,
+            session.focusRating ?? null,
         ]
     );
     return result.lastInsertRowId;
 }
 
+/** Record the 1–5 focus rating given after a session. */
+export async function setPomodoroFocusRating(sessionId: number, rating: number): Promise<void> {
+    await getDB().runAsync(
+        `UPDATE pomodoro_sessions SET focus_rating = ? WHERE id = ?`,
+        [rating, sessionId]
+    );
+}
+
 export async function getRecentPomodoroSessions(count: number): Promise<PomodoroSession[]> {
     const rows = await getDB().getAllAsync<any>(
         `SELECT * FROM pomodoro_sessions ORDER BY start_time DESC LIMIT ?`,
@@ -107,6 +155,14 @@ export async function getRecentPomodoroSessions(count: number): Promise<Pomodoro
     return rows.map(rowToPomodoroSession);
 }
 
+export async function getPomodoroSessionsInRange(startTime: number, endTime: number): Promise<PomodoroSession[]> {
+    const rows = await getDB().getAllAsync<any>(
+        `SELECT * FROM pomodoro_sessions WHERE start_time >= ? AND start_time <= ? ORDER BY start_time ASC`,
+        [startTime, endTime]
+    );
+    return rows.map(rowToPomodoroSession);
+}
+
 export async function getCompletedSessionsToday(): Promise<number> {
     const startOfDay = new Date();
     startOfDay.setHours(0, 0, 0, 0);
@@ -264,10 +320,14 @@ export async function insertComplianceEvent(event: ComplianceEvent): Promise<voi
 
 // ── Meditation Sessions ──────────────────────────────────────────────────────
 
-export async function insertMeditationSession(session: any): Promise<void> {
+/**
+ * Idempotent on id, so the legacy AsyncStorage import can replay sessions
+ * that were already mirrored here by older builds.
+ */
+export async function insertMeditationSession(session: MeditationSessionRecord): Promise<void> {
     await getDB().runAsync(
-        `INSERT INTO meditation_sessions (id, date, type, intent, duration_seconds, completed, rating, pre_hrv, post_hrv, efficacy_marked)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        `INSERT OR IGNORE INTO meditation_sessions (id, date, type, intent, duration_seconds, completed, rating, pre_hrv, post_hrv, efficacy_marked, mss_at_time)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
             session.id,
             session.date,
@@ -279,28 +339,505 @@ export async function insertMeditationSession(session: any): Promise<void> {
             session.pre_hrv ?? null,
             session.post_hrv ?? null,
             session.efficacy_marked ? 1 : 0,
+            session.mss_at_time ?? null,
         ]
     );
 }
 
+export async function getMeditationSessions(sinceDate?: string): Promise<MeditationSessionRecord[]> {
+    const rows = sinceDate
+        ? await getDB().getAllAsync<any>(
+            `SELECT * FROM meditation_sessions WHERE date >= ? ORDER BY date ASC, rowid ASC`,
+            [sinceDate]
+        )
+        : await getDB().getAllAsync<any>(`SELECT * FROM meditation_sessions ORDER BY date ASC, rowid ASC`);
+    return rows.map(rowToMeditationSession);
+}
+
+// ── Meditation Day Records ───────────────────────────────────────────────────
+
+/**
+ * Upsert by date. The day's sessions are not stored here — they are read
+ * back from meditation_sessions so there is only one copy of each session.
+ */
+export async function upsertMeditationDayRecord(record: MeditationDayRecord): Promise<void> {
+    await getDB().runAsync(
+        `INSERT OR REPLACE INTO meditation_day_records (date, input_json, computed_json, mss, updated_at)
+         VALUES (?, ?, ?, ?, ?)`,
+        [
+            record.input.date,
+            JSON.stringify(record.input),
+            JSON.stringify(record.computed),
+            record.computed.MSS,
+            Date.now(),
+        ]
+    );
+}
+
+export async function getMeditationDayRecords(): Promise<MeditationDayRecord[]> {
+    const rows = await getDB().getAllAsync<any>(`SELECT * FROM meditation_day_records ORDER BY date ASC`);
+    const sessions = await getMeditationSessions();
+    return rows.map((row) => rowToMeditationDayRecord(row, sessions.filter((s) => s.date === row.date)));
+}
+
+// ── Health Day Records ───────────────────────────────────────────────────────
+
+export async function upsertHealthDayRecord(record: HealthDayRecord): Promise<void> {
+    await getDB().runAsync(
+        `INSERT OR REPLACE INTO health_day_records (date, input_json, computed_json, flags_json, recommendations_json, cognitive_readiness, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+            record.input.date,
+            JSON.stringify(record.input),
+            JSON.stringify(record.computed),
+            JSON.stringify(record.flags),
+            JSON.stringify(record.recommendations),
+            record.computed.CognitiveReadiness,
+            Date.now(),
+        ]
+    );
+}
+
+export async function getHealthDayRecords(sinceDate?: string): Promise<HealthDayRecord[]> {
+    const rows = sinceDate
+        ? await getDB().getAllAsync<any>(
+            `SELECT * FROM health_day_records WHERE date >= ? ORDER BY date ASC`,
+            [sinceDate]
+        )
+        : await getDB().getAllAsync<any>(`SELECT * FROM health_day_records ORDER BY date ASC`);
+    return rows.map(rowToHealthDayRecord);
+}
+
+// ── Focus Training Sessions ──────────────────────────────────────────────────
+
+/** Idempotent on id (see insertMeditationSession). */
+export async function insertFocusTrainingSession(session: FocusSession): Promise<void> {
+    await getDB().runAsync(
+        `INSERT OR IGNORE INTO focus_training_sessions (id, type, started_at, duration, accuracy, reaction_time_ms, completed, difficulty)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            session.id,
+            session.type,
+            session.startedAt,
+            session.duration,
+            session.accuracy,
+            session.reactionTimeMs,
+            session.completed ? 1 : 0,
+            session.difficulty,
+        ]
+    );
+}
+
+export async function getFocusTrainingSessions(): Promise<FocusSession[]> {
+    const rows = await getDB().getAllAsync<any>(
+        `SELECT * FROM focus_training_sessions ORDER BY started_at ASC`
+    );
+    return rows.map(rowToFocusSession);
+}
+
+// ── App Meta ─────────────────────────────────────────────────────────────────
+
+const FOCUS_DIFFICULTY_KEY = 'focus.current_difficulty';
+
+export async function getMetaValue(key: string): Promise<string | null> {
+    const row = await getDB().getFirstAsync<any>(`SELECT value FROM app_meta WHERE key = ?`, [key]);
+    return row ? row.value : null;
+}
+
+export async function setMetaValue(key: string, value: string): Promise<void> {
+    await getDB().runAsync(
+        `INSERT OR REPLACE INTO app_meta (key, value) VALUES (?, ?)`,
+        [key, value]
+    );
+}
+
+export async function getFocusDifficulty(): Promise<number | null> {
+    const value = await getMetaValue(FOCUS_DIFFICULTY_KEY);
+    return value !== null ? Number(value) : null;
+}
+
+export async function setFocusDifficulty(difficulty: number): Promise<void> {
+    await setMetaValue(FOCUS_DIFFICULTY_KEY, String(difficulty));
+}
+
+// ── Directive Audit Log ──────────────────────────────────────────────────────
+
+/** A focus session started this long after a nudge counts as its follow-up. */
+const FOLLOW_UP_WINDOW_MS = 2 * 3600 * 1000;
+
+/** Directives older than this are pruned (the simulator replays 30 days by default). */
+const DIRECTIVE_RETENTION_MS = 90 * 24 * 3600 * 1000;
+
+/** Newest directives kept regardless of age; each row holds the full directive JSON. */
+const DIRECTIVE_LOG_MAX_ROWS = 5000;
+
+/**
+ * A nudge-less run that repeats the previous directive (cached inputs, once a
+ * minute) is only logged again after this, so a steady day costs ~24 rows.
+ */
+const DIRECTIVE_REPEAT_LOG_MS = 3600 * 1000;
+
+const DIRECTIVE_AUDIT_SELECT = `
+    SELECT d.*, n.nudge_id, n.title AS nudge_title, n.message AS nudge_message, n.tone AS nudge_tone,
+           n.priority AS nudge_priority, n.shown_at, n.outcome, n.outcome_at, n.snooze_count,
+           n.follow_up_session_id, n.follow_up_at
+    FROM directive_log d
+    LEFT JOIN directive_nudges n ON n.directive_id = d.id`;
+
+/** Same decision as the last logged directive: mode, gap, strategy, voice and policy. */
+function repeatsLoggedDirective(row: any, directive: PersonalizationDirective): boolean {
+    return row.nudge_id == null
+        && row.context_mode === directive.contextState.mode
+        && row.context_confidence === directive.contextState.confidence
+        && row.gap_json === JSON.stringify(directive.behavioralGap)
+        && row.strategy_type === directive.strategy.type
+        && row.tone === directive.tone
+        && row.strictness === directive.strictness
+        && row.source === directive.source
+        && row.rationale === directive.rationale
+        && (row.policy_version ?? null) === (directive.policyVersion ?? null);
+}
+
+/**
+ * Record one orchestrator run and the nudge it produced. Returns the directive
+ * id. The nudge is only queued at this point; `markNudgeShown` stamps delivery.
+ * A nudge-less repeat of the last logged directive within
+ * DIRECTIVE_REPEAT_LOG_MS is not written; the earlier row's id is returned.
+ */
+export async function insertDirectiveAudit(directive: PersonalizationDirective): Promise<number> {
+    const database = getDB();
+    if (!directive.nudge) {
+        const last = await database.getFirstAsync<any>(`${DIRECTIVE_AUDIT_SELECT} ORDER BY d.id DESC LIMIT 1`);
+        if (last
+            && directive.generatedAt - last.generated_at < DIRECTIVE_REPEAT_LOG_MS
+            && repeatsLoggedDirective(last, directive)) {
+            return last.id;
+        }
+    }
+
+    let directiveId = 0;
+    await database.withTransactionAsync(async () => {
+        const res = await database.runAsync(
+            `INSERT INTO directive_log (generated_at, context_mode, context_confidence, gap_overall, gap_level, gap_json,
+                                        strategy_type, tone, strictness, source, rationale, policy_version, directive_json)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                directive.generatedAt,
+                directive.contextState.mode,
+                directive.contextState.confidence,
+                directive.behavioralGap.overall,
+                directive.behavioralGap.level,
+                JSON.stringify(directive.behavioralGap),
+                directive.strategy.type,
+                directive.tone,
+                directive.strictness,
+                directive.source,
+                directive.rationale,
+                directive.policyVersion ?? null,
+                JSON.stringify(directive),
+            ]
+        );
+        directiveId = res.lastInsertRowId;
+
+        if (directive.nudge) {
+            await database.runAsync(
+                `INSERT OR IGNORE INTO directive_nudges (nudge_id, directive_id, title, message, tone, priority)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+                [
+                    directive.nudge.id,
+                    directiveId,
+                    directive.nudge.title,
+                    directive.nudge.message,
+                    directive.nudge.tone,
+                    directive.nudge.priority,
+                ]
+            );
+        }
+    });
+    return directiveId;
+}
+
+/** The overlay or notification went out. A snoozed nudge keeps its first delivery time. */
+export async function markNudgeShown(nudgeId: string, at: number = Date.now()): Promise<void> {
+    await getDB().runAsync(
+        `UPDATE directive_nudges SET shown_at = ? WHERE nudge_id = ? AND shown_at IS NULL`,
+        [at, nudgeId]
+    );
+}
+
+/** A nudge that never reached the user: dropped from the queue or suppressed by the budget. */
+export async function recordNudgeUndelivered(nudgeId: string, reason: NudgeUndelivered, at: number = Date.now()): Promise<void> {
+    await getDB().runAsync(
+        `UPDATE directive_nudges SET outcome = ?, outcome_at = ? WHERE nudge_id = ? AND shown_at IS NULL`,
+        [reason, at, nudgeId]
+    );
+}
+
+/** A shown nudge nobody answered before it expired or its context passed. */
+export async function recordNudgeUnanswered(
+    nudgeId: string,
+    reason: 'expired' | 'stale-context',
+    at: number = Date.now(),
+): Promise<void> {
+    await getDB().runAsync(
+        `UPDATE directive_nudges SET outcome = ?, outcome_at = ?
+         WHERE nudge_id = ? AND shown_at IS NOT NULL AND outcome IS NULL`,
+        [reason, at, nudgeId]
+    );
+}
+
+/** Store the user's latest response to a nudge. Snoozes are also counted. */
+export async function recordNudgeOutcome(nudgeId: string, outcome: NudgeOutcome, at: number = Date.now()): Promise<void> {
+    await getDB().runAsync(
+        `UPDATE directive_nudges
+         SET outcome = ?, outcome_at = ?, snooze_count = snooze_count + ?
+         WHERE nudge_id = ?`,
+        [outcome, at, outcome === 'snoozed' ? 1 : 0, nudgeId]
+    );
+}
+
+/**
+ * Link a focus session to the latest nudge shown in the window before it
+ * that has no follow-up yet. Returns the linked nudge id, if any.
+ */
+export async function linkFollowUpSession(sessionId: number, startedAt: number): Promise<string | null> {
+    const row = await getDB().getFirstAsync<any>(
+        `SELECT nudge_id FROM directive_nudges
+         WHERE follow_up_session_id IS NULL AND shown_at IS NOT NULL AND shown_at <= ? AND shown_at >= ?
+         ORDER BY shown_at DESC LIMIT 1`,
+        [startedAt, startedAt - FOLLOW_UP_WINDOW_MS]
+    );
+    if (!row) return null;
+
+    await getDB().runAsync(
+        `UPDATE directive_nudges SET follow_up_session_id = ?, follow_up_at = ? WHERE nudge_id = ?`,
+        [sessionId, startedAt, row.nudge_id]
+    );
+    return row.nudge_id;
+}
+
+export async function getRecentDirectives(limit: number = 50): Promise<DirectiveAuditRecord[]> {
+    const rows = await getDB().getAllAsync<any>(
+        `${DIRECTIVE_AUDIT_SELECT} ORDER BY d.generated_at DESC LIMIT ?`,
+        [limit]
+    );
+    return rows.map(rowToDirectiveAudit);
+}
+
+export async function getDirectivesInRange(startTime: number, endTime: number): Promise<DirectiveAuditRecord[]> {
+    const rows = await getDB().getAllAsync<any>(
+        `${DIRECTIVE_AUDIT_SELECT} WHERE d.generated_at >= ? AND d.generated_at <= ? ORDER BY d.generated_at DESC`,
+        [startTime, endTime]
+    );
+    return rows.map(rowToDirectiveAudit);
+}
+
+export async function getDirectiveAudit(id: number): Promise<DirectiveAuditRecord | null> {
+    const row = await getDB().getFirstAsync<any>(`${DIRECTIVE_AUDIT_SELECT} WHERE d.id = ?`, [id]);
+    return row ? rowToDirectiveAudit(row) : null;
+}
+
+/** The full directive as it was generated (for "why did I get this?" views). */
+export async function getDirectiveSnapshot(id: number): Promise<PersonalizationDirective | null> {
+    const row = await getDB().getFirstAsync<any>(`SELECT directive_json FROM directive_log WHERE id = ?`, [id]);
+    return row ? JSON.parse(row.directive_json) : null;
+}
+
+/** How each strategy has fared since `sinceTime`: nudges shown, what the user did, and nudges never delivered. */
+export async function getStrategyOutcomeSummary(sinceTime: number = 0): Promise<StrategyOutcomeSummary[]> {
+    const rows = await getDB().getAllAsync<any>(
+        `SELECT d.strategy_type,
+                COUNT(*) AS directives,
+                COUNT(n.shown_at) AS nudges,
+                SUM(CASE WHEN n.outcome = 'accepted' THEN 1 ELSE 0 END) AS accepted,
+                SUM(CASE WHEN n.outcome = 'snoozed' THEN 1 ELSE 0 END) AS snoozed,
+                SUM(CASE WHEN n.outcome = 'dismissed' THEN 1 ELSE 0 END) AS dismissed,
+                SUM(CASE WHEN n.shown_at IS NULL AND n.outcome IS NOT NULL THEN 1 ELSE 0 END) AS undelivered,
+                SUM(CASE WHEN n.follow_up_session_id IS NOT NULL THEN 1 ELSE 0 END) AS followed_up
+         FROM directive_log d
+         LEFT JOIN directive_nudges n ON n.directive_id = d.id
+         WHERE d.generated_at >= ?
+         GROUP BY d.strategy_type
+         ORDER BY directives DESC`,
+        [sinceTime]
+    );
+    return rows.map((r) => ({
+        strategyType: r.strategy_type,
+        directives: r.directives,
+        nudges: r.nudges,
+        accepted: r.accepted ?? 0,
+        snoozed: r.snoozed ?? 0,
+        dismissed: r.dismissed ?? 0,
+        undelivered: r.undelivered ?? 0,
+        followedUp: r.followed_up ?? 0,
+    }));
+}
+
+/**
+ * Drop directives past the retention window, then all but the newest
+ * `maxRows`, together with their nudges. Returns how many directives went.
+ */
+export async function pruneDirectiveLog(now: number = Date.now(), maxRows: number = DIRECTIVE_LOG_MAX_ROWS): Promise<number> {
+    const database = getDB();
+    let removed = 0;
+    await database.withTransactionAsync(async () => {
+        // Deletes don't cascade (foreign keys are off), so nudges go first
+        const cutoff = now - DIRECTIVE_RETENTION_MS;
+        await database.runAsync(
+            `DELETE FROM directive_nudges
+             WHERE directive_id IN (SELECT id FROM directive_log WHERE generated_at < ?)`,
+            [cutoff]
+        );
+        removed += (await database.runAsync(`DELETE FROM directive_log WHERE generated_at < ?`, [cutoff])).changes;
+
+        const overflow = await database.getFirstAsync<any>(
+            `SELECT id FROM directive_log ORDER BY id DESC LIMIT 1 OFFSET ?`,
+            [maxRows]
+        );
+        if (overflow) {
+            await database.runAsync(`DELETE FROM directive_nudges WHERE directive_id <= ?`, [overflow.id]);
+            removed += (await database.runAsync(`DELETE FROM directive_log WHERE id <= ?`, [overflow.id])).changes;
+        }
+    });
+    if (removed > 0) console.log(`[DB] Pruned ${removed} directives from the audit log`);
+    return removed;
+}
+
+// ── Intervention Suppressions ────────────────────────────────────────────────
+
+export async function insertInterventionSuppression(entry: SuppressedIntervention): Promise<number> {
+    const res = await getDB().runAsync(
+        `INSERT INTO intervention_suppressions (suppressed_at, producer, channel, priority, reason, detail, label)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [entry.suppressedAt, entry.producer, entry.channel, entry.priority, entry.reason, entry.detail, entry.label ?? null]
+    );
+    return res.lastInsertRowId;
+}
+
+export async function getRecentSuppressions(limit: number = 50): Promise<SuppressedIntervention[]> {
+    const rows = await getDB().getAllAsync<any>(
+        `SELECT * FROM intervention_suppressions ORDER BY suppressed_at DESC LIMIT ?`,
+        [limit]
+    );
+    return rows.map((r) => ({
+        id: r.id,
+        producer: r.producer,
+        channel: r.channel,
+        priority: r.priority,
+        reason: r.reason,
+        detail: r.detail,
+        label: r.label || undefined,
+        suppressedAt: r.suppressed_at,
+    }));
+}
+
+/** How often each rule held something back since `sinceTime`. */
+export async function getSuppressionCounts(sinceTime: number = 0): Promise<Partial<Record<SuppressionReason, number>>> {
+    const rows = await getDB().getAllAsync<any>(
+        `SELECT reason, COUNT(*) AS count FROM intervention_suppressions
+         WHERE suppressed_at >= ? GROUP BY reason`,
+        [sinceTime]
+    );
+    return Object.fromEntries(rows.map((r) => [r.reason, r.count]));
+}
+
+// ── Focus Plans ──────────────────────────────────────────────────────────────
+
+/** Replace the stored plans (and their blocks) for the given days. */
+export async function saveDayPlans(plans: DayPlan[]): Promise<void> {
+    if (plans.length === 0) return;
+    const database = getDB();
+    await database.withTransactionAsync(async () => {
+        for (const plan of plans) {
+            await database.runAsync(
+                `INSERT OR REPLACE INTO focus_plans (day, capacity_level, capacity_minutes, adjustment, revision, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?)`,
+                [plan.day, plan.capacity.level, plan.capacity.minutes, plan.adjustment, plan.revision, plan.updatedAt]
+            );
+            await database.runAsync(`DELETE FROM planned_blocks WHERE day = ?`, [plan.day]);
+            for (const block of plan.blocks) {
+                await database.runAsync(
+                    `INSERT INTO planned_blocks (id, day, goal_id, goal_title, start_time, end_time, predicted_afi, confidence, status, session_id, note)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    [
+                        block.id,
+                        plan.day,
+                        block.goalId ?? null,
+                        block.goalTitle,
+                        block.start,
+                        block.end,
+                        block.predictedAFI,
+                        block.confidence,
+                        block.status,
+                        block.sessionId ?? null,
+                        block.note ?? null,
+                    ]
+                );
+            }
+        }
+    });
+}
+
+/** Plans from `fromDay` (local YYYY-MM-DD) on, oldest first. */
+export async function getDayPlans(fromDay: string): Promise<DayPlan[]> {
+    const database = getDB();
+    const planRows = await database.getAllAsync<any>(
+        `SELECT * FROM focus_plans WHERE day >= ? ORDER BY day ASC`,
+        [fromDay]
+    );
+    const blockRows = await database.getAllAsync<any>(
+        `SELECT * FROM planned_blocks WHERE day >= ? ORDER BY start_time ASC`,
+        [fromDay]
+    );
+    return planRows.map((r) => ({
+        day: r.day,
+        capacity: { level: r.capacity_level, minutes: r.capacity_minutes },
+        adjustment: r.adjustment,
+        revision: r.revision,
+        updatedAt: r.updated_at,
+        blocks: blockRows.filter((b) => b.day === r.day).map(rowToPlannedBlock),
+    }));
+}
+
+// ── Transactions ─────────────────────────────────────────────────────────────
+
+/** Run several repository writes atomically. */
+export async function runInTransaction(task: () => Promise<void>): Promise<void> {
+    await getDB().withTransactionAsync(task);
+}
+
+// ── Personalization Events (history) ─────────────────────────────────────────
+
 export async function getRecentComplianceEvents(sinceDaysAgo: number = 7): Promise<ComplianceEvent[]> {
     const cutoff = Date.now() - sinceDaysAgo * 24 * 3600 * 1000;
     const rows = await getDB().getAllAsync<any>(
         `SELECT * FROM personalization_events WHERE timestamp >= ? ORDER BY timestamp DESC`,
         [cutoff]
     );
-    return rows.map((r) => ({
-        timestamp: r.timestamp,
-        interventionType: r.intervention_type as InterventionType,
-        wasSuccessful: r.was_successful === 1,
-        wasOverride: r.was_override === 1,
-        appPackage: r.app_package,
-        sessionDuration: r.session_duration,
-    }));
+    return rows.map(rowToComplianceEvent);
+}
+
+export async function getComplianceEventsInRange(startTime: number, endTime: number): Promise<ComplianceEvent[]> {
+    const rows = await getDB().getAllAsync<any>(
+        `SELECT * FROM personalization_events WHERE timestamp >= ? AND timestamp <= ? ORDER BY timestamp ASC`,
+        [startTime, endTime]
+    );
+    return rows.map(rowToComplianceEvent);
 }
 
 // ── Row Mappers ──────────────────────────────────────────────────────────────
 
+function rowToComplianceEvent(row: any): ComplianceEvent {
+    return {
+        timestamp: row.timestamp,
+        interventionType: row.intervention_type as InterventionType,
+        wasSuccessful: row.was_successful === 1,
+        wasOverride: row.was_override === 1,
+        appPackage: row.app_package,
+        sessionDuration: row.session_duration,
+    };
+}
+
 function rowToUsageSession(row: any): AppUsageSession {
     return {
         id: row.id,
@@ -316,6 +853,16 @@ function rowToUsageSession(row: any): AppUsageSession {
     };
 }
 
+function rowToFocusWindow(row: any): FocusWindow {
+    return {
+        dayOfWeek: row.day_of_week,
+        hourOfDay: row.hour_of_day,
+        avgAFI: row.avg_afi,
+        sampleCount: row.sample_count,
+        qualityLabel: row.quality_label,
+    };
+}
+
 function rowToPomodoroSession(row: any): PomodoroSession {
     return {
         id: row.id,
@@ -327,6 +874,7 @@ function rowToPomodoroSession(row: any): PomodoroSession {
         distractionTime: row.distraction_time || undefined,
         wasSuccessful: row.was_successful === 1,
         breakDuration: row.break_duration,
+        focusRating: row.focus_rating ?? undefined,
     };
 }
 
@@ -356,6 +904,52 @@ function rowToHealthSignals(row: any): HealthSignals {
     };
 }
 
+function rowToMeditationSession(row: any): MeditationSessionRecord {
+    return {
+        id: row.id,
+        date: row.date,
+        type: row.type as MeditationSessionRecord['type'],
+        intent: row.intent as MeditationSessionRecord['intent'],
+        duration_seconds: row.duration_seconds,
+        completed: row.completed === 1,
+        rating: row.rating as MeditationSessionRecord['rating'],
+        pre_hrv: row.pre_hrv ?? undefined,
+        post_hrv: row.post_hrv ?? undefined,
+        efficacy_marked: row.efficacy_marked === 1,
+        mss_at_time: row.mss_at_time ?? undefined,
+    };
+}
+
+function rowToMeditationDayRecord(row: any, sessions: MeditationSessionRecord[]): MeditationDayRecord {
+    return {
+        input: JSON.parse(row.input_json),
+        computed: JSON.parse(row.computed_json),
+        sessions,
+    };
+}
+
+function rowToHealthDayRecord(row: any): HealthDayRecord {
+    return {
+        input: JSON.parse(row.input_json),
+        computed: JSON.parse(row.computed_json),
+        flags: JSON.parse(row.flags_json),
+        recommendations: JSON.parse(row.recommendations_json),
+    };
+}
+
+function rowToFocusSession(row: any): FocusSession {
+    return {
+        id: row.id,
+        type: row.type as FocusSession['type'],
+        startedAt: row.started_at,
+        duration: row.duration,
+        accuracy: row.accuracy,
+        reactionTimeMs: row.reaction_time_ms,
+        completed: row.completed === 1,
+        difficulty: row.difficulty,
+    };
+}
+
 function rowToGoal(row: any): FocusGoal {
     return {
         id: row.id,
@@ -367,3 +961,51 @@ function rowToGoal(row: any): FocusGoal {
         isActive: row.is_active === 1,
     };
 }
+
+function rowToPlannedBlock(row: any): PlannedBlock {
+    return {
+        id: row.id,
+        day: row.day,
+        goalId: row.goal_id || undefined,
+        goalTitle: row.goal_title,
+        start: row.start_time,
+        end: row.end_time,
+        predictedAFI: row.predicted_afi,
+        confidence: row.confidence,
+        status: row.status,
+        sessionId: row.session_id ?? undefined,
+        note: row.note || undefined,
+    };
+}
+
+function rowToDirectiveAudit(row: any): DirectiveAuditRecord {
+    return {
+        id: row.id,
+        generatedAt: row.generated_at,
+        contextMode: row.context_mode,
+        contextConfidence: row.context_confidence,
+        gap: JSON.parse(row.gap_json),
+        strategyType: row.strategy_type,
+        tone: row.tone,
+        strictness: row.strictness,
+        source: row.source,
+        rationale: row.rationale,
+        policyVersion: row.policy_version ?? null,
+        nudge: row.nudge_id
+            ? {
+                nudgeId: row.nudge_id,
+                directiveId: row.id,
+                title: row.nudge_title,
+                message: row.nudge_message,
+                tone: row.nudge_tone,
+                priority: row.nudge_priority,
+                shownAt: row.shown_at ?? null,
+                outcome: row.outcome ?? null,
+                outcomeAt: row.outcome_at ?? null,
+                snoozeCount: row.snooze_count,
+                followUpSessionId: row.follow_up_session_id ?? null,
+                followUpAt: row.follow_up_at ?? null,
+            }
+            : null,
+    };
+}
@@ -4,14 +4,15 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Database schema version. Increment when adding migrations.
+ * Database schema version. Increment when appending to MIGRATIONS
+ * in migrations.ts — the runner refuses to start if they disagree.
  */
-export const DB_VERSION = 1;
+export const DB_VERSION = 8;
 export const DB_NAME = 'astra_focus.db';
 
 /**
- * All CREATE TABLE statements.
- * Execute in order during first-time setup.
+ * All CREATE TABLE statements for the baseline (v1) schema.
+ * Applied by migration 1; later schema changes go in new migrations.
  */
 export const CREATE_TABLES: string[] = [
   // ── App Usage Sessions ──────────────────────────────────────────────────
@@ -3,7 +3,10 @@
 // Evaluates tension between user's goals and actual behavior
 // ─────────────────────────────────────────────────────────────────────────────
 
-import type { UserState, BehavioralGapScore } from '../types/orchestratorTypes';
+import type { UserState, BehavioralGapScore, TraceEntry } from '../types/orchestratorTypes';
+import { pct, pushTrace } from './directiveTrace';
+import { DEFAULT_ORCHESTRATOR_POLICY } from '../policy/orchestratorPolicy';
+import type { OrchestratorPolicy } from '../policy/policyTypes';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Gap Component Computations
@@ -13,13 +16,13 @@ import type { UserState, BehavioralGapScore } from '../types/orchestratorTypes';
  * Goal vs Focus: How well is the user investing time toward their goals?
  * High urgency + low weekly focus = high gap.
  */
-function computeGoalVsFocus(state: UserState): number {
+function computeGoalVsFocus(state: UserState, expected: OrchestratorPolicy['gap']['goalFocus']): number {
     const urgency = state.semiDynamic.goalUrgency;
     const weeklyMinutes = state.semiDynamic.weeklyFocusMinutes;
 
-    // Expectation: urgency 0.8 → at least ~200 min/week
-    const expectedMinutes = 60 + urgency * 200; // 60–260 min range
-    const ratio = Math.min(weeklyMinutes / expectedMinutes, 1);
+    // Default expectation: urgency 0.8 → at least ~200 min/week (60–260 min range)
+    const expectedMinutes = expected.baseMinutes + urgency * expected.minutesPerUrgency;
+    const ratio = expectedMinutes > 0 ? Math.min(weeklyMinutes / expectedMinutes, 1) : 1;
 
     return clamp(urgency * (1 - ratio));
 }
@@ -85,9 +88,13 @@ function computeRecoveryNeglect(state: UserState): number {
 // Main: Compute Behavioral Gap
 // ═══════════════════════════════════════════════════════════════════════════════
 
-export function computeBehavioralGap(state: UserState): BehavioralGapScore {
+export function computeBehavioralGap(
+    state: UserState,
+    trace?: TraceEntry[],
+    policy: OrchestratorPolicy = DEFAULT_ORCHESTRATOR_POLICY,
+): BehavioralGapScore {
     const breakdown = {
-        goalVsFocus: computeGoalVsFocus(state),
+        goalVsFocus: computeGoalVsFocus(state, policy.gap.goalFocus),
         distractionDeviation: computeDistractionDeviation(state),
         complianceGap: computeComplianceGap(state),
         sessionSkipRate: computeSessionSkipRate(state),
@@ -95,13 +102,7 @@ export function computeBehavioralGap(state: UserState): BehavioralGapScore {
     };
 
     // Weighted overall score
-    const weights = {
-        goalVsFocus: 0.30,
-        distractionDeviation: 0.25,
-        complianceGap: 0.20,
-        sessionSkipRate: 0.15,
-        recoveryNeglect: 0.10,
-    };
+    const { weights, levels } = policy.gap;
 
     const overall = clamp(
         breakdown.goalVsFocus * weights.goalVsFocus +
@@ -112,9 +113,9 @@ export function computeBehavioralGap(state: UserState): BehavioralGapScore {
     );
 
     // Classify level
-    const level = overall < 0.2 ? 'low'
-        : overall < 0.45 ? 'moderate'
-            : overall < 0.7 ? 'high'
+    const level = overall < levels.moderate ? 'low'
+        : overall < levels.high ? 'moderate'
+            : overall < levels.critical ? 'high'
                 : 'critical';
 
     // Identify primary tension
@@ -130,11 +131,24 @@ export function computeBehavioralGap(state: UserState): BehavioralGapScore {
         recoveryNeglect: 'Pushing through without adequate recovery',
     };
 
+    const primaryTension = tensionLabels[primaryKey] || 'General misalignment';
+
+    pushTrace(trace, 'gap', 'Gap score', breakdown, `${level} (${overall.toFixed(2)})`, [
+        `Weighted: goals ${pct(weights.goalVsFocus)}, distraction ${pct(weights.distractionDeviation)}, `
+            + `compliance ${pct(weights.complianceGap)}, skips ${pct(weights.sessionSkipRate)}, `
+            + `recovery ${pct(weights.recoveryNeglect)}`,
+        level === 'low' ? `${overall.toFixed(2)} < ${levels.moderate.toFixed(2)} → low`
+            : level === 'moderate' ? `${overall.toFixed(2)} ≥ ${levels.moderate.toFixed(2)} → moderate`
+                : level === 'high' ? `${overall.toFixed(2)} ≥ ${levels.high.toFixed(2)} → high`
+                    : `${overall.toFixed(2)} ≥ ${levels.critical.toFixed(2)} → critical`,
+    ]);
+    pushTrace(trace, 'gap', 'Primary tension', { [primaryKey]: tensionEntries[0][1] }, primaryTension);
+
     return {
         overall,
         level,
         breakdown,
-        primaryTension: tensionLabels[primaryKey] || 'General misalignment',
+        primaryTension,
     };
 }
 
@@ -13,6 +13,8 @@ import { useFocusStore } from '../../focusTrainer/store/focusStore';
 import type { UserProfile } from '../../onboarding/models/onboardingTypes';
 import type { PersonalizationState } from '../../personalization/models/personalizationTypes';
 import type { HealthDayRecord } from '../../shared/types';
+import type { InterventionBudgetState } from '../../interventions/budgetTypes';
+import { getBudgetSnapshot } from '../../interventions/budgetService';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Agent Context — everything the orchestrator needs, self-collected
@@ -50,6 +52,9 @@ export interface AgentContext {
     habitStreak: number;
     complianceRate: number;
     distractionRate: number;
+
+    // From the Intervention Budget (the one fatigue tracker)
+    interventionBudget?: InterventionBudgetState;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -136,6 +141,7 @@ export function collectAgentContext(): AgentContext {
         habitStreak,
         complianceRate,
         distractionRate,
+        interventionBudget: getBudgetSnapshot(),
     };
 }
 
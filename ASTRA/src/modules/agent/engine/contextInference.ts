@@ -3,7 +3,10 @@
 // Determines "what kind of day is this?" from the unified UserState
 // ─────────────────────────────────────────────────────────────────────────────
 
-import type { UserState, ContextState, ContextMode } from '../types/orchestratorTypes';
+import type { UserState, ContextState, ContextMode, TraceEntry } from '../types/orchestratorTypes';
+import { pct, pushTrace } from './directiveTrace';
+import { DEFAULT_ORCHESTRATOR_POLICY } from '../policy/orchestratorPolicy';
+import type { OrchestratorPolicy } from '../policy/policyTypes';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Context Inference Rules
@@ -17,13 +20,13 @@ interface ContextCandidate {
     signals: string[];
 }
 
-type ContextRule = (state: UserState) => ContextCandidate | null;
+type ContextRule = (state: UserState, policy: OrchestratorPolicy['context']) => ContextCandidate | null;
 
 // ── Rule: Overloaded ─────────────────────────────────────────────────────────
-const checkOverloaded: ContextRule = (s) => {
+const checkOverloaded: ContextRule = (s, { overloaded: t }) => {
     const { stressLevel, fatigueLevel, cognitiveReadiness } = s.dynamic;
-    if (stressLevel >= 4 && fatigueLevel >= 4) {
-        const confidence = 0.6 + (stressLevel + fatigueLevel - 8) * 0.1;
+    if (stressLevel >= t.minStress && fatigueLevel >= t.minFatigue) {
+        const confidence = 0.6 + (stressLevel + fatigueLevel - t.minStress - t.minFatigue) * 0.1;
         return {
             mode: 'overloaded',
             confidence: Math.min(confidence, 0.95),
@@ -38,17 +41,17 @@ const checkOverloaded: ContextRule = (s) => {
 };
 
 // ── Rule: Cognitively Fatigued ───────────────────────────────────────────────
-const checkFatigued: ContextRule = (s) => {
+const checkFatigued: ContextRule = (s, { fatigued: t }) => {
     const { cognitiveReadiness, fatigueLevel, sleepHours } = s.dynamic;
-    if (cognitiveReadiness < 0.4 || fatigueLevel >= 4) {
+    if (cognitiveReadiness < t.maxReadiness || fatigueLevel >= t.minFatigue) {
         const signals: string[] = [];
         let conf = 0.5;
 
         if (cognitiveReadiness < 0.3) { signals.push('CRS very low'); conf += 0.2; }
-        else if (cognitiveReadiness < 0.4) { signals.push('CRS below threshold'); conf += 0.1; }
+        else if (cognitiveReadiness < t.maxReadiness) { signals.push('CRS below threshold'); conf += 0.1; }
 
-        if (fatigueLevel >= 4) { signals.push(`Fatigue ${fatigueLevel}/5`); conf += 0.15; }
-        if (sleepHours < 6) { signals.push(`Only ${sleepHours}h sleep`); conf += 0.1; }
+        if (fatigueLevel >= t.minFatigue) { signals.push(`Fatigue ${fatigueLevel}/5`); conf += 0.15; }
+        if (sleepHours < t.shortSleepHours) { signals.push(`Only ${sleepHours}h sleep`); conf += 0.1; }
 
         return { mode: 'cognitively-fatigued', confidence: Math.min(conf, 0.9), signals };
     }
@@ -56,17 +59,17 @@ const checkFatigued: ContextRule = (s) => {
 };
 
 // ── Rule: Emotionally Reactive ───────────────────────────────────────────────
-const checkEmotionallyReactive: ContextRule = (s) => {
+const checkEmotionallyReactive: ContextRule = (s, { emotionallyReactive: t }) => {
     const { stressLevel } = s.dynamic;
     const { neuroticism, emotionalReactivity } = s.static;
 
-    if (stressLevel >= 4 && (neuroticism >= 5 || emotionalReactivity > 0.6)) {
+    if (stressLevel >= t.minStress && (neuroticism >= t.minNeuroticism || emotionalReactivity > t.minReactivity)) {
         return {
             mode: 'emotionally-reactive',
             confidence: 0.5 + emotionalReactivity * 0.3,
             signals: [
                 `Stress ${stressLevel}/5`,
-                neuroticism >= 5 ? `High neuroticism (${neuroticism}/7)` : '',
+                neuroticism >= t.minNeuroticism ? `High neuroticism (${neuroticism}/7)` : '',
                 `Emotional reactivity ${(emotionalReactivity * 100).toFixed(0)}%`,
             ].filter(Boolean),
         };
@@ -75,13 +78,13 @@ const checkEmotionallyReactive: ContextRule = (s) => {
 };
 
 // ── Rule: Drifting ───────────────────────────────────────────────────────────
-const checkDrifting: ContextRule = (s) => {
+const checkDrifting: ContextRule = (s, { drifting: t }) => {
     const { complianceRate, distractionRate, daysSinceLastFocus } = s.behavioral;
     const { complianceTrend } = s.semiDynamic;
 
     if (
-        (complianceRate < 0.4 && distractionRate > 0.6) ||
-        (complianceTrend === 'declining' && daysSinceLastFocus >= 2)
+        (complianceRate < t.maxCompliance && distractionRate > t.minDistraction) ||
+        (complianceTrend === 'declining' && daysSinceLastFocus >= t.minDaysIdle)
     ) {
         return {
             mode: 'drifting',
@@ -89,7 +92,7 @@ const checkDrifting: ContextRule = (s) => {
             signals: [
                 `Compliance at ${(complianceRate * 100).toFixed(0)}%`,
                 `Distraction rate ${(distractionRate * 100).toFixed(0)}%`,
-                daysSinceLastFocus >= 2 ? `${daysSinceLastFocus} days without focus` : '',
+                daysSinceLastFocus >= t.minDaysIdle ? `${daysSinceLastFocus} days without focus` : '',
                 complianceTrend === 'declining' ? 'Compliance declining' : '',
             ].filter(Boolean),
         };
@@ -98,10 +101,13 @@ const checkDrifting: ContextRule = (s) => {
 };
 
 // ── Rule: Performance Ready ──────────────────────────────────────────────────
-const checkPerformanceReady: ContextRule = (s) => {
-    const { cognitiveReadiness, sleepHours, fatigueLevel, stressLevel, currentAFI } = s.dynamic;
+const checkPerformanceReady: ContextRule = (s, { performanceReady: t }) => {
+    const { cognitiveReadiness, sleepHours, fatigueLevel, currentAFI } = s.dynamic;
 
-    if (cognitiveReadiness > 0.7 && sleepHours >= 7 && fatigueLevel <= 2 && currentAFI < 0.3) {
+    if (
+        cognitiveReadiness > t.minReadiness && sleepHours >= t.minSleepHours &&
+        fatigueLevel <= t.maxFatigue && currentAFI < t.maxAFI
+    ) {
         return {
             mode: 'performance-ready',
             confidence: 0.6 + cognitiveReadiness * 0.2,
@@ -117,11 +123,11 @@ const checkPerformanceReady: ContextRule = (s) => {
 };
 
 // ── Rule: Opportunity Window ─────────────────────────────────────────────────
-const checkOpportunityWindow: ContextRule = (s) => {
+const checkOpportunityWindow: ContextRule = (s, { opportunityWindow: t }) => {
     const { cognitiveReadiness, currentAFI } = s.dynamic;
     const { habitStreak, weeklyFocusMinutes } = s.semiDynamic;
 
-    if (cognitiveReadiness > 0.6 && currentAFI < 0.4 && weeklyFocusMinutes < 120) {
+    if (cognitiveReadiness > t.minReadiness && currentAFI < t.maxAFI && weeklyFocusMinutes < t.maxWeeklyMinutes) {
         return {
             mode: 'opportunity-window',
             confidence: 0.5 + cognitiveReadiness * 0.2,
@@ -136,11 +142,11 @@ const checkOpportunityWindow: ContextRule = (s) => {
 };
 
 // ── Rule: Recovering ─────────────────────────────────────────────────────────
-const checkRecovering: ContextRule = (s) => {
+const checkRecovering: ContextRule = (s, { recovering: t }) => {
     const { lastSessionWasSuccessful } = s.behavioral;
     const { cognitiveReadiness, fatigueLevel } = s.dynamic;
 
-    if (lastSessionWasSuccessful && cognitiveReadiness < 0.6 && fatigueLevel >= 3) {
+    if (lastSessionWasSuccessful && cognitiveReadiness < t.maxReadiness && fatigueLevel >= t.minFatigue) {
         return {
             mode: 'recovering',
             confidence: 0.6,
@@ -158,30 +164,42 @@ const checkRecovering: ContextRule = (s) => {
 // Main: Infer Context
 // ═══════════════════════════════════════════════════════════════════════════════
 
-const RULES: ContextRule[] = [
-    checkOverloaded,        // highest priority — safety
-    checkEmotionallyReactive,
-    checkFatigued,
-    checkDrifting,
-    checkRecovering,
-    checkPerformanceReady,
-    checkOpportunityWindow,
+const RULES: { mode: ContextMode; check: ContextRule }[] = [
+    { mode: 'overloaded', check: checkOverloaded },        // highest priority — safety
+    { mode: 'emotionally-reactive', check: checkEmotionallyReactive },
+    { mode: 'cognitively-fatigued', check: checkFatigued },
+    { mode: 'drifting', check: checkDrifting },
+    { mode: 'recovering', check: checkRecovering },
+    { mode: 'performance-ready', check: checkPerformanceReady },
+    { mode: 'opportunity-window', check: checkOpportunityWindow },
 ];
 
-export function inferContext(state: UserState): ContextState {
+export function inferContext(
+    state: UserState,
+    trace?: TraceEntry[],
+    policy: OrchestratorPolicy = DEFAULT_ORCHESTRATOR_POLICY,
+): ContextState {
     const candidates: ContextCandidate[] = [];
+    const unmatched: ContextMode[] = [];
 
-    for (const rule of RULES) {
-        const result = rule(state);
-        if (result && result.confidence > 0.3) {
+    for (const { mode, check } of RULES) {
+        const result = check(state, policy.context);
+        if (result && result.confidence > policy.context.minConfidence) {
             candidates.push(result);
+            pushTrace(trace, 'context', `Rule: ${mode}`, {}, `Matched (${pct(result.confidence)} confidence)`, result.signals);
+        } else {
+            unmatched.push(mode);
         }
     }
+    if (unmatched.length > 0) {
+        pushTrace(trace, 'context', 'Rules not matched', {}, unmatched.join(', '));
+    }
 
     // Sort by confidence descending
     candidates.sort((a, b) => b.confidence - a.confidence);
 
     if (candidates.length === 0) {
+        pushTrace(trace, 'context', 'Mode', {}, 'maintenance', ['No rule matched — normal day']);
         return {
             mode: 'maintenance',
             confidence: 0.5,
@@ -192,6 +210,20 @@ export function inferContext(state: UserState): ContextState {
     const primary = candidates[0];
     const secondary = candidates.length > 1 ? candidates[1] : undefined;
 
+    pushTrace(
+        trace,
+        'context',
+        'Mode',
+        Object.fromEntries(candidates.map(c => [c.mode, c.confidence])),
+        primary.mode,
+        [
+            candidates.length > 1
+                ? `Highest confidence of ${candidates.length} matching rules`
+                : 'Only matching rule',
+            ...(secondary ? [`Runner-up: ${secondary.mode}`] : []),
+        ],
+    );
+
     return {
         mode: primary.mode,
         confidence: primary.confidence,
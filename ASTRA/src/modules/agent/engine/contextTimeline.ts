@@ -0,0 +1,203 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Context Timeline — Hysteresis over successive context inferences
+// inferContext() classifies a single snapshot, so users near a threshold would
+// flip modes on every refresh. This keeps a rolling history of mode spans and
+// only switches once a challenger has outlasted the minimum dwell time.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { ContextMode, ContextState, TraceEntry } from '../types/orchestratorTypes';
+import { pct, pushTrace } from './directiveTrace';
+
+export const CONTEXT_HYSTERESIS = {
+    /** A mode is held at least this long before a non-urgent switch. */
+    minDwellMs: 20 * 60_000,
+    /** A challenger seen this long (and this often) takes over even at lower confidence. */
+    confirmMs: 10 * 60_000,
+    confirmObservations: 2,
+    /** A challenger this much more confident than the held mode takes over once dwell is met. */
+    switchMargin: 0.15,
+    /** Longer gaps (app closed) start a fresh span instead of holding a stale one. */
+    staleAfterMs: 3 * 60 * 60_000,
+    maxSpans: 48,
+} as const;
+
+/** Depleted states switch in at once — a user is never held in a push mode. */
+const IMMEDIATE_MODES = new Set<ContextMode>(['overloaded', 'emotionally-reactive', 'cognitively-fatigued']);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// History
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** One stretch of time spent in a single (stabilized) mode. */
+export interface ContextSpan {
+    mode: ContextMode;
+    start: number;
+    /** Last time this mode was held. */
+    end: number;
+    confidence: number;
+    signals: string[];
+}
+
+/** A different mode the raw inference keeps reporting, not yet switched to. */
+export interface PendingSwitch {
+    mode: ContextMode;
+    since: number;
+    observations: number;
+}
+
+export interface ContextHistory {
+    /** Oldest first; the last span is the current mode. */
+    spans: ContextSpan[];
+    pending: PendingSwitch | null;
+}
+
+export function emptyContextHistory(): ContextHistory {
+    return { spans: [], pending: null };
+}
+
+export interface StabilizedContext {
+    context: ContextState;
+    history: ContextHistory;
+    switched: boolean;
+}
+
+function minutes(ms: number): number {
+    return Math.round(ms / 60_000);
+}
+
+function toContext(spans: ContextSpan[], secondaryMode?: ContextMode): ContextState {
+    const current = spans[spans.length - 1];
+    const previous = spans[spans.length - 2];
+    return {
+        mode: current.mode,
+        confidence: current.confidence,
+        signals: current.signals,
+        secondaryMode,
+        since: current.start,
+        previousMode: previous?.mode,
+    };
+}
+
+function openSpan(history: ContextHistory, raw: ContextState, start: number, now: number): ContextSpan[] {
+    const span: ContextSpan = { mode: raw.mode, start, end: now, confidence: raw.confidence, signals: raw.signals };
+    return [...history.spans, span].slice(-CONTEXT_HYSTERESIS.maxSpans);
+}
+
+/**
+ * Fold one raw inference into the history and return the mode to act on.
+ * The held mode keeps the confidence and signals it was last seen with;
+ * the raw mode is reported as `secondaryMode` while it waits.
+ */
+export function stabilizeContext(
+    history: ContextHistory,
+    raw: ContextState,
+    now: number,
+    trace?: TraceEntry[],
+): StabilizedContext {
+    const current = history.spans[history.spans.length - 1];
+
+    // ── No recent span: take the reading as-is ───────────────────────────
+    if (!current || now - current.end > CONTEXT_HYSTERESIS.staleAfterMs) {
+        const spans = openSpan(history, raw, now, now);
+        pushTrace(trace, 'context', 'Hysteresis', { raw: raw.mode }, raw.mode,
+            [current ? `Last reading ${minutes(now - current.end)} min ago — starting fresh` : 'First reading']);
+        return {
+            context: toContext(spans, raw.secondaryMode),
+            history: { spans, pending: null },
+            switched: current?.mode !== raw.mode,
+        };
+    }
+
+    // ── Same mode: extend the current span ───────────────────────────────
+    if (raw.mode === current.mode) {
+        const extended = { ...current, end: now, confidence: raw.confidence, signals: raw.signals };
+        const spans = [...history.spans.slice(0, -1), extended];
+        pushTrace(trace, 'context', 'Hysteresis', { raw: raw.mode, heldMinutes: minutes(now - current.start) },
+            raw.mode, [`Unchanged since ${formatClock(current.start)}`]);
+        return { context: toContext(spans, raw.secondaryMode), history: { spans, pending: null }, switched: false };
+    }
+
+    // ── Challenger: switch only when urgent, clearly stronger or persistent ──
+    const pending: PendingSwitch = history.pending?.mode === raw.mode
+        ? { ...history.pending, observations: history.pending.observations + 1 }
+        : { mode: raw.mode, since: now, observations: 1 };
+    const dwelt = now - current.start;
+    const seen = now - pending.since;
+
+    let because: string | null = null;
+    if (IMMEDIATE_MODES.has(raw.mode)) {
+        because = `${raw.mode} switches in immediately`;
+    } else if (dwelt < CONTEXT_HYSTERESIS.minDwellMs) {
+        because = null;
+    } else if (raw.confidence >= current.confidence + CONTEXT_HYSTERESIS.switchMargin) {
+        because = `${pct(raw.confidence)} confidence beats ${pct(current.confidence)} by the switch margin`;
+    } else if (pending.observations >= CONTEXT_HYSTERESIS.confirmObservations && seen >= CONTEXT_HYSTERESIS.confirmMs) {
+        because = `${raw.mode} persisted for ${minutes(seen)} min`;
+    }
+
+    const inputs = {
+        raw: raw.mode,
+        held: current.mode,
+        heldMinutes: minutes(dwelt),
+        challengerMinutes: minutes(seen),
+        challengerReadings: pending.observations,
+    };
+
+    if (because) {
+        // The new span starts when the challenger first appeared
+        const start = IMMEDIATE_MODES.has(raw.mode) ? now : pending.since;
+        const closed = { ...current, end: Math.max(current.start, Math.min(current.end, start)) };
+        const spans = openSpan({ ...history, spans: [...history.spans.slice(0, -1), closed] }, raw, start, now);
+        pushTrace(trace, 'context', 'Hysteresis', inputs, `Switched to ${raw.mode}`, [because]);
+        return { context: toContext(spans, raw.secondaryMode), history: { spans, pending: null }, switched: true };
+    }
+
+    const held = { ...current, end: now };
+    const spans = [...history.spans.slice(0, -1), held];
+    pushTrace(trace, 'context', 'Hysteresis', inputs, `Held ${current.mode}`, [
+        dwelt < CONTEXT_HYSTERESIS.minDwellMs
+            ? `Minimum dwell ${minutes(CONTEXT_HYSTERESIS.minDwellMs)} min not reached`
+            : `${raw.mode} not yet confirmed (needs ${minutes(CONTEXT_HYSTERESIS.confirmMs)} min or +${pct(CONTEXT_HYSTERESIS.switchMargin)} confidence)`,
+    ]);
+    return { context: toContext(spans, raw.mode), history: { spans, pending }, switched: false };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Timeline
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Today's mode spans for display and prompting. */
+export interface ContextTimeline {
+    /** Spans overlapping today, the first clipped to midnight. */
+    spans: ContextSpan[];
+    /** The span still in effect, or null when the last reading went stale. */
+    current: ContextSpan | null;
+}
+
+export function getContextTimeline(history: ContextHistory, now: number): ContextTimeline {
+    const midnight = new Date(now);
+    midnight.setHours(0, 0, 0, 0);
+    const dayStart = midnight.getTime();
+
+    const spans = history.spans
+        .filter(span => span.end >= dayStart)
+        .map(span => (span.start < dayStart ? { ...span, start: dayStart } : span));
+    const last = spans[spans.length - 1];
+    const current = last && now - last.end <= CONTEXT_HYSTERESIS.staleAfterMs ? last : null;
+    return { spans, current };
+}
+
+/** "2pm", "2:30pm". */
+export function formatClock(timestamp: number): string {
+    const date = new Date(timestamp);
+    const hours = date.getHours();
+    const mins = date.getMinutes();
+    const suffix = hours < 12 ? 'am' : 'pm';
+    const h12 = hours % 12 === 0 ? 12 : hours % 12;
+    return mins === 0 ? `${h12}${suffix}` : `${h12}:${String(mins).padStart(2, '0')}${suffix}`;
+}
+
+/** "drifting since 2pm". */
+export function describeContextSpan(span: Pick<ContextSpan, 'mode' | 'start'>): string {
+    return `${span.mode.replace(/-/g, ' ')} since ${formatClock(span.start)}`;
+}
@@ -0,0 +1,173 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Directive Cache — Reuses LLM enrichments while the user's state is unchanged
+// Keyed by a quantized fingerprint of UserState + ContextState + gap and the
+// agent context the prompt quotes, so dashboard refreshes don't trigger a new
+// LLM call for jitter-level changes.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { UserState, ContextState, BehavioralGapScore } from '../types/orchestratorTypes';
+import type { AgentContext } from './contextCollector';
+import type { GroqResponse } from '../llm/groqClient';
+
+export const DIRECTIVE_CACHE_TTL_MS = 15 * 60_000;
+export const DIRECTIVE_CACHE_MAX_ENTRIES = 20;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Fingerprint
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Round to the nearest `step` so small fluctuations map to the same bucket. */
+function q(value: number, step: number): number {
+    return Math.round(value / step) * step;
+}
+
+/** Bucket unbounded counts: exact up to 3, then coarser as they grow. */
+function bucketCount(value: number): string {
+    if (value <= 3) return String(value);
+    if (value <= 7) return '4-7';
+    if (value <= 14) return '8-14';
+    return '15+';
+}
+
+/**
+ * Stable string describing everything the LLM prompt depends on, at the
+ * resolution that would actually change the message. Timestamps and the exact
+ * hour are left out, except the start of the current mode span, which the
+ * prompt quotes ("drifting since 2pm"); time of day is kept.
+ */
+export function fingerprintDirectiveInputs(
+    state: UserState,
+    context: ContextState,
+    gap: BehavioralGapScore,
+    agentCtx?: AgentContext,
+): string {
+    const { static: s, semiDynamic: sd, dynamic: d, behavioral: b } = state;
+    const parts: (string | number)[] = [
+        // Static traits
+        s.conscientiousness, s.neuroticism, s.motivationType, s.goalCategory, s.nudgeTone,
+        q(s.selfEfficacy, 0.2), q(s.impulsivityIndex, 0.2),
+        // Semi-dynamic
+        q(sd.goalUrgency, 0.2), bucketCount(sd.habitStreak), sd.attentionTrend, sd.complianceTrend,
+        q(sd.weeklyFocusMinutes, 30), bucketCount(sd.totalSessionCount),
+        // Dynamic
+        q(d.cognitiveReadiness, 0.1), q(d.meditationSuitability, 10), d.stressLevel, d.fatigueLevel,
+        q(d.sleepHours, 0.5), d.sleepQuality, d.attentionCapacity.level, q(d.currentAFI, 0.1), d.timeOfDay,
+        // Behavioral
+        q(b.distractionRate, 0.1), q(b.complianceRate, 0.1), q(b.nudgeDismissRate, 0.2),
+        Math.min(b.consecutiveDismissals, 3), b.lastSessionWasSuccessful ? 1 : 0,
+        bucketCount(b.daysSinceLastFocus),
+        // Context + gap
+        context.mode, context.secondaryMode ?? '-', q(context.confidence, 0.25),
+        context.since ?? '-', context.previousMode ?? '-',
+        gap.level, gap.primaryTension, q(gap.overall, 0.1),
+        // Agent context, quoted verbatim in the prompt
+        agentCtx?.activeGoalName ?? '-', agentCtx?.profile?.goalText ?? '-',
+        agentCtx ? agentCtx.completedSessionsToday : '-', agentCtx?.isInFocusSession ? 1 : 0,
+    ];
+    return parts.map(p => (typeof p === 'number' ? Number(p.toFixed(2)) : p)).join('|');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Cache
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type CacheLookup = 'hit' | 'miss' | 'coalesced';
+
+export interface DirectiveCacheStats {
+    hits: number;
+    misses: number;
+    /** Callers that joined an in-flight request instead of starting their own. */
+    coalesced: number;
+}
+
+export interface DirectiveCacheOptions {
+    ttlMs?: number;
+    maxEntries?: number;
+    now?: () => number;
+}
+
+export interface DirectiveCache {
+    /**
+     * Return the cached enrichment for `key`, join an in-flight request for
+     * it, or run `compute`. Null results are not cached, so a failed LLM call
+     * is retried on the next run.
+     */
+    getOrCompute(
+        key: string,
+        compute: () => Promise<GroqResponse | null>,
+    ): Promise<{ value: GroqResponse | null; lookup: CacheLookup }>;
+    clear(): void;
+    readonly size: number;
+    readonly stats: DirectiveCacheStats;
+}
+
+export function createDirectiveCache(options: DirectiveCacheOptions = {}): DirectiveCache {
+    const ttlMs = options.ttlMs ?? DIRECTIVE_CACHE_TTL_MS;
+    const maxEntries = options.maxEntries ?? DIRECTIVE_CACHE_MAX_ENTRIES;
+    const now = options.now ?? Date.now;
+
+    const entries = new Map<string, { value: GroqResponse; expiresAt: number }>();
+    const inFlight = new Map<string, Promise<GroqResponse | null>>();
+    const stats: DirectiveCacheStats = { hits: 0, misses: 0, coalesced: 0 };
+
+    function prune(): void {
+        const t = now();
+        for (const [key, entry] of entries) {
+            if (entry.expiresAt <= t) entries.delete(key);
+        }
+        // Map keeps insertion order, so the first keys are the oldest
+        while (entries.size > maxEntries) {
+            entries.delete(entries.keys().next().value as string);
+        }
+    }
+
+    return {
+        async getOrCompute(key, compute) {
+            const cached = entries.get(key);
+            if (cached && cached.expiresAt > now()) {
+                stats.hits++;
+                return { value: cached.value, lookup: 'hit' };
+            }
+
+            const pending = inFlight.get(key);
+            if (pending) {
+                stats.coalesced++;
+                return { value: await pending, lookup: 'coalesced' };
+            }
+
+            stats.misses++;
+            const request = compute();
+            inFlight.set(key, request);
+            try {
+                const value = await request;
+                if (value) {
+                    entries.delete(key);
+                    entries.set(key, { value, expiresAt: now() + ttlMs });
+                    prune();
+                }
+                return { value, lookup: 'miss' };
+            } finally {
+                if (inFlight.get(key) === request) inFlight.delete(key);
+            }
+        },
+
+        clear() {
+            entries.clear();
+            inFlight.clear();
+            stats.hits = 0;
+            stats.misses = 0;
+            stats.coalesced = 0;
+        },
+
+        get size() {
+            return entries.size;
+        },
+
+        get stats() {
+            return { ...stats };
+        },
+    };
+}
+
+/** App-wide cache used by runOrchestrator unless one is injected. */
+export const directiveCache = createDirectiveCache();
@@ -0,0 +1,57 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Directive Trace — Helpers for the per-stage reasoning attached to directives
+// Each pipeline stage takes an optional TraceEntry[] and appends what it used,
+// which thresholds it crossed and which branch it took.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { TraceEntry, TraceStage, TraceValue } from '../types/orchestratorTypes';
+
+/** A rule-based choice plus the branch that produced it. */
+export interface Branch<T> {
+    value: T;
+    because: string;
+}
+
+export const TRACE_STAGE_LABELS: Record<TraceStage, string> = {
+    state: '1 · Your data',
+    context: '2 · What kind of day',
+    gap: '3 · Goals vs behavior',
+    strategy: '4 · Strategy',
+    directive: '5 · Recommendations',
+    llm: 'Wording',
+};
+
+const TRACE_STAGE_ORDER: TraceStage[] = ['state', 'context', 'gap', 'strategy', 'directive', 'llm'];
+
+function round(value: TraceValue | undefined): TraceValue {
+    if (value === undefined) return null;
+    return typeof value === 'number' ? Number(value.toFixed(2)) : value;
+}
+
+/** Append one entry; a no-op when the caller isn't collecting a trace. */
+export function pushTrace(
+    trace: TraceEntry[] | undefined,
+    stage: TraceStage,
+    step: string,
+    inputs: Record<string, TraceValue | undefined>,
+    outcome: string,
+    thresholds: string[] = [],
+): void {
+    if (!trace) return;
+    const rounded: Record<string, TraceValue> = {};
+    for (const [key, value] of Object.entries(inputs)) rounded[key] = round(value);
+    trace.push({ stage, step, inputs: rounded, thresholds, outcome });
+}
+
+export function pct(value: number): string {
+    return `${(value * 100).toFixed(0)}%`;
+}
+
+/** Entries grouped by stage in pipeline order, empty stages left out. */
+export function groupTraceByStage(
+    trace: TraceEntry[],
+): { stage: TraceStage; label: string; entries: TraceEntry[] }[] {
+    return TRACE_STAGE_ORDER
+        .map(stage => ({ stage, label: TRACE_STAGE_LABELS[stage], entries: trace.filter(e => e.stage === stage) }))
+        .filter(group => group.entries.length > 0);
+}
@@ -0,0 +1,14 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Hash — FNV-1a for short, stable string fingerprints
+// Seeds the template RNG and versions policy overrides. Not cryptographic.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** FNV-1a over the string's UTF-16 code units, as an unsigned 32-bit integer. */
+export function fnv1a(text: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
@@ -0,0 +1,195 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Nudge Scheduler — Delivery queue for InterventionStrategy.timing
+// 'immediate' nudges show now, 'delayed' ones after a short wait, 'scheduled'
+// ones at the user's next optimal focus window. Every queued nudge gets an
+// expiresAt, and nudges written for a context the user has left are dropped.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { ContextMode, InterventionStrategy, NudgePayload } from '../types/orchestratorTypes';
+import type { HourBlock } from '../../focusTrainer/models/types';
+import { getSuggestedSchedule } from '../../focusTrainer/math/attentionForecasting';
+
+export type NudgeTiming = InterventionStrategy['timing'];
+
+export const SCHEDULER_CONFIG = {
+    /** Wait before a 'delayed' nudge is shown. */
+    delayedMs: 30 * 60_000,
+    /** Wait for a 'scheduled' nudge when there is no heatmap to pick a window from. */
+    unscheduledFallbackMs: 2 * 60 * 60_000,
+    /** How long a nudge stays valid once it is due. */
+    validForMs: 60 * 60_000,
+    maxQueued: 10,
+} as const;
+
+const PRIORITY_RANK: Record<NudgePayload['priority'], number> = { urgent: 3, high: 2, medium: 1, low: 0 };
+
+export interface QueuedNudge {
+    nudge: NudgePayload;
+    timing: NudgeTiming;
+    queuedAt: number;
+    deliverAt: number;
+}
+
+export interface NudgeQueue {
+    items: QueuedNudge[];
+}
+
+export function emptyNudgeQueue(): NudgeQueue {
+    return { items: [] };
+}
+
+export interface DroppedNudge {
+    nudge: NudgePayload;
+    reason: 'expired' | 'stale-context' | 'superseded';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Planning
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Start of the next suggested window after `now`, looking at today's
+ * schedule and then tomorrow's. Null when the heatmap suggests nothing.
+ */
+export function nextOptimalWindow(heatmap: HourBlock[], now: number): number | null {
+    const today = new Date(now);
+    for (let offset = 0; offset <= 1; offset++) {
+        const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset);
+        const starts = getSuggestedSchedule(heatmap, day.getDay())
+            .map(block => new Date(day.getFullYear(), day.getMonth(), day.getDate(), block.hour).getTime())
+            .filter(start => start > now)
+            .sort((a, b) => a - b);
+        if (starts.length > 0) return starts[0];
+    }
+    return null;
+}
+
+export function planDelivery(
+    timing: NudgeTiming,
+    now: number,
+    heatmap: HourBlock[],
+): { deliverAt: number; expiresAt: number } {
+    let deliverAt = now;
+    if (timing === 'delayed') {
+        deliverAt = now + SCHEDULER_CONFIG.delayedMs;
+    } else if (timing === 'scheduled') {
+        deliverAt = nextOptimalWindow(heatmap, now) ?? now + SCHEDULER_CONFIG.unscheduledFallbackMs;
+    }
+    return { deliverAt, expiresAt: deliverAt + SCHEDULER_CONFIG.validForMs };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Queue Operations
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Queue a nudge for its timing. A newer nudge for the same context takes over
+ * the queued one's slot: the payload is replaced but its queuedAt, deliverAt
+ * and expiresAt stay (unless the new timing is sooner), so repeated
+ * orchestrator runs neither pile up duplicates nor keep pushing a delayed or
+ * scheduled nudge back. `replaced` is the payload that was swapped out.
+ */
+export function enqueueNudge(
+    queue: NudgeQueue,
+    nudge: NudgePayload,
+    timing: NudgeTiming,
+    now: number,
+    heatmap: HourBlock[] = [],
+): { queue: NudgeQueue; queued: QueuedNudge; replaced: NudgePayload | null; dropped: DroppedNudge[] } {
+    const planned = planDelivery(timing, now, heatmap);
+    const dropped: DroppedNudge[] = [];
+    const kept: QueuedNudge[] = [];
+    let existing: QueuedNudge | null = null;
+    for (const item of queue.items) {
+        if (item.nudge.contextMode !== nudge.contextMode) {
+            kept.push(item);
+        } else if (item.nudge.expiresAt !== undefined && item.nudge.expiresAt <= now) {
+            dropped.push({ nudge: item.nudge, reason: 'expired' });
+        } else if (!existing) {
+            existing = item;
+        } else {
+            dropped.push({ nudge: item.nudge, reason: 'superseded' });
+        }
+    }
+
+    // Keep the queued slot's time unless the new timing is sooner
+    const slot = existing && existing.deliverAt <= planned.deliverAt ? existing : null;
+    const queued: QueuedNudge = {
+        nudge: { ...nudge, expiresAt: slot ? slot.nudge.expiresAt : planned.expiresAt },
+        timing: slot?.timing ?? timing,
+        queuedAt: existing?.queuedAt ?? now,
+        deliverAt: slot?.deliverAt ?? planned.deliverAt,
+    };
+
+    const items = [...kept, queued].sort((a, b) => a.deliverAt - b.deliverAt);
+    while (items.length > SCHEDULER_CONFIG.maxQueued) {
+        dropped.push({ nudge: items.pop()!.nudge, reason: 'superseded' });
+    }
+    return { queue: { items }, queued, replaced: existing?.nudge ?? null, dropped };
+}
+
+/** Put an already-planned nudge back (e.g. snoozed) to show again at `deliverAt`. */
+export function requeueNudge(queue: NudgeQueue, nudge: NudgePayload, deliverAt: number, now: number): NudgeQueue {
+    const queued: QueuedNudge = {
+        nudge: { ...nudge, expiresAt: Math.max(nudge.expiresAt ?? 0, deliverAt + SCHEDULER_CONFIG.validForMs) },
+        timing: 'delayed',
+        queuedAt: now,
+        deliverAt,
+    };
+    const items = [...queue.items.filter(item => item.nudge.id !== nudge.id), queued];
+    return { items: items.sort((a, b) => a.deliverAt - b.deliverAt) };
+}
+
+/**
+ * Remove expired nudges and nudges for a context other than `currentMode`,
+ * then hand out the most urgent one that is due. Pass `currentMode` null to
+ * skip the context check (no directive yet).
+ */
+export function takeDueNudge(
+    queue: NudgeQueue,
+    now: number,
+    currentMode: ContextMode | null,
+): { nudge: NudgePayload | null; queue: NudgeQueue; dropped: DroppedNudge[] } {
+    const dropped: DroppedNudge[] = [];
+    const live = queue.items.filter(item => {
+        if (item.nudge.expiresAt !== undefined && item.nudge.expiresAt <= now) {
+            dropped.push({ nudge: item.nudge, reason: 'expired' });
+            return false;
+        }
+        if (currentMode && item.nudge.contextMode !== currentMode) {
+            dropped.push({ nudge: item.nudge, reason: 'stale-context' });
+            return false;
+        }
+        return true;
+    });
+
+    const due = live
+        .filter(item => item.deliverAt <= now)
+        .sort((a, b) => PRIORITY_RANK[b.nudge.priority] - PRIORITY_RANK[a.nudge.priority] || a.deliverAt - b.deliverAt)[0];
+
+    return {
+        nudge: due?.nudge ?? null,
+        queue: { items: due ? live.filter(item => item !== due) : live },
+        dropped,
+    };
+}
+
+/**
+ * Queued nudges still valid for `currentMode`, due or not, in delivery order:
+ * what the OS should post if JS is suspended before they come up.
+ */
+export function pendingNudges(queue: NudgeQueue, now: number, currentMode: ContextMode | null): QueuedNudge[] {
+    return queue.items
+        .filter(item => item.nudge.expiresAt === undefined || item.nudge.expiresAt > now)
+        .filter(item => !currentMode || item.nudge.contextMode === currentMode)
+        .sort((a, b) => a.deliverAt - b.deliverAt);
+}
+
+/** Pull the given nudges out of the queue (e.g. the OS has already posted them). */
+export function takeNudgesById(queue: NudgeQueue, ids: string[]): { taken: NudgePayload[]; queue: NudgeQueue } {
+    const wanted = new Set(ids);
+    return {
+        taken: queue.items.filter(item => wanted.has(item.nudge.id)).map(item => item.nudge),
+        queue: { items: queue.items.filter(item => !wanted.has(item.nudge.id)) },
+    };
+}
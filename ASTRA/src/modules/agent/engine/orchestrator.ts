@@ -12,6 +12,7 @@ import type {
     ContextState,
     BehavioralGapScore,
     InterventionStrategy,
+    TraceEntry,
 } from '../types/orchestratorTypes';
 import type { MeditationType } from '../../shared/types';
 import type { RecoveryStyle, StrictnessLevel } from '../../personalization/models/personalizationTypes';
@@ -23,13 +24,55 @@ import { buildUserState } from './stateIngestion';
 import { inferContext } from './contextInference';
 import { computeBehavioralGap } from './behavioralGap';
 import { selectStrategy } from './strategySelector';
-import { queryGroq, type GroqResponse } from '../llm/groqClient';
+import { queryLLM, type GroqResponse } from '../llm/groqClient';
+import { createLLMProvider } from '../llm/providers';
+import type { FetchLike, LLMProvider } from '../llm/llmTypes';
+import { resolvePersona, type ResolvedPersona } from '../llm/personas';
+import { generateTemplateResponse } from '../llm/templateGenerator';
+import {
+    getBanditState,
+    getContextHistory,
+    getLLMSettings,
+    getPersonaSettings,
+    setContextHistory,
+} from '../../../storage/mmkvStore';
 import { collectAgentContext, generateModuleMessages, type AgentContext } from './contextCollector';
+import { directiveCache, fingerprintDirectiveInputs, type DirectiveCache } from './directiveCache';
+import type { BanditState } from './strategyBandit';
+import { stabilizeContext, type ContextHistory } from './contextTimeline';
+import { pushTrace, type Branch } from './directiveTrace';
+import { getActivePolicy } from '../policy/policyService';
+import type { OrchestratorPolicy } from '../policy/policyTypes';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Main Pipeline
 // ═══════════════════════════════════════════════════════════════════════════════
 
+/** Test seams — production callers pass nothing. */
+export interface OrchestratorOptions {
+    /** Use this provider instead of the one selected in Settings. */
+    llm?: LLMProvider;
+    /** Transport for the Settings-selected provider (ignored when `llm` is set). */
+    fetch?: FetchLike;
+    /** Skip store collection and use this context. */
+    agentContext?: AgentContext;
+    /** LLM enrichment cache (defaults to the app-wide directiveCache). */
+    cache?: DirectiveCache;
+    /** Voice + banned topics (defaults to Settings, or the onboarding nudge tone). */
+    persona?: ResolvedPersona;
+    /** Learned strategy parameters (defaults to the stored bandit; null = rules only). */
+    bandit?: BanditState | null;
+    /** Mode history to smooth against (defaults to the stored one, which is then updated; null = raw snapshot). */
+    contextHistory?: ContextHistory | null;
+    /** Clock for the context history. */
+    now?: number;
+    /** Thresholds and tiers (defaults to the bundled policy plus the user's override). */
+    policy?: OrchestratorPolicy;
+}
+
+/** Module messages shown next to the directive. */
+type ModuleMessages = PersonalizationDirective['moduleMessages'];
+
 export async function runOrchestrator(
     profile: UserProfile | null,
     personalization: PersonalizationState | null,
@@ -39,9 +82,11 @@ export async function runOrchestrator(
     meditationSessionCount: number,
     meditationTotalMinutes: number,
     meditationAvgRating: number,
+    options: OrchestratorOptions = {},
 ): Promise<PersonalizationDirective> {
     // ── AGENTIC: Self-collect context from all stores ─────────────────
-    const agentCtx = collectAgentContext();
+    const agentCtx = options.agentContext ?? collectAgentContext();
+    const trace: TraceEntry[] = [];
 
     // ── Stage 1: State Ingestion (use real data from agent context) ─────
     const userState = buildUserState(
@@ -53,39 +98,111 @@ export async function runOrchestrator(
         agentCtx.meditationSessionCount || meditationSessionCount,
         agentCtx.meditationTotalMinutes || meditationTotalMinutes,
         agentCtx.meditationAvgRating || meditationAvgRating,
+        trace,
+        agentCtx.interventionBudget ?? null,
     );
 
-    // ── Stage 2: Context Inference ───────────────────────────────────────
-    const context = inferContext(userState);
-
-    // ── Stage 3: Behavioral Gap ──────────────────────────────────────────
-    const gap = computeBehavioralGap(userState);
-
-    // ── Stage 4: Strategy Selection ──────────────────────────────────────
-    const strategy = selectStrategy(userState, context, gap);
-
     // ── AGENTIC: Generate module-specific messages (rule-based) ─────────
     const moduleMessages = generateModuleMessages(agentCtx);
 
-    // ── Stage 5: Build Rule-Based Directive ──────────────────────────────
-    let directive = buildDirective(userState, context, gap, strategy, moduleMessages);
+    // ── Stages 2–5: Rules ────────────────────────────────────────────────
+    let directive = runRulesPipeline(userState, moduleMessages, options, trace);
+    const { contextState: context, behavioralGap: gap } = directive;
 
-    // ── MANDATORY: Groq LLM Enhancement ─────────────────────────────────
+    // ── MANDATORY: LLM Enhancement ──────────────────────────────────────
     // Rules provide the structural backbone; LLM personalizes the voice.
-    console.log('[Orchestrator] Running hybrid pipeline (Rules + Groq LLM)...');
+    // Same fingerprint + provider → reuse the earlier enrichment instead of calling again.
+    const llm = options.llm ?? createLLMProvider(getLLMSettings(), { fetch: options.fetch });
+    const persona = options.persona ?? resolvePersona(getPersonaSettings(), userState.static.nudgeTone);
+    const cache = options.cache ?? directiveCache;
+    const cacheKey = [
+        `${llm.kind}:${llm.config.model}`,
+        `${persona.profile.id}:${[...persona.bannedTopics].sort().join(',')}`,
+        fingerprintDirectiveInputs(userState, context, gap, agentCtx),
+    ].join('|');
+    console.log(`[Orchestrator] Running hybrid pipeline (Rules + ${llm.kind} LLM)...`);
+    let llmResult: GroqResponse | null = null;
     try {
-        const llmResult = await queryGroq(userState, context, gap, agentCtx);
+        const result = await cache.getOrCompute(
+            cacheKey,
+            () => queryLLM(llm, userState, context, gap, agentCtx, persona),
+        );
+        llmResult = result.value;
         if (llmResult) {
-            directive = mergeWithLLM(directive, llmResult);
-            console.log('[Orchestrator] ✅ Hybrid directive generated (rules + LLM)');
+            console.log(`[Orchestrator] ✅ Hybrid directive generated (rules + LLM, cache ${result.lookup})`);
         } else {
-            console.log('[Orchestrator] ⚠️ LLM returned null — using rules only');
+            console.log('[Orchestrator] ⚠️ LLM returned null — using offline templates');
         }
     } catch (err) {
-        console.warn('[Orchestrator] ⚠️ LLM call failed — falling back to rules:', err);
+        console.warn('[Orchestrator] ⚠️ LLM call failed — falling back to offline templates:', err);
+    }
+
+    // No key, offline or failed: local templates still give a personalized voice
+    if (llmResult) {
+        directive = mergeWithLLM(directive, llmResult);
+        traceOverrides(trace, `${llm.kind} LLM (${persona.profile.label})`, llmResult);
+    } else {
+        const templated = generateTemplateResponse(directive, userState, agentCtx, {
+            seed: `${cacheKey}|${new Date(directive.generatedAt).toDateString()}`,
+            persona,
+        });
+        directive = { ...mergeWithLLM(directive, templated), source: 'template' };
+        traceOverrides(trace, 'Offline templates', templated);
     }
 
-    return directive;
+    return { ...directive, trace };
+}
+
+/**
+ * Stages 2–5 without the LLM: context, gap, strategy and the rule-based
+ * directive for an already built UserState. The counterfactual simulator
+ * calls this directly with a fixed clock, no history and its own policy.
+ */
+export function runRulesPipeline(
+    userState: UserState,
+    moduleMessages: ModuleMessages,
+    options: Pick<OrchestratorOptions, 'bandit' | 'contextHistory' | 'now' | 'policy'> = {},
+    trace?: TraceEntry[],
+): PersonalizationDirective {
+    const policy = options.policy ?? getActivePolicy();
+    const now = options.now ?? Date.now();
+
+    // ── Stage 2: Context Inference (smoothed over the day's history) ─────
+    const context = stabilizeWithHistory(
+        inferContext(userState, trace, policy),
+        options.contextHistory,
+        now,
+        trace,
+    );
+
+    // ── Stage 3: Behavioral Gap ──────────────────────────────────────────
+    const gap = computeBehavioralGap(userState, trace, policy);
+
+    // ── Stage 4: Strategy Selection ──────────────────────────────────────
+    const strategy = selectStrategy(
+        userState,
+        context,
+        gap,
+        options.bandit === undefined ? getBanditState() : options.bandit,
+        trace,
+        policy,
+    );
+
+    // ── Stage 5: Build Rule-Based Directive ──────────────────────────────
+    return buildDirective(userState, context, gap, strategy, moduleMessages, policy, now, trace);
+}
+
+/** Apply hysteresis so a borderline user doesn't flip modes on every refresh. */
+function stabilizeWithHistory(
+    raw: ContextState,
+    supplied: ContextHistory | null | undefined,
+    now: number,
+    trace?: TraceEntry[],
+): ContextState {
+    if (supplied === null) return raw;
+    const { context, history } = stabilizeContext(supplied ?? getContextHistory(), raw, now, trace);
+    if (supplied === undefined) setContextHistory(history);
+    return context;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -97,26 +214,53 @@ function buildDirective(
     context: ContextState,
     gap: BehavioralGapScore,
     strategy: InterventionStrategy,
-    moduleMessages: { dashboard: string; focus: string; meditation: string; health: string },
+    moduleMessages: ModuleMessages,
+    policy: OrchestratorPolicy,
+    now: number,
+    trace?: TraceEntry[],
 ): PersonalizationDirective {
+    const recommendedFocus = selectFocusRecommendation(state, context, policy.focus);
+    const recoveryFlag = shouldFlagRecovery(context, state);
+    const recoveryAction = selectRecoveryAction(context, state);
+    const meditation = selectMeditationType(context, state, gap);
+    const plannerAdjustment = selectPlannerAdjustment(context, gap);
+    const nudge = generateNudge(context, gap, strategy, state);
+
+    pushTrace(trace, 'directive', 'Focus session', { mode: context.mode, habitStreak: state.semiDynamic.habitStreak },
+        recommendedFocus.type === 'skip' ? 'Skip focus' : `${recommendedFocus.sessionLength} min ${recommendedFocus.type}`,
+        [recommendedFocus.reason]);
+    pushTrace(trace, 'directive', 'Recovery', {
+        stressLevel: state.dynamic.stressLevel,
+        fatigueLevel: state.dynamic.fatigueLevel,
+    }, recoveryFlag ? `Flagged — ${recoveryAction}` : 'Not needed',
+    recoveryFlag ? [`${context.mode} mode or stress/fatigue ≥ 4`] : []);
+    pushTrace(trace, 'directive', 'Meditation', { stressLevel: state.dynamic.stressLevel, gapLevel: gap.level },
+        meditation.value, [meditation.because]);
+    pushTrace(trace, 'directive', 'Planner', { mode: context.mode, gapLevel: gap.level }, plannerAdjustment);
+    if (nudge) {
+        pushTrace(trace, 'directive', 'Nudge', { gapLevel: gap.level }, `"${nudge.title}" (${nudge.priority} priority)`,
+            [`${strategy.type} actions`]);
+    }
+
     return {
         contextState: context,
         behavioralGap: gap,
         strategy,
         strictness: strategy.strictness,
         tone: strategy.tone,
-        recommendedFocus: selectFocusRecommendation(state, context, strategy),
-        recoveryFlag: shouldFlagRecovery(context, state),
-        recoveryAction: selectRecoveryAction(context, state),
-        meditationType: selectMeditationType(context, state, gap),
-        meditationDuration: selectMeditationDuration(context, state),
-        plannerAdjustment: selectPlannerAdjustment(context, gap),
+        recommendedFocus,
+        recoveryFlag,
+        recoveryAction,
+        meditationType: meditation.value,
+        meditationDuration: selectMeditationDuration(context, state, policy.meditation),
+        plannerAdjustment,
         habitFocus: selectHabitFocus(state, gap),
         moduleMessages,
-        nudge: generateNudge(context, gap, strategy, state),
+        nudge,
         rationale: strategy.rationale,
-        generatedAt: Date.now(),
+        generatedAt: now,
         source: 'rules',
+        policyVersion: policy.version,
     };
 }
 
@@ -127,7 +271,7 @@ function buildDirective(
 function selectFocusRecommendation(
     state: UserState,
     context: ContextState,
-    strategy: InterventionStrategy,
+    minutes: OrchestratorPolicy['focus'],
 ): PersonalizationDirective['recommendedFocus'] {
     switch (context.mode) {
         case 'overloaded':
@@ -135,27 +279,27 @@ function selectFocusRecommendation(
             return { sessionLength: 0, type: 'skip', reason: 'Cognitive readiness too low — recover first' };
 
         case 'emotionally-reactive':
-            return { sessionLength: 10, type: 'light-task', reason: 'Keep it light until stress subsides' };
+            return { sessionLength: minutes.emotionallyReactive, type: 'light-task', reason: 'Keep it light until stress subsides' };
 
         case 'recovering':
-            return { sessionLength: 15, type: 'light-task', reason: 'Easy session to maintain momentum' };
+            return { sessionLength: minutes.recovering, type: 'light-task', reason: 'Easy session to maintain momentum' };
 
-        case 'performance-ready':
-            const baseLength = 25 + state.semiDynamic.habitStreak * 2;
-            return {
-                sessionLength: Math.min(baseLength, 60),
-                type: 'deep-work',
-                reason: `Peak state — push for ${Math.min(baseLength, 60)} min deep work`,
-            };
+        case 'performance-ready': {
+            const length = Math.min(
+                minutes.deepWorkBase + state.semiDynamic.habitStreak * minutes.deepWorkPerStreakDay,
+                minutes.deepWorkMax,
+            );
+            return { sessionLength: length, type: 'deep-work', reason: `Peak state — push for ${length} min deep work` };
+        }
 
         case 'opportunity-window':
-            return { sessionLength: 25, type: 'training', reason: 'Good window for cognitive training' };
+            return { sessionLength: minutes.opportunityWindow, type: 'training', reason: 'Good window for cognitive training' };
 
         case 'drifting':
-            return { sessionLength: 15, type: 'training', reason: 'Short session to rebuild focus habit' };
+            return { sessionLength: minutes.drifting, type: 'training', reason: 'Short session to rebuild focus habit' };
 
         default: // maintenance
-            return { sessionLength: 25, type: 'deep-work', reason: 'Standard focus session' };
+            return { sessionLength: minutes.maintenance, type: 'deep-work', reason: 'Standard focus session' };
     }
 }
 
@@ -186,36 +330,42 @@ function selectMeditationType(
     context: ContextState,
     state: UserState,
     gap: BehavioralGapScore,
-): MeditationType {
+): Branch<MeditationType> {
     // High stress → breathing
-    if (state.dynamic.stressLevel >= 4) return 'breathing';
+    if (state.dynamic.stressLevel >= 4) return { value: 'breathing', because: 'Stress ≥ 4' };
 
     // Fatigued → yoga-nidra for recovery
-    if (context.mode === 'cognitively-fatigued' || context.mode === 'overloaded') return 'yoga-nidra';
+    if (context.mode === 'cognitively-fatigued' || context.mode === 'overloaded') {
+        return { value: 'yoga-nidra', because: `${context.mode} → restorative` };
+    }
 
     // Emotionally reactive → body-scan for grounding
-    if (context.mode === 'emotionally-reactive') return 'body-scan';
+    if (context.mode === 'emotionally-reactive') return { value: 'body-scan', because: 'Grounding when reactive' };
 
     // Performance ready → mindfulness for sharpening
-    if (context.mode === 'performance-ready') return 'mindfulness';
+    if (context.mode === 'performance-ready') return { value: 'mindfulness', because: 'Sharpen a strong state' };
 
     // Gap is high → breathing to reset
-    if (gap.level === 'high' || gap.level === 'critical') return 'breathing';
+    if (gap.level === 'high' || gap.level === 'critical') return { value: 'breathing', because: `${gap.level} gap → reset` };
 
     // Default
-    return 'mindfulness';
+    return { value: 'mindfulness', because: 'Default' };
 }
 
-function selectMeditationDuration(context: ContextState, state: UserState): number {
-    if (context.mode === 'overloaded') return 5;
-    if (context.mode === 'cognitively-fatigued') return 10;
-    if (context.mode === 'performance-ready') return 15;
+function selectMeditationDuration(
+    context: ContextState,
+    state: UserState,
+    tiers: OrchestratorPolicy['meditation'],
+): number {
+    if (context.mode === 'overloaded') return tiers.overloaded;
+    if (context.mode === 'cognitively-fatigued') return tiers.fatigued;
+    if (context.mode === 'performance-ready') return tiers.performanceReady;
 
     // Scale with experience
     const sessions = state.semiDynamic.totalSessionCount;
-    if (sessions > 20) return 15;
-    if (sessions > 5) return 10;
-    return 5;
+    if (sessions >= tiers.experiencedSessions) return tiers.experiencedMinutes;
+    if (sessions >= tiers.regularSessions) return tiers.regularMinutes;
+    return tiers.beginnerMinutes;
 }
 
 function selectPlannerAdjustment(
@@ -247,9 +397,8 @@ export function generateNudge(
     strategy: InterventionStrategy,
     state: UserState,
 ): NudgePayload | undefined {
-    // Always generate nudge (even for low gap) so we can test popups
-    // In production, uncomment the fatigue gate below:
-    // if (state.behavioral.interventionFatigue > 0.8) return undefined;
+    // Always generate a nudge; whether it is shown is decided at delivery by
+    // the intervention budget (quotas, fatigue, quiet hours).
 
     const { title, message, icon } = getNudgeContent(context, gap, strategy, state);
 
@@ -409,12 +558,9 @@ function mergeWithLLM(
         health: llmResult.healthMessage || merged.moduleMessages.health,
     };
 
-    // LLM can suggest meditation type (validated against known types)
+    // LLM can suggest meditation type (already checked against known types by responseSchema)
     if (llmResult.meditationSuggestion) {
-        const validTypes = ['mindfulness', 'body-scan', 'breathing', 'yoga-nidra'];
-        if (validTypes.includes(llmResult.meditationSuggestion)) {
-            merged.meditationType = llmResult.meditationSuggestion as any;
-        }
+        merged.meditationType = llmResult.meditationSuggestion;
     }
 
     // LLM provides richer rationale
@@ -432,3 +578,13 @@ function mergeWithLLM(
 
     return merged;
 }
+
+/** Record which rule-based fields the LLM (or template) wording replaced. */
+function traceOverrides(trace: TraceEntry[], source: string, result: GroqResponse): void {
+    const fields = (Object.keys(result) as (keyof GroqResponse)[]).filter(key => result[key]);
+    const notes = [
+        ...(result.meditationSuggestion ? [`Meditation changed to ${result.meditationSuggestion}`] : []),
+        ...(result.rationale ? [`Model's reasoning: ${result.rationale}`] : []),
+    ];
+    pushTrace(trace, 'llm', 'Wording', { source }, fields.length > 0 ? `Replaced ${fields.join(', ')}` : 'Kept rule text', notes);
+}
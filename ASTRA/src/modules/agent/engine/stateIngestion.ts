@@ -9,11 +9,15 @@ import type {
     SemiDynamicSignals,
     DynamicSignals,
     BehavioralSignals,
+    TraceEntry,
 } from '../types/orchestratorTypes';
 import type { PersonalizationState } from '../../personalization/models/personalizationTypes';
 import type { UserProfile } from '../../onboarding/models/onboardingTypes';
 import type { HealthDayRecord, ComputedHealthScores, AttentionCapacity } from '../../shared/types';
+import type { InterventionBudgetState } from '../../interventions/budgetTypes';
+import { deliveriesToday } from '../../interventions/interventionBudget';
 import { getTimeOfDay } from '../../focusTrainer/math/normalize';
+import { pct, pushTrace } from './directiveTrace';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Static Traits — from onboarding profile
@@ -96,9 +100,9 @@ export function extractDynamicSignals(
     healthRecord: HealthDayRecord | null,
     mss: number,
     currentAFI: number,
+    now: number = Date.now(),
 ): DynamicSignals {
-    const now = new Date();
-    const hour = now.getHours();
+    const hour = new Date(now).getHours();
 
     if (!healthRecord) {
         return {
@@ -129,15 +133,32 @@ export function extractDynamicSignals(
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
-// Behavioral Signals — from personalization state
+// Behavioral Signals — from personalization state and the intervention budget
 // ═══════════════════════════════════════════════════════════════════════════════
 
+/** Dismissals and fatigue, as the intervention budget counted them. */
+function extractInterventionSignals(
+    budget: InterventionBudgetState | null,
+): Pick<BehavioralSignals, 'nudgeDismissRate' | 'consecutiveDismissals' | 'interventionFatigue'> {
+    if (!budget) {
+        const { nudgeDismissRate, consecutiveDismissals, interventionFatigue } = DEFAULT_BEHAVIORAL;
+        return { nudgeDismissRate, consecutiveDismissals, interventionFatigue };
+    }
+    const delivered = deliveriesToday(budget);
+    return {
+        nudgeDismissRate: delivered > 0 ? Math.min(1, budget.dismissalsToday / delivered) : 0,
+        consecutiveDismissals: budget.consecutiveDismissals,
+        interventionFatigue: budget.fatigue,
+    };
+}
+
 export function extractBehavioralSignals(
     personalization: PersonalizationState | null,
+    budget: InterventionBudgetState | null = null,
 ): BehavioralSignals {
-    if (!personalization) return DEFAULT_BEHAVIORAL;
+    const intervention = extractInterventionSignals(budget);
+    if (!personalization) return { ...DEFAULT_BEHAVIORAL, ...intervention };
 
-    const fatigue = personalization.fatigue;
     const strictness = personalization.strictness;
     const attention = personalization.attention;
     const habit = personalization.habits;
@@ -154,11 +175,7 @@ export function extractBehavioralSignals(
         complianceRate: strictness.complianceRate,
         overrideFrequency: strictness.overrideFrequency,
         sessionSurvivalRate: attention.successRate,
-        nudgeDismissRate: fatigue.nudgesDeliveredToday > 0
-            ? fatigue.dismissalsToday / fatigue.nudgesDeliveredToday
-            : 0,
-        consecutiveDismissals: fatigue.consecutiveDismissals,
-        interventionFatigue: fatigue.fatigueScore,
+        ...intervention,
         lastSessionWasSuccessful: attention.sessionHistory.length > 0
             ? attention.sessionHistory[attention.sessionHistory.length - 1].wasSuccessful
             : true,
@@ -179,8 +196,10 @@ export function buildUserState(
     meditationSessionCount: number,
     meditationTotalMinutes: number,
     meditationAvgRating: number,
+    trace?: TraceEntry[],
+    budget: InterventionBudgetState | null = null,
 ): UserState {
-    return {
+    const state: UserState = {
         timestamp: Date.now(),
         static: extractStaticTraits(profile),
         semiDynamic: extractSemiDynamicSignals(
@@ -190,8 +209,54 @@ export function buildUserState(
             meditationAvgRating,
         ),
         dynamic: extractDynamicSignals(healthRecord, mss, currentAFI),
-        behavioral: extractBehavioralSignals(personalization),
+        behavioral: extractBehavioralSignals(personalization, budget),
     };
+    traceUserState(state, { profile, personalization, healthRecord }, trace);
+    return state;
+}
+
+function traceUserState(
+    state: UserState,
+    sources: { profile: unknown; personalization: unknown; healthRecord: unknown },
+    trace?: TraceEntry[],
+): void {
+    const { static: s, semiDynamic: sd, dynamic: d, behavioral: b } = state;
+    const fromDefaults = (present: unknown, what: string) => (present ? [] : [`No ${what} — defaults used`]);
+
+    pushTrace(trace, 'state', 'Personality', {
+        conscientiousness: s.conscientiousness,
+        neuroticism: s.neuroticism,
+        selfEfficacy: s.selfEfficacy,
+        authorityResistance: s.authorityResistance,
+        emotionalReactivity: s.emotionalReactivity,
+    }, `Onboarding tone: ${s.nudgeTone}`, fromDefaults(sources.profile, 'onboarding profile'));
+
+    pushTrace(trace, 'state', 'Habits', {
+        habitStreak: sd.habitStreak,
+        weeklyFocusMinutes: sd.weeklyFocusMinutes,
+        goalUrgency: sd.goalUrgency,
+        complianceTrend: sd.complianceTrend,
+    }, `${sd.habitStreak}-day streak, ${sd.weeklyFocusMinutes} min this week`,
+    fromDefaults(sources.personalization, 'personalization state'));
+
+    pushTrace(trace, 'state', 'Body & attention', {
+        cognitiveReadiness: d.cognitiveReadiness,
+        stressLevel: d.stressLevel,
+        fatigueLevel: d.fatigueLevel,
+        sleepHours: d.sleepHours,
+        currentAFI: d.currentAFI,
+        timeOfDay: d.timeOfDay,
+    }, `Readiness ${pct(d.cognitiveReadiness)}, attention ${d.attentionCapacity.level}`,
+    fromDefaults(sources.healthRecord, 'health check-in today'));
+
+    pushTrace(trace, 'state', 'Behavior', {
+        complianceRate: b.complianceRate,
+        distractionRate: b.distractionRate,
+        sessionSurvivalRate: b.sessionSurvivalRate,
+        daysSinceLastFocus: b.daysSinceLastFocus,
+        interventionFatigue: b.interventionFatigue,
+    }, `Compliance ${pct(b.complianceRate)}, distraction ${pct(b.distractionRate)}`,
+    fromDefaults(sources.personalization, 'behavior history'));
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,339 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Strategy Bandit — On-device LinUCB over StrategyType × NudgeTone
+// Learns which strategy/tone actually works for this user from nudge outcomes
+// and the focus minutes that follow. The rule-based selector stays in charge
+// during cold start, adds a prior bonus afterwards, and its safety limits are
+// never overridden.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+    UserState,
+    ContextState,
+    BehavioralGapScore,
+    StrategyType,
+    NudgeOutcome,
+    BanditDecision,
+} from '../types/orchestratorTypes';
+import type { NudgeTone } from '../../onboarding/models/onboardingTypes';
+
+export const BANDIT_CONFIG = {
+    /** Width of the upper confidence bound (exploration strength). */
+    alpha: 0.4,
+    /** Score bonus for the arm the rules picked. */
+    priorBonus: 0.15,
+    /** Rewards needed before the learner may deviate from the rules. */
+    coldStartUpdates: 8,
+    /** Focus sessions started this long after a nudge count toward it. */
+    followUpWindowMs: 2 * 60 * 60_000,
+    /** Minutes of follow-up focus that earn the full focus reward. */
+    targetFocusMinutes: 25,
+    maxPending: 20,
+} as const;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Arms + Features
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const STRATEGY_TYPES: StrategyType[] = ['reflective', 'supportive', 'enforcing', 'recovery-first', 'opportunity-driven'];
+const TONES: NudgeTone[] = ['supportive', 'sharp', 'challenge', 'confidence_building'];
+
+export interface BanditArm {
+    type: StrategyType;
+    tone: NudgeTone;
+}
+
+export const BANDIT_ARMS: BanditArm[] = STRATEGY_TYPES.flatMap(type => TONES.map(tone => ({ type, tone })));
+
+export function armKey(arm: BanditArm): string {
+    return `${arm.type}/${arm.tone}`;
+}
+
+export const BANDIT_FEATURES = [
+    'bias', 'readiness', 'stress', 'fatigue', 'gap', 'compliance', 'distraction', 'recoveryContext',
+] as const;
+
+const D = BANDIT_FEATURES.length;
+
+const RECOVERY_MODES = new Set(['overloaded', 'cognitively-fatigued', 'recovering', 'emotionally-reactive']);
+
+/** Context vector, every entry in 0–1, in BANDIT_FEATURES order. */
+export function banditFeatures(state: UserState, context: ContextState, gap: BehavioralGapScore): number[] {
+    const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+    return [
+        1,
+        clamp01(state.dynamic.cognitiveReadiness),
+        clamp01((state.dynamic.stressLevel - 1) / 4),
+        clamp01((state.dynamic.fatigueLevel - 1) / 4),
+        clamp01(gap.overall),
+        clamp01(state.behavioral.complianceRate),
+        clamp01(state.behavioral.distractionRate),
+        RECOVERY_MODES.has(context.mode) ? 1 : 0,
+    ];
+}
+
+/**
+ * Hard limits the learner can never cross, whatever the rewards say:
+ * no pushing in depleted states, no sharp tone for users it backfires on.
+ */
+export function isArmAllowed(arm: BanditArm, context: ContextState, state: UserState): boolean {
+    if (context.mode === 'overloaded' || context.mode === 'cognitively-fatigued') {
+        if (arm.type !== 'recovery-first') return false;
+    }
+    if (context.mode === 'emotionally-reactive' && arm.type === 'enforcing') return false;
+    if (RECOVERY_MODES.has(context.mode) && arm.type === 'opportunity-driven') return false;
+
+    if (arm.tone === 'sharp') {
+        if (RECOVERY_MODES.has(context.mode)) return false;
+        if (state.static.authorityResistance > 0.6 || state.static.emotionalReactivity > 0.6) return false;
+    }
+    return true;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Learned Parameters
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Ridge regression per arm, stored as A⁻¹ (row-major D×D) and b. */
+export interface ArmParams {
+    aInv: number[];
+    b: number[];
+    pulls: number;
+    rewardSum: number;
+}
+
+/** A decision waiting for its reward (nudge outcome + follow-up focus). */
+export interface PendingDecision {
+    nudgeId: string;
+    arm: string;
+    features: number[];
+    decidedAt: number;
+    /** When the nudge reached the user; unset while it waits in the queue. */
+    shownAt?: number;
+    outcome?: NudgeOutcome;
+    outcomeAt?: number;
+}
+
+export interface BanditState {
+    updates: number;
+    /** Arms never rewarded are absent (A⁻¹ = I, b = 0). */
+    arms: Record<string, ArmParams>;
+    pending: PendingDecision[];
+}
+
+export function emptyBanditState(): BanditState {
+    return { updates: 0, arms: {}, pending: [] };
+}
+
+function identity(): number[] {
+    return Array.from({ length: D * D }, (_, i) => (i % (D + 1) === 0 ? 1 : 0));
+}
+
+function freshArm(): ArmParams {
+    return { aInv: identity(), b: new Array(D).fill(0), pulls: 0, rewardSum: 0 };
+}
+
+function matVec(m: number[], x: number[]): number[] {
+    const out = new Array(D).fill(0);
+    for (let i = 0; i < D; i++) {
+        for (let j = 0; j < D; j++) out[i] += m[i * D + j] * x[j];
+    }
+    return out;
+}
+
+function dot(a: number[], b: number[]): number {
+    return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+/** Estimated reward and confidence width for one arm at context x. */
+export function scoreArm(params: ArmParams | undefined, x: number[]): { mean: number; width: number } {
+    const p = params ?? freshArm();
+    const theta = matVec(p.aInv, p.b);
+    return { mean: dot(theta, x), width: Math.sqrt(Math.max(0, dot(x, matVec(p.aInv, x)))) };
+}
+
+/**
+ * Fold one observed reward into an arm. A⁻¹ is updated in place of A with
+ * Sherman–Morrison, so no matrix inversion is ever needed.
+ */
+export function updateArm(bandit: BanditState, key: string, x: number[], reward: number): BanditState {
+    const p = bandit.arms[key] ?? freshArm();
+    const u = matVec(p.aInv, x);
+    const denom = 1 + dot(x, u);
+    const aInv = p.aInv.map((v, idx) => v - (u[Math.floor(idx / D)] * u[idx % D]) / denom);
+
+    return {
+        ...bandit,
+        updates: bandit.updates + 1,
+        arms: {
+            ...bandit.arms,
+            [key]: {
+                aInv,
+                b: p.b.map((v, i) => v + reward * x[i]),
+                pulls: p.pulls + 1,
+                rewardSum: p.rewardSum + reward,
+            },
+        },
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Arm Selection
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Pick an arm. During cold start (or when the learner has nothing allowed to
+ * say) the rule arm is returned unchanged.
+ */
+export function chooseArm(
+    bandit: BanditState,
+    features: number[],
+    ruleArm: BanditArm,
+    allowed: (arm: BanditArm) => boolean,
+): BanditDecision {
+    const ruleKey = armKey(ruleArm);
+    const base = { arm: ruleKey, type: ruleArm.type, tone: ruleArm.tone, features, learned: false };
+    if (bandit.updates < BANDIT_CONFIG.coldStartUpdates) {
+        return { ...base, estimatedReward: null };
+    }
+
+    let best: { arm: BanditArm; score: number; mean: number } | null = null;
+    for (const arm of BANDIT_ARMS) {
+        const key = armKey(arm);
+        if (key !== ruleKey && !allowed(arm)) continue;
+        const { mean, width } = scoreArm(bandit.arms[key], features);
+        const score = mean + BANDIT_CONFIG.alpha * width + (key === ruleKey ? BANDIT_CONFIG.priorBonus : 0);
+        if (!best || score > best.score) best = { arm, score, mean };
+    }
+    if (!best) return { ...base, estimatedReward: null };
+
+    const key = armKey(best.arm);
+    return {
+        arm: key,
+        type: best.arm.type,
+        tone: best.arm.tone,
+        features,
+        learned: key !== ruleKey,
+        estimatedReward: Number(best.mean.toFixed(3)),
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Rewards
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const OUTCOME_REWARD: Record<NudgeOutcome, number> = {
+    accepted: 1,
+    snoozed: 0.3,
+    dismissed: 0,
+};
+
+/** Half for how the nudge was received, half for focus minutes that followed. */
+export function computeReward(outcome: NudgeOutcome | undefined, focusMinutes: number): number {
+    const received = outcome ? OUTCOME_REWARD[outcome] : 0;
+    const focused = Math.min(focusMinutes / BANDIT_CONFIG.targetFocusMinutes, 1);
+    return 0.5 * received + 0.5 * focused;
+}
+
+function settle(bandit: BanditState, decision: PendingDecision, focusMinutes: number): BanditState {
+    const next = updateArm(bandit, decision.arm, decision.features, computeReward(decision.outcome, focusMinutes));
+    return { ...next, pending: next.pending.filter(p => p.nudgeId !== decision.nudgeId) };
+}
+
+export function recordDecision(bandit: BanditState, nudgeId: string, decision: BanditDecision, at: number): BanditState {
+    const pending: PendingDecision = { nudgeId, arm: decision.arm, features: decision.features, decidedAt: at };
+    return {
+        ...bandit,
+        pending: [...bandit.pending.filter(p => p.nudgeId !== nudgeId), pending].slice(-BANDIT_CONFIG.maxPending),
+    };
+}
+
+/** Forget a decision whose nudge was never shown (expired or superseded in the queue). */
+export function discardDecision(bandit: BanditState, nudgeId: string): BanditState {
+    if (!bandit.pending.some(p => p.nudgeId === nudgeId)) return bandit;
+    return { ...bandit, pending: bandit.pending.filter(p => p.nudgeId !== nudgeId) };
+}
+
+/**
+ * Hand a queued nudge's decision to the payload that replaced it in its queue
+ * slot. A decision already recorded for the new payload wins.
+ */
+export function moveDecision(bandit: BanditState, fromId: string, toId: string): BanditState {
+    const decision = bandit.pending.find(p => p.nudgeId === fromId);
+    if (!decision || fromId === toId) return bandit;
+    const pending = bandit.pending.filter(p => p.nudgeId !== fromId);
+    if (pending.some(p => p.nudgeId === toId)) return { ...bandit, pending };
+    return { ...bandit, pending: [...pending, { ...decision, nudgeId: toId }] };
+}
+
+/** Start the follow-up window: the nudge was shown (first delivery only). */
+export function markDecisionShown(bandit: BanditState, nudgeId: string, at: number): BanditState {
+    const decision = bandit.pending.find(p => p.nudgeId === nudgeId);
+    if (!decision || decision.shownAt !== undefined) return bandit;
+    return { ...bandit, pending: bandit.pending.map(p => (p === decision ? { ...decision, shownAt: at } : p)) };
+}
+
+/** Dismissals settle at once; accepted/snoozed nudges wait for follow-up focus. */
+export function recordOutcome(bandit: BanditState, nudgeId: string, outcome: NudgeOutcome, at: number): BanditState {
+    const decision = bandit.pending.find(p => p.nudgeId === nudgeId);
+    if (!decision) return bandit;
+
+    const updated = { ...decision, outcome, outcomeAt: at };
+    if (outcome === 'dismissed') return settle(bandit, updated, 0);
+    return { ...bandit, pending: bandit.pending.map(p => (p.nudgeId === nudgeId ? updated : p)) };
+}
+
+/** Credit a finished focus session to the latest nudge answered within the window. */
+export function recordFocus(bandit: BanditState, minutes: number, startedAt: number): BanditState {
+    const candidates = bandit.pending.filter(p =>
+        p.outcome && p.outcomeAt !== undefined
+        && startedAt >= p.outcomeAt - 60_000
+        && startedAt - p.outcomeAt <= BANDIT_CONFIG.followUpWindowMs,
+    );
+    const decision = candidates[candidates.length - 1];
+    return decision ? settle(bandit, decision, minutes) : bandit;
+}
+
+/**
+ * Settle decisions whose follow-up window has passed with no focus session.
+ * The window runs from the answer, or from delivery if there was none; a
+ * nudge still in the queue (`queuedIds`) is never settled. A decision whose
+ * nudge was neither shown nor queued was lost before delivery and is dropped.
+ */
+export function settleExpired(bandit: BanditState, now: number, queuedIds: ReadonlySet<string> = new Set()): BanditState {
+    let next = bandit;
+    for (const decision of bandit.pending) {
+        if (queuedIds.has(decision.nudgeId)) continue;
+        const since = decision.outcomeAt ?? decision.shownAt;
+        if (since === undefined) {
+            if (now - decision.decidedAt > BANDIT_CONFIG.followUpWindowMs) next = discardDecision(next, decision.nudgeId);
+            continue;
+        }
+        if (now - since > BANDIT_CONFIG.followUpWindowMs) next = settle(next, decision, 0);
+    }
+    return next;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Inspection
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface ArmSummary {
+    arm: string;
+    pulls: number;
+    meanReward: number;
+    /** Learned weight per feature (θ = A⁻¹b). */
+    weights: Record<(typeof BANDIT_FEATURES)[number], number>;
+}
+
+/** Every arm with at least one reward, most-played first. */
+export function summarizeBandit(bandit: BanditState): ArmSummary[] {
+    return Object.entries(bandit.arms)
+        .map(([arm, p]) => {
+            const theta = matVec(p.aInv, p.b);
+            const weights = Object.fromEntries(
+                BANDIT_FEATURES.map((name, i) => [name, Number(theta[i].toFixed(3))]),
+            ) as ArmSummary['weights'];
+            return { arm, pulls: p.pulls, meanReward: p.pulls > 0 ? p.rewardSum / p.pulls : 0, weights };
+        })
+        .sort((a, b) => b.pulls - a.pulls);
+}
@@ -1,6 +1,7 @@
 // ─────────────────────────────────────────────────────────────────────────────
 // STAGE 4 — Strategy Selector
 // Maps (Context + Gap + Personality) → Intervention Strategy
+// These rules are the cold-start policy and prior for strategyBandit.
 // ─────────────────────────────────────────────────────────────────────────────
 
 import type {
@@ -9,9 +10,15 @@ import type {
     BehavioralGapScore,
     InterventionStrategy,
     StrategyType,
+    BanditDecision,
+    TraceEntry,
 } from '../types/orchestratorTypes';
 import type { NudgeTone } from '../../onboarding/models/onboardingTypes';
 import type { InterventionType, StrictnessLevel } from '../../personalization/models/personalizationTypes';
+import { banditFeatures, chooseArm, isArmAllowed, type BanditState } from './strategyBandit';
+import { pct, pushTrace, type Branch } from './directiveTrace';
+import { DEFAULT_ORCHESTRATOR_POLICY } from '../policy/orchestratorPolicy';
+import type { OrchestratorPolicy } from '../policy/policyTypes';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Strategy Selection
@@ -21,21 +28,67 @@ export function selectStrategy(
     state: UserState,
     context: ContextState,
     gap: BehavioralGapScore,
+    bandit?: BanditState | null,
+    trace?: TraceEntry[],
+    policy: OrchestratorPolicy = DEFAULT_ORCHESTRATOR_POLICY,
 ): InterventionStrategy {
-    const strategyType = selectStrategyType(context, gap, state);
-    const tone = selectTone(strategyType, state);
-    const strictness = selectStrictness(strategyType, gap, state);
-    const timing = selectTiming(context, gap, state);
-    const modality = selectModality(strategyType, strictness);
-    const rationale = generateRationale(strategyType, context, gap);
+    const t = policy.strategy;
+    const ruleType = selectStrategyType(context, gap, state, t);
+    const ruleTone = selectTone(ruleType.value, state, t);
+    pushTrace(trace, 'strategy', 'Strategy type (rules)', {
+        mode: context.mode,
+        gapLevel: gap.level,
+        cognitiveReadiness: state.dynamic.cognitiveReadiness,
+        authorityResistance: state.static.authorityResistance,
+    }, ruleType.value, [ruleType.because]);
+    pushTrace(trace, 'strategy', 'Tone (rules)', {
+        selfEfficacy: state.static.selfEfficacy,
+        emotionalReactivity: state.static.emotionalReactivity,
+        authorityResistance: state.static.authorityResistance,
+    }, ruleTone.value, [ruleTone.because]);
+
+    // Learner may swap the arm; rules stay the cold-start policy and safety limits
+    const decision = bandit
+        ? chooseArm(
+            bandit,
+            banditFeatures(state, context, gap),
+            { type: ruleType.value, tone: ruleTone.value },
+            arm => isArmAllowed(arm, context, state),
+        )
+        : undefined;
+    if (decision) {
+        pushTrace(trace, 'strategy', 'Learned policy', {
+            updates: bandit!.updates,
+            estimatedReward: decision.estimatedReward,
+        }, decision.learned ? `Switched to ${decision.arm}` : `Kept ${decision.arm}`, [
+            decision.estimatedReward === null
+                ? 'Still learning — rules decide'
+                : decision.learned
+                    ? 'Another arm has paid off better for you in similar states'
+                    : 'Rule choice scores best (or nothing safer to switch to)',
+        ]);
+    }
+
+    const strategyType = decision?.type ?? ruleType.value;
+    const tone = decision?.tone ?? ruleTone.value;
+    const strictness = selectStrictness(strategyType, gap, state, t);
+    const timing = selectTiming(context, gap, state, t);
+    const modality = selectModality(strategyType, strictness.value);
+    const rationale = generateRationale(strategyType, context, gap, decision);
+    pushTrace(trace, 'strategy', 'Strictness', {
+        interventionFatigue: state.behavioral.interventionFatigue,
+        impulsivityIndex: state.static.impulsivityIndex,
+    }, `${strictness.value}/5`, [strictness.because]);
+    pushTrace(trace, 'strategy', 'Timing', {}, timing.value, [timing.because]);
 
     return {
         type: strategyType,
         tone,
-        strictness,
-        timing,
+        strictness: strictness.value,
+        timing: timing.value,
         modality,
         rationale,
+        ...(decision && { bandit: decision }),
     };
 }
 
@@ -47,86 +100,101 @@ function selectStrategyType(
     context: ContextState,
     gap: BehavioralGapScore,
     state: UserState,
-): StrategyType {
+    t: OrchestratorPolicy['strategy'],
+): Branch<StrategyType> {
     // ── Safety-first: Recovery contexts ──
     if (context.mode === 'overloaded' || context.mode === 'cognitively-fatigued') {
-        return 'recovery-first';
+        return { value: 'recovery-first', because: `${context.mode} → recover before pushing` };
     }
 
     if (context.mode === 'emotionally-reactive') {
         // High authority resistance → reflective, not enforcing
-        return state.static.authorityResistance > 0.6 ? 'reflective' : 'supportive';
+        return state.static.authorityResistance > t.authorityResistance
+            ? { value: 'reflective', because: `Emotionally reactive + authority resistance > ${t.authorityResistance}` }
+            : { value: 'supportive', because: 'Emotionally reactive → support, not pressure' };
     }
 
     if (context.mode === 'recovering') {
-        return 'recovery-first';
+        return { value: 'recovery-first', because: 'Recovering after a session' };
     }
 
     // ── Gap-driven strategies ──
     if (gap.level === 'critical') {
         // Critical gap + sufficient cognitive readiness → enforce
-        if (state.dynamic.cognitiveReadiness > 0.5) {
-            return 'enforcing';
+        if (state.dynamic.cognitiveReadiness > t.enforceReadiness) {
+            return { value: 'enforcing', because: `Critical gap + readiness > ${pct(t.enforceReadiness)}` };
         }
         // Critical but fatigued → supportive with urgency
-        return 'supportive';
+        return { value: 'supportive', because: `Critical gap but readiness ≤ ${pct(t.enforceReadiness)}` };
     }
 
     if (gap.level === 'high') {
         // High authority resistance → reflective (forced compliance backfires)
-        if (state.static.authorityResistance > 0.6) {
-            return 'reflective';
+        if (state.static.authorityResistance > t.authorityResistance) {
+            return { value: 'reflective', because: `High gap + authority resistance > ${t.authorityResistance}` };
         }
-        return 'enforcing';
+        return { value: 'enforcing', because: 'High gap' };
     }
 
     if (gap.level === 'moderate') {
-        return 'reflective';
+        return { value: 'reflective', because: 'Moderate gap' };
     }
 
     // ── Opportunity contexts ──
     if (context.mode === 'performance-ready' || context.mode === 'opportunity-window') {
-        return 'opportunity-driven';
+        return { value: 'opportunity-driven', because: `Low gap + ${context.mode}` };
     }
 
     // ── Default: gentle supportive ──
-    return 'supportive';
+    return { value: 'supportive', because: 'Low gap, no special context' };
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Tone Selection — Aligns with personality profile
 // ═══════════════════════════════════════════════════════════════════════════════
 
-function selectTone(strategy: StrategyType, state: UserState): NudgeTone {
+function selectTone(strategy: StrategyType, state: UserState, t: OrchestratorPolicy['strategy']): Branch<NudgeTone> {
     const { emotionalReactivity, selfEfficacy, authorityResistance } = state.static;
 
     switch (strategy) {
         case 'recovery-first':
         case 'supportive':
             // Emotionally reactive → always supportive
-            if (emotionalReactivity > 0.6) return 'supportive';
+            if (emotionalReactivity > t.emotionalReactivity) {
+                return { value: 'supportive', because: `Emotional reactivity > ${t.emotionalReactivity}` };
+            }
             // Low self-efficacy → build confidence
-            if (selfEfficacy < 0.4) return 'confidence_building';
-            return 'supportive';
+            if (selfEfficacy < t.lowSelfEfficacy) {
+                return { value: 'confidence_building', because: `Self-efficacy < ${t.lowSelfEfficacy}` };
+            }
+            return { value: 'supportive', because: `Default for ${strategy}` };
 
         case 'reflective':
             // Challenge tone for high self-efficacy
-            if (selfEfficacy > 0.7) return 'challenge';
-            return 'supportive';
+            if (selfEfficacy > t.challengeSelfEfficacy) {
+                return { value: 'challenge', because: `Self-efficacy > ${t.challengeSelfEfficacy}` };
+            }
+            return { value: 'supportive', because: 'Default for reflective' };
 
         case 'enforcing':
             // High authority resistance → use challenge (not sharp)
-            if (authorityResistance > 0.6) return 'challenge';
+            if (authorityResistance > t.authorityResistance) {
+                return { value: 'challenge', because: `Authority resistance > ${t.authorityResistance} — no sharp tone` };
+            }
             // High self-efficacy → accountability via sharp
-            if (selfEfficacy > 0.6) return 'sharp';
-            return 'challenge';
+            if (selfEfficacy > t.confidentSelfEfficacy) {
+                return { value: 'sharp', because: `Self-efficacy > ${t.confidentSelfEfficacy}` };
+            }
+            return { value: 'challenge', because: 'Default for enforcing' };
 
         case 'opportunity-driven':
-            if (selfEfficacy > 0.6) return 'challenge';
-            return 'confidence_building';
+            if (selfEfficacy > t.confidentSelfEfficacy) {
+                return { value: 'challenge', because: `Self-efficacy > ${t.confidentSelfEfficacy}` };
+            }
+            return { value: 'confidence_building', because: `Self-efficacy ≤ ${t.confidentSelfEfficacy}` };
 
         default:
-            return state.static.nudgeTone;
+            return { value: state.static.nudgeTone, because: 'Onboarding tone' };
     }
 }
 
@@ -138,9 +206,11 @@ function selectStrictness(
     strategy: StrategyType,
     gap: BehavioralGapScore,
     state: UserState,
-): StrictnessLevel {
+    t: OrchestratorPolicy['strategy'],
+): Branch<StrictnessLevel> {
     const { authorityResistance, impulsivityIndex } = state.static;
     const { interventionFatigue } = state.behavioral;
+    const modifiers: string[] = [];
 
     // Base from strategy
     let base: number;
@@ -151,22 +221,23 @@ function selectStrictness(
         case 'opportunity-driven': base = 2; break;
         case 'enforcing': base = 4; break;
     }
+    modifiers.push(`${strategy} base ${base}`);
 
     // Modifiers
     // Gap pushes strictness up
-    if (gap.level === 'critical') base = Math.min(base + 1, 5);
-    else if (gap.level === 'high') base = Math.min(base + 1, 4);
+    if (gap.level === 'critical') { base = Math.min(base + 1, 5); modifiers.push('+1 critical gap'); }
+    else if (gap.level === 'high') { base = Math.min(base + 1, 4); modifiers.push('+1 high gap'); }
 
     // High authority resistance pulls down
-    if (authorityResistance > 0.6) base = Math.max(base - 1, 1);
+    if (authorityResistance > t.authorityResistance) { base = Math.max(base - 1, 1); modifiers.push('−1 authority resistance'); }
 
     // High impulsivity pushes up (they need more structure)
-    if (impulsivityIndex > 0.7) base = Math.min(base + 1, 5);
+    if (impulsivityIndex > t.impulsivity) { base = Math.min(base + 1, 5); modifiers.push('+1 impulsivity'); }
 
     // Intervention fatigue pulls down
-    if (interventionFatigue > 0.6) base = Math.max(base - 1, 1);
+    if (interventionFatigue > t.strictnessFatigue) { base = Math.max(base - 1, 1); modifiers.push('−1 intervention fatigue'); }
 
-    return Math.round(clamp(base, 1, 5)) as StrictnessLevel;
+    return { value: Math.round(clamp(base, 1, 5)) as StrictnessLevel, because: modifiers.join(', ') };
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -177,22 +248,25 @@ function selectTiming(
     context: ContextState,
     gap: BehavioralGapScore,
     state: UserState,
-): 'immediate' | 'delayed' | 'scheduled' {
+    t: OrchestratorPolicy['strategy'],
+): Branch<InterventionStrategy['timing']> {
     // Recovery → delayed (don't interrupt)
     if (context.mode === 'recovering' || context.mode === 'cognitively-fatigued') {
-        return 'delayed';
+        return { value: 'delayed', because: `${context.mode} — don't interrupt` };
     }
 
     // Critical gap → immediate
-    if (gap.level === 'critical') return 'immediate';
+    if (gap.level === 'critical') return { value: 'immediate', because: 'Critical gap' };
 
     // High fatigue → delayed
-    if (state.behavioral.interventionFatigue > 0.7) return 'delayed';
+    if (state.behavioral.interventionFatigue > t.delayFatigue) {
+        return { value: 'delayed', because: `Intervention fatigue > ${t.delayFatigue}` };
+    }
 
     // Normal → scheduled with planning
-    if (gap.level === 'low') return 'scheduled';
+    if (gap.level === 'low') return { value: 'scheduled', because: 'Low gap — plan ahead' };
 
-    return 'immediate';
+    return { value: 'immediate', because: `${gap.level} gap` };
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -217,6 +291,7 @@ function generateRationale(
     strategy: StrategyType,
     context: ContextState,
     gap: BehavioralGapScore,
+    decision?: BanditDecision,
 ): string {
     const parts: string[] = [];
 
@@ -236,6 +311,10 @@ function generateRationale(
 
     parts.push(`Strategy: ${strategyLabels[strategy]}`);
 
+    if (decision?.learned) {
+        parts.push(`Learned: ${decision.arm} (est. reward ${decision.estimatedReward?.toFixed(2)})`);
+    }
+
     return parts.join('. ');
 }
 
@@ -0,0 +1,95 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// LLM Provider Types — Provider-agnostic chat completion contract
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LLMProviderKind = 'groq' | 'openai-compatible' | 'mock';
+
+/** Minimal fetch signature so tests can inject a fake transport. */
+export type FetchLike = (
+    url: string,
+    init: {
+        method: string;
+        headers: Record<string, string>;
+        body: string;
+        signal?: AbortSignal;
+    },
+) => Promise<{
+    ok: boolean;
+    status: number;
+    text: () => Promise<string>;
+    json: () => Promise<any>;
+}>;
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+/** Per-provider model + sampling + transport settings. */
+export interface LLMProviderConfig {
+    kind: LLMProviderKind;
+    /** OpenAI-style base URL; `/chat/completions` is appended. */
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    temperature: number;
+    maxTokens: number;
+    timeoutMs: number;
+    /** Request `response_format: json_object` (not every local server supports it). */
+    jsonMode: boolean;
+    /** Extra attempts after the first one, for timeouts / 429 / 5xx. */
+    maxRetries: number;
+    /** First backoff delay; doubles on each retry. */
+    retryBaseDelayMs: number;
+}
+
+/** What the user picks in Settings; unset fields fall back to PROVIDER_DEFAULTS. */
+export interface LLMSettings {
+    provider: LLMProviderKind;
+    overrides: Partial<Record<LLMProviderKind, Partial<Omit<LLMProviderConfig, 'kind'>>>>;
+}
+
+export interface LLMCompletion {
+    content: string;
+    provider: LLMProviderKind;
+    model: string;
+    /** Number of HTTP attempts it took (1 = no retries). */
+    attempts: number;
+}
+
+export interface LLMProvider {
+    readonly kind: LLMProviderKind;
+    readonly config: LLMProviderConfig;
+    /** Resolves null when the provider is unusable (e.g. missing API key) or every attempt failed. */
+    complete(messages: ChatMessage[]): Promise<LLMCompletion | null>;
+}
+
+/** Injectable side effects, so retries and timeouts run instantly under test. */
+export interface LLMProviderDeps {
+    fetch?: FetchLike;
+    sleep?: (ms: number) => Promise<void>;
+}
+
+/** Running counts of how often model output needed repair or had fields rejected. */
+export interface LLMValidationStats {
+    responses: number;
+    /** Responses that only parsed after JSON repair. */
+    repaired: number;
+    /** Responses with no recoverable JSON object at all. */
+    unparseable: number;
+    /** Rejections per GroqResponse field (wrong type, too long, not an allowed value). */
+    fieldFailures: Partial<Record<string, number>>;
+}
+
+/** Voice the LLM writes in. `savage` is the original roast persona. */
+export type PersonaId = 'savage' | 'coach' | 'gentle' | 'clinical-neutral';
+
+/** Personal subjects a persona (or the user) can rule out of generated messages. */
+export type SensitiveTopic = 'relationship' | 'appearance' | 'self-worth';
+
+export interface PersonaSettings {
+    /** 'auto' follows the onboarding nudge tone (selectNudgeTone). */
+    persona: PersonaId | 'auto';
+    /** Topics the user never wants mentioned, whatever the persona. */
+    optedOutTopics: SensitiveTopic[];
+}
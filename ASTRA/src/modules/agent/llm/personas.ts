@@ -0,0 +1,352 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Persona Profiles — Voice, banned topics and post-generation filtering
+// Each persona has its own prompt template. A topic banned by the persona or
+// opted out by the user is kept out of the prompt and filtered from the output.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { NudgeTone, UserProfile } from '../../onboarding/models/onboardingTypes';
+import type { PersonaId, PersonaSettings, SensitiveTopic } from './llmTypes';
+import type { GroqResponse } from './groqClient';
+import type { FieldFailure, ResponseField } from './responseSchema';
+
+export interface PersonaProfile {
+    id: PersonaId;
+    label: string;
+    description: string;
+    /** System prompt body: personality, examples, tone calibration. */
+    voice: string;
+    /** Opening line of the user prompt. */
+    instruction: string;
+    /** Closing checklist appended to the user prompt. */
+    reminders: string[];
+    /** Topics this persona never touches. */
+    bannedTopics: SensitiveTopic[];
+    /** Ask the model to weave in relationship goals (when that topic is allowed). */
+    usesPersonalGoals: boolean;
+}
+
+/** A persona plus every topic that is off-limits for this user. */
+export interface ResolvedPersona {
+    profile: PersonaProfile;
+    bannedTopics: SensitiveTopic[];
+}
+
+export const DEFAULT_PERSONA_SETTINGS: PersonaSettings = {
+    persona: 'auto',
+    optedOutTopics: [],
+};
+
+export const SENSITIVE_TOPIC_LABELS: Record<SensitiveTopic, string> = {
+    'relationship': 'Relationships & dating',
+    'appearance': 'Looks & body',
+    'self-worth': 'Insults & self-worth',
+};
+
+/** How each topic is described to the model when it is off-limits. */
+const TOPIC_PROMPT_TEXT: Record<SensitiveTopic, string> = {
+    'relationship': 'relationships, dating, romance or attractiveness to others',
+    'appearance': 'looks, body shape, weight or physique',
+    'self-worth': 'insults, mockery or anything questioning the user\'s worth',
+};
+
+export function describeBannedTopics(topics: SensitiveTopic[]): string {
+    return topics.map(t => TOPIC_PROMPT_TEXT[t]).join('; ');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Voices
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const SAVAGE_VOICE = `You are ASTRA — a brutally honest, witty, no-BS personal coach AI living inside a cognitive optimization app. You're not a therapist. You're not gentle. You're the voice in the user's head that says what they need to hear, not what they want to hear.
+
+Your personality is:
+- Like a savage best friend who roasts you but actually wants you to win
+- Uses SHORT, PUNCHY, memorable one-liners (think viral tweet energy)
+- References the user's PERSONAL GOALS — career, relationships, fitness, dating — to hit where it stings
+- Never generic. Always specific. Always personal. Always citing their actual data.
+- Mixes humor with brutal truth
+
+# THE USER'S PERSONAL CONTEXT
+The user has shared personal goals during onboarding. You MUST weave these into your taunts:
+- Their RELATIONSHIP GOAL (e.g., wanting a girlfriend, becoming more confident socially)
+- Their CAREER GOAL (e.g., landing an internship, cracking DSA)
+- Their IDEAL FUTURE SELF
+- Their SELF-IDENTIFIED WEAKNESS
+
+Use these to create deeply personal, motivating taunts. Examples of the tone:
+
+EXERCISE TAUNTS:
+- "Do your workout. That's how you level up — and maybe get the girl too."
+- "Hit the gym first. Confidence doesn't download itself."
+- "You want a girlfriend? Start with push-ups."
+- "3 sets now. Attraction later."
+
+DSA / CAREER:
+- "Finish today's DSA problem. That internship won't apply itself."
+- "Solve one problem now. Future you at Google will thank you."
+- "No practice, no offer letter. Simple math."
+
+FOCUS:
+- "You say you want success, but you're still scrolling."
+- "Discipline now. Flex later."
+- "Future CEO or professional procrastinator? Choose."
+- "Five minutes of focus > five hours of regret."
+
+MEDITATION:
+- "Mind's chaotic? 3 minutes of breathing. Prove you're in control."
+- "Can't sit still for 2 minutes? That's exactly why you need this."
+- "Calm mind. Sharp brain. Attractive energy."
+
+HEALTH:
+- "5 hours of sleep? Your brain is running on fumes. No wonder you can't focus."
+- "Skipping water again? Your brain cells are literally shrinking."
+
+# TONE RULES BY BEHAVIORAL GAP
+- gap LOW: Still edgy but encouraging. "Not bad. But 'not bad' isn't 'great'. Push."
+- gap MODERATE: Provocative. "Your compliance is [X]%. That's mediocre. You settling for mediocre?"
+- gap HIGH: Savage. "Distraction rate [X]%. Streak broken. You're speedrunning failure."  
+- gap CRITICAL: Brutal wake-up call. "You set a goal and then did the exact opposite. What's even the point of having this app?"
+
+# PERSONALITY CALIBRATION
+- HIGH impulsivity: Extra direct. Short sentences. No room for excuses.
+- HIGH authority resistance: Use reverse psychology. "I mean, you COULD just keep scrolling..."
+- HIGH self-efficacy: Challenge their ego. "You think you're disciplined? Prove it."
+- LOW self-efficacy: Tough love with a lifeline. "Yeah it's hard. Do it anyway. Start with 5 minutes."
+- HIGH neuroticism: Still edgy but provide structure. "Stressed? Good. Channel it into 10 minutes of deep work."`;
+
+const COACH_VOICE = `You are ASTRA — a direct, demanding performance coach living inside a cognitive optimization app. You hold the user to a high standard and you believe they can meet it.
+
+Your personality is:
+- Like a good sports coach: blunt about the numbers, never about the person
+- SHORT, energetic, action-first sentences
+- Ties every push to the user's own goals (career, fitness, future self)
+- Specific and data-driven, never generic
+- Challenges effort, never worth. No insults, no mockery.
+
+Examples of the tone:
+- "Compliance at 48%. You've done 70% before — let's get back there with one 25-minute block."
+- "That internship needs reps. One DSA problem before lunch."
+- "5.5 hours of sleep. Keep today's session short and sharp, then get to bed early."
+- "Stress is high. Three minutes of breathing, then back to work."
+
+# TONE RULES BY BEHAVIORAL GAP
+- gap LOW: Acknowledge the win, raise the bar. "Solid streak. Add 10 minutes today."
+- gap MODERATE: Name the slip plainly, give the next step. "Distraction is up to 40%. Phone away for the next block."
+- gap HIGH: Firm accountability. "Three skipped sessions. The plan only works if you run it. Start one now."
+- gap CRITICAL: Reset, not rant. "This week got away from you. Smallest possible step: 10 minutes, right now."
+
+# PERSONALITY CALIBRATION
+- HIGH authority resistance: Offer choices instead of orders. "Your call: 15 or 25 minutes?"
+- LOW self-efficacy: Shrink the ask. "Just 5 minutes. That counts."
+- HIGH neuroticism: Calm and structured. One clear step, no pressure language.`;
+
+const GENTLE_VOICE = `You are ASTRA — a warm, steady companion living inside a cognitive optimization app. You help the user make small, kind progress toward their goals.
+
+Your personality is:
+- Encouraging and patient; progress over perfection
+- Short, calm sentences with one gentle suggestion at a time
+- Connects suggestions to the user's own goals (career, health, future self)
+- Uses real data, but frames it without judgement
+- Never shames, teases, threatens or compares the user to others
+
+Examples of the tone:
+- "You've focused for 40 minutes this week. One short session today would build on that."
+- "Sleep was short last night — a lighter focus block might feel better today."
+- "Stress looks high. A 3-minute breathing exercise could help you reset."
+- "Every session counts. Want to try 10 minutes toward your internship prep?"
+
+# TONE RULES BY BEHAVIORAL GAP
+- gap LOW: Celebrate gently. "Nice consistency — keep the rhythm going."
+- gap MODERATE: Notice without blame. "Focus has been harder this week. A short session is a good restart."
+- gap HIGH: Reassure and simplify. "It's been a tough stretch. Let's start with just 5 minutes."
+- gap CRITICAL: Prioritise wellbeing. "Things look heavy right now. Rest first; we'll pick focus back up when you're ready."
+
+# PERSONALITY CALIBRATION
+- HIGH neuroticism or emotional reactivity: Extra reassurance, no urgency words.
+- LOW self-efficacy: Emphasise that small steps count.
+- HIGH authority resistance: Suggest, never instruct.`;
+
+const CLINICAL_VOICE = `You are ASTRA — a neutral, factual assistant inside a cognitive optimization app. You report the user's data and the recommended next action. No persona, no humour, no emotional language.
+
+Style:
+- Plain, concise, third-person-neutral sentences
+- State the metric, then the recommendation
+- Do not reference personal life goals beyond the stated focus/career goal
+- No praise, no criticism, no exclamation marks
+
+Examples of the tone:
+- "Compliance this week: 48%. Recommended: one 25-minute focus session."
+- "Sleep: 5.5 hours. Recommended: shorter focus blocks and an earlier bedtime."
+- "Stress: 4/5. Recommended: 3-minute breathing exercise."
+
+# TONE RULES BY BEHAVIORAL GAP
+- All gap levels: same neutral register. Higher gaps get a more specific, smaller next step.`;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Profiles
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const PERSONA_PROFILES: Record<PersonaId, PersonaProfile> = {
+    'savage': {
+        id: 'savage',
+        label: 'Savage',
+        description: 'Roasts you with your own goals. Not for everyone.',
+        voice: SAVAGE_VOICE,
+        instruction: 'Generate EDGY, PERSONAL, TAUNTING messages for this user. Reference their PERSONAL GOALS and REAL METRICS.',
+        reminders: [
+            'Cite EXACT numbers (compliance %, sleep hours, streak count, session count)',
+            'Be SHORT and PUNCHY — one-liner energy',
+            'Make them feel called out, but motivated to prove you wrong',
+        ],
+        bannedTopics: [],
+        usesPersonalGoals: true,
+    },
+    'coach': {
+        id: 'coach',
+        label: 'Coach',
+        description: 'Direct and demanding, but never personal.',
+        voice: COACH_VOICE,
+        instruction: 'Generate DIRECT, ACTION-FOCUSED coaching messages for this user. Tie them to their goals and REAL METRICS.',
+        reminders: [
+            'Cite exact numbers',
+            'Every message ends in a concrete next step',
+            'Push effort, never attack the person',
+        ],
+        bannedTopics: ['self-worth', 'appearance'],
+        usesPersonalGoals: false,
+    },
+    'gentle': {
+        id: 'gentle',
+        label: 'Gentle',
+        description: 'Warm encouragement, small steps, no pressure.',
+        voice: GENTLE_VOICE,
+        instruction: 'Generate WARM, ENCOURAGING messages for this user. Use their real data kindly and suggest one small step.',
+        reminders: [
+            'Use real numbers without judgement',
+            'One small, optional suggestion per message',
+            'No shame, teasing, urgency or comparisons',
+        ],
+        bannedTopics: ['relationship', 'appearance', 'self-worth'],
+        usesPersonalGoals: false,
+    },
+    'clinical-neutral': {
+        id: 'clinical-neutral',
+        label: 'Neutral',
+        description: 'Just the numbers and the recommendation.',
+        voice: CLINICAL_VOICE,
+        instruction: 'Generate NEUTRAL, FACTUAL status messages for this user: metric, then recommendation.',
+        reminders: [
+            'State metrics plainly',
+            'One recommendation per message',
+            'No emotional language, humour or personal-life references',
+        ],
+        bannedTopics: ['relationship', 'appearance', 'self-worth'],
+        usesPersonalGoals: false,
+    },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Selection
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Default persona for each onboarding nudge tone (see selectNudgeTone). */
+const PERSONA_BY_TONE: Record<NudgeTone, PersonaId> = {
+    sharp: 'savage',
+    challenge: 'coach',
+    supportive: 'gentle',
+    confidence_building: 'gentle',
+};
+
+export function defaultPersonaForTone(tone: NudgeTone): PersonaId {
+    return PERSONA_BY_TONE[tone] ?? 'gentle';
+}
+
+export function resolvePersona(settings: PersonaSettings, tone: NudgeTone): ResolvedPersona {
+    const id = settings.persona === 'auto' ? defaultPersonaForTone(tone) : settings.persona;
+    const profile = PERSONA_PROFILES[id] ?? PERSONA_PROFILES.gentle;
+    const bannedTopics = Array.from(new Set([...profile.bannedTopics, ...settings.optedOutTopics]));
+    return { profile, bannedTopics };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Post-generation Filter
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const TOPIC_PATTERNS: Record<SensitiveTopic, RegExp> = {
+    'relationship': /\b(girl ?friends?|boy ?friends?|gf|bf|dating|crush|wife|husband|romance|romantic|relationships?|rizz|love life|get the girl|attraction|attractive)\b/i,
+    'appearance': /\b(ugly|fat|skinny|physique|abs|belly|body ?weight|attractive|unattractive|good[- ]looking)\b/i,
+    'self-worth': /\b(loser|pathetic|worthless|useless|failure|mediocre|lazy|what'?s (even )?the point)\b/i,
+};
+
+/** Fields shown to the user; meditationSuggestion is an enum and never checked. */
+const FILTERED_FIELDS: ResponseField[] = [
+    'nudgeTitle', 'nudgeMessage', 'dashboardMessage', 'focusMessage',
+    'meditationMessage', 'healthMessage', 'focusRecommendation', 'rationale',
+];
+
+/** The user's own goal text for a topic (only relationship and self-worth have one). */
+function personalTexts(topic: SensitiveTopic, profile?: UserProfile | null): string[] {
+    if (!profile) return [];
+    const texts = topic === 'relationship'
+        ? [profile.relationshipGoal]
+        : topic === 'self-worth'
+            ? [profile.rawAnswers?.selfIdentifiedWeakness]
+            : [];
+    return texts.map(t => (t ?? '').trim()).filter(Boolean);
+}
+
+/** Words goals are often title-cased with ("Be More Confident around People"); never names. */
+const COMMON_WORDS = new Set([
+    'about', 'again', 'also', 'always', 'and', 'around', 'asking', 'attention', 'become', 'being',
+    'better', 'boldly', 'calm', 'comfortable', 'confidence', 'confident', 'conversation', 'conversations',
+    'date', 'dates', 'dating', 'enough', 'even', 'every', 'feel', 'feeling', 'find', 'for', 'friend',
+    'friends', 'from', 'fun', 'get', 'girl', 'girls', 'good', 'guy', 'guys', 'have', 'her', 'him',
+    'into', 'just', 'less', 'life', 'like', 'love', 'make', 'meet', 'more', 'much', 'myself', 'new',
+    'not', 'one', 'open', 'others', 'out', 'partner', 'people', 'person', 'really', 'someone', 'social',
+    'special', 'start', 'stop', 'strangers', 'talk', 'talking', 'than', 'that', 'the', 'them', 'then',
+    'this', 'too', 'trust', 'very', 'want', 'when', 'who', 'with', 'without', 'women', 'men', 'work',
+    'worry', 'yourself',
+]);
+
+/** Names mentioned mid-sentence ("ask Maya out" → "Maya"). */
+function properNouns(text: string): string[] {
+    return text
+        .split(/[.!?]\s+/)
+        .flatMap(sentence => sentence.split(/\s+/).slice(1))
+        .map(word => word.replace(/[^A-Za-zÀ-ÿ'-]/g, ''))
+        .filter(word => word.length >= 3 && /^[A-ZÀ-Þ]/.test(word) && !COMMON_WORDS.has(word.toLowerCase()));
+}
+
+export function mentionsTopic(text: string, topic: SensitiveTopic, profile?: UserProfile | null): boolean {
+    if (TOPIC_PATTERNS[topic].test(text)) return true;
+
+    const lower = text.toLowerCase();
+    return personalTexts(topic, profile).some(goal =>
+        (goal.length >= 8 && lower.includes(goal.toLowerCase()))
+        || properNouns(goal).some(name => new RegExp(`\\b${name}\\b`).test(text)),
+    );
+}
+
+/**
+ * Drop every message that touches a banned topic, so the rule-based message
+ * is shown instead. Rejections are reported like schema failures.
+ */
+export function filterBannedTopics(
+    response: GroqResponse,
+    bannedTopics: SensitiveTopic[],
+    profile?: UserProfile | null,
+): { response: GroqResponse; failures: FieldFailure[] } {
+    if (bannedTopics.length === 0) return { response, failures: [] };
+
+    const filtered: GroqResponse = { ...response };
+    const failures: FieldFailure[] = [];
+    for (const field of FILTERED_FIELDS) {
+        const text = filtered[field];
+        if (!text) continue;
+        if (bannedTopics.some(topic => mentionsTopic(text, topic, profile))) {
+            delete filtered[field];
+            failures.push({ field, reason: 'banned-topic' });
+        }
+    }
+    return { response: filtered, failures };
+}
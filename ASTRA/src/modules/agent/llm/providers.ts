@@ -0,0 +1,248 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// LLM Providers — Groq, generic OpenAI-compatible (llama.cpp / Ollama), mock
+// All real providers speak the OpenAI chat/completions protocol.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+    ChatMessage,
+    FetchLike,
+    LLMCompletion,
+    LLMProvider,
+    LLMProviderConfig,
+    LLMProviderDeps,
+    LLMProviderKind,
+    LLMSettings,
+} from './llmTypes';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Defaults
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const PROVIDER_DEFAULTS: Record<LLMProviderKind, LLMProviderConfig> = {
+    groq: {
+        kind: 'groq',
+        baseUrl: 'https://api.groq.com/openai/v1',
+        model: 'llama-3.3-70b-versatile',
+        temperature: 0.85,  // higher creativity for edgy taunts
+        maxTokens: 500,     // room for 4 module messages
+        timeoutMs: 15000,
+        jsonMode: true,
+        maxRetries: 2,
+        retryBaseDelayMs: 1000,
+    },
+    'openai-compatible': {
+        kind: 'openai-compatible',
+        baseUrl: 'http://localhost:11434/v1',  // Ollama; llama.cpp server uses :8080/v1
+        model: 'llama3.1:8b',
+        temperature: 0.85,
+        maxTokens: 500,
+        timeoutMs: 60000,   // local models on laptop hardware are slow
+        jsonMode: true,
+        maxRetries: 1,
+        retryBaseDelayMs: 1000,
+    },
+    mock: {
+        kind: 'mock',
+        baseUrl: '',
+        model: 'mock',
+        temperature: 0,
+        maxTokens: 500,
+        timeoutMs: 0,
+        jsonMode: true,
+        maxRetries: 0,
+        retryBaseDelayMs: 0,
+    },
+};
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+    provider: 'groq',
+    overrides: {},
+};
+
+export function resolveProviderConfig(settings: LLMSettings): LLMProviderConfig {
+    return {
+        ...PROVIDER_DEFAULTS[settings.provider],
+        ...settings.overrides[settings.provider],
+        kind: settings.provider,
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// OpenAI-Compatible Transport (with retries + backoff)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type AttemptResult =
+    | { ok: true; content: string }
+    | { ok: false; retryable: boolean; reason: string };
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500;
+}
+
+async function attemptCompletion(
+    config: LLMProviderConfig,
+    doFetch: FetchLike,
+    messages: ChatMessage[],
+): Promise<AttemptResult> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    try {
+        const response = await doFetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: config.model,
+                messages,
+                temperature: config.temperature,
+                max_tokens: config.maxTokens,
+                ...(config.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+            }),
+            signal: controller.signal,
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text().catch(() => 'unknown');
+            return {
+                ok: false,
+                retryable: isRetryableStatus(response.status),
+                reason: `API error ${response.status}: ${errorText}`,
+            };
+        }
+
+        const data = await response.json();
+        const content = data?.choices?.[0]?.message?.content;
+        if (!content) {
+            return { ok: false, retryable: false, reason: 'Empty response from API' };
+        }
+        return { ok: true, content };
+    } catch (err) {
+        const reason = (err as any)?.name === 'AbortError'
+            ? `Request timed out after ${config.timeoutMs / 1000}s`
+            : `Request failed: ${err}`;
+        return { ok: false, retryable: true, reason };
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+export function createOpenAICompatibleProvider(
+    config: LLMProviderConfig,
+    deps: LLMProviderDeps = {},
+): LLMProvider {
+    const tag = `[LLM:${config.kind}]`;
+
+    return {
+        kind: config.kind,
+        config,
+        complete: async (messages) => {
+            if (config.kind === 'groq' && !config.apiKey) {
+                console.warn(`${tag} No API key — LLM enhancement unavailable`);
+                return null;
+            }
+
+            const doFetch = deps.fetch ?? (fetch as unknown as FetchLike);
+            const sleep = deps.sleep ?? defaultSleep;
+            const maxAttempts = config.maxRetries + 1;
+
+            for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+                console.log(`${tag} Sending request to ${config.model} (attempt ${attempt}/${maxAttempts})...`);
+                const result = await attemptCompletion(config, doFetch, messages);
+
+                if (result.ok) {
+                    return { content: result.content, provider: config.kind, model: config.model, attempts: attempt };
+                }
+                if (!result.retryable || attempt === maxAttempts) {
+                    console.warn(`${tag} ${result.reason}`);
+                    return null;
+                }
+
+                const delay = config.retryBaseDelayMs * 2 ** (attempt - 1);
+                console.warn(`${tag} ${result.reason} — retrying in ${delay}ms`);
+                await sleep(delay);
+            }
+            return null;
+        },
+    };
+}
+
+/** Groq is OpenAI-compatible; the key comes from settings or EXPO_PUBLIC_GROQ_API_KEY. */
+export function createGroqProvider(
+    config: LLMProviderConfig = PROVIDER_DEFAULTS.groq,
+    deps: LLMProviderDeps = {},
+): LLMProvider {
+    return createOpenAICompatibleProvider({ ...config, apiKey: config.apiKey || getGroqApiKey() || undefined }, deps);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Mock Provider — deterministic, no network
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const MOCK_RESPONSE = {
+    nudgeTitle: 'Mock Nudge',
+    nudgeMessage: 'Deterministic mock response — no model was called.',
+    dashboardMessage: 'Mock dashboard message.',
+    focusMessage: 'Mock focus message.',
+    meditationMessage: 'Mock meditation message.',
+    healthMessage: 'Mock health message.',
+    meditationSuggestion: 'breathing',
+    focusRecommendation: 'Mock focus recommendation.',
+    rationale: 'Mock provider',
+};
+
+/**
+ * Returns `respond(messages)` (or a fixed JSON payload) without touching the
+ * network. Same input always gives the same output.
+ */
+export function createMockProvider(
+    respond: (messages: ChatMessage[]) => string = () => JSON.stringify(MOCK_RESPONSE),
+    config: LLMProviderConfig = PROVIDER_DEFAULTS.mock,
+): LLMProvider {
+    return {
+        kind: 'mock',
+        config,
+        complete: async (messages): Promise<LLMCompletion> => ({
+            content: respond(messages),
+            provider: 'mock',
+            model: config.model,
+            attempts: 1,
+        }),
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Selection
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function createLLMProvider(settings: LLMSettings, deps: LLMProviderDeps = {}): LLMProvider {
+    const config = resolveProviderConfig(settings);
+    switch (config.kind) {
+        case 'mock':
+            return createMockProvider(undefined, config);
+        case 'groq':
+            return createGroqProvider(config, deps);
+        default:
+            return createOpenAICompatibleProvider(config, deps);
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// API Key Access
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function getGroqApiKey(): string | null {
+    try {
+        // Expo public env vars are inlined at build time
+        const key = (process.env as any).EXPO_PUBLIC_GROQ_API_KEY
+            || (process.env as any).GROQ_API_KEY
+            || null;
+        return key;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,215 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// LLM Response Schema — Runtime validation + JSON repair for GroqResponse
+// Bad fields are dropped one at a time so the rule-based value shows through
+// instead of throwing away the whole response.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { MEDITATION_LABELS } from '../../shared/types';
+import type { GroqResponse } from './groqClient';
+import type { LLMValidationStats } from './llmTypes';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Schema
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface FieldRule {
+    maxLength: number;
+    /** Allowed values (compared case-insensitively). */
+    oneOf?: readonly string[];
+}
+
+export type ResponseField = keyof GroqResponse;
+
+/** Limits sized for the UI: titles fit one line, messages fit a card. */
+export const GROQ_RESPONSE_SCHEMA: Record<ResponseField, FieldRule> = {
+    nudgeTitle: { maxLength: 60 },
+    nudgeMessage: { maxLength: 280 },
+    dashboardMessage: { maxLength: 220 },
+    focusMessage: { maxLength: 220 },
+    meditationMessage: { maxLength: 220 },
+    healthMessage: { maxLength: 220 },
+    meditationSuggestion: { maxLength: 20, oneOf: Object.keys(MEDITATION_LABELS) },
+    focusRecommendation: { maxLength: 220 },
+    rationale: { maxLength: 300 },
+};
+
+export type FieldFailureReason = 'wrong-type' | 'too-long' | 'not-allowed' | 'banned-topic';
+
+export interface FieldFailure {
+    field: ResponseField;
+    reason: FieldFailureReason;
+}
+
+export interface ParsedLLMResponse {
+    response: GroqResponse;
+    /** True when the raw text only parsed after repairJson. */
+    repaired: boolean;
+    failures: FieldFailure[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Validation
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Check every known field against GROQ_RESPONSE_SCHEMA. Missing and empty
+ * fields are simply absent; invalid ones are absent and reported.
+ */
+export function validateGroqResponse(raw: unknown): { response: GroqResponse; failures: FieldFailure[] } | null {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+    const source = raw as Record<string, unknown>;
+    const response: Record<string, string> = {};
+    const failures: FieldFailure[] = [];
+
+    for (const field of Object.keys(GROQ_RESPONSE_SCHEMA) as ResponseField[]) {
+        const rule = GROQ_RESPONSE_SCHEMA[field];
+        const value = source[field];
+        if (value === undefined || value === null) continue;
+
+        if (typeof value !== 'string') {
+            failures.push({ field, reason: 'wrong-type' });
+            continue;
+        }
+
+        const text = value.replace(/\s+/g, ' ').trim();
+        if (!text) continue;
+
+        if (text.length > rule.maxLength) {
+            failures.push({ field, reason: 'too-long' });
+            continue;
+        }
+
+        if (rule.oneOf) {
+            const match = rule.oneOf.find(option => option === text.toLowerCase());
+            if (!match) {
+                failures.push({ field, reason: 'not-allowed' });
+                continue;
+            }
+            response[field] = match;
+            continue;
+        }
+
+        response[field] = text;
+    }
+
+    return { response: response as GroqResponse, failures };
+}
+
+/** Parse (repairing if needed) and validate raw model output. Null when nothing usable came back. */
+export function parseGroqResponse(content: string): ParsedLLMResponse | null {
+    let raw: unknown;
+    let repaired = false;
+    try {
+        raw = JSON.parse(content);
+    } catch {
+        const fixed = repairJson(content);
+        if (fixed === null) return null;
+        raw = JSON.parse(fixed);
+        repaired = true;
+    }
+
+    const result = validateGroqResponse(raw);
+    if (!result) return null;
+    return { ...result, repaired };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// JSON Repair
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function parses(text: string): boolean {
+    try {
+        JSON.parse(text);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function stripTrailingCommas(text: string): string {
+    return text.replace(/,\s*([}\]])/g, '$1');
+}
+
+/**
+ * Best-effort fix for the ways models break JSON: markdown fences, chatter
+ * around the object, trailing commas and output cut off by max_tokens.
+ *
+ * A truncated object is cut back to the last complete member and closed, so
+ * a half-written message is dropped rather than shown. Returns null when no
+ * JSON object can be recovered.
+ */
+export function repairJson(content: string): string | null {
+    const start = content.indexOf('{');
+    if (start < 0) return null;
+    const text = content.slice(start);
+
+    const closers: string[] = [];
+    let inString = false;
+    let escaped = false;
+    let lastComma = -1;
+    let closersAtComma: string[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (c === '\\') escaped = true;
+            else if (c === '"') inString = false;
+            continue;
+        }
+
+        if (c === '"') {
+            inString = true;
+        } else if (c === '{' || c === '[') {
+            closers.push(c === '{' ? '}' : ']');
+        } else if (c === '}' || c === ']') {
+            closers.pop();
+            if (closers.length === 0) {
+                // Complete object; ignore whatever follows (fences, chatter)
+                const candidate = stripTrailingCommas(text.slice(0, i + 1));
+                return parses(candidate) ? candidate : null;
+            }
+        } else if (c === ',') {
+            lastComma = i;
+            closersAtComma = [...closers];
+        }
+    }
+
+    // Truncated: only the last member can be incomplete
+    const close = (stack: string[]) => [...stack].reverse().join('');
+    const candidates = [
+        inString ? null : stripTrailingCommas(text.trimEnd() + close(closers)),
+        lastComma >= 0 ? text.slice(0, lastComma) + close(closersAtComma) : null,
+    ];
+    return candidates.find((c): c is string => c !== null && parses(c)) ?? null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Failure Counters
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function emptyValidationStats(): LLMValidationStats {
+    return { responses: 0, repaired: 0, unparseable: 0, fieldFailures: {} };
+}
+
+/** Fold one response (null = unparseable) into the running counters. */
+export function tallyValidation(
+    stats: LLMValidationStats,
+    parsed: ParsedLLMResponse | null,
+): LLMValidationStats {
+    const next: LLMValidationStats = {
+        ...stats,
+        responses: stats.responses + 1,
+        fieldFailures: { ...stats.fieldFailures },
+    };
+    if (!parsed) {
+        next.unparseable++;
+        return next;
+    }
+    if (parsed.repaired) next.repaired++;
+    for (const { field } of parsed.failures) {
+        next.fieldFailures[field] = (next.fieldFailures[field] ?? 0) + 1;
+    }
+    return next;
+}
@@ -0,0 +1,340 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Offline Template Generator — Local stand-in for the LLM
+// Fills parameterized templates with the user's real metrics, varies phrasing
+// with a seeded RNG and adapts to the directive's NudgeTone. Output is
+// GroqResponse-shaped so mergeWithLLM applies it like any model reply.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { NudgeTone } from '../../onboarding/models/onboardingTypes';
+import type { ContextMode, PersonalizationDirective, UserState } from '../types/orchestratorTypes';
+import type { AgentContext } from '../engine/contextCollector';
+import { fnv1a } from '../engine/hash';
+import { MEDITATION_LABELS } from '../../shared/types';
+import type { GroqResponse } from './groqClient';
+import { validateGroqResponse } from './responseSchema';
+import { filterBannedTopics, type ResolvedPersona } from './personas';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Seeded Randomness
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** mulberry32 — small, fast and good enough for picking phrasings. String seeds go through FNV-1a. */
+function createRng(seed: string | number): () => number {
+    let a = typeof seed === 'number' ? seed >>> 0 : fnv1a(seed);
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Slots
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type Slot =
+    | 'compliance' | 'distraction' | 'sleep' | 'streak' | 'weeklyMinutes'
+    | 'stress' | 'fatigue' | 'sessions' | 'meditations' | 'goal' | 'apps'
+    | 'sessionLength' | 'meditation' | 'action';
+
+type Slots = Partial<Record<Slot, string>>;
+
+function pct(value: number): string {
+    return (value * 100).toFixed(0);
+}
+
+/** Real metrics for the template slots. Slots with no data are left out. */
+function collectSlots(
+    directive: PersonalizationDirective,
+    state: UserState,
+    agentCtx?: AgentContext,
+): Slots {
+    const slots: Slots = {
+        compliance: pct(state.behavioral.complianceRate),
+        distraction: pct(state.behavioral.distractionRate),
+        streak: String(state.semiDynamic.habitStreak),
+        weeklyMinutes: String(Math.round(state.semiDynamic.weeklyFocusMinutes)),
+        stress: String(state.dynamic.stressLevel),
+        fatigue: String(state.dynamic.fatigueLevel),
+        meditation: MEDITATION_LABELS[directive.meditationType].toLowerCase(),
+        action: ACTIONS[directive.contextState.mode],
+    };
+    if (state.dynamic.sleepHours > 0) slots.sleep = String(Number(state.dynamic.sleepHours.toFixed(1)));
+    if (directive.recommendedFocus.sessionLength > 0) {
+        slots.sessionLength = String(directive.recommendedFocus.sessionLength);
+    }
+
+    if (agentCtx) {
+        slots.sessions = String(agentCtx.completedSessionsToday);
+        slots.meditations = String(agentCtx.meditationSessionCount);
+        if (agentCtx.distractiveAppNames.length > 0) {
+            slots.apps = agentCtx.distractiveAppNames.slice(0, 2).join(' and ');
+        }
+        const goal = agentCtx.activeGoalName ?? agentCtx.profile?.goalText;
+        if (goal && goal.length <= 40) slots.goal = goal;
+    }
+    return slots;
+}
+
+function slotsIn(template: string): Slot[] {
+    return Array.from(template.matchAll(/\{(\w+)\}/g), m => m[1] as Slot);
+}
+
+/** Capitalize the first letter of every sentence (slots can start one). */
+function sentenceCase(text: string): string {
+    return text.replace(/(^|[.!?]\s+)([a-z])/g, (_, lead: string, c: string) => lead + c.toUpperCase());
+}
+
+function fill(template: string, slots: Slots): string {
+    return sentenceCase(template.replace(/\{(\w+)\}/g, (_, name: string) => slots[name as Slot] ?? ''));
+}
+
+/** Pick one template whose slots all have data; null when none qualifies. */
+function pick(rng: () => number, templates: string[], slots: Slots): string | null {
+    const usable = templates.filter(t => slotsIn(t).every(s => slots[s] !== undefined));
+    if (usable.length === 0) return null;
+    return fill(usable[Math.floor(rng() * usable.length)], slots);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Template Banks
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** What the nudge asks for in each context mode (inserted as {action}). */
+const ACTIONS: Record<ContextMode, string> = {
+    'performance-ready': 'start a deep-work block',
+    'maintenance': 'get one focus session in',
+    'cognitively-fatigued': 'take a real break instead of forcing focus',
+    'emotionally-reactive': 'do a short {meditation} session first',
+    'overloaded': 'drop one task and rest',
+    'drifting': 'start one short session',
+    'recovering': 'keep the next session easy',
+    'opportunity-window': 'use this window for a session',
+};
+
+type NudgeKind = 'push' | 'rest' | 'steady';
+
+const MODE_KIND: Record<ContextMode, NudgeKind> = {
+    'performance-ready': 'push',
+    'opportunity-window': 'push',
+    'drifting': 'push',
+    'maintenance': 'steady',
+    'recovering': 'rest',
+    'cognitively-fatigued': 'rest',
+    'emotionally-reactive': 'rest',
+    'overloaded': 'rest',
+};
+
+/** Data-bearing opening sentence per context mode, tone-neutral. */
+const MODE_FACTS: Record<ContextMode, string[]> = {
+    'performance-ready': [
+        '{sleep}h of sleep and stress at {stress}/5 — you are primed.',
+        'Readiness is high and your streak is at {streak} days.',
+    ],
+    'maintenance': [
+        'Compliance is at {compliance}% with a {streak}-day streak.',
+        '{weeklyMinutes} focus minutes so far this week.',
+    ],
+    'cognitively-fatigued': [
+        'Fatigue is {fatigue}/5 on {sleep}h of sleep.',
+        'Fatigue is at {fatigue}/5 — your focus is running on empty.',
+    ],
+    'emotionally-reactive': [
+        'Stress is at {stress}/5 right now.',
+        'Stress {stress}/5 makes deep focus unlikely.',
+    ],
+    'overloaded': [
+        'Stress {stress}/5 and fatigue {fatigue}/5 — that is overload.',
+        'You are at {stress}/5 stress with {sleep}h of sleep.',
+    ],
+    'drifting': [
+        'Distraction is at {distraction}% and compliance at {compliance}%.',
+        '{sessions} sessions today and {distraction}% distraction.',
+        '{apps} keep winning — distraction is at {distraction}%.',
+    ],
+    'recovering': [
+        'You are bouncing back — streak at {streak} days.',
+        'Compliance is climbing back to {compliance}%.',
+    ],
+    'opportunity-window': [
+        'Readiness is high and you have {sessions} sessions today.',
+        'Good window: {sleep}h of sleep and stress at {stress}/5.',
+    ],
+};
+
+const TONE_CALLS: Record<NudgeTone, string[]> = {
+    sharp: [
+        'Stop stalling and {action}. Now.',
+        'No excuses — {action}.',
+        '{action}. You know the numbers.',
+    ],
+    challenge: [
+        'Prove it: {action} before the hour is out.',
+        'Your move — {action} and beat yesterday.',
+        'Raise the bar: {action}.',
+    ],
+    supportive: [
+        'No pressure — {action} when you are ready.',
+        'Be kind to yourself and {action}.',
+        'One gentle step: {action}.',
+    ],
+    confidence_building: [
+        'You have done harder things. {action} — that counts as a win.',
+        'Small wins stack: {action}.',
+        'You can do this — {action}.',
+    ],
+};
+
+const TONE_TITLES: Record<NudgeTone, Record<NudgeKind, string[]>> = {
+    sharp: {
+        push: ['Enough scrolling', 'Clock is ticking', 'Time to move'],
+        rest: ['Stop grinding, recover', 'You are running on fumes'],
+        steady: ['Do not coast', 'Keep it honest'],
+    },
+    challenge: {
+        push: ['Game on', 'Beat your best', 'Prove it today'],
+        rest: ['Recovery is training too', 'Reset to win'],
+        steady: ['Hold the line', 'Raise the bar'],
+    },
+    supportive: {
+        push: ['A small start', 'When you are ready'],
+        rest: ['Take a breather', 'Go easy today'],
+        steady: ['Steady does it', 'Nice and steady'],
+    },
+    confidence_building: {
+        push: ['You have got this', 'One small win'],
+        rest: ['Rest is progress', 'Recharge and return'],
+        steady: ['Building momentum', 'Keep stacking wins'],
+    },
+};
+
+type ModuleKey = 'dashboard' | 'focus' | 'meditation' | 'health';
+
+const MODULE_TEMPLATES: Record<NudgeTone, Record<ModuleKey, string[]>> = {
+    sharp: {
+        dashboard: [
+            '{streak}-day streak, {compliance}% compliance. Do better.',
+            'Compliance {compliance}%. {apps} are eating your day.',
+            '{weeklyMinutes} focus minutes this week. That is the whole story.',
+        ],
+        focus: [
+            '{sessions} sessions today, {distraction}% distraction. Fix it.',
+            'Distraction at {distraction}%. "{goal}" will not happen like this.',
+            'A {sessionLength}-minute block is waiting. Stop avoiding it.',
+        ],
+        meditation: [
+            '{meditations} meditation sessions and stress at {stress}/5. Sit down and breathe.',
+            'Stress {stress}/5. Ten minutes of {meditation} is not optional.',
+        ],
+        health: [
+            '{sleep}h of sleep, fatigue {fatigue}/5. You are sabotaging yourself.',
+            'Fatigue {fatigue}/5. Sleep is not a suggestion.',
+        ],
+    },
+    challenge: {
+        dashboard: [
+            '{streak}-day streak at {compliance}% compliance. Push it higher.',
+            '{weeklyMinutes} minutes this week. Can you beat it?',
+        ],
+        focus: [
+            '{sessions} sessions today. Add one more and cut distraction below {distraction}%.',
+            'Go for a {sessionLength}-minute block and move "{goal}" forward.',
+        ],
+        meditation: [
+            'Stress {stress}/5. A {meditation} session sharpens your edge.',
+            '{meditations} sessions logged. Make the next one count.',
+        ],
+        health: [
+            '{sleep}h of sleep. Protect it and your focus follows.',
+            'Fatigue {fatigue}/5. Recover like an athlete.',
+        ],
+    },
+    supportive: {
+        dashboard: [
+            'A {streak}-day streak is worth protecting. You are at {compliance}% compliance.',
+            '{weeklyMinutes} focus minutes this week. Every one counts.',
+        ],
+        focus: [
+            '{sessions} sessions today. A short one is still progress.',
+            'When you are ready, a {sessionLength}-minute session is enough.',
+        ],
+        meditation: [
+            'Stress is at {stress}/5. A few minutes of {meditation} might help.',
+            '{meditations} sessions so far. Come back whenever you need a pause.',
+        ],
+        health: [
+            '{sleep}h of sleep last night. Go gently today.',
+            'Fatigue {fatigue}/5. Rest is part of the plan.',
+        ],
+    },
+    confidence_building: {
+        dashboard: [
+            '{streak}-day streak. You are proving you can do this.',
+            'Compliance is at {compliance}%. Each session moves it up.',
+        ],
+        focus: [
+            '{sessions} sessions today. One more short one is a real win.',
+            'A {sessionLength}-minute block is well within reach.',
+        ],
+        meditation: [
+            '{meditations} meditation sessions done. You know how to reset.',
+            'Stress {stress}/5. A quick {meditation} session is an easy win.',
+        ],
+        health: [
+            '{sleep}h of sleep. Small habits add up.',
+            'Fatigue {fatigue}/5. Resting now sets up tomorrow\'s win.',
+        ],
+    },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Generator
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface TemplateOptions {
+    /** Same seed + same inputs → same wording. Defaults to directive.generatedAt. */
+    seed?: string | number;
+    /** Banned topics are dropped from the output just like LLM replies. */
+    persona?: ResolvedPersona;
+}
+
+/**
+ * Build a GroqResponse from templates for the rule directive. Sharp wording
+ * is softened to `challenge` when the persona bans self-worth jabs. Fields with
+ * no usable template are left out so the rule-based text stays.
+ */
+export function generateTemplateResponse(
+    directive: PersonalizationDirective,
+    state: UserState,
+    agentCtx?: AgentContext,
+    options: TemplateOptions = {},
+): GroqResponse {
+    const rng = createRng(options.seed ?? directive.generatedAt);
+    const banned = options.persona?.bannedTopics ?? [];
+    const tone: NudgeTone = directive.tone === 'sharp' && banned.includes('self-worth')
+        ? 'challenge'
+        : directive.tone;
+    const mode = directive.contextState.mode;
+
+    const slots = collectSlots(directive, state, agentCtx);
+    if (slots.action) slots.action = fill(slots.action, slots).toLowerCase();
+
+    const modules = MODULE_TEMPLATES[tone];
+    const fact = pick(rng, MODE_FACTS[mode], slots);
+    const call = pick(rng, TONE_CALLS[tone], slots);
+
+    const raw: Record<string, string | null> = {
+        nudgeTitle: pick(rng, TONE_TITLES[tone][MODE_KIND[mode]], slots),
+        nudgeMessage: [fact, call].filter(Boolean).join(' ') || null,
+        dashboardMessage: pick(rng, modules.dashboard, slots),
+        focusMessage: pick(rng, modules.focus, slots),
+        meditationMessage: pick(rng, modules.meditation, slots),
+        healthMessage: pick(rng, modules.health, slots),
+    };
+
+    // Same checks as a model reply: length limits, then banned topics
+    const validated = validateGroqResponse(raw)?.response ?? {};
+    return filterBannedTopics(validated, banned, agentCtx?.profile).response;
+}
@@ -0,0 +1,97 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Native Notification Channel — Nudges through the AstraNotifications module
+// accept / snooze / dismiss arrive as "nudgeNotificationAction" events (or are
+// queued natively while JS is down); navigate buttons open the app with an
+// astra-nudge://response URL. Scheduled nudges are posted by AlarmManager.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { Linking, Platform } from 'react-native';
+import AstraNotifications from '../../../../modules/astra-notifications';
+import type { NudgeAction } from '../types/orchestratorTypes';
+import type { NotificationChannel, NotificationResponse, ScheduledDelivery } from './notificationTypes';
+
+const ACTION_EVENT = 'nudgeNotificationAction';
+const RESPONSE_URL_PREFIX = 'astra-nudge://response';
+const ACTIONS: NudgeAction['action'][] = ['accept', 'snooze', 'dismiss', 'navigate'];
+
+/** Parse the URL a navigate button opens the app with; null for any other URL. */
+export function parseNudgeResponseUrl(url: string | null, at: number = Date.now()): NotificationResponse | null {
+    if (!url || !url.startsWith(RESPONSE_URL_PREFIX)) return null;
+    const params = new Map(
+        (url.split('?')[1] ?? '').split('&').filter(Boolean).map(pair => {
+            const [key, value = ''] = pair.split('=');
+            return [decodeURIComponent(key), decodeURIComponent(value.replace(/\+/g, ' '))] as const;
+        }),
+    );
+    const nudgeId = params.get('nudgeId');
+    const action = params.get('action') as NudgeAction['action'] | undefined;
+    if (!nudgeId || !action || !ACTIONS.includes(action)) return null;
+    return { nudgeId, action, target: params.get('target') || undefined, at };
+}
+
+export function createNativeNotificationChannel(): NotificationChannel {
+    const native = Platform.OS === 'android' ? AstraNotifications : null;
+    let initialUrlRead = false;
+
+    return {
+        kind: 'native',
+        isAvailable: () => native != null && native.areNotificationsEnabled(),
+
+        requestPermission: async () => {
+            if (!native) return false;
+            const { granted } = await native.requestNotificationPermission();
+            return granted && native.areNotificationsEnabled();
+        },
+
+        show: async (notification) => {
+            if (!native) return;
+            await native.showNudgeNotification(notification);
+        },
+
+        cancel: async (nudgeId) => {
+            if (!native) return;
+            await native.cancelNudgeNotification(nudgeId);
+        },
+
+        schedule: async (scheduled) => {
+            if (!native) return;
+            await native.scheduleNudgeNotifications(JSON.stringify(scheduled));
+        },
+
+        consumeDelivered: async () => {
+            if (!native) return [];
+            return JSON.parse(await native.consumeDeliveredNudges()) as ScheduledDelivery[];
+        },
+
+        onResponse: (listener) => {
+            if (!native) return () => { };
+            const actionSub = native.addListener(ACTION_EVENT, (event) => listener(event as NotificationResponse));
+            const urlSub = Linking.addEventListener('url', ({ url }) => {
+                const response = parseNudgeResponseUrl(url);
+                if (response) listener(response);
+            });
+            return () => {
+                actionSub.remove();
+                urlSub.remove();
+            };
+        },
+
+        consumePending: async () => {
+            if (!native) return [];
+            const responses: NotificationResponse[] = [];
+            try {
+                responses.push(...(JSON.parse(await native.consumeNudgeActions()) as NotificationResponse[]));
+            } catch (err) {
+                console.warn('[Notifications] Failed to read queued responses:', err);
+            }
+
+            // A cold start from a navigate button carries its response in the launch URL
+            if (!initialUrlRead) {
+                initialUrlRead = true;
+                const response = parseNudgeResponseUrl(await Linking.getInitialURL());
+                if (response) responses.push(response);
+            }
+            return responses;
+        },
+    };
+}
@@ -0,0 +1,200 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Notification Channel — Turns orchestrator nudges into local notifications
+// NudgePayload → NudgeNotification, gated by the intervention budget.
+// The active channel is swappable like the KV backend; tests use the fake.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { NudgePayload } from '../types/orchestratorTypes';
+import type { QueuedNudge } from '../engine/nudgeScheduler';
+import type {
+    NotificationChannel,
+    NotificationResponse,
+    NudgeNotification,
+    ScheduledDelivery,
+    ScheduledNudgeNotification,
+} from './notificationTypes';
+import type { InterventionRequest } from '../../interventions/budgetTypes';
+import {
+    previewInterventionSequence,
+    recordShownIntervention,
+    requestIntervention,
+} from '../../interventions/budgetService';
+
+/** Android shows at most three buttons per notification. */
+export const MAX_NOTIFICATION_ACTIONS = 3;
+
+export function toNudgeNotification(nudge: NudgePayload): NudgeNotification {
+    // Primary action first so it survives the button limit
+    const actions = [...nudge.actions]
+        .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary))
+        .slice(0, MAX_NOTIFICATION_ACTIONS)
+        .map(({ label, action, target }) => (target ? { label, action, target } : { label, action }));
+
+    return {
+        id: nudge.id,
+        title: `${nudge.icon} ${nudge.title}`,
+        body: nudge.message,
+        highPriority: nudge.priority === 'urgent' || nudge.priority === 'high',
+        actions,
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Delivery
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface NotificationDelivery {
+    delivered: boolean;
+    reason?: string;
+}
+
+/**
+ * Post a nudge if the channel works and the intervention budget allows it
+ * (the notification channel's quota; suppressions are logged there).
+ */
+export async function deliverNudgeNotification(
+    channel: NotificationChannel,
+    nudge: NudgePayload,
+    now: number,
+): Promise<NotificationDelivery> {
+    if (!channel.isAvailable()) {
+        return { delivered: false, reason: `${channel.kind} channel unavailable` };
+    }
+    const decision = requestIntervention(notificationRequest(nudge, now));
+    if (!decision.allowed) return { delivered: false, reason: decision.detail };
+
+    await channel.show(toNudgeNotification(nudge));
+    return { delivered: true };
+}
+
+/**
+ * Hand queued nudges to the OS so each is posted at its deliverAt even while
+ * JS is suspended, replacing whatever was scheduled before. Each is previewed
+ * against the budget at its time, counting the ones before it; nudges the
+ * budget would hold back stay queued for the overlay. Returns the scheduled ids.
+ */
+export async function scheduleNudgeNotifications(
+    channel: NotificationChannel,
+    items: QueuedNudge[],
+    now: number,
+): Promise<string[]> {
+    if (!channel.isAvailable()) return [];
+    const planned = items.map(item => ({ item, at: Math.max(item.deliverAt, now) }));
+    const decisions = previewInterventionSequence(planned.map(({ item, at }) => notificationRequest(item.nudge, at)));
+    const scheduled: ScheduledNudgeNotification[] = planned
+        .filter((_, index) => decisions[index].allowed)
+        .map(({ item, at }) => ({
+            notification: toNudgeNotification(item.nudge),
+            deliverAt: at,
+            expiresAt: item.nudge.expiresAt,
+        }));
+
+    await channel.schedule(scheduled);
+    return scheduled.map(s => s.notification.id);
+}
+
+/** Count a scheduled notification the OS posted against the budget. */
+export function recordScheduledDelivery(nudge: NudgePayload, at: number): void {
+    recordShownIntervention(notificationRequest(nudge, at));
+}
+
+function notificationRequest(nudge: NudgePayload, at: number): InterventionRequest {
+    return {
+        producer: 'orchestrator',
+        channel: 'notification',
+        priority: nudge.priority,
+        at,
+        label: nudge.title,
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Fake Channel
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface FakeNotificationChannel extends NotificationChannel {
+    /** Notifications currently on the "device". */
+    readonly shown: NudgeNotification[];
+    /** Notifications waiting for their time. */
+    readonly scheduled: ScheduledNudgeNotification[];
+    /** Let the "OS" post every scheduled notification due by `now` (expired ones are skipped). */
+    advance(now: number): void;
+    /** Simulate a button press; queued for consumePending when nobody listens. */
+    press(nudgeId: string, actionIndex: number, at?: number): void;
+}
+
+export function createFakeNotificationChannel(options: { available?: boolean } = {}): FakeNotificationChannel {
+    const shown: NudgeNotification[] = [];
+    const scheduled: ScheduledNudgeNotification[] = [];
+    const listeners = new Set<(response: NotificationResponse) => void>();
+    let pending: NotificationResponse[] = [];
+    let delivered: ScheduledDelivery[] = [];
+
+    const remove = (nudgeId: string) => {
+        const index = shown.findIndex(n => n.id === nudgeId);
+        if (index >= 0) shown.splice(index, 1);
+    };
+
+    return {
+        kind: 'fake',
+        shown,
+        scheduled,
+        isAvailable: () => options.available ?? true,
+        requestPermission: async () => options.available ?? true,
+        show: async (notification) => {
+            remove(notification.id);
+            shown.push(notification);
+        },
+        cancel: async (nudgeId) => remove(nudgeId),
+        schedule: async (next) => {
+            scheduled.splice(0, scheduled.length, ...next);
+        },
+        consumeDelivered: async () => {
+            const posted = delivered;
+            delivered = [];
+            return posted;
+        },
+        advance: (now) => {
+            const due = scheduled.filter(s => s.deliverAt <= now);
+            scheduled.splice(0, scheduled.length, ...scheduled.filter(s => s.deliverAt > now));
+            for (const { notification, deliverAt, expiresAt } of due) {
+                if (expiresAt !== undefined && expiresAt <= deliverAt) continue;
+                remove(notification.id);
+                shown.push(notification);
+                delivered.push({ nudgeId: notification.id, at: deliverAt });
+            }
+        },
+        onResponse: (listener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        consumePending: async () => {
+            const responses = pending;
+            pending = [];
+            return responses;
+        },
+        press: (nudgeId, actionIndex, at = Date.now()) => {
+            const notification = shown.find(n => n.id === nudgeId);
+            const button = notification?.actions[actionIndex];
+            if (!button) throw new Error(`No action ${actionIndex} on notification "${nudgeId}"`);
+
+            remove(nudgeId);
+            const response: NotificationResponse = { nudgeId, action: button.action, target: button.target, at };
+            if (listeners.size === 0) pending.push(response);
+            listeners.forEach(listener => listener(response));
+        },
+    };
+}
+
+// ── Active Channel ───────────────────────────────────────────────────────────
+
+let activeChannel: NotificationChannel = createFakeNotificationChannel({ available: false });
+
+export function getNotificationChannel(): NotificationChannel {
+    return activeChannel;
+}
+
+/** Swap the channel. Call once during startup (the native one on device). */
+export function setNotificationChannel(channel: NotificationChannel): void {
+    activeChannel = channel;
+}
@@ -0,0 +1,64 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Notification Channel Types — Delivering nudges outside the app
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { NudgeAction } from '../types/orchestratorTypes';
+
+export type NotificationChannelKind = 'native' | 'fake';
+
+/** A NudgePayload flattened into what a local notification can show. */
+export interface NudgeNotification {
+    /** Same as the nudge id, so responses map back to it. */
+    id: string;
+    title: string;
+    body: string;
+    /** urgent / high nudges use heads-up priority. */
+    highPriority: boolean;
+    actions: { label: string; action: NudgeAction['action']; target?: string }[];
+}
+
+/** A nudge the OS posts at `deliverAt`, even while JS is suspended. */
+export interface ScheduledNudgeNotification {
+    notification: NudgeNotification;
+    deliverAt: number;
+    /** Not posted after this, and removed from the shade once reached. */
+    expiresAt?: number;
+}
+
+/** A scheduled notification the OS has posted. */
+export interface ScheduledDelivery {
+    nudgeId: string;
+    at: number;
+}
+
+/** The button the user pressed on a notification. */
+export interface NotificationResponse {
+    nudgeId: string;
+    action: NudgeAction['action'];
+    target?: string;
+    at: number;
+}
+
+export interface NotificationChannel {
+    readonly kind: NotificationChannelKind;
+    /**
+     * False where notifications can't be posted: web, Expo Go, tests, or the
+     * user denied the permission or turned them off.
+     */
+    isAvailable(): boolean;
+    /** Ask the user for permission to post. Resolves with whether posting is now possible. */
+    requestPermission(): Promise<boolean>;
+    show(notification: NudgeNotification): Promise<void>;
+    cancel(nudgeId: string): Promise<void>;
+    /**
+     * Replace every scheduled notification with `scheduled`. Anything left out
+     * (superseded, expired, taken by the overlay) is cancelled; [] cancels all.
+     */
+    schedule(scheduled: ScheduledNudgeNotification[]): Promise<void>;
+    /** Scheduled notifications the OS posted since the last call (cleared once read). */
+    consumeDelivered(): Promise<ScheduledDelivery[]>;
+    /** Subscribe to button presses while the app is running. Returns an unsubscribe function. */
+    onResponse(listener: (response: NotificationResponse) => void): () => void;
+    /** Presses recorded while the app wasn't listening (cleared once read). */
+    consumePending(): Promise<NotificationResponse[]>;
+}
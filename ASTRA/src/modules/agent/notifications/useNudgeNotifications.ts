@@ -0,0 +1,55 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// useNudgeNotifications — Wires the notification channel into the app
+// Feeds button presses back into the orchestrator store, hands the queue to the
+// OS when the app goes to the background, takes it back on resume, and follows
+// navigate buttons.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { useOrchestratorStore } from '../store/orchestratorStore';
+import { getNotificationChannel } from './notificationChannel';
+
+export function useNudgeNotifications(navigate: (screen: string) => void): void {
+    const handleResponse = useOrchestratorStore((s) => s.handleNotificationResponse);
+    const pendingNavigation = useOrchestratorStore((s) => s.pendingNavigation);
+
+    // ── Responses + background delivery ──────────────────────────────────
+    useEffect(() => {
+        const channel = getNotificationChannel();
+        // What the OS posted while JS was suspended first, so presses on it
+        // find their nudge; then the overlay takes over from the OS schedule.
+        const catchUp = async () => {
+            const store = useOrchestratorStore.getState();
+            await store.collectScheduledNotifications();
+            (await channel.consumePending()).forEach(handleResponse);
+            await store.deliverDueNudges(false);
+        };
+        const drainPending = () => {
+            catchUp().catch(err => console.warn('[Notifications] Failed to read pending responses:', err));
+        };
+
+        // Android 13+ asks once; later calls return the user's answer
+        channel.requestPermission()
+            .then(granted => { if (!granted) console.log('[Notifications] Posting not permitted; nudges wait for the overlay'); })
+            .catch(err => console.warn('[Notifications] Permission request failed:', err));
+        drainPending();
+        const unsubscribe = channel.onResponse(handleResponse);
+        const appStateSub = AppState.addEventListener('change', (state) => {
+            if (state === 'active') drainPending();
+            if (state === 'background') useOrchestratorStore.getState().deliverDueNudges(true);
+        });
+
+        return () => {
+            unsubscribe();
+            appStateSub.remove();
+        };
+    }, [handleResponse]);
+
+    // ── Navigate buttons ─────────────────────────────────────────────────
+    useEffect(() => {
+        if (!pendingNavigation) return;
+        const target = useOrchestratorStore.getState().consumeNavigation();
+        if (target) navigate(target);
+    }, [pendingNavigation, navigate]);
+}
@@ -0,0 +1,212 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Orchestrator Policy — Typed, versioned thresholds for the rule pipeline
+// The team's policy ships as defaultPolicy.json; users may override any subset
+// of its numbers (see policyService.ts). Both are validated against
+// POLICY_LIMITS before use, and every directive records the version it ran on.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import bundledPolicy from './defaultPolicy.json';
+import type { OrchestratorPolicy, OrchestratorPolicyOverride, PolicyValidation } from './policyTypes';
+import { fnv1a } from '../engine/hash';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Limits
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type Range = readonly [min: number, max: number];
+type Limits<T> = { [K in keyof T]: T[K] extends number ? Range : Limits<T[K]> };
+
+const UNIT: Range = [0, 1];
+const SCALE_5: Range = [1, 5];
+const SCALE_7: Range = [1, 7];
+const HOURS: Range = [0, 24];
+const DAYS: Range = [0, 60];
+const SESSION_MINUTES: Range = [1, 180];
+const SESSIONS: Range = [0, 1000];
+
+/** Allowed range of every number. Keys outside this tree are rejected as typos. */
+export const POLICY_LIMITS: Limits<Omit<OrchestratorPolicy, 'version'>> = {
+    context: {
+        minConfidence: UNIT,
+        overloaded: { minStress: SCALE_5, minFatigue: SCALE_5 },
+        fatigued: { maxReadiness: UNIT, minFatigue: SCALE_5, shortSleepHours: HOURS },
+        emotionallyReactive: { minStress: SCALE_5, minNeuroticism: SCALE_7, minReactivity: UNIT },
+        drifting: { maxCompliance: UNIT, minDistraction: UNIT, minDaysIdle: DAYS },
+        performanceReady: { minReadiness: UNIT, minSleepHours: HOURS, maxFatigue: SCALE_5, maxAFI: UNIT },
+        opportunityWindow: { minReadiness: UNIT, maxAFI: UNIT, maxWeeklyMinutes: [0, 7 * 24 * 60] },
+        recovering: { maxReadiness: UNIT, minFatigue: SCALE_5 },
+    },
+    gap: {
+        weights: {
+            goalVsFocus: UNIT,
+            distractionDeviation: UNIT,
+            complianceGap: UNIT,
+            sessionSkipRate: UNIT,
+            recoveryNeglect: UNIT,
+        },
+        levels: { moderate: UNIT, high: UNIT, critical: UNIT },
+        goalFocus: { baseMinutes: [0, 3000], minutesPerUrgency: [0, 3000] },
+    },
+    strategy: {
+        authorityResistance: UNIT,
+        enforceReadiness: UNIT,
+        emotionalReactivity: UNIT,
+        lowSelfEfficacy: UNIT,
+        challengeSelfEfficacy: UNIT,
+        confidentSelfEfficacy: UNIT,
+        impulsivity: UNIT,
+        strictnessFatigue: UNIT,
+        delayFatigue: UNIT,
+    },
+    focus: {
+        emotionallyReactive: SESSION_MINUTES,
+        recovering: SESSION_MINUTES,
+        deepWorkBase: SESSION_MINUTES,
+        deepWorkPerStreakDay: [0, 30],
+        deepWorkMax: SESSION_MINUTES,
+        opportunityWindow: SESSION_MINUTES,
+        drifting: SESSION_MINUTES,
+        maintenance: SESSION_MINUTES,
+    },
+    meditation: {
+        overloaded: SESSION_MINUTES,
+        fatigued: SESSION_MINUTES,
+        performanceReady: SESSION_MINUTES,
+        regularSessions: SESSIONS,
+        regularMinutes: SESSION_MINUTES,
+        experiencedSessions: SESSIONS,
+        experiencedMinutes: SESSION_MINUTES,
+        beginnerMinutes: SESSION_MINUTES,
+    },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Validation
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type LimitNode = { [key: string]: Range | LimitNode };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Walk `value` against `limits`. Partial trees (overrides) may leave settings out. */
+function checkNode(limits: LimitNode, value: unknown, path: string, partial: boolean, errors: string[]): void {
+    if (!isRecord(value)) {
+        errors.push(`${path} must be an object`);
+        return;
+    }
+    for (const key of Object.keys(value)) {
+        if (!(key in limits)) errors.push(`${path}.${key} is not a policy setting`);
+    }
+    for (const [key, limit] of Object.entries(limits)) {
+        const at = `${path}.${key}`;
+        const v = value[key];
+        if (v === undefined) {
+            if (!partial) errors.push(`${at} is missing`);
+        } else if (!Array.isArray(limit)) {
+            checkNode(limit as LimitNode, v, at, partial, errors);
+        } else if (typeof v !== 'number' || !Number.isFinite(v)) {
+            errors.push(`${at} must be a number`);
+        } else if (v < limit[0] || v > limit[1]) {
+            errors.push(`${at} must be between ${limit[0]} and ${limit[1]} (got ${v})`);
+        }
+    }
+}
+
+/** Rules that span several settings; only run once every number is in range. */
+function checkConsistency(policy: OrchestratorPolicy, errors: string[]): void {
+    const weights = Object.values(policy.gap.weights).reduce((a, b) => a + b, 0);
+    if (Math.abs(weights - 1) > 0.001) {
+        errors.push(`gap.weights must sum to 1 (got ${Number(weights.toFixed(3))})`);
+    }
+    const { moderate, high, critical } = policy.gap.levels;
+    if (!(moderate < high && high < critical)) {
+        errors.push('gap.levels must rise from moderate to high to critical');
+    }
+    if (policy.focus.deepWorkBase > policy.focus.deepWorkMax) {
+        errors.push('focus.deepWorkBase must not exceed focus.deepWorkMax');
+    }
+    if (policy.meditation.regularSessions >= policy.meditation.experiencedSessions) {
+        errors.push('meditation.regularSessions must be below meditation.experiencedSessions');
+    }
+}
+
+/** Check a complete policy (the bundled file, or one with an override applied). */
+export function validatePolicy(raw: unknown): PolicyValidation<OrchestratorPolicy> {
+    const errors: string[] = [];
+    if (!isRecord(raw)) return { value: null, errors: ['policy must be an object'] };
+
+    const { version, ...settings } = raw;
+    if (typeof version !== 'string' || !version.trim()) errors.push('policy.version must be a non-empty string');
+    checkNode(POLICY_LIMITS as unknown as LimitNode, settings, 'policy', false, errors);
+    if (errors.length === 0) checkConsistency(raw as unknown as OrchestratorPolicy, errors);
+
+    return { value: errors.length === 0 ? raw as unknown as OrchestratorPolicy : null, errors };
+}
+
+/** Check an override on its own: known settings, numbers in range. */
+export function validatePolicyOverride(raw: unknown): PolicyValidation<OrchestratorPolicyOverride> {
+    const errors: string[] = [];
+    if (isRecord(raw) && 'version' in raw) {
+        errors.push('override.version is not allowed — the version comes from the bundled policy');
+        const { version: _version, ...rest } = raw;
+        raw = rest;
+    }
+    checkNode(POLICY_LIMITS as unknown as LimitNode, raw, 'override', true, errors);
+    return { value: errors.length === 0 ? raw as OrchestratorPolicyOverride : null, errors };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Overrides
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function mergeNode(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+    const merged = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        if (value === undefined) continue;
+        merged[key] = isRecord(value) && isRecord(base[key]) ? mergeNode(base[key] as Record<string, unknown>, value) : value;
+    }
+    return merged;
+}
+
+/** True for undefined and for objects that only nest further empty objects. */
+function isEmptyOverride(override: unknown): boolean {
+    if (override === undefined) return true;
+    return isRecord(override) && Object.values(override).every(isEmptyOverride);
+}
+
+/** FNV-1a, as short hex — tells apart versions with different overrides. */
+function fingerprint(text: string): string {
+    return fnv1a(text).toString(16).padStart(8, '0').slice(0, 6);
+}
+
+/**
+ * `base` with `override` applied and validated as a whole. The version
+ * becomes "<base>+user.<hash>" so directives show which override was live.
+ */
+export function applyPolicyOverride(
+    override: OrchestratorPolicyOverride | null | undefined,
+    base: OrchestratorPolicy = DEFAULT_ORCHESTRATOR_POLICY,
+): PolicyValidation<OrchestratorPolicy> {
+    if (override === null || isEmptyOverride(override)) return { value: base, errors: [] };
+
+    const own = validatePolicyOverride(override);
+    if (!own.value) return { value: null, errors: own.errors };
+
+    const merged = mergeNode(base as unknown as Record<string, unknown>, own.value as Record<string, unknown>);
+    merged.version = `${base.version}+user.${fingerprint(JSON.stringify(own.value))}`;
+    return validatePolicy(merged);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Bundled Policy
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const bundled = validatePolicy(bundledPolicy);
+if (!bundled.value) {
+    throw new Error(`Bundled orchestrator policy is invalid: ${bundled.errors.join('; ')}`);
+}
+
+/** The team policy from defaultPolicy.json. */
+export const DEFAULT_ORCHESTRATOR_POLICY: OrchestratorPolicy = bundled.value;
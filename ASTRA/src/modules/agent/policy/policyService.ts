@@ -0,0 +1,44 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Policy Service — The policy the live orchestrator runs on
+// Bundled policy plus the user's stored override. Overrides are validated
+// before they are saved and again on every load, since a later bundled
+// policy may no longer accept them.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { getPolicyOverride, setPolicyOverride } from '../../../storage/mmkvStore';
+import { DEFAULT_ORCHESTRATOR_POLICY, applyPolicyOverride } from './orchestratorPolicy';
+import type { OrchestratorPolicy, OrchestratorPolicyOverride, PolicyValidation } from './policyTypes';
+
+/** Bundled policy with the user's override applied (the bundled one alone if the override no longer fits). */
+export function getActivePolicy(): OrchestratorPolicy {
+    const resolved = applyPolicyOverride(getPolicyOverride());
+    if (resolved.value) return resolved.value;
+    console.warn(`[Policy] Ignoring stored override: ${resolved.errors.join('; ')}`);
+    return DEFAULT_ORCHESTRATOR_POLICY;
+}
+
+/** Save `override` if the resulting policy is valid. Returns that policy or the errors. */
+export function setUserPolicyOverride(override: OrchestratorPolicyOverride): PolicyValidation<OrchestratorPolicy> {
+    const resolved = applyPolicyOverride(override);
+    if (resolved.value) {
+        setPolicyOverride(override);
+        console.log(`[Policy] Override saved — now running ${resolved.value.version}`);
+    }
+    return resolved;
+}
+
+/** Parse and save an override typed as JSON (Settings → Orchestrator Policy). */
+export function importUserPolicyOverride(json: string): PolicyValidation<OrchestratorPolicy> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (err) {
+        return { value: null, errors: [`Not valid JSON: ${err instanceof Error ? err.message : String(err)}`] };
+    }
+    return setUserPolicyOverride(parsed as OrchestratorPolicyOverride);
+}
+
+export function clearUserPolicyOverride(): void {
+    setPolicyOverride(null);
+    console.log(`[Policy] Override cleared — back to ${DEFAULT_ORCHESTRATOR_POLICY.version}`);
+}
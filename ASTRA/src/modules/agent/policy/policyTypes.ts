@@ -0,0 +1,92 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Orchestrator Policy Types — The tunable numbers behind every rule stage
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { BehavioralGapScore } from '../types/orchestratorTypes';
+
+export interface OrchestratorPolicy {
+    /** Recorded with every directive; bump on any change to the bundled file. */
+    version: string;
+
+    /** Stage 2 — rule thresholds in UserState units (stress 1–5, rates 0–1…). */
+    context: {
+        /** Rules at or below this confidence are ignored. */
+        minConfidence: number;
+        overloaded: { minStress: number; minFatigue: number };
+        fatigued: { maxReadiness: number; minFatigue: number; shortSleepHours: number };
+        emotionallyReactive: { minStress: number; minNeuroticism: number; minReactivity: number };
+        drifting: { maxCompliance: number; minDistraction: number; minDaysIdle: number };
+        performanceReady: { minReadiness: number; minSleepHours: number; maxFatigue: number; maxAFI: number };
+        opportunityWindow: { minReadiness: number; maxAFI: number; maxWeeklyMinutes: number };
+        recovering: { maxReadiness: number; minFatigue: number };
+    };
+
+    /** Stage 3 — gap score. */
+    gap: {
+        /** Weight of each component in the overall score (sums to 1). */
+        weights: BehavioralGapScore['breakdown'];
+        /** Lowest overall score of each level above 'low'. */
+        levels: { moderate: number; high: number; critical: number };
+        /** Weekly focus expected at goal urgency u: baseMinutes + u × minutesPerUrgency. */
+        goalFocus: { baseMinutes: number; minutesPerUrgency: number };
+    };
+
+    /** Stage 4 — strategy, tone, strictness and timing. */
+    strategy: {
+        /** Above this, enforcement turns reflective and strictness drops. */
+        authorityResistance: number;
+        /** Critical gap enforces only above this readiness. */
+        enforceReadiness: number;
+        /** Above this, recovery and support always sound supportive. */
+        emotionalReactivity: number;
+        lowSelfEfficacy: number;
+        /** Reflective strategies challenge above this self-efficacy. */
+        challengeSelfEfficacy: number;
+        /** Enforcing turns sharp, opportunity turns challenging, above this. */
+        confidentSelfEfficacy: number;
+        /** Strictness goes up above this impulsivity. */
+        impulsivity: number;
+        /** Strictness goes down above this intervention fatigue. */
+        strictnessFatigue: number;
+        /** Nudges wait above this intervention fatigue. */
+        delayFatigue: number;
+    };
+
+    /** Stage 5 — recommended focus session length (minutes) per context mode. */
+    focus: {
+        emotionallyReactive: number;
+        recovering: number;
+        /** Performance-ready deep work: base + streak days × perStreakDay, capped at max. */
+        deepWorkBase: number;
+        deepWorkPerStreakDay: number;
+        deepWorkMax: number;
+        opportunityWindow: number;
+        drifting: number;
+        maintenance: number;
+    };
+
+    /** Stage 5 — meditation length (minutes): by mode first, then by experience. */
+    meditation: {
+        overloaded: number;
+        fatigued: number;
+        performanceReady: number;
+        /** Sessions done before the longer tiers apply. */
+        regularSessions: number;
+        regularMinutes: number;
+        experiencedSessions: number;
+        experiencedMinutes: number;
+        beginnerMinutes: number;
+    };
+}
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+/** A subset of the numbers, applied on top of the bundled policy (e.g. per user). */
+export type OrchestratorPolicyOverride = DeepPartial<Omit<OrchestratorPolicy, 'version'>>;
+
+export interface PolicyValidation<T> {
+    /** The checked value, or null when anything failed. */
+    value: T | null;
+    /** One line per problem, e.g. "gap.weights must sum to 1 (got 0.9)". */
+    errors: string[];
+}
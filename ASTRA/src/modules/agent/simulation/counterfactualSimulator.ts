@@ -0,0 +1,429 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Counterfactual Simulator — Replays stored history through the rule pipeline
+// Rebuilds each past day's UserState from health, meditation, pomodoro and
+// compliance records, runs stages 2–5 with the current and an alternative
+// policy, and diffs both against the directives that were actually issued.
+// Pure and headless: feed it a SimulationHistory (see simulationLoader.ts).
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+    BehavioralSignals,
+    DirectiveAuditRecord,
+    NudgeOutcome,
+    NudgePayload,
+    PersonalizationDirective,
+    SemiDynamicSignals,
+    UserState,
+} from '../types/orchestratorTypes';
+import type { PomodoroSession } from '../../focusTrainer/models/types';
+import { computeAFI } from '../../focusTrainer/math/attentionFragmentation';
+import { computeAttentionTrend } from '../../personalization/tracking/attentionEvolution';
+import { ATTENTION_CONFIG } from '../../personalization/models/personalizationConstants';
+import { currentFatigue, emptyBudgetState, recordDelivery, recordResponse, rollBudget } from '../../interventions/interventionBudget';
+import type { InterventionBudgetState } from '../../interventions/budgetTypes';
+import { extractDynamicSignals, extractStaticTraits } from '../engine/stateIngestion';
+import { runRulesPipeline } from '../engine/orchestrator';
+import { DEFAULT_ORCHESTRATOR_POLICY } from '../policy/orchestratorPolicy';
+import type { OrchestratorPolicy } from '../policy/policyTypes';
+import type { BanditState } from '../engine/strategyBandit';
+import type {
+    ActualDaySummary,
+    DayComparison,
+    SimulatedDecision,
+    SimulationField,
+    SimulationHistory,
+    SimulationReport,
+    SimulationSummary,
+} from './simulationTypes';
+
+const HOUR_MS = 3600 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const SIMULATION_CONFIG = {
+    /** Local hour each day is replayed at (the morning's check-in is in, the day is under way). */
+    replayHour: 12,
+    /** Same window the dashboard computes the live AFI over. */
+    afiWindowMs: HOUR_MS,
+    /** Weekly focus minutes and the compliance trend's recent half. */
+    recentWindowMs: 7 * DAY_MS,
+    /** Compliance and override rates look back this far. */
+    complianceWindowMs: 30 * DAY_MS,
+    /** Dismissals and deliveries this far back still weigh on intervention fatigue. */
+    fatigueWindowMs: 14 * DAY_MS,
+    /** Recent-vs-overall compliance change that counts as a trend. */
+    complianceTrendDelta: 0.10,
+} as const;
+
+const FIELDS: SimulationField[] = ['contextMode', 'strategyType', 'tone', 'nudgePriority'];
+
+const NO_MESSAGES: PersonalizationDirective['moduleMessages'] = { dashboard: '', focus: '', meditation: '', health: '' };
+
+export interface SimulationOptions {
+    /** First and last day to replay (YYYY-MM-DD, inclusive). Defaults to all stored days. */
+    from?: string;
+    to?: string;
+    /** Policy the alternative is compared with (defaults to the bundled one). */
+    baseline?: OrchestratorPolicy;
+    /** Learned strategy parameters; rules only by default so policies compare cleanly. */
+    bandit?: BanditState | null;
+    replayHour?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Days
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Day key of a timestamp. Health and meditation check-ins are stored under
+ * ISO (UTC) dates, so directives are bucketed the same way.
+ */
+export function simulationDay(at: number): string {
+    return new Date(at).toISOString().slice(0, 10);
+}
+
+/** Local time `hour` on `day`. */
+export function replayTime(day: string, hour: number = SIMULATION_CONFIG.replayHour): number {
+    const [y, m, d] = day.split('-').map(Number);
+    return new Date(y, m - 1, d, hour).getTime();
+}
+
+/** Every day that has a health check-in or an issued directive, oldest first. */
+function simulationDays(history: SimulationHistory, from?: string, to?: string): string[] {
+    const days = new Set<string>([
+        ...history.healthRecords.map(r => r.input.date),
+        ...history.directives.map(d => simulationDay(d.generatedAt)),
+    ]);
+    return [...days]
+        .filter(day => (!from || day >= from) && (!to || day <= to))
+        .sort();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// State Reconstruction
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function rate(hits: number, total: number, fallback: number): number {
+    return total > 0 ? hits / total : fallback;
+}
+
+/** Consecutive days with a finished session, up to `day` (or the day before, if today has none yet). */
+function focusStreak(sessions: PomodoroSession[], day: string): number {
+    const focusDays = new Set(sessions.filter(s => s.wasSuccessful).map(s => simulationDay(s.startTime)));
+    let cursor = Date.parse(`${day}T00:00:00Z`);
+    if (!focusDays.has(day)) cursor -= DAY_MS;
+
+    let streak = 0;
+    while (focusDays.has(simulationDay(cursor))) {
+        streak++;
+        cursor -= DAY_MS;
+    }
+    return streak;
+}
+
+function semiDynamicAt(history: SimulationHistory, day: string, at: number, before: PomodoroSession[]): SemiDynamicSignals {
+    const weekMs = before
+        .filter(s => s.startTime >= at - SIMULATION_CONFIG.recentWindowMs)
+        .reduce((sum, s) => sum + s.actualDuration, 0);
+    const streak = focusStreak(before, day);
+
+    const compliance = history.complianceEvents.filter(e => e.timestamp < at && e.timestamp >= at - SIMULATION_CONFIG.complianceWindowMs);
+    const recent = compliance.filter(e => e.timestamp >= at - SIMULATION_CONFIG.recentWindowMs);
+    const overallRate = rate(compliance.filter(e => e.wasSuccessful).length, compliance.length, 0.5);
+    const recentRate = rate(recent.filter(e => e.wasSuccessful).length, recent.length, overallRate);
+    const complianceDelta = recentRate - overallRate;
+
+    // Meditation sessions carry only a date, so the replayed day's own don't count yet
+    const meditations = history.meditationSessions.filter(s => s.date < day);
+    const ratings = meditations.map(s => s.rating);
+
+    return {
+        goalUrgency: history.goalUrgency ?? 0.5,
+        habitStreak: streak,
+        habitStrength: Math.min(streak / 21, 1),
+        attentionTrend: computeAttentionTrend(before.slice(-ATTENTION_CONFIG.maxHistory).map(s => ({
+            timestamp: s.startTime,
+            duration: s.actualDuration,
+            planned: s.plannedDuration,
+            wasSuccessful: s.wasSuccessful,
+        }))),
+        complianceTrend: complianceDelta > SIMULATION_CONFIG.complianceTrendDelta ? 'improving'
+            : complianceDelta < -SIMULATION_CONFIG.complianceTrendDelta ? 'declining'
+                : 'stable',
+        weeklyFocusMinutes: Math.round(weekMs / 60_000),
+        totalSessionCount: meditations.length,
+        averageMeditationRating: ratings.length > 0 ? ratings.reduce((a, b) => a + b, 0) / ratings.length : 3,
+    };
+}
+
+const RESPONSES = new Set<string>(['accepted', 'snoozed', 'dismissed'] satisfies NudgeOutcome[]);
+
+function isResponse(outcome: string | null): outcome is NudgeOutcome {
+    return outcome !== null && RESPONSES.has(outcome);
+}
+
+/** Intervention fatigue as the budget would have had it, from the delivered nudges and their outcomes. */
+function nudgeBudgetAt(directives: DirectiveAuditRecord[], at: number) {
+    const events: { at: number; apply: (state: InterventionBudgetState) => InterventionBudgetState }[] = [];
+    for (const { nudge } of directives) {
+        const shownAt = nudge?.shownAt ?? null;
+        if (!nudge || shownAt === null || shownAt >= at || shownAt < at - SIMULATION_CONFIG.fatigueWindowMs) continue;
+        events.push({
+            at: shownAt,
+            apply: state => recordDelivery(state, {
+                producer: 'orchestrator', channel: 'overlay', priority: nudge.priority, at: shownAt,
+            }),
+        });
+        // Unanswered ones (expired / stale-context) end without a response
+        const outcome = isResponse(nudge.outcome) ? nudge.outcome : null;
+        const { outcomeAt } = nudge;
+        if (outcome && outcomeAt !== null && outcomeAt < at) {
+            events.push({ at: outcomeAt, apply: state => recordResponse(state, outcome, outcomeAt) });
+        }
+    }
+
+    const state = events
+        .sort((a, b) => a.at - b.at)
+        .reduce((s, e) => e.apply(s), emptyBudgetState(at - SIMULATION_CONFIG.fatigueWindowMs));
+    return { state: rollBudget(state, at), fatigue: currentFatigue(state, at) };
+}
+
+function behavioralAt(history: SimulationHistory, day: string, at: number, before: PomodoroSession[]): BehavioralSignals {
+    const window = before.slice(-ATTENTION_CONFIG.windowSize);
+    const survival = rate(window.filter(s => s.wasSuccessful).length, window.length, 0.5);
+
+    const compliance = history.complianceEvents.filter(e => e.timestamp < at && e.timestamp >= at - SIMULATION_CONFIG.complianceWindowMs);
+    const shownToday = history.directives
+        .map(d => d.nudge)
+        .filter(n => n !== null && n.shownAt !== null && n.shownAt < at && simulationDay(n.shownAt) === day);
+    const dismissedToday = shownToday.filter(n => n!.outcome === 'dismissed' && n!.outcomeAt !== null && n!.outcomeAt < at);
+    const budget = nudgeBudgetAt(history.directives, at);
+
+    const last = before[before.length - 1];
+    return {
+        distractionRate: 1 - survival,
+        complianceRate: rate(compliance.filter(e => e.wasSuccessful).length, compliance.length, 0.7),
+        overrideFrequency: rate(compliance.filter(e => e.wasOverride).length, compliance.length, 0.1),
+        sessionSurvivalRate: survival,
+        nudgeDismissRate: rate(dismissedToday.length, shownToday.length, 0),
+        consecutiveDismissals: budget.state.consecutiveDismissals,
+        interventionFatigue: budget.fatigue,
+        lastSessionWasSuccessful: last ? last.wasSuccessful : true,
+        daysSinceLastFocus: last ? Math.floor((at - last.startTime) / DAY_MS) : 999,
+    };
+}
+
+/**
+ * The UserState the orchestrator would have built at `at` on `day`, from
+ * stored records only. Personalization values that have no history (goal
+ * drive, the Bayesian compliance matrix) are approximated from raw events.
+ */
+export function reconstructUserState(history: SimulationHistory, day: string, at: number): UserState {
+    const health = history.healthRecords.find(r => r.input.date === day) ?? null;
+    const meditationDay = history.meditationDays.find(r => r.input.date === day);
+    const before = history.pomodoros
+        .filter(s => s.startTime < at)
+        .sort((a, b) => a.startTime - b.startTime);
+
+    const usage = (history.usageSessions ?? [])
+        .filter(s => s.endTime > at - SIMULATION_CONFIG.afiWindowMs && s.startTime < at);
+    const afi = usage.length > 0 ? computeAFI(usage, SIMULATION_CONFIG.afiWindowMs, history.afiParameters, history.appTaxonomy).score : 0.5;
+
+    return {
+        timestamp: at,
+        static: extractStaticTraits(history.profile),
+        semiDynamic: semiDynamicAt(history, day, at, before),
+        dynamic: extractDynamicSignals(health, meditationDay?.computed.MSS ?? 50, afi, at),
+        behavioral: behavioralAt(history, day, at, before),
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Replay & Diff
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Stages 2–5 for one reconstructed state, without history smoothing or the LLM. */
+export function decide(
+    userState: UserState,
+    policy: OrchestratorPolicy,
+    bandit: BanditState | null = null,
+): SimulatedDecision {
+    const directive = runRulesPipeline(userState, NO_MESSAGES, {
+        policy,
+        bandit,
+        contextHistory: null,
+        now: userState.timestamp,
+    });
+    return {
+        contextMode: directive.contextState.mode,
+        contextConfidence: directive.contextState.confidence,
+        gapLevel: directive.behavioralGap.level,
+        gapScore: directive.behavioralGap.overall,
+        strategyType: directive.strategy.type,
+        tone: directive.tone,
+        strictness: directive.strictness,
+        plannerAdjustment: directive.plannerAdjustment,
+        nudgeTitle: directive.nudge?.title ?? null,
+        nudgePriority: directive.nudge?.priority ?? null,
+    };
+}
+
+/** Most frequent value; ties go to the one seen first. */
+function mostFrequent<T>(values: T[]): T {
+    const counts = new Map<T, number>();
+    for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+    let best = values[0];
+    for (const [v, n] of counts) if (n > counts.get(best)!) best = v;
+    return best;
+}
+
+/** What was issued on the day, or null when the orchestrator never ran. */
+export function summarizeActual(directives: DirectiveAuditRecord[]): ActualDaySummary | null {
+    if (directives.length === 0) return null;
+    const ordered = [...directives].sort((a, b) => a.generatedAt - b.generatedAt);
+    const nudges = ordered.flatMap(d => (d.nudge ? [d.nudge] : []));
+    return {
+        directives: ordered.length,
+        contextMode: mostFrequent(ordered.map(d => d.contextMode)),
+        strategyType: mostFrequent(ordered.map(d => d.strategyType)),
+        tone: mostFrequent(ordered.map(d => d.tone)),
+        nudgePriority: nudges.length > 0 ? mostFrequent(nudges.map(n => n.priority)) : null,
+        nudgesShown: nudges.filter(n => n.shownAt !== null).length,
+        nudgesDismissed: nudges.filter(n => n.outcome === 'dismissed').length,
+    };
+}
+
+function diffFields(
+    a: Pick<SimulatedDecision, SimulationField>,
+    b: Pick<SimulatedDecision, SimulationField>,
+): SimulationField[] {
+    return FIELDS.filter(field => a[field] !== b[field]);
+}
+
+/** Replay every stored day with the baseline and `alternative` policies. */
+export function simulateHistory(
+    history: SimulationHistory,
+    alternative: OrchestratorPolicy,
+    options: SimulationOptions = {},
+): SimulationReport {
+    const baselinePolicy = options.baseline ?? DEFAULT_ORCHESTRATOR_POLICY;
+    const bandit = options.bandit ?? null;
+    const byDay = new Map<string, DirectiveAuditRecord[]>();
+    for (const d of history.directives) {
+        const day = simulationDay(d.generatedAt);
+        byDay.set(day, [...(byDay.get(day) ?? []), d]);
+    }
+
+    const days = simulationDays(history, options.from, options.to).map((day): DayComparison => {
+        const at = replayTime(day, options.replayHour);
+        const userState = reconstructUserState(history, day, at);
+        const actual = summarizeActual(byDay.get(day) ?? []);
+        const baseline = decide(userState, baselinePolicy, bandit);
+        const alt = decide(userState, alternative, bandit);
+        return {
+            day,
+            at,
+            userState,
+            actual,
+            baseline,
+            alternative: alt,
+            changedFromActual: actual ? diffFields(alt, actual) : [],
+            changedFromBaseline: diffFields(alt, baseline),
+        };
+    });
+
+    return {
+        from: days[0]?.day ?? options.from ?? '',
+        to: days[days.length - 1]?.day ?? options.to ?? '',
+        days,
+        summary: summarize(days),
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Summary & Report
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function tally<T extends string>(values: T[]): Record<T, number> {
+    const counts = {} as Record<T, number>;
+    for (const v of values) counts[v] = (counts[v] ?? 0) + 1;
+    return counts;
+}
+
+function summarize(days: DayComparison[]): SimulationSummary {
+    const withActual = days.filter(d => d.actual !== null);
+    const agreement = (pick: (d: DayComparison) => SimulatedDecision) =>
+        Object.fromEntries(FIELDS.map(field => [
+            field,
+            rate(withActual.filter(d => pick(d)[field] === d.actual![field]).length, withActual.length, 0),
+        ])) as Record<SimulationField, number>;
+    const changed = days.filter(d => d.changedFromBaseline.length > 0);
+    const priorities = (values: (NudgePayload['priority'] | null)[]) =>
+        tally(values.filter((p): p is NudgePayload['priority'] => p !== null));
+
+    return {
+        days: days.length,
+        daysWithActual: withActual.length,
+        agreement: {
+            baseline: agreement(d => d.baseline),
+            alternative: agreement(d => d.alternative),
+        },
+        daysChangedByPolicy: changed.length,
+        modeShifts: tally(changed
+            .filter(d => d.changedFromBaseline.includes('contextMode'))
+            .map(d => `${d.baseline.contextMode} → ${d.alternative.contextMode}`)),
+        strategyShifts: tally(changed
+            .filter(d => d.changedFromBaseline.includes('strategyType'))
+            .map(d => `${d.baseline.strategyType} → ${d.alternative.strategyType}`)),
+        nudgePriorities: {
+            actual: priorities(withActual.map(d => d.actual!.nudgePriority)),
+            baseline: priorities(days.map(d => d.baseline.nudgePriority)),
+            alternative: priorities(days.map(d => d.alternative.nudgePriority)),
+        },
+    };
+}
+
+const FIELD_LABELS: Record<SimulationField, string> = {
+    contextMode: 'Context mode',
+    strategyType: 'Strategy',
+    tone: 'Tone',
+    nudgePriority: 'Nudge priority',
+};
+
+function pct(value: number): string {
+    return `${(value * 100).toFixed(0)}%`;
+}
+
+function formatCounts(counts: Record<string, number | undefined>): string {
+    const entries = Object.entries(counts).filter(([, n]) => n);
+    return entries.length > 0 ? entries.map(([k, n]) => `${k} ×${n}`).join(', ') : 'none';
+}
+
+/** Plain-text report for the console or a test snapshot. */
+export function formatSimulationReport(report: SimulationReport, options: { details?: boolean } = {}): string {
+    const { summary } = report;
+    const lines = [
+        `Counterfactual replay ${report.from} → ${report.to}: ${summary.days} days, ${summary.daysWithActual} with issued directives`,
+        '',
+        'Agreement with what was issued (baseline / alternative):',
+        ...FIELDS.map(field => `  ${FIELD_LABELS[field].padEnd(15)} ${pct(summary.agreement.baseline[field]).padStart(4)} / ${pct(summary.agreement.alternative[field])}`),
+        '',
+        `Days the alternative policy decides differently: ${summary.daysChangedByPolicy}`,
+        `  Mode shifts:     ${formatCounts(summary.modeShifts)}`,
+        `  Strategy shifts: ${formatCounts(summary.strategyShifts)}`,
+        '',
+        'Nudge priorities (days):',
+        `  Issued:      ${formatCounts(summary.nudgePriorities.actual)}`,
+        `  Baseline:    ${formatCounts(summary.nudgePriorities.baseline)}`,
+        `  Alternative: ${formatCounts(summary.nudgePriorities.alternative)}`,
+    ];
+
+    if (options.details) {
+        lines.push('', 'Per day (issued | baseline | alternative):');
+        for (const d of report.days) {
+            const issued = d.actual ? `${d.actual.contextMode}/${d.actual.strategyType}` : '—';
+            const mark = d.changedFromBaseline.length > 0 ? ' *' : '';
+            lines.push(`  ${d.day}  ${issued} | ${d.baseline.contextMode}/${d.baseline.strategyType} | ${d.alternative.contextMode}/${d.alternative.strategyType}${mark}`);
+        }
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,80 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Simulation Loader — Gathers stored history for the counterfactual simulator
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+    getComplianceEventsInRange,
+    getDirectivesInRange,
+    getHealthDayRecords,
+    getMeditationDayRecords,
+    getMeditationSessions,
+    getPomodoroSessionsInRange,
+    getUsageSessionsInRange,
+} from '../../../database/repository';
+import { getPersonalizationState, getUserProfile } from '../../../storage/mmkvStore';
+import { getAFIParameters } from '../../focusTrainer/services/CalibrationService';
+import { getAppTaxonomy } from '../../focusTrainer/services/AppTaxonomyService';
+import { applyPolicyOverride } from '../policy/orchestratorPolicy';
+import { getActivePolicy } from '../policy/policyService';
+import type { OrchestratorPolicyOverride } from '../policy/policyTypes';
+import { SIMULATION_CONFIG, formatSimulationReport, simulateHistory, type SimulationOptions } from './counterfactualSimulator';
+import type { SimulationHistory, SimulationReport } from './simulationTypes';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+/**
+ * Everything stored between `from` and `to` (YYYY-MM-DD, inclusive), plus
+ * enough earlier behavior for the rolling windows of the first day.
+ */
+export async function loadSimulationHistory(from: string, to: string): Promise<SimulationHistory> {
+    const start = Date.parse(`${from}T00:00:00Z`) - DAY_MS;
+    const end = Date.parse(`${to}T00:00:00Z`) + 2 * DAY_MS;
+    const lookback = start - SIMULATION_CONFIG.complianceWindowMs;
+    const lookbackDay = new Date(lookback).toISOString().slice(0, 10);
+
+    const [healthRecords, meditationDays, meditationSessions, pomodoros, complianceEvents, usageSessions, directives] =
+        await Promise.all([
+            getHealthDayRecords(from),
+            getMeditationDayRecords(),
+            getMeditationSessions(),
+            getPomodoroSessionsInRange(lookback, end),
+            getComplianceEventsInRange(lookback, end),
+            getUsageSessionsInRange(start, end),
+            getDirectivesInRange(lookback, end),
+        ]);
+
+    return {
+        profile: getUserProfile(),
+        goalUrgency: getPersonalizationState()?.goalDriveScore,
+        healthRecords: healthRecords.filter(r => r.input.date <= to),
+        meditationDays: meditationDays.filter(r => r.input.date >= lookbackDay && r.input.date <= to),
+        meditationSessions,
+        pomodoros,
+        complianceEvents,
+        usageSessions,
+        afiParameters: getAFIParameters(),
+        appTaxonomy: getAppTaxonomy(),
+        directives,
+    };
+}
+
+/**
+ * Replay the last `days` days with `override` applied to the live policy and
+ * log the report. For tuning sessions from a dev build or the debugger.
+ */
+export async function runCounterfactual(
+    override: OrchestratorPolicyOverride,
+    days: number = 30,
+    options: Omit<SimulationOptions, 'from' | 'to'> = {},
+): Promise<SimulationReport> {
+    const live = getActivePolicy();
+    const alternative = applyPolicyOverride(override, live);
+    if (!alternative.value) throw new Error(`Invalid policy override: ${alternative.errors.join('; ')}`);
+
+    const to = new Date().toISOString().slice(0, 10);
+    const from = new Date(Date.now() - (days - 1) * DAY_MS).toISOString().slice(0, 10);
+    const history = await loadSimulationHistory(from, to);
+    const report = simulateHistory(history, alternative.value, { baseline: live, ...options, from, to });
+    console.log(`[Simulator]\n${formatSimulationReport(report)}`);
+    return report;
+}
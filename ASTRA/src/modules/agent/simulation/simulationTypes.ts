@@ -0,0 +1,111 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Counterfactual Simulation Types — Replaying stored history through the rules
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { HealthDayRecord, MeditationDayRecord, MeditationSessionRecord } from '../../shared/types';
+import type { UserProfile, NudgeTone } from '../../onboarding/models/onboardingTypes';
+import type { AFIParameters, AppTaxonomy, AppUsageSession, PomodoroSession } from '../../focusTrainer/models/types';
+import type { ComplianceEvent, StrictnessLevel } from '../../personalization/models/personalizationTypes';
+import type {
+    BehavioralGapScore,
+    ContextMode,
+    DirectiveAuditRecord,
+    NudgePayload,
+    PersonalizationDirective,
+    StrategyType,
+    UserState,
+} from '../types/orchestratorTypes';
+
+/** Everything stored that a past day's UserState is rebuilt from. */
+export interface SimulationHistory {
+    /** Current onboarding profile (traits are treated as stable). */
+    profile: UserProfile | null;
+    /** Current goal drive; it has no history, so every day uses it. */
+    goalUrgency?: number;
+    healthRecords: HealthDayRecord[];
+    meditationDays: MeditationDayRecord[];
+    meditationSessions: MeditationSessionRecord[];
+    pomodoros: PomodoroSession[];
+    complianceEvents: ComplianceEvent[];
+    /** Phone usage for AFI; without it AFI falls back to a neutral 0.5. */
+    usageSessions?: AppUsageSession[];
+    /** The user's AFI calibration; without it AFI uses the bundled parameters. */
+    afiParameters?: AFIParameters;
+    /** App categories; without them AFI treats every app alike. */
+    appTaxonomy?: AppTaxonomy;
+    /** What the live orchestrator actually issued (with nudge outcomes). */
+    directives: DirectiveAuditRecord[];
+}
+
+/** The fields a simulated day is compared on. */
+export type SimulationField = 'contextMode' | 'strategyType' | 'tone' | 'nudgePriority';
+
+/** One run of the rules for a day. */
+export interface SimulatedDecision {
+    contextMode: ContextMode;
+    contextConfidence: number;
+    gapLevel: BehavioralGapScore['level'];
+    gapScore: number;
+    strategyType: StrategyType;
+    tone: NudgeTone;
+    strictness: StrictnessLevel;
+    plannerAdjustment: PersonalizationDirective['plannerAdjustment'];
+    nudgeTitle: string | null;
+    nudgePriority: NudgePayload['priority'] | null;
+}
+
+/** What was issued on the day, reduced to its most frequent values. */
+export interface ActualDaySummary {
+    directives: number;
+    contextMode: ContextMode;
+    strategyType: StrategyType;
+    tone: NudgeTone;
+    /** Most frequent priority of the nudges generated; null when there were none. */
+    nudgePriority: NudgePayload['priority'] | null;
+    /** Generated nudges that were delivered (queued, dropped or suppressed ones aren't). */
+    nudgesShown: number;
+    nudgesDismissed: number;
+}
+
+export interface DayComparison {
+    /** Local YYYY-MM-DD. */
+    day: string;
+    /** Moment the day was replayed at. */
+    at: number;
+    userState: UserState;
+    actual: ActualDaySummary | null;
+    baseline: SimulatedDecision;
+    alternative: SimulatedDecision;
+    /** Fields where the alternative differs from what was issued. */
+    changedFromActual: SimulationField[];
+    /** Fields where the alternative differs from the baseline replay. */
+    changedFromBaseline: SimulationField[];
+}
+
+export interface SimulationSummary {
+    days: number;
+    daysWithActual: number;
+    /** Share of days with directives where each replay matched what was issued. */
+    agreement: {
+        baseline: Record<SimulationField, number>;
+        alternative: Record<SimulationField, number>;
+    };
+    /** Days the alternative policy decided differently from the baseline. */
+    daysChangedByPolicy: number;
+    /** "baseline → alternative" counts, for days where they differ. */
+    modeShifts: Record<string, number>;
+    strategyShifts: Record<string, number>;
+    /** Days per nudge priority. */
+    nudgePriorities: {
+        actual: Partial<Record<NudgePayload['priority'], number>>;
+        baseline: Partial<Record<NudgePayload['priority'], number>>;
+        alternative: Partial<Record<NudgePayload['priority'], number>>;
+    };
+}
+
+export interface SimulationReport {
+    from: string;
+    to: string;
+    days: DayComparison[];
+    summary: SimulationSummary;
+}
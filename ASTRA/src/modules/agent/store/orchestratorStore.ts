@@ -4,11 +4,60 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 import { create } from 'zustand';
-import type { PersonalizationDirective, NudgePayload, ContextMode } from '../types/orchestratorTypes';
+import { AppState } from 'react-native';
+import type {
+    PersonalizationDirective,
+    NudgePayload,
+    ContextMode,
+    NudgeOutcome,
+    NudgeUndelivered,
+} from '../types/orchestratorTypes';
 import type { UserProfile } from '../../onboarding/models/onboardingTypes';
 import type { PersonalizationState } from '../../personalization/models/personalizationTypes';
 import type { HealthDayRecord } from '../../shared/types';
 import { runOrchestrator } from '../engine/orchestrator';
+import {
+    insertDirectiveAudit,
+    markNudgeShown,
+    recordNudgeOutcome,
+    recordNudgeUnanswered,
+    recordNudgeUndelivered,
+} from '../../../database/repository';
+import {
+    getBanditState,
+    getContextHistory,
+    getNudgeQueue,
+    setBanditState,
+    setNudgeQueue,
+} from '../../../storage/mmkvStore';
+import {
+    discardDecision,
+    markDecisionShown,
+    moveDecision,
+    recordDecision,
+    recordFocus,
+    recordOutcome,
+    settleExpired,
+} from '../engine/strategyBandit';
+import {
+    enqueueNudge,
+    pendingNudges,
+    requeueNudge,
+    takeDueNudge,
+    takeNudgesById,
+    type DroppedNudge,
+} from '../engine/nudgeScheduler';
+import { useFocusStore } from '../../focusTrainer/store/focusStore';
+import { getContextTimeline, type ContextTimeline } from '../engine/contextTimeline';
+import { recordInterventionResponse, requestIntervention } from '../../interventions/budgetService';
+import {
+    deliverNudgeNotification,
+    getNotificationChannel,
+    recordScheduledDelivery,
+    scheduleNudgeNotifications,
+} from '../notifications/notificationChannel';
+import type { NotificationResponse } from '../notifications/notificationTypes';
+import { usePlannerStore } from '../../planner/plannerStore';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Store Interface
@@ -19,9 +68,15 @@ interface OrchestratorStoreState {
     directive: PersonalizationDirective | null;
     currentNudge: NudgePayload | null;
     contextMode: ContextMode | null;
+    /** Today's stabilized mode spans ("drifting since 2pm"). */
+    timeline: ContextTimeline | null;
     isLoading: boolean;
     lastRunAt: number | null;
     nudgeHistory: NudgePayload[];
+    /** Nudges sent as notifications and not yet answered. */
+    notifiedNudges: NudgePayload[];
+    /** Screen a notification's navigate button asked for (consumed by Navigation). */
+    pendingNavigation: string | null;
     error: string | null;
 
     // Actions
@@ -29,6 +84,22 @@ interface OrchestratorStoreState {
     dismissNudge: () => void;
     snoozeNudge: (delayMs?: number) => void;
     acceptNudge: () => void;
+    /**
+     * Show the next queued nudge that is due: in the overlay while the app is
+     * open, as a notification while it is in the background. Either way it
+     * must pass the intervention budget.
+     */
+    deliverDueNudges: (background?: boolean) => Promise<void>;
+    /**
+     * Take in the scheduled notifications the OS posted while JS was
+     * suspended: off the queue, stamped as shown and counted in the budget.
+     */
+    collectScheduledNotifications: () => Promise<void>;
+    /** Apply a notification button press as accept / snooze / dismiss. */
+    handleNotificationResponse: (response: NotificationResponse) => void;
+    consumeNavigation: () => string | null;
+    /** Credit a finished focus session to the nudge that preceded it. */
+    recordFocusFollowUp: (minutes: number, startedAt: number) => void;
     clearDirective: () => void;
     getDirective: () => PersonalizationDirective | null;
     getNudge: () => NudgePayload | null;
@@ -51,14 +122,110 @@ export interface OrchestratorParams {
 
 const COOLDOWN_MS = 10_000; // 10s cooldown for testing (increase to 60s in production)
 
+// Audit writes are best-effort: a failed insert must never block the UI.
+// They run one after another so a delivery stamp never lands before the
+// insert of the nudge it updates.
+let auditChain: Promise<void> = Promise.resolve();
+
+function audit(what: string, write: () => Promise<unknown>): void {
+    auditChain = auditChain
+        .then(write)
+        .then(() => undefined, err => console.warn(`[Orchestrator] Failed to ${what}:`, err));
+}
+
+function auditDirective(directive: PersonalizationDirective): void {
+    audit('write directive audit', () => insertDirectiveAudit(directive));
+}
+
+function auditOutcome(nudgeId: string | undefined, outcome: NudgeOutcome): void {
+    if (!nudgeId) return;
+    audit('record nudge outcome', () => recordNudgeOutcome(nudgeId, outcome));
+}
+
+function auditShown(nudge: NudgePayload, at: number): void {
+    audit('record nudge delivery', () => markNudgeShown(nudge.id, at));
+}
+
+// A nudge reached the user: stamp the audit row and start the bandit's follow-up window.
+function noteShown(nudge: NudgePayload, at: number): void {
+    auditShown(nudge, at);
+    setBanditState(markDecisionShown(getBanditState(), nudge.id, at));
+}
+
+function auditUndelivered(nudge: NudgePayload, reason: NudgeUndelivered): void {
+    audit('record undelivered nudge', () => recordNudgeUndelivered(nudge.id, reason));
+}
+
+// Bandit bookkeeping: the nudge's arm waits in `pending` until its reward is known.
+function learnFromDirective(directive: PersonalizationDirective): void {
+    const now = Date.now();
+    const queuedIds = new Set(getNudgeQueue().items.map(item => item.nudge.id));
+    let bandit = settleExpired(getBanditState(), now, queuedIds);
+    if (directive.nudge && directive.strategy.bandit) {
+        bandit = recordDecision(bandit, directive.nudge.id, directive.strategy.bandit, now);
+    }
+    setBanditState(bandit);
+}
+
+function learnFromOutcome(nudgeId: string | undefined, outcome: NudgeOutcome): void {
+    if (!nudgeId) return;
+    setBanditState(recordOutcome(getBanditState(), nudgeId, outcome, Date.now()));
+}
+
+// Nudges that never reached the screen teach the bandit nothing.
+function forgetDropped(dropped: DroppedNudge[]): void {
+    if (dropped.length === 0) return;
+    let bandit = getBanditState();
+    for (const { nudge, reason } of dropped) {
+        console.log(`[NudgeScheduler] Dropped "${nudge.title}" (${reason})`);
+        auditUndelivered(nudge, reason);
+        bandit = discardDecision(bandit, nudge.id);
+    }
+    setBanditState(bandit);
+}
+
+// Suppressed nudges were never shown either; the budget has logged why.
+function forgetSuppressed(nudge: NudgePayload): void {
+    auditUndelivered(nudge, 'suppressed');
+    setBanditState(discardDecision(getBanditState(), nudge.id));
+}
+
+// An overlay left unanswered until it expired or its context passed was
+// shown, but there is no response to learn from; its decision goes too.
+function forgetUnanswered(nudge: NudgePayload, reason: 'expired' | 'stale-context'): void {
+    console.log(`[NudgeScheduler] Unanswered "${nudge.title}" (${reason})`);
+    audit('record unanswered nudge', () => recordNudgeUnanswered(nudge.id, reason));
+    setBanditState(discardDecision(getBanditState(), nudge.id));
+}
+
+// In the background the OS posts the rest of the queue at its time, since JS
+// timers stop; in the foreground the overlay takes over and nothing is scheduled.
+async function syncScheduledNotifications(background: boolean, contextMode: ContextMode | null): Promise<void> {
+    const channel = getNotificationChannel();
+    if (!channel.isAvailable()) return;
+    try {
+        if (!background) {
+            await channel.schedule([]);
+            return;
+        }
+        const now = Date.now();
+        await scheduleNudgeNotifications(channel, pendingNudges(getNudgeQueue(), now, contextMode), now);
+    } catch (err) {
+        console.warn('[Notifications] Failed to schedule nudges:', err);
+    }
+}
+
 export const useOrchestratorStore = create<OrchestratorStoreState>((set, get) => ({
     // Initial state
     directive: null,
     currentNudge: null,
     contextMode: null,
+    timeline: null,
     isLoading: false,
     lastRunAt: null,
     nudgeHistory: [],
+    notifiedNudges: [],
+    pendingNavigation: null,
     error: null,
 
     // ── Run the full orchestrator pipeline ───────────────────────────────
@@ -86,16 +253,43 @@ export const useOrchestratorStore = create<OrchestratorStoreState>((set, get) =>
                 params.meditationAvgRating,
             );
 
+            auditDirective(directive);
+            learnFromDirective(directive);
+
+            // Queue the nudge by its timing instead of showing it straight away
+            if (directive.nudge) {
+                const { queue, replaced, dropped } = enqueueNudge(
+                    getNudgeQueue(),
+                    directive.nudge,
+                    directive.strategy.timing,
+                    Date.now(),
+                    useFocusStore.getState().focusHeatmap,
+                );
+                setNudgeQueue(queue);
+                if (replaced) {
+                    auditUndelivered(replaced, 'superseded');
+                    setBanditState(moveDecision(getBanditState(), replaced.id, directive.nudge.id));
+                }
+                forgetDropped(dropped);
+            }
+
             set({
                 directive,
-                currentNudge: directive.nudge ?? null,
                 contextMode: directive.contextState.mode,
+                timeline: getContextTimeline(getContextHistory(), Date.now()),
                 isLoading: false,
                 lastRunAt: Date.now(),
                 nudgeHistory: directive.nudge
                     ? [...get().nudgeHistory.slice(-19), directive.nudge]
                     : get().nudgeHistory,
             });
+            get().deliverDueNudges();
+
+            // The planner acts on delay / reduce-load / reschedule (once per change)
+            usePlannerStore.getState().applyPlannerAdjustment(
+                directive.plannerAdjustment,
+                params.healthRecord?.computed.AttentionCapacity,
+            );
         } catch (err) {
             console.error('[Orchestrator] Pipeline failed:', err);
             set({
@@ -107,6 +301,9 @@ export const useOrchestratorStore = create<OrchestratorStoreState>((set, get) =>
 
     // ── Nudge Interactions ───────────────────────────────────────────────
     dismissNudge: () => {
+        auditOutcome(get().currentNudge?.id, 'dismissed');
+        learnFromOutcome(get().currentNudge?.id, 'dismissed');
+        if (get().currentNudge) recordInterventionResponse('dismissed');
         set({ currentNudge: null });
     },
 
@@ -114,23 +311,151 @@ export const useOrchestratorStore = create<OrchestratorStoreState>((set, get) =>
         const nudge = get().currentNudge;
         if (!nudge) return;
 
+        auditOutcome(nudge.id, 'snoozed');
+        learnFromOutcome(nudge.id, 'snoozed');
+        recordInterventionResponse('snoozed');
         set({ currentNudge: null });
 
-        // Re-show the nudge after delay
-        setTimeout(() => {
-            const current = get().currentNudge;
-            if (!current) {
-                set({ currentNudge: nudge });
-            }
-        }, delayMs);
+        // Re-queue so the snooze survives a restart; re-check once it is due.
+        // If the app is backgrounded first, the OS posts it instead.
+        const now = Date.now();
+        setNudgeQueue(requeueNudge(getNudgeQueue(), nudge, now + delayMs, now));
+        setTimeout(() => get().deliverDueNudges(), delayMs);
     },
 
     acceptNudge: () => {
+        auditOutcome(get().currentNudge?.id, 'accepted');
+        learnFromOutcome(get().currentNudge?.id, 'accepted');
+        if (get().currentNudge) recordInterventionResponse('accepted');
         set({ currentNudge: null });
     },
 
+    deliverDueNudges: async (background = AppState.currentState !== 'active') => {
+        const { contextMode } = get();
+        const now = Date.now();
+
+        // ── Background: reach the user through a notification ────────────
+        if (background) {
+            const channel = getNotificationChannel();
+            if (!channel.isAvailable()) return;
+
+            const { nudge, queue, dropped } = takeDueNudge(getNudgeQueue(), now, contextMode);
+            setNudgeQueue(queue);
+            forgetDropped(dropped);
+
+            if (nudge) {
+                try {
+                    const result = await deliverNudgeNotification(channel, nudge, now);
+                    if (result.delivered) {
+                        noteShown(nudge, now);
+                        set({ notifiedNudges: [...get().notifiedNudges.slice(-9), nudge] });
+                    } else {
+                        forgetSuppressed(nudge);
+                    }
+                } catch (err) {
+                    console.warn('[Notifications] Failed to post nudge:', err);
+                }
+            }
+            await syncScheduledNotifications(true, contextMode);
+            return;
+        }
+
+        // ── Foreground: the overlay ──────────────────────────────────────
+        // Whatever the OS posted meanwhile is off the queue before it is read
+        await get().collectScheduledNotifications();
+        await syncScheduledNotifications(false, contextMode);
+
+        // Read after the awaits: the user may have answered meanwhile
+        const { currentNudge } = get();
+        if (currentNudge) {
+            if (currentNudge.contextMode !== contextMode) {
+                forgetUnanswered(currentNudge, 'stale-context');
+            } else if (currentNudge.expiresAt !== undefined && currentNudge.expiresAt <= now) {
+                forgetUnanswered(currentNudge, 'expired');
+            } else {
+                return;
+            }
+        }
+
+        const { nudge, queue, dropped } = takeDueNudge(getNudgeQueue(), now, contextMode);
+        setNudgeQueue(queue);
+        forgetDropped(dropped);
+
+        const decision = nudge && requestIntervention({
+            producer: 'orchestrator',
+            channel: 'overlay',
+            priority: nudge.priority,
+            at: now,
+            label: nudge.title,
+        });
+        if (nudge && !decision?.allowed) forgetSuppressed(nudge);
+        if (nudge && decision?.allowed) noteShown(nudge, now);
+        set({ currentNudge: decision?.allowed ? nudge : null });
+    },
+
+    collectScheduledNotifications: async () => {
+        // Read even if posting has since been turned off: these were shown
+        try {
+            const delivered = await getNotificationChannel().consumeDelivered();
+            if (delivered.length === 0) return;
+
+            const postedAt = new Map(delivered.map(d => [d.nudgeId, d.at]));
+            const { taken, queue } = takeNudgesById(getNudgeQueue(), [...postedAt.keys()]);
+            setNudgeQueue(queue);
+            for (const nudge of taken) {
+                const at = postedAt.get(nudge.id) ?? Date.now();
+                recordScheduledDelivery(nudge, at);
+                noteShown(nudge, at);
+            }
+            set({ notifiedNudges: [...get().notifiedNudges, ...taken].slice(-10) });
+        } catch (err) {
+            console.warn('[Notifications] Failed to read scheduled deliveries:', err);
+        }
+    },
+
+    handleNotificationResponse: (response: NotificationResponse) => {
+        const nudge = get().notifiedNudges.find(n => n.id === response.nudgeId);
+        set({ notifiedNudges: get().notifiedNudges.filter(n => n.id !== response.nudgeId) });
+
+        switch (response.action) {
+            case 'dismiss':
+                auditOutcome(response.nudgeId, 'dismissed');
+                learnFromOutcome(response.nudgeId, 'dismissed');
+                recordInterventionResponse('dismissed', response.at);
+                break;
+            case 'snooze':
+                auditOutcome(response.nudgeId, 'snoozed');
+                learnFromOutcome(response.nudgeId, 'snoozed');
+                recordInterventionResponse('snoozed', response.at);
+                // Known payload → show it again in 5 min (scheduled with the OS if still backgrounded)
+                if (nudge) {
+                    const at = Date.now() + 300_000;
+                    setNudgeQueue(requeueNudge(getNudgeQueue(), nudge, at, Date.now()));
+                    get().deliverDueNudges();
+                }
+                break;
+            case 'accept':
+            case 'navigate':
+                auditOutcome(response.nudgeId, 'accepted');
+                learnFromOutcome(response.nudgeId, 'accepted');
+                recordInterventionResponse('accepted', response.at);
+                if (response.action === 'navigate' && response.target) set({ pendingNavigation: response.target });
+                break;
+        }
+    },
+
+    consumeNavigation: () => {
+        const target = get().pendingNavigation;
+        if (target) set({ pendingNavigation: null });
+        return target;
+    },
+
+    recordFocusFollowUp: (minutes: number, startedAt: number) => {
+        setBanditState(recordFocus(getBanditState(), minutes, startedAt));
+    },
+
     // ── Getters ──────────────────────────────────────────────────────────
-    clearDirective: () => set({ directive: null, currentNudge: null, contextMode: null }),
+    clearDirective: () => set({ directive: null, currentNudge: null, contextMode: null, timeline: null }),
     getDirective: () => get().directive,
     getNudge: () => get().currentNudge,
 }));
@@ -96,6 +96,8 @@ export interface ContextState {
     confidence: number;           // 0–1, how certain the inference is
     signals: string[];            // human-readable reasons
     secondaryMode?: ContextMode;  // possible alternative
+    since?: number;               // start of the current mode span (see contextTimeline)
+    previousMode?: ContextMode;   // mode held before this span
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -133,6 +135,22 @@ export interface InterventionStrategy {
     timing: 'immediate' | 'delayed' | 'scheduled';
     modality: InterventionType;
     rationale: string;
+    /** Set when the strategy bandit was consulted (see engine/strategyBandit). */
+    bandit?: BanditDecision;
+}
+
+/** Which StrategyType × NudgeTone arm was played, and the context it saw. */
+export interface BanditDecision {
+    /** `${type}/${tone}` */
+    arm: string;
+    type: StrategyType;
+    tone: NudgeTone;
+    /** Feature vector in BANDIT_FEATURES order — needed to credit the reward later. */
+    features: number[];
+    /** True when the learner overrode the rule-based choice. */
+    learned: boolean;
+    /** Predicted reward for the chosen arm; null during cold start. */
+    estimatedReward: number | null;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -176,7 +194,31 @@ export interface PersonalizationDirective {
     // Meta
     rationale: string;             // human-readable explanation
     generatedAt: number;
-    source: 'rules' | 'llm' | 'hybrid';
+    source: 'rules' | 'llm' | 'hybrid' | 'template';
+    /** OrchestratorPolicy version the rules ran on (absent on directives logged before policies). */
+    policyVersion?: string;
+    /** Per-stage reasoning behind this directive (absent on directives logged before tracing). */
+    trace?: TraceEntry[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Directive Trace — structured "why" for the Why this? screen
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type TraceStage = 'state' | 'context' | 'gap' | 'strategy' | 'directive' | 'llm';
+
+export type TraceValue = number | string | boolean | null;
+
+export interface TraceEntry {
+    stage: TraceStage;
+    /** Which decision this is, e.g. "Strategy type" or "Rule: overloaded". */
+    step: string;
+    /** Values the step looked at (numbers rounded for display). */
+    inputs: Record<string, TraceValue>;
+    /** Thresholds crossed, e.g. "stress 5 ≥ 4". */
+    thresholds: string[];
+    /** Branch taken / value chosen. */
+    outcome: string;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -219,3 +261,59 @@ export interface LLMResponse {
     rationale: string;
     confidence: number;
 }
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Directive Audit Log
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Latest user response to a nudge; snoozed nudges can still end accepted/dismissed. */
+export type NudgeOutcome = 'accepted' | 'snoozed' | 'dismissed';
+
+/** Why a generated nudge never reached the user (queue drop or budget suppression). */
+export type NudgeUndelivered = 'expired' | 'stale-context' | 'superseded' | 'suppressed';
+
+export interface NudgeAuditRecord {
+    nudgeId: string;
+    directiveId: number;
+    title: string;
+    message: string;
+    tone: NudgeTone;
+    priority: NudgePayload['priority'];
+    /** When the overlay or notification went out; null while queued or if never delivered. */
+    shownAt: number | null;
+    outcome: NudgeOutcome | NudgeUndelivered | null;
+    outcomeAt: number | null;
+    snoozeCount: number;
+    /** pomodoro_sessions.id of the first focus session started after the nudge. */
+    followUpSessionId: number | null;
+    followUpAt: number | null;
+}
+
+export interface DirectiveAuditRecord {
+    id: number;
+    generatedAt: number;
+    contextMode: ContextMode;
+    contextConfidence: number;
+    gap: BehavioralGapScore;
+    strategyType: StrategyType;
+    tone: NudgeTone;
+    strictness: StrictnessLevel;
+    source: PersonalizationDirective['source'];
+    rationale: string;
+    policyVersion: string | null;
+    nudge: NudgeAuditRecord | null;
+}
+
+/** Per-strategy outcome counts for the history view. */
+export interface StrategyOutcomeSummary {
+    strategyType: StrategyType;
+    directives: number;
+    /** Nudges that were delivered. */
+    nudges: number;
+    accepted: number;
+    snoozed: number;
+    dismissed: number;
+    /** Generated but dropped from the queue or suppressed by the budget. */
+    undelivered: number;
+    followedUp: number;
+}
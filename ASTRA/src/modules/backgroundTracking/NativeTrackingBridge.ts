@@ -4,6 +4,7 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 import { NativeModules, NativeEventEmitter, Platform } from 'react-native';
+import AstraUsageEvents from '../../../modules/astra-usage-events';
 
 const { AstraTrackingModule } = NativeModules;
 
@@ -116,6 +117,25 @@ export async function getTodaySessions(): Promise<AppSession[]> {
     }
 }
 
+/**
+ * Whether the native build can query raw usage events (the local
+ * astra-usage-events module). Builds without it only record sessions
+ * (getTodaySessions).
+ */
+export function hasUsageEventQuery(): boolean {
+    return Platform.OS === 'android' && AstraUsageEvents != null;
+}
+
+/**
+ * Get raw usage events (foreground/background, screen, keyguard) between two
+ * times as an "astra.usage-events" recording JSON string.
+ * Null when the native build has no event query.
+ */
+export async function getUsageEventRecording(startTime: number, endTime: number): Promise<string | null> {
+    if (!hasUsageEventQuery() || !AstraUsageEvents) return null;
+    return AstraUsageEvents.getUsageEvents(startTime, endTime);
+}
+
 /**
  * Get the currently active foreground app.
  */
@@ -5,6 +5,8 @@
 
 import { useEffect, useCallback, useRef, useState } from 'react';
 import { useOrchestratorStore } from '../agent/store/orchestratorStore';
+import { requestIntervention } from '../interventions/budgetService';
+import { ingestUsageEvents } from '../focusTrainer/services/UsageStatsService';
 import {
     startTracking,
     stopTracking,
@@ -23,6 +25,31 @@ import {
     type DailyMetrics,
 } from './NativeTrackingBridge';
 
+// ── Budget Gate ──────────────────────────────────────────────────────────────
+
+// Native detections only surface in the app if the intervention budget allows.
+function admitNativeIntervention(event: InterventionEvent): boolean {
+    const decision = requestIntervention({
+        producer: event.type === 'SPIRAL' ? 'native-spiral' : 'native-binge',
+        channel: 'overlay',
+        priority: 'high',
+        at: Date.now(),
+        label: event.triggerApp,
+    });
+    return decision.allowed;
+}
+
+// ── Usage Ingestion ──────────────────────────────────────────────────────────
+
+// Pull the event stream into app_usage_sessions; failures only cost freshness.
+async function ingestUsage(): Promise<void> {
+    try {
+        await ingestUsageEvents();
+    } catch (e) {
+        console.warn('[BackgroundTracking] Usage ingestion failed:', e);
+    }
+}
+
 // ── Hook Return Type ─────────────────────────────────────────────────────────
 
 interface BackgroundTrackingState {
@@ -68,6 +95,7 @@ export function useBackgroundTracking(): BackgroundTrackingState {
                 const [metrics, afi] = await Promise.all([
                     getDailyMetrics(),
                     getFragmentationScore(),
+                    ingestUsage(),
                 ]);
                 setDailyMetrics(metrics);
                 setAfiScore(afi);
@@ -84,12 +112,12 @@ export function useBackgroundTracking(): BackgroundTrackingState {
 
         const unsubSpiral = onSpiralDetected((event) => {
             console.log('[BackgroundTracking] Spiral detected:', event.message);
-            setLastIntervention(event);
+            if (admitNativeIntervention({ ...event, type: 'SPIRAL' })) setLastIntervention(event);
         });
 
         const unsubBinge = onBingeDetected((event) => {
             console.log('[BackgroundTracking] Binge detected:', event.message);
-            setLastIntervention(event);
+            if (admitNativeIntervention({ ...event, type: 'BINGE' })) setLastIntervention(event);
         });
 
         const unsubSession = onAppSessionEnded((event: SessionEndedEvent) => {
@@ -144,6 +172,7 @@ export function useBackgroundTracking(): BackgroundTrackingState {
         const [metrics, afi] = await Promise.all([
             getDailyMetrics(),
             getFragmentationScore(),
+            ingestUsage(),
         ]);
         setDailyMetrics(metrics);
         setAfiScore(afi);
@@ -0,0 +1,132 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Backup Bundle Crypto — Passphrase encryption on vetted primitives
+// PBKDF2-HMAC-SHA256 key derivation and AES-256-GCM from @noble, with salt and
+// nonce drawn from the platform CSPRNG (expo-crypto). Refuses to run without one.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { gcm } from '@noble/ciphers/aes';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { getRandomValues } from 'expo-crypto';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Authenticated Encryption
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** OWASP's 2023 floor for PBKDF2-HMAC-SHA256; backups below it are refused. */
+export const MIN_KDF_ITERATIONS = 600000;
+export const KDF_SALT_BYTES = 16;
+export const KEY_BYTES = 32;
+/** 96-bit nonce, the size GCM is specified for. */
+export const NONCE_BYTES = 12;
+
+/**
+ * Stretch the passphrase into an AES-256 key. Async so the JS thread can keep
+ * rendering while hundreds of thousands of rounds run.
+ */
+export async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+    if (!Number.isInteger(iterations) || iterations < MIN_KDF_ITERATIONS) {
+        throw new Error(`Key derivation needs at least ${MIN_KDF_ITERATIONS} iterations`);
+    }
+    return pbkdf2Async(sha256, utf8Encode(passphrase), salt, { c: iterations, dkLen: KEY_BYTES });
+}
+
+/** AES-256-GCM; the 16-byte tag is appended to the ciphertext and covers `aad`. */
+export function seal(key: Uint8Array, nonce: Uint8Array, plaintext: Uint8Array, aad: Uint8Array): Uint8Array {
+    return gcm(key, nonce, aad).encrypt(plaintext);
+}
+
+/** Inverse of seal(); throws when the key, nonce, aad or ciphertext do not match. */
+export function open(key: Uint8Array, nonce: Uint8Array, sealed: Uint8Array, aad: Uint8Array): Uint8Array {
+    return gcm(key, nonce, aad).decrypt(sealed);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Randomness & Encoding
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type RandomSource = (length: number) => Uint8Array;
+
+/**
+ * Native CSPRNG via expo-crypto (Hermes has no crypto.getRandomValues of its
+ * own). There is deliberately no weaker fallback: without it, nothing is encrypted.
+ */
+export const secureRandomSource: RandomSource = (length) => {
+    const out = new Uint8Array(length);
+    try {
+        getRandomValues(out);
+    } catch (error) {
+        throw new Error(`No secure random number generator available: ${error instanceof Error ? error.message : error}`);
+    }
+    return out;
+};
+
+export function utf8Encode(text: string): Uint8Array {
+    const bytes: number[] = [];
+    for (const ch of text) {
+        const cp = ch.codePointAt(0)!;
+        if (cp < 0x80) {
+            bytes.push(cp);
+        } else if (cp < 0x800) {
+            bytes.push(0xc0 | (cp >> 6), 0x80 | (cp & 0x3f));
+        } else if (cp < 0x10000) {
+            bytes.push(0xe0 | (cp >> 12), 0x80 | ((cp >> 6) & 0x3f), 0x80 | (cp & 0x3f));
+        } else {
+            bytes.push(
+                0xf0 | (cp >> 18), 0x80 | ((cp >> 12) & 0x3f),
+                0x80 | ((cp >> 6) & 0x3f), 0x80 | (cp & 0x3f),
+            );
+        }
+    }
+    return Uint8Array.from(bytes);
+}
+
+export function utf8Decode(bytes: Uint8Array): string {
+    let out = '';
+    let i = 0;
+    while (i < bytes.length) {
+        const b = bytes[i];
+        let cp: number;
+        if (b < 0x80) {
+            cp = b; i += 1;
+        } else if (b < 0xe0) {
+            cp = ((b & 0x1f) << 6) | (bytes[i + 1] & 0x3f); i += 2;
+        } else if (b < 0xf0) {
+            cp = ((b & 0x0f) << 12) | ((bytes[i + 1] & 0x3f) << 6) | (bytes[i + 2] & 0x3f); i += 3;
+        } else {
+            cp = ((b & 0x07) << 18) | ((bytes[i + 1] & 0x3f) << 12)
+                | ((bytes[i + 2] & 0x3f) << 6) | (bytes[i + 3] & 0x3f);
+            i += 4;
+        }
+        out += String.fromCodePoint(cp);
+    }
+    return out;
+}
+
+const B64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function toBase64(bytes: Uint8Array): string {
+    let out = '';
+    for (let i = 0; i < bytes.length; i += 3) {
+        const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+        out += B64[(n >> 18) & 63] + B64[(n >> 12) & 63];
+        out += i + 1 < bytes.length ? B64[(n >> 6) & 63] : '=';
+        out += i + 2 < bytes.length ? B64[n & 63] : '=';
+    }
+    return out;
+}
+
+export function fromBase64(text: string): Uint8Array {
+    const clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+    const out = new Uint8Array(Math.floor((clean.length * 3) / 4));
+    let pos = 0;
+    for (let i = 0; i < clean.length; i += 4) {
+        const n = (B64.indexOf(clean[i]) << 18) | (B64.indexOf(clean[i + 1]) << 12)
+            | ((clean[i + 2] ? B64.indexOf(clean[i + 2]) : 0) << 6)
+            | (clean[i + 3] ? B64.indexOf(clean[i + 3]) : 0);
+        if (pos < out.length) out[pos++] = (n >> 16) & 0xff;
+        if (pos < out.length) out[pos++] = (n >> 8) & 0xff;
+        if (pos < out.length) out[pos++] = n & 0xff;
+    }
+    return out;
+}
@@ -0,0 +1,69 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Backup Module — Type Definitions
+// Versioned export bundle, its encrypted envelope, and import results
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { StateStorage } from 'zustand/middleware';
+import type { MigrationDatabase } from '../../../database/migrations';
+import type { KeyValueBackend } from '../../../storage/kvBackend';
+
+/** Bump when the bundle layout changes; older readers refuse newer bundles. */
+export const BACKUP_FORMAT_VERSION = 2;
+
+/** Plaintext snapshot of everything the app keeps on the device. */
+export interface BackupBundle {
+    format: 'astra-backup';
+    formatVersion: number;
+    createdAt: number;
+    /** PRAGMA user_version of the exporting database. */
+    schemaVersion: number;
+    /** Every SQLite table, row by row. */
+    tables: Record<string, Record<string, unknown>[]>;
+    /** Raw (already versioned) entries from the key-value store. */
+    keyValues: Record<string, string>;
+    /** Raw persisted zustand stores, keyed by storage name. */
+    stores: Record<string, string>;
+}
+
+/** What is written to disk / shared: the bundle encrypted under a passphrase. */
+export interface EncryptedBackup {
+    format: 'astra-backup-encrypted';
+    formatVersion: number;
+    kdf: {
+        name: 'pbkdf2-sha256';
+        iterations: number;
+        salt: string;       // base64
+    };
+    cipher: 'aes-256-gcm';
+    nonce: string;          // base64
+    ciphertext: string;     // base64, GCM tag appended; header fields are the AAD
+}
+
+/**
+ * How rows / keys that already exist on this device are handled.
+ * - keep-local:    existing rows and keys win; only missing ones are added
+ * - prefer-bundle: bundle rows and keys overwrite matching local ones
+ * - replace-all:   local data in every bundled table and the KV store is wiped first
+ */
+export type ConflictPolicy = 'keep-local' | 'prefer-bundle' | 'replace-all';
+
+export interface ImportReport {
+    schemaVersion: number;
+    tablesImported: string[];
+    /** Tables in the bundle that this app version does not have. */
+    tablesSkipped: string[];
+    rowsWritten: number;
+    /** Rows left untouched because a local row with the same key won. */
+    rowsKept: number;
+    keyValuesWritten: number;
+    storesWritten: number;
+}
+
+/** Everything the backup service reads from and writes to. Injected so it runs headlessly. */
+export interface BackupSources {
+    db: MigrationDatabase;
+    kv: KeyValueBackend;
+    storage: StateStorage;
+    /** Persisted zustand store names to include. */
+    storeKeys: string[];
+}
@@ -0,0 +1,393 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Backup Service — Encrypted full-data export / import
+// Serializes every SQLite table, KV entry and persisted store into a
+// versioned bundle for moving to a new device. No cloud involved.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { getSchemaVersion } from '../../../database/migrations';
+import {
+    BACKUP_FORMAT_VERSION,
+    BackupBundle,
+    BackupSources,
+    ConflictPolicy,
+    EncryptedBackup,
+    ImportReport,
+} from '../models/backupTypes';
+import {
+    KDF_SALT_BYTES,
+    MIN_KDF_ITERATIONS,
+    NONCE_BYTES,
+    RandomSource,
+    deriveKey,
+    fromBase64,
+    open,
+    seal,
+    secureRandomSource,
+    toBase64,
+    utf8Decode,
+    utf8Encode,
+} from '../engine/bundleCrypto';
+
+/**
+ * PBKDF2 work factor for new backups. Stored in each backup, so it can be
+ * raised without breaking old files; it is never allowed below the minimum.
+ */
+export const DEFAULT_KDF_ITERATIONS = MIN_KDF_ITERATIONS;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptOptions {
+    iterations?: number;
+    random?: RandomSource;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Bundle Snapshot
+// ═══════════════════════════════════════════════════════════════════════════════
+
+async function listTables(sources: BackupSources): Promise<string[]> {
+    const rows = await sources.db.getAllAsync<{ name: string }>(
+        `SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name`,
+    );
+    return rows.map(r => r.name);
+}
+
+async function listColumns(sources: BackupSources, table: string): Promise<string[]> {
+    const rows = await sources.db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+    return rows.map(r => r.name);
+}
+
+export async function createBackupBundle(sources: BackupSources): Promise<BackupBundle> {
+    const tables: BackupBundle['tables'] = {};
+    for (const table of await listTables(sources)) {
+        tables[table] = await sources.db.getAllAsync<Record<string, unknown>>(`SELECT * FROM ${table}`);
+    }
+
+    const keyValues: BackupBundle['keyValues'] = {};
+    for (const key of sources.kv.getAllKeys()) {
+        const value = sources.kv.getString(key);
+        if (value !== undefined) keyValues[key] = value;
+    }
+
+    const stores: BackupBundle['stores'] = {};
+    for (const name of sources.storeKeys) {
+        const value = await sources.storage.getItem(name);
+        if (value !== null) stores[name] = value;
+    }
+
+    return {
+        format: 'astra-backup',
+        formatVersion: BACKUP_FORMAT_VERSION,
+        createdAt: Date.now(),
+        schemaVersion: await getSchemaVersion(sources.db),
+        tables,
+        keyValues,
+        stores,
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Bundle Restore
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Natural keys of the AUTOINCREMENT tables. Their bundle ids were handed out by
+ * the exporting device and collide with unrelated local rows, so rows are
+ * matched on these columns instead and get local ids.
+ */
+const NATURAL_KEYS: Record<string, string[]> = {
+    app_usage_sessions: ['package_name', 'start_time'],
+    daily_aggregates: ['date', 'package_name'],
+    health_signals: ['timestamp'],
+    pomodoro_sessions: ['start_time'],
+    cognitive_results: ['type', 'timestamp'],
+    nudge_log: ['timestamp', 'type', 'target_app'],
+    focus_windows: ['day_of_week', 'hour_of_day'],
+    user_profiles: ['created_at'],
+    personalization_events: ['timestamp', 'intervention_type'],
+    directive_log: ['generated_at'],
+    intervention_suppressions: ['suppressed_at', 'producer'],
+};
+
+/** Columns holding an AUTOINCREMENT id of another table: column → referenced table. */
+const ID_REFERENCES: Record<string, Record<string, string>> = {
+    directive_nudges: { directive_id: 'directive_log', follow_up_session_id: 'pomodoro_sessions' },
+    planned_blocks: { session_id: 'pomodoro_sessions' },
+};
+
+/** Bundle id → local id, per AUTOINCREMENT table. */
+type IdMaps = Record<string, Map<unknown, number>>;
+
+/** Point references at the local ids of the rows they referred to in the bundle. */
+function remapReferences(table: string, row: Record<string, unknown>, idMaps: IdMaps): Record<string, unknown> {
+    const refs = ID_REFERENCES[table];
+    if (!refs) return row;
+    const out = { ...row };
+    for (const [column, target] of Object.entries(refs)) {
+        if (out[column] === null || out[column] === undefined) continue;
+        out[column] = idMaps[target]?.get(out[column]) ?? null;
+    }
+    return out;
+}
+
+/**
+ * Write one row of an AUTOINCREMENT table under `policy`, recording the id it
+ * ended up with. Returns whether it was written, false when the local row was
+ * kept, or null when nothing restorable is left.
+ */
+async function restoreAutoIncrementRow(
+    sources: BackupSources,
+    table: string,
+    row: Record<string, unknown>,
+    columns: Set<string>,
+    policy: ConflictPolicy,
+    idMaps: IdMaps,
+): Promise<boolean | null> {
+    const cols = Object.keys(row).filter(c => c !== 'id' && columns.has(c));
+    if (cols.length === 0) return null;
+    const values = cols.map(c => row[c] ?? null);
+    const ids = (idMaps[table] ??= new Map());
+
+    const key = NATURAL_KEYS[table].filter(c => columns.has(c));
+    const existing = key.length === 0 ? null : await sources.db.getFirstAsync<{ id: number }>(
+        `SELECT id FROM ${table} WHERE ${key.map(c => `${c} IS ?`).join(' AND ')} LIMIT 1`,
+        key.map(c => row[c] ?? null),
+    );
+
+    if (existing) {
+        ids.set(row.id, existing.id);
+        if (policy === 'keep-local') return false;
+        await sources.db.runAsync(
+            `UPDATE ${table} SET ${cols.map(c => `${c} = ?`).join(', ')} WHERE id = ?`,
+            [...values, existing.id],
+        );
+        return true;
+    }
+
+    const result = await sources.db.runAsync(
+        `INSERT INTO ${table} (${cols.join(', ')}) VALUES (${cols.map(() => '?').join(', ')})`,
+        values,
+    );
+    ids.set(row.id, result.lastInsertRowId);
+    return true;
+}
+
+/** Write one row of a table keyed by a stable id, day or name; the same key is the same record. */
+async function restoreKeyedRow(
+    sources: BackupSources,
+    table: string,
+    row: Record<string, unknown>,
+    columns: Set<string>,
+    policy: ConflictPolicy,
+): Promise<boolean | null> {
+    const cols = Object.keys(row).filter(c => columns.has(c));
+    if (cols.length === 0) return null;
+    const verb = policy === 'keep-local' ? 'INSERT OR IGNORE' : 'INSERT OR REPLACE';
+    const result = await sources.db.runAsync(
+        `${verb} INTO ${table} (${cols.join(', ')}) VALUES (${cols.map(() => '?').join(', ')})`,
+        cols.map(c => row[c] ?? null),
+    );
+    return result.changes > 0;
+}
+
+export function validateBackupBundle(value: unknown): BackupBundle {
+    const b = value as BackupBundle;
+    if (!b || typeof b !== 'object' || b.format !== 'astra-backup') {
+        throw new Error('Not an ASTRA backup');
+    }
+    if (typeof b.formatVersion !== 'number' || b.formatVersion > BACKUP_FORMAT_VERSION) {
+        throw new Error(`Backup format v${b.formatVersion} is newer than this app supports (v${BACKUP_FORMAT_VERSION})`);
+    }
+    if (typeof b.schemaVersion !== 'number' || typeof b.tables !== 'object'
+        || typeof b.keyValues !== 'object' || typeof b.stores !== 'object') {
+        throw new Error('Backup is missing required sections');
+    }
+    return b;
+}
+
+/**
+ * Write a bundle into the local stores.
+ *
+ * Bundles from an older schema are accepted: only columns that still exist
+ * are written and new columns take their defaults. Bundles from a newer
+ * schema are refused. Rows of AUTOINCREMENT tables are matched on their
+ * natural key and renumbered, with references to them rewritten. All table
+ * writes share one transaction.
+ */
+export async function restoreBackupBundle(
+    sources: BackupSources,
+    bundle: BackupBundle,
+    policy: ConflictPolicy = 'keep-local',
+): Promise<ImportReport> {
+    validateBackupBundle(bundle);
+
+    const localVersion = await getSchemaVersion(sources.db);
+    if (bundle.schemaVersion > localVersion) {
+        throw new Error(
+            `Backup uses database schema v${bundle.schemaVersion} but this app is on v${localVersion}. Update the app first.`,
+        );
+    }
+
+    const report: ImportReport = {
+        schemaVersion: bundle.schemaVersion,
+        tablesImported: [],
+        tablesSkipped: [],
+        rowsWritten: 0,
+        rowsKept: 0,
+        keyValuesWritten: 0,
+        storesWritten: 0,
+    };
+
+    const localTables = new Set(await listTables(sources));
+    const idMaps: IdMaps = {};
+    // Referenced tables first, so their id maps exist when references are rewritten
+    const entries = Object.entries(bundle.tables)
+        .sort(([a], [b]) => Number(b in NATURAL_KEYS) - Number(a in NATURAL_KEYS));
+
+    await sources.db.execAsync('BEGIN TRANSACTION');
+    try {
+        for (const [table, rows] of entries) {
+            // Table names are only ever taken from the local schema
+            if (!localTables.has(table)) {
+                report.tablesSkipped.push(table);
+                continue;
+            }
+            const columns = new Set(await listColumns(sources, table));
+
+            if (policy === 'replace-all') {
+                await sources.db.runAsync(`DELETE FROM ${table}`);
+            }
+
+            for (const bundled of rows) {
+                const row = remapReferences(table, bundled, idMaps);
+                const written = table in NATURAL_KEYS
+                    ? await restoreAutoIncrementRow(sources, table, row, columns, policy, idMaps)
+                    : await restoreKeyedRow(sources, table, row, columns, policy);
+                if (written === null) continue;
+                if (written) report.rowsWritten++;
+                else report.rowsKept++;
+            }
+            report.tablesImported.push(table);
+        }
+        await sources.db.execAsync('COMMIT');
+    } catch (e) {
+        await sources.db.execAsync('ROLLBACK').catch(() => { });
+        throw e;
+    }
+
+    if (policy === 'replace-all') {
+        for (const key of sources.kv.getAllKeys()) sources.kv.delete(key);
+    }
+    for (const [key, value] of Object.entries(bundle.keyValues)) {
+        if (policy === 'keep-local' && sources.kv.getString(key) !== undefined) continue;
+        sources.kv.setString(key, value);
+        report.keyValuesWritten++;
+    }
+
+    for (const [name, value] of Object.entries(bundle.stores)) {
+        if (!sources.storeKeys.includes(name)) continue;
+        if (policy === 'keep-local' && (await sources.storage.getItem(name)) !== null) continue;
+        await sources.storage.setItem(name, value);
+        report.storesWritten++;
+    }
+
+    return report;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Encryption
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Every header field is authenticated as GCM associated data. */
+function headerAad(backup: Omit<EncryptedBackup, 'ciphertext'>): Uint8Array {
+    const header = [
+        backup.format,
+        backup.formatVersion,
+        backup.kdf.name,
+        backup.kdf.iterations,
+        backup.kdf.salt,
+        backup.cipher,
+        backup.nonce,
+    ].join('|');
+    return utf8Encode(header);
+}
+
+export async function encryptBundle(
+    bundle: BackupBundle,
+    passphrase: string,
+    options: EncryptOptions = {},
+): Promise<EncryptedBackup> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    const random = options.random ?? secureRandomSource;
+    const iterations = options.iterations ?? DEFAULT_KDF_ITERATIONS;
+
+    const salt = random(KDF_SALT_BYTES);
+    const nonce = random(NONCE_BYTES);
+    const key = await deriveKey(passphrase, salt, iterations);
+
+    const header: Omit<EncryptedBackup, 'ciphertext'> = {
+        format: 'astra-backup-encrypted',
+        formatVersion: BACKUP_FORMAT_VERSION,
+        kdf: { name: 'pbkdf2-sha256', iterations, salt: toBase64(salt) },
+        cipher: 'aes-256-gcm',
+        nonce: toBase64(nonce),
+    };
+    const ciphertext = seal(key, nonce, utf8Encode(JSON.stringify(bundle)), headerAad(header));
+
+    return { ...header, ciphertext: toBase64(ciphertext) };
+}
+
+export async function decryptBundle(encrypted: EncryptedBackup, passphrase: string): Promise<BackupBundle> {
+    if (!encrypted || encrypted.format !== 'astra-backup-encrypted') {
+        throw new Error('Not an encrypted ASTRA backup');
+    }
+    if (encrypted.formatVersion > BACKUP_FORMAT_VERSION) {
+        throw new Error(`Backup format v${encrypted.formatVersion} is newer than this app supports (v${BACKUP_FORMAT_VERSION})`);
+    }
+    if (encrypted.kdf?.name !== 'pbkdf2-sha256' || encrypted.cipher !== 'aes-256-gcm') {
+        throw new Error('Unsupported backup encryption');
+    }
+    if (!(encrypted.kdf.iterations >= MIN_KDF_ITERATIONS)) {
+        throw new Error('Backup key derivation is too weak to trust');
+    }
+
+    const key = await deriveKey(passphrase, fromBase64(encrypted.kdf.salt), encrypted.kdf.iterations);
+    let plaintext: Uint8Array;
+    try {
+        plaintext = open(key, fromBase64(encrypted.nonce), fromBase64(encrypted.ciphertext), headerAad(encrypted));
+    } catch {
+        throw new Error('Wrong passphrase or corrupted backup');
+    }
+    return validateBackupBundle(JSON.parse(utf8Decode(plaintext)));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// End-to-end
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Snapshot everything and return the encrypted backup as a JSON string. */
+export async function exportEncryptedBackup(
+    sources: BackupSources,
+    passphrase: string,
+    options?: EncryptOptions,
+): Promise<string> {
+    const bundle = await createBackupBundle(sources);
+    return JSON.stringify(await encryptBundle(bundle, passphrase, options));
+}
+
+/** Decrypt a backup produced by exportEncryptedBackup and restore it. */
+export async function importEncryptedBackup(
+    sources: BackupSources,
+    payload: string,
+    passphrase: string,
+    policy: ConflictPolicy = 'keep-local',
+): Promise<ImportReport> {
+    let encrypted: EncryptedBackup;
+    try {
+        encrypted = JSON.parse(payload.trim());
+    } catch {
+        throw new Error('Backup text is not valid JSON');
+    }
+    return restoreBackupBundle(sources, await decryptBundle(encrypted, passphrase), policy);
+}
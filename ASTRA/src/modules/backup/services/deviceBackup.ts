@@ -0,0 +1,36 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Device Backup — Wires BackupService to the app's real storage
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { getDatabaseHandle } from '../../../database/repository';
+import { getKeyValueBackend } from '../../../storage/kvBackend';
+import { zustandStorage } from '../../shared/store/storage';
+import { useUserStore } from '../../shared/store/user-store';
+import { useHealthStore } from '../../health/store/health-store';
+import { useMeditationStore } from '../../meditation/store/meditation-store';
+import { useFocusStore as useFocusTrainingStore } from '../../shared/store/focus-store';
+import { useFocusStore } from '../../focusTrainer/store/focusStore';
+import { BackupSources } from '../models/backupTypes';
+
+/** zustand stores still persisted through AsyncStorage. */
+const PERSISTED_STORE_KEYS = ['astra-user'];
+
+export function getDeviceBackupSources(): BackupSources {
+    return {
+        db: getDatabaseHandle(),
+        kv: getKeyValueBackend(),
+        storage: zustandStorage,
+        storeKeys: PERSISTED_STORE_KEYS,
+    };
+}
+
+/** Reload in-memory stores after an import so the UI reflects restored data. */
+export async function reloadStoresAfterImport(): Promise<void> {
+    await Promise.all([
+        useHealthStore.getState().hydrate(),
+        useMeditationStore.getState().hydrate(),
+        useFocusTrainingStore.getState().hydrate(),
+        useUserStore.persist.rehydrate(),
+    ]);
+    useFocusStore.getState().restorePersistedState();
+}
@@ -4,6 +4,8 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 import {
+    AFIParameters,
+    AppTaxonomy,
     AppUsageSession,
     AppDailyStats,
     HealthSignals,
@@ -20,15 +22,16 @@ import { computeComplianceProbability } from '../math/complianceProbability';
 import { computeCRS } from '../math/cognitiveReadiness';
 import { detectDopamineBinge, getResetMessage } from '../math/dopamineDetection';
 import { computeBlockingDecision, BlockingDecision } from './AdaptiveBlocker';
-import {
-    canDeliverNudge,
-    recordNudgeDelivery,
-    NudgeState,
-} from './NudgeManager';
+import { checkBudget } from '../../interventions/interventionBudget';
+import type { AvailabilitySettings, InterventionBudgetState } from '../../interventions/budgetTypes';
 
 export interface InterventionContext {
     recentSessions: AppUsageSession[];
     windowMs: number;
+    /** The user's AFI calibration (getAFIParameters()); defaults apply if omitted. */
+    afiParameters?: AFIParameters;
+    /** App categories and the goal's apps (getAppTaxonomy(activeGoal)); every app counts alike if omitted. */
+    appTaxonomy?: AppTaxonomy;
     appStats: AppDailyStats[];
     health: HealthSignals;
     personality: PersonalityProfile;
@@ -36,7 +39,10 @@ export interface InterventionContext {
     isInFocusSession: boolean;
     complianceSuccesses: number;
     complianceAttempts: number;
-    nudgeState: NudgeState;
+    /** Current intervention budget (getBudgetSnapshot()). */
+    budget: InterventionBudgetState;
+    /** Quiet hours / pause / busy blocks (getAvailability()); defaults apply if omitted. */
+    availability?: AvailabilitySettings;
     currentApp: string;    // package name of the current app
     userBlockingOverride?: BlockingLevel | null;
 }
@@ -62,8 +68,10 @@ export interface InterventionResult {
  *   6. Compute CRS
  *   7. Check for dopamine binge
  *   8. Determine blocking level
- *   9. Check nudge rate limit
+ *   9. Check the intervention budget (blocking channel)
  *   10. Return final decision
+ *
+ * Pure: when the result is shown, count it with requestIntervention().
  */
 export function evaluateIntervention(
     ctx: InterventionContext,
@@ -71,10 +79,10 @@ export function evaluateIntervention(
     const now = Date.now();
 
     // ── 1. AFI ──────────────────────────────────────────────────────────────
-    const afi = computeAFI(ctx.recentSessions, ctx.windowMs);
+    const afi = computeAFI(ctx.recentSessions, ctx.windowMs, ctx.afiParameters, ctx.appTaxonomy);
 
     // ── 2. Distractiveness ──────────────────────────────────────────────────
-    const dsResults = computeDistractivenessScores(ctx.appStats);
+    const dsResults = computeDistractivenessScores(ctx.appStats, ctx.appTaxonomy);
     const currentAppDS = dsResults.find(
         r => r.packageName === ctx.currentApp,
     ) || {
@@ -129,11 +137,17 @@ export function evaluateIntervention(
         userBlockingOverride: ctx.userBlockingOverride,
     });
 
-    // ── 9. Nudge rate limit ─────────────────────────────────────────────────
-    const nudgeCheck = canDeliverNudge(ctx.nudgeState, now);
+    // ── 9. Intervention budget ──────────────────────────────────────────────
+    const budgetCheck = checkBudget(ctx.budget, {
+        producer: 'intervention-engine',
+        channel: 'blocking',
+        priority: goalConflict.shouldEscalate ? 'high' : 'medium',
+        at: now,
+        label: ctx.currentApp,
+    }, ctx.availability);
 
     // ── 10. Final decision ──────────────────────────────────────────────────
-    const shouldDeliver = blocking.shouldBlock && nudgeCheck.allowed;
+    const shouldDeliver = blocking.shouldBlock && budgetCheck.allowed;
 
     return {
         blocking,
@@ -141,6 +155,6 @@ export function evaluateIntervention(
         crsRecommendation: crs.recommendation,
         afiLevel: afi.level,
         shouldDeliver,
-        reason: nudgeCheck.allowed ? undefined : nudgeCheck.reason,
+        reason: budgetCheck.allowed ? undefined : budgetCheck.detail,
     };
 }
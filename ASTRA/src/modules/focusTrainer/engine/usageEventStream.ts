@@ -0,0 +1,276 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Usage Event Stream — Sessions, switches and unlocks from raw usage events
+// Replays foreground/background, screen and keyguard events in order. Pure:
+// takes a UsageEventRecording, so recorded fixtures replay off-device.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { AFIParameters, AppTaxonomy, AppUsageSession, RawUsageEvent, UsageEventRecording } from '../models/types';
+import { USAGE_STREAM } from '../models/constants';
+import { DEFAULT_AFI_PARAMETERS, computeAFI } from '../math/attentionFragmentation';
+import { getTimeOfDay } from '../math/normalize';
+
+export type UsageEventKind = 'foreground' | 'background' | 'screen-on' | 'screen-off' | 'locked' | 'unlocked';
+
+export interface UsageEvent {
+    timestamp: number;
+    kind: UsageEventKind;
+    packageName: string | null;
+}
+
+/** UsageEvents.Event type codes the stream understands; anything else is skipped. */
+export const ANDROID_EVENT_KINDS: Record<number, UsageEventKind> = {
+    1: 'foreground',    // ACTIVITY_RESUMED (MOVE_TO_FOREGROUND)
+    2: 'background',    // ACTIVITY_PAUSED (MOVE_TO_BACKGROUND)
+    23: 'background',   // ACTIVITY_STOPPED
+    15: 'screen-on',    // SCREEN_INTERACTIVE
+    16: 'screen-off',   // SCREEN_NON_INTERACTIVE
+    17: 'locked',       // KEYGUARD_SHOWN
+    18: 'unlocked',     // KEYGUARD_HIDDEN
+};
+
+export interface StreamReconstruction {
+    /** Closed sessions, oldest first. */
+    sessions: AppUsageSession[];
+    /** Every unlock in the recording, including ones not yet followed by a session. */
+    unlocks: number;
+    switches: number;
+    /**
+     * Where the next query should start so nothing is lost or counted twice:
+     * the start of a still-open session or the first unattributed unlock,
+     * else the end of the recording.
+     */
+    resumeFrom: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Recordings
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Parse and check a recording (native query result or fixture). Throws on anything malformed. */
+export function parseUsageEventRecording(input: string | unknown): UsageEventRecording {
+    const raw = typeof input === 'string' ? JSON.parse(input) : input;
+    if (typeof raw !== 'object' || raw === null) {
+        throw new Error('Usage event recording must be an object');
+    }
+    const rec = raw as Partial<UsageEventRecording>;
+    if (rec.format !== 'astra.usage-events' || rec.version !== 1) {
+        throw new Error(`Unsupported usage event recording (${String(rec.format)} v${String(rec.version)})`);
+    }
+    if (typeof rec.start !== 'number' || typeof rec.end !== 'number' || rec.end < rec.start) {
+        throw new Error('Usage event recording needs a start ≤ end window');
+    }
+    if (!Array.isArray(rec.events)) {
+        throw new Error('Usage event recording has no events array');
+    }
+    rec.events.forEach((e: RawUsageEvent, i) => {
+        if (typeof e?.t !== 'number' || typeof e.type !== 'number') {
+            throw new Error(`Usage event ${i} needs numeric t and type`);
+        }
+    });
+    return {
+        format: rec.format,
+        version: rec.version,
+        start: rec.start,
+        end: rec.end,
+        labels: rec.labels ?? {},
+        events: rec.events,
+    };
+}
+
+/** Map raw codes to kinds, drop unknown types, order by time (stable for equal timestamps). */
+export function normalizeUsageEvents(events: RawUsageEvent[]): UsageEvent[] {
+    return events
+        .map((e, i) => ({ e, i }))
+        .filter(({ e }) => ANDROID_EVENT_KINDS[e.type] !== undefined)
+        .sort((a, b) => a.e.t - b.e.t || a.i - b.i)
+        .map(({ e }) => ({
+            timestamp: e.t,
+            kind: ANDROID_EVENT_KINDS[e.type],
+            packageName: e.pkg ?? null,
+        }));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Reconstruction
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface OpenSession {
+    packageName: string;
+    start: number;
+    /** Set when the app went to the background; it may come straight back. */
+    pausedAt: number | null;
+    isSwitch: boolean;
+    unlocks: number;
+}
+
+/**
+ * Rebuild app sessions from a recording.
+ *
+ * - A session runs from an app's foreground event to its background, the
+ *   next app's foreground, or the screen turning off / locking. Returning to
+ *   the same app within `resumeGapMs` continues the session.
+ * - A session counts one switch when the previous app closed less than
+ *   `switchGapMs` before it without a lock in between.
+ * - Unlocks count towards the session they lead into.
+ * - Launchers and system UI end sessions but are not sessions themselves.
+ *
+ * Sessions still open at the end are left out (see `resumeFrom`) unless
+ * `closeOpenAt` is given, for live reads of the current window.
+ */
+export function reconstructSessions(
+    recording: UsageEventRecording,
+    options: { closeOpenAt?: number } = {},
+): StreamReconstruction {
+    const ignored = new Set(USAGE_STREAM.ignoredPackages);
+    const sessions: AppUsageSession[] = [];
+
+    // Declared via `as` so narrowing does not ignore the writes in close/open
+    let current = null as OpenSession | null;
+    let lastClosed = null as { packageName: string; end: number } | null;
+    let lockedSinceLast = false;
+    let pendingUnlocks = 0;
+    let firstPendingUnlock = null as number | null;
+    let unlocks = 0;
+
+    const close = (end: number) => {
+        if (!current) return;
+        const duration = end - current.start;
+        if (duration >= USAGE_STREAM.minSessionMs) {
+            const date = new Date(current.start);
+            sessions.push({
+                appName: recording.labels[current.packageName] ?? current.packageName.split('.').pop() ?? current.packageName,
+                packageName: current.packageName,
+                startTime: current.start,
+                endTime: end,
+                duration,
+                switchCount: current.isSwitch ? 1 : 0,
+                unlockCount: current.unlocks,
+                timeOfDay: getTimeOfDay(date.getHours()),
+                dayOfWeek: date.getDay(),
+            });
+            lastClosed = { packageName: current.packageName, end };
+        } else if (current.unlocks > 0) {
+            // A dropped blip hands its unlocks on to the next session
+            pendingUnlocks += current.unlocks;
+            firstPendingUnlock ??= current.start;
+        }
+        current = null;
+    };
+
+    const open = (packageName: string, at: number) => {
+        current = {
+            packageName,
+            start: at,
+            pausedAt: null,
+            isSwitch: lastClosed !== null
+                && lastClosed.packageName !== packageName
+                && !lockedSinceLast
+                && at - lastClosed.end <= USAGE_STREAM.switchGapMs,
+            unlocks: pendingUnlocks,
+        };
+        lockedSinceLast = false;
+        pendingUnlocks = 0;
+        firstPendingUnlock = null;
+    };
+
+    for (const event of normalizeUsageEvents(recording.events)) {
+        const t = event.timestamp;
+
+        // A paused app that did not come back in time ended where it paused
+        if (current?.pausedAt != null && t - current.pausedAt > USAGE_STREAM.resumeGapMs) {
+            close(current.pausedAt);
+        }
+
+        switch (event.kind) {
+            case 'foreground': {
+                const pkg = event.packageName;
+                if (!pkg) break;
+                if (ignored.has(pkg)) {
+                    close(current?.pausedAt ?? t);
+                } else if (current?.packageName === pkg) {
+                    current.pausedAt = null;
+                } else {
+                    close(current?.pausedAt ?? t);
+                    open(pkg, t);
+                }
+                break;
+            }
+            case 'background':
+                if (current && current.packageName === event.packageName && current.pausedAt === null) {
+                    current.pausedAt = t;
+                }
+                break;
+            case 'screen-off':
+            case 'locked':
+                close(current?.pausedAt ?? t);
+                lockedSinceLast = true;
+                break;
+            case 'unlocked':
+                unlocks++;
+                lockedSinceLast = true;
+                if (current) {
+                    current.unlocks++;
+                } else {
+                    pendingUnlocks++;
+                    firstPendingUnlock ??= t;
+                }
+                break;
+            case 'screen-on':
+                break;
+        }
+    }
+
+    let resumeFrom = recording.end;
+    if (current) {
+        if (options.closeOpenAt !== undefined) {
+            close(current.pausedAt ?? options.closeOpenAt);
+        } else if (current.pausedAt !== null && recording.end - current.pausedAt > USAGE_STREAM.resumeGapMs) {
+            close(current.pausedAt);
+        } else {
+            resumeFrom = current.start;
+        }
+    }
+    if (firstPendingUnlock !== null && options.closeOpenAt === undefined) {
+        resumeFrom = Math.min(resumeFrom, firstPendingUnlock);
+    }
+
+    return {
+        sessions,
+        unlocks,
+        switches: sessions.reduce((sum, s) => sum + s.switchCount, 0),
+        resumeFrom,
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// AFI Samples
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Sessions grouped by the slot (hour by default) they start in, oldest slot first. */
+export function groupBySlot(
+    sessions: AppUsageSession[],
+    slotMs: number = USAGE_STREAM.afiSlotMs,
+): Array<[slotStart: number, sessions: AppUsageSession[]]> {
+    const slots = new Map<number, AppUsageSession[]>();
+    for (const s of sessions) {
+        const slot = Math.floor(s.startTime / slotMs) * slotMs;
+        const list = slots.get(slot) ?? [];
+        list.push(s);
+        slots.set(slot, list);
+    }
+    return Array.from(slots.entries()).sort(([a], [b]) => a - b);
+}
+
+/**
+ * One AFI sample per slot that has sessions, computed over the sessions
+ * starting in it — the input of aggregateToFocusWindows.
+ */
+export function toAFISamples(
+    sessions: AppUsageSession[],
+    params: AFIParameters = DEFAULT_AFI_PARAMETERS,
+    taxonomy?: AppTaxonomy,
+    slotMs: number = USAGE_STREAM.afiSlotMs,
+): Array<{ timestamp: number; afi: number }> {
+    return groupBySlot(sessions, slotMs)
+        .map(([timestamp, list]) => ({ timestamp, afi: computeAFI(list, slotMs, params, taxonomy).score }));
+}
@@ -0,0 +1,168 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// AFI Calibration — Per-user AFI ranges and weights
+// Ranges come from the user's own hourly usage, so a developer who always
+// hops between IDE and terminal is measured against their own normal.
+// Weights come from which inputs predicted how their pomodoros went.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { AFICalibration, AFIParameters, AFIRanges, PomodoroSession } from '../models/types';
+import { AFI_CALIBRATION } from '../models/constants';
+import { AFIFeatures, DEFAULT_AFI_PARAMETERS, afiComponents } from './attentionFragmentation';
+import { clamp } from './normalize';
+
+/** A pomodoro, with the AFI inputs of the usage just before it. */
+export interface LabelledAFIExample {
+    features: AFIFeatures;
+    /** 0 = fully focused session … 1 = it fell apart (see focusOutcomeTarget). */
+    fragmentation: number;
+}
+
+type Weights = AFIParameters['weights'];
+type Vector4 = [number, number, number, number];
+
+/**
+ * How fragmented a finished pomodoro was, 0–1: 0 if it ran its course, 1 if
+ * not, averaged with the self-reported rating (5 → 0, 1 → 1) when given.
+ */
+export function focusOutcomeTarget(session: PomodoroSession): number {
+    const completion = session.wasSuccessful ? 0 : 1;
+    if (session.focusRating === undefined) return completion;
+    const rated = (5 - clamp(session.focusRating, 1, 5)) / 4;
+    return (completion + rated) / 2;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Ranges
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function percentile(sorted: number[], p: number): number {
+    const at = p * (sorted.length - 1);
+    const lo = Math.floor(at);
+    const hi = Math.ceil(at);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (at - lo);
+}
+
+/**
+ * Per-user normalization ranges: the 5th–95th percentile of the user's
+ * hourly inputs, blended with NORM_RANGES by `priorHours`. Null until
+ * `minUsageHours` hours with usage exist.
+ */
+export function fitAFIRanges(hourly: AFIFeatures[]): AFIRanges | null {
+    if (hourly.length < AFI_CALIBRATION.minUsageHours) return null;
+    const [pLow, pHigh] = AFI_CALIBRATION.rangePercentiles;
+    const share = hourly.length / (hourly.length + AFI_CALIBRATION.priorHours);
+
+    const fit = (values: number[], fallback: { min: number; max: number }, floor: number) => {
+        const sorted = [...values].sort((a, b) => a - b);
+        const min = Math.max(floor, percentile(sorted, pLow));
+        const max = percentile(sorted, pHigh);
+        // A flat input (e.g. never unlocks) says nothing about scale
+        if (max - min < 1e-9) return { ...fallback };
+        return {
+            min: share * min + (1 - share) * fallback.min,
+            max: share * max + (1 - share) * fallback.max,
+        };
+    };
+
+    const defaults = DEFAULT_AFI_PARAMETERS.ranges;
+    return {
+        switchesPerHour: fit(hourly.map(f => f.switchesPerHour), defaults.switchesPerHour, 0),
+        unlocksPerHour: fit(hourly.map(f => f.unlocksPerHour), defaults.unlocksPerHour, 0),
+        // Durations are inverted, so keep them off 0
+        avgSessionDuration: fit(hourly.map(f => f.avgSessionDuration), defaults.avgSessionDuration, 1000),
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Weights
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Solve A·x = b (4×4) by Gaussian elimination with partial pivoting. */
+function solve4(a: number[][], b: number[]): Vector4 | null {
+    const m = a.map((row, i) => [...row, b[i]]);
+    for (let col = 0; col < 4; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < 4; r++) {
+            if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+        }
+        if (Math.abs(m[pivot][col]) < 1e-12) return null;
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+        for (let r = col + 1; r < 4; r++) {
+            const f = m[r][col] / m[col][col];
+            for (let c = col; c < 5; c++) m[r][c] -= f * m[col][c];
+        }
+    }
+    const x: Vector4 = [0, 0, 0, 0];
+    for (let r = 3; r >= 0; r--) {
+        let sum = m[r][4];
+        for (let c = r + 1; c < 4; c++) sum -= m[r][c] * x[c];
+        x[r] = sum / m[r][r];
+    }
+    return x;
+}
+
+/**
+ * Per-user weights: a ridge fit of session fragmentation on the normalized
+ * [S, U, D, H] before each session. Inputs that pointed the wrong way get no
+ * weight of their own; the rest is scaled to sum to 1, blended with AFI_WEIGHTS
+ * by `priorSessions` and floored at `minWeight`. Null until
+ * `minLabelledSessions` examples exist.
+ */
+export function fitAFIWeights(examples: LabelledAFIExample[], ranges: AFIRanges): Weights | null {
+    const n = examples.length;
+    if (n < AFI_CALIBRATION.minLabelledSessions) return null;
+
+    const xs = examples.map(e => afiComponents(e.features, ranges));
+    const ys = examples.map(e => e.fragmentation);
+    const meanX = [0, 1, 2, 3].map(j => xs.reduce((s, x) => s + x[j], 0) / n);
+    const meanY = ys.reduce((s, y) => s + y, 0) / n;
+
+    // Normal equations on centred data: (XᵀX + λI) w = Xᵀy
+    const a = [0, 1, 2, 3].map(i => [0, 1, 2, 3].map(j => (i === j ? AFI_CALIBRATION.ridge : 0)));
+    const b = [0, 0, 0, 0];
+    xs.forEach((x, k) => {
+        const dy = ys[k] - meanY;
+        for (let i = 0; i < 4; i++) {
+            const di = x[i] - meanX[i];
+            b[i] += di * dy;
+            for (let j = 0; j < 4; j++) a[i][j] += di * (x[j] - meanX[j]);
+        }
+    });
+
+    const { alpha, beta, gamma, delta } = DEFAULT_AFI_PARAMETERS.weights;
+    const prior: Vector4 = [alpha, beta, gamma, delta];
+    const raw = (solve4(a, b) ?? [0, 0, 0, 0]).map(w => Math.max(0, w));
+    const total = raw.reduce((s, w) => s + w, 0);
+    const learned = total > 1e-9 ? raw.map(w => w / total) : prior;
+
+    const k = AFI_CALIBRATION.priorSessions;
+    const blended = learned.map((w, i) => Math.max(AFI_CALIBRATION.minWeight, (n * w + k * prior[i]) / (n + k)));
+    const sum = blended.reduce((s, w) => s + w, 0);
+    const [a1, b1, g1, d1] = blended.map(w => w / sum);
+    return { alpha: a1, beta: b1, gamma: g1, delta: d1 };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Calibration
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Fit ranges, then weights on the ranges just fitted. Each part keeps its
+ * default until it has enough data of its own.
+ */
+export function calibrateAFI(
+    hourly: AFIFeatures[],
+    examples: LabelledAFIExample[],
+    now: number = Date.now(),
+): AFICalibration {
+    const ranges = fitAFIRanges(hourly);
+    const effectiveRanges = ranges ?? DEFAULT_AFI_PARAMETERS.ranges;
+    const weights = fitAFIWeights(examples, effectiveRanges);
+    return {
+        weights: weights ?? { ...DEFAULT_AFI_PARAMETERS.weights },
+        ranges: effectiveRanges,
+        fittedAt: now,
+        labelledSessions: weights ? examples.length : 0,
+        usageHours: ranges ? hourly.length : 0,
+    };
+}
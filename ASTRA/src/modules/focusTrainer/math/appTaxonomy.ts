@@ -0,0 +1,21 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// App Taxonomy — Category and on-task lookups shared by AFI and DS
+// Build an AppTaxonomy with getAppTaxonomy() (services/AppTaxonomyService.ts).
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { AppCategory, AppTaxonomy } from '../models/types';
+import { APP_TAXONOMY } from '../models/constants';
+
+/** Category of `packageName`; 'other' when neither bundled nor overridden. */
+export function appCategory(taxonomy: AppTaxonomy, packageName: string): AppCategory {
+    return taxonomy.categories[packageName] ?? 'other';
+}
+
+/**
+ * Whether time in `packageName` serves the work at hand: one of the goal's
+ * apps, or — when the goal lists none — an app in a focus category.
+ */
+export function isOnTask(taxonomy: AppTaxonomy, packageName: string): boolean {
+    if (taxonomy.goalApps.length > 0) return taxonomy.goalApps.includes(packageName);
+    return APP_TAXONOMY.focusCategories.includes(appCategory(taxonomy, packageName));
+}
@@ -1,19 +1,90 @@
 // ─────────────────────────────────────────────────────────────────────────────
 // Model 8: Attention Forecasting
-// Rolling 7-day window → Personal Focus Heatmap
+// Recency-weighted AFI samples → Personal Focus Heatmap with predictive intervals
 // ─────────────────────────────────────────────────────────────────────────────
 
-import { FocusWindow, HourBlock } from '../models/types';
-import { FORECAST_WINDOW_DAYS, HEATMAP_THRESHOLDS } from '../models/constants';
+import { AFIObservation, FocusWindow, ForecastCovariates, HourBlock } from '../models/types';
+import { FORECAST_MODEL, HEATMAP_THRESHOLDS, NORM_RANGES } from '../models/constants';
 import { clamp } from './normalize';
 
+const DAY_MS = 24 * 3600 * 1000;
+
+/** A sample as the model sees it. */
+interface SlotObservation {
+    day: number;
+    hour: number;
+    afi: number;
+    /** Recency weight (decayed) or, for stored aggregates, the sample count. */
+    weight: number;
+    /** Σ of squared unit weights behind `weight`, for the effective sample size. */
+    weightSq: number;
+    /** Scaled [sleep, CRS] of the sample's day, if known. */
+    x: [number, number] | null;
+    dayKey: number | null;
+}
+
+interface SlotStats {
+    sw: number;
+    sw2: number;
+    swy: number;
+}
+
+interface CovariateEffect {
+    beta: [number, number];
+    center: [number, number];
+}
+
+export interface ForecastOptions {
+    now?: number;
+    /** Today's sleep/CRS; shifts the forecast for today's weekday only. */
+    today?: ForecastCovariates;
+}
+
+/**
+ * Forecast the 7×24 heatmap from hourly AFI samples.
+ *
+ * Per (dayOfWeek, hour) slot:
+ *   - samples are weighted by 0.5^(age / halfLifeDays)
+ *   - the mean is shrunk towards the same hour on the other days of the same
+ *     day type (weekday / weekend) with `poolStrength` pseudo-samples
+ *   - sleep and CRS enter as a ridge-regressed linear shift on the slot
+ *     residuals; samples are adjusted to the user's average day, and today's
+ *     row is shifted by today's covariates
+ *   - the predictive SD combines the slot's residual spread (shrunk towards
+ *     the pooled spread) with the uncertainty of its mean
+ *
+ * Slots with no samples of their own have confidence 0. If their pool is
+ * empty as well, they get the neutral default with an uninformative interval.
+ */
+export function forecastFocusHeatmap(
+    samples: AFIObservation[],
+    options: ForecastOptions = {},
+): HourBlock[] {
+    const now = options.now ?? Date.now();
+    const observations = samples.map((s): SlotObservation => {
+        const date = new Date(s.timestamp);
+        const weight = 0.5 ** (Math.max(0, now - s.timestamp) / DAY_MS / FORECAST_MODEL.halfLifeDays);
+        return {
+            day: date.getDay(),
+            hour: date.getHours(),
+            afi: clamp(s.afi, 0, 1),
+            weight,
+            weightSq: weight * weight,
+            x: s.covariates ? scaleCovariates(s.covariates) : null,
+            dayKey: Math.floor(s.timestamp / DAY_MS),
+        };
+    });
+    const today = options.today ? { day: new Date(now).getDay(), x: scaleCovariates(options.today) } : null;
+    return buildHeatmap(observations, today);
+}
+
 /**
- * Generate a personal focus heatmap from historical focus windows.
+ * Generate a personal focus heatmap from stored focus windows.
  *
- * Uses a rolling 7-day window of AFI measurements per (dayOfWeek, hour)
- * to predict optimal focus times.
+ * The aggregates carry no timestamps or covariates, so this is the forecast
+ * without recency decay or health adjustment.
  *
- * Output: 7×24 = 168 HourBlocks with predicted AFI and quality label.
+ * Output: 7×24 = 168 HourBlocks with predicted AFI, interval and quality label.
  *
  * @param focusWindows  Historical focus window data
  * @returns Array of HourBlocks for the heatmap
@@ -21,42 +92,106 @@ import { clamp } from './normalize';
 export function generateFocusHeatmap(
     focusWindows: FocusWindow[],
 ): HourBlock[] {
-    const heatmap: HourBlock[] = [];
+    return buildHeatmap(
+        focusWindows
+            .filter(fw => fw.sampleCount > 0)
+            .map(fw => ({
+                day: fw.dayOfWeek,
+                hour: fw.hourOfDay,
+                afi: clamp(fw.avgAFI, 0, 1),
+                weight: fw.sampleCount,
+                weightSq: fw.sampleCount,
+                x: null,
+                dayKey: null,
+            })),
+        null,
+    );
+}
+
+function buildHeatmap(
+    observations: SlotObservation[],
+    today: { day: number; x: [number, number] } | null,
+): HourBlock[] {
+    const { poolStrength, priorSD, priorSDStrength, slotSDStrength, intervalZ } = FORECAST_MODEL;
+
+    const effect = fitCovariateEffect(observations);
+    const adjusted = effect
+        ? observations.map(o => ({ ...o, afi: o.afi - covariateShift(effect, o.x) }))
+        : observations;
 
+    // Slot and day-type pool sums
+    const slots = new Map<string, SlotStats>();
+    const pools = new Map<string, SlotStats>();
+    for (const o of adjusted) {
+        for (const [map, key] of [[slots, slotKey(o.day, o.hour)], [pools, poolKey(o.day, o.hour)]] as const) {
+            const st = map.get(key) ?? { sw: 0, sw2: 0, swy: 0 };
+            st.sw += o.weight;
+            st.sw2 += o.weightSq;
+            st.swy += o.weight * o.afi;
+            map.set(key, st);
+        }
+    }
+
+    // Residual spread around each slot's own mean
+    const slotSS = new Map<string, number>();
+    let totalSS = 0;
+    let totalW = 0;
+    for (const o of adjusted) {
+        const key = slotKey(o.day, o.hour);
+        const st = slots.get(key)!;
+        const r = o.afi - st.swy / st.sw;
+        slotSS.set(key, (slotSS.get(key) ?? 0) + o.weight * r * r);
+        totalSS += o.weight * r * r;
+        totalW += o.weight;
+    }
+    const pooledVar = (totalSS + priorSDStrength * priorSD * priorSD) / (totalW + priorSDStrength);
+
+    const heatmap: HourBlock[] = [];
     for (let day = 0; day < 7; day++) {
         for (let hour = 0; hour < 24; hour++) {
-            const matching = focusWindows.filter(
-                fw => fw.dayOfWeek === day && fw.hourOfDay === hour,
-            );
+            const own = slots.get(slotKey(day, hour)) ?? { sw: 0, sw2: 0, swy: 0 };
+            const pool = pools.get(poolKey(day, hour)) ?? { sw: 0, sw2: 0, swy: 0 };
 
-            if (matching.length === 0) {
+            // Other days of the same type at this hour; the slot itself if there are none
+            const siblingW = pool.sw - own.sw;
+            const prior = siblingW > 1e-9
+                ? (pool.swy - own.swy) / siblingW
+                : own.sw > 0 ? own.swy / own.sw : null;
+
+            if (prior === null) {
                 // No data → use neutral default
                 heatmap.push({
                     dayOfWeek: day,
                     hour,
                     predictedAFI: 0.5,
+                    afiInterval: { low: 0, high: 1 },
                     confidence: 0,
                     label: 'fair',
                 });
                 continue;
             }
 
-            // Weighted average — more recent samples get higher weight
-            const totalSamples = matching.reduce((s, fw) => s + fw.sampleCount, 0);
-            const weightedAFI =
-                matching.reduce((s, fw) => s + fw.avgAFI * fw.sampleCount, 0) /
-                totalSamples;
+            let mean = (own.swy + poolStrength * prior) / (own.sw + poolStrength);
+            if (effect && today && today.day === day) {
+                mean += covariateShift(effect, today.x);
+            }
 
-            const predictedAFI = clamp(weightedAFI, 0, 1);
-            const confidence = computeConfidence(totalSamples);
-            const label = classifyHourBlock(predictedAFI);
+            const slotVar = ((slotSS.get(slotKey(day, hour)) ?? 0) + slotSDStrength * pooledVar)
+                / (own.sw + slotSDStrength);
+            const effectiveN = own.sw2 > 0 ? (own.sw * own.sw) / own.sw2 : 0;
+            const sd = Math.sqrt(slotVar * (1 + 1 / (effectiveN + poolStrength)));
 
+            const predictedAFI = clamp(mean, 0, 1);
             heatmap.push({
                 dayOfWeek: day,
                 hour,
                 predictedAFI,
-                confidence,
-                label,
+                afiInterval: {
+                    low: clamp(mean - intervalZ * sd, 0, 1),
+                    high: clamp(mean + intervalZ * sd, 0, 1),
+                },
+                confidence: own.sw / (own.sw + poolStrength),
+                label: classifyHourBlock(predictedAFI),
             });
         }
     }
@@ -64,9 +199,20 @@ export function generateFocusHeatmap(
     return heatmap;
 }
 
+/**
+ * Expected focus quality (1 − AFI) less `uncertaintyPenalty` predictive SDs.
+ * The SD is read back from the upper half of the interval, which is the side
+ * that matters for a good slot and the one not clipped at 0.
+ */
+export function uncertaintyAdjustedQuality(block: HourBlock): number {
+    const sd = Math.max(0, block.afiInterval.high - block.predictedAFI) / FORECAST_MODEL.intervalZ;
+    return 1 - block.predictedAFI - FORECAST_MODEL.uncertaintyPenalty * sd;
+}
+
 /**
  * Find optimal focus windows from the heatmap.
- * Returns hours classified as 'optimal' or 'good', sorted by quality.
+ * Returns hours classified as 'optimal' or 'good', best uncertainty-adjusted
+ * quality first — a slightly worse hour that is well measured beats a guess.
  */
 export function findOptimalWindows(
     heatmap: HourBlock[],
@@ -80,13 +226,12 @@ export function findOptimalWindows(
         candidates = candidates.filter(hb => hb.dayOfWeek === dayOfWeek);
     }
 
-    // Sort by AFI ascending (lower = better focus)
-    return candidates.sort((a, b) => a.predictedAFI - b.predictedAFI);
+    return candidates.sort((a, b) => uncertaintyAdjustedQuality(b) - uncertaintyAdjustedQuality(a));
 }
 
 /**
  * Get suggested focus schedule for today.
- * Returns top N optimal hour blocks.
+ * Returns top N hour blocks by uncertainty-adjusted quality.
  */
 export function getSuggestedSchedule(
     heatmap: HourBlock[],
@@ -96,13 +241,71 @@ export function getSuggestedSchedule(
     return findOptimalWindows(heatmap, dayOfWeek).slice(0, maxSlots);
 }
 
+// ── Covariates ───────────────────────────────────────────────────────────────
+
+function scaleCovariates(c: ForecastCovariates): [number, number] {
+    return [c.sleepHours / NORM_RANGES.sleepHours.max, c.cognitiveReadiness / 100];
+}
+
+function covariateShift(effect: CovariateEffect, x: [number, number] | null): number {
+    if (!x) return 0;
+    return effect.beta[0] * (x[0] - effect.center[0]) + effect.beta[1] * (x[1] - effect.center[1]);
+}
+
 /**
- * Confidence based on sample count.
- * More samples → higher confidence.
- * 7+ samples (one per day for a week) → full confidence.
+ * Ridge fit of slot residuals on centred [sleep, CRS]. Null until enough
+ * distinct days have health data; the coefficients shrink towards 0.
  */
-function computeConfidence(sampleCount: number): number {
-    return clamp(sampleCount / FORECAST_WINDOW_DAYS, 0, 1);
+function fitCovariateEffect(observations: SlotObservation[]): CovariateEffect | null {
+    const withX = observations.filter(o => o.x !== null);
+    const days = new Set(withX.map(o => o.dayKey));
+    if (days.size < FORECAST_MODEL.minCovariateDays) return null;
+
+    const slotMeans = new Map<string, { sw: number; swy: number }>();
+    for (const o of observations) {
+        const key = slotKey(o.day, o.hour);
+        const st = slotMeans.get(key) ?? { sw: 0, swy: 0 };
+        st.sw += o.weight;
+        st.swy += o.weight * o.afi;
+        slotMeans.set(key, st);
+    }
+
+    let sw = 0;
+    const center: [number, number] = [0, 0];
+    for (const o of withX) {
+        sw += o.weight;
+        center[0] += o.weight * o.x![0];
+        center[1] += o.weight * o.x![1];
+    }
+    center[0] /= sw;
+    center[1] /= sw;
+
+    // Normal equations (XᵀWX + λI) β = XᵀWr
+    let a11 = FORECAST_MODEL.ridge, a12 = 0, a22 = FORECAST_MODEL.ridge, b1 = 0, b2 = 0;
+    for (const o of withX) {
+        const st = slotMeans.get(slotKey(o.day, o.hour))!;
+        const r = o.afi - st.swy / st.sw;
+        const x1 = o.x![0] - center[0];
+        const x2 = o.x![1] - center[1];
+        a11 += o.weight * x1 * x1;
+        a12 += o.weight * x1 * x2;
+        a22 += o.weight * x2 * x2;
+        b1 += o.weight * x1 * r;
+        b2 += o.weight * x2 * r;
+    }
+    const det = a11 * a22 - a12 * a12;
+    return {
+        beta: [(a22 * b1 - a12 * b2) / det, (a11 * b2 - a12 * b1) / det],
+        center,
+    };
+}
+
+function slotKey(day: number, hour: number): string {
+    return `${day}-${hour}`;
+}
+
+function poolKey(day: number, hour: number): string {
+    return `${day === 0 || day === 6 ? 'weekend' : 'weekday'}-${hour}`;
 }
 
 /**
@@ -155,3 +358,38 @@ export function aggregateToFocusWindows(
 
     return windows;
 }
+
+/**
+ * Fold new FocusWindow aggregates into stored ones.
+ * Each slot keeps a running average weighted by sample count.
+ */
+export function mergeFocusWindows(
+    existing: FocusWindow[],
+    incoming: FocusWindow[],
+): FocusWindow[] {
+    const map = new Map<string, FocusWindow>();
+    for (const fw of existing) {
+        map.set(`${fw.dayOfWeek}-${fw.hourOfDay}`, fw);
+    }
+
+    for (const fw of incoming) {
+        const key = `${fw.dayOfWeek}-${fw.hourOfDay}`;
+        const prev = map.get(key);
+        if (!prev) {
+            map.set(key, fw);
+            continue;
+        }
+        const sampleCount = prev.sampleCount + fw.sampleCount;
+        const avgAFI =
+            (prev.avgAFI * prev.sampleCount + fw.avgAFI * fw.sampleCount) / sampleCount;
+        map.set(key, {
+            dayOfWeek: fw.dayOfWeek,
+            hourOfDay: fw.hourOfDay,
+            avgAFI,
+            sampleCount,
+            qualityLabel: classifyHourBlock(avgAFI),
+        });
+    }
+
+    return Array.from(map.values());
+}
@@ -3,14 +3,127 @@
 // AFI = αS + βU + γ(1/D) + δH
 // ─────────────────────────────────────────────────────────────────────────────
 
-import { AppUsageSession, AFIResult } from '../models/types';
-import { AFI_WEIGHTS, AFI_THRESHOLDS, NORM_RANGES } from '../models/constants';
+import { AppUsageSession, AFIParameters, AFIRanges, AFIResult, AppTaxonomy } from '../models/types';
+import { AFI_WEIGHTS, AFI_THRESHOLDS, APP_TAXONOMY, NORM_RANGES } from '../models/constants';
 import {
     minMaxNormalize,
     normalizedEntropy,
+    shannonEntropy,
     safeDivide,
     clamp,
 } from './normalize';
+import { isOnTask } from './appTaxonomy';
+
+/** Bundled AFI parameters: AFI_WEIGHTS over NORM_RANGES. */
+export const DEFAULT_AFI_PARAMETERS: AFIParameters = {
+    weights: { ...AFI_WEIGHTS },
+    ranges: {
+        switchesPerHour: { ...NORM_RANGES.switchesPerHour },
+        unlocksPerHour: { ...NORM_RANGES.unlocksPerHour },
+        avgSessionDuration: { ...NORM_RANGES.avgSessionDuration },
+    },
+};
+
+/** Raw AFI inputs of a window, before normalization. */
+export interface AFIFeatures {
+    switchesPerHour: number;
+    unlocksPerHour: number;
+    avgSessionDuration: number;   // ms
+    entropy: number;              // already 0–1
+}
+
+/**
+ * Raw AFI inputs of `sessions` over a window of `windowMs`.
+ * Null when there is nothing to measure.
+ *
+ * With a `taxonomy`, switches between two on-task apps (Slack → IDE) and the
+ * spread of time across on-task apps are discounted by
+ * APP_TAXONOMY.onTaskDiscount; without one every app counts alike.
+ */
+export function extractAFIFeatures(
+    sessions: AppUsageSession[],
+    windowMs: number,
+    taxonomy?: AppTaxonomy,
+): AFIFeatures | null {
+    if (sessions.length === 0 || windowMs <= 0) return null;
+
+    const windowHours = windowMs / (1000 * 60 * 60);
+    const discount = taxonomy ? APP_TAXONOMY.onTaskDiscount : 0;
+    const onTask = (packageName: string) => taxonomy !== undefined && isOnTask(taxonomy, packageName);
+
+    // A session's switchCount is the switch into it, from the session before
+    const ordered = [...sessions].sort((a, b) => a.startTime - b.startTime);
+    const totalSwitches = ordered.reduce((s, ses, i) => {
+        const withinTask = i > 0 && onTask(ses.packageName) && onTask(ordered[i - 1].packageName);
+        return s + ses.switchCount * (withinTask ? 1 - discount : 1);
+    }, 0);
+    const totalUnlocks = sessions.reduce((s, ses) => s + ses.unlockCount, 0);
+    const avgDuration =
+        sessions.reduce((s, ses) => s + ses.duration, 0) / sessions.length;
+
+    const appTimeMap = new Map<string, number>();
+    for (const ses of sessions) {
+        appTimeMap.set(
+            ses.packageName,
+            (appTimeMap.get(ses.packageName) || 0) + ses.duration,
+        );
+    }
+
+    const entropy = normalizedEntropy(Array.from(appTimeMap.values()));
+
+    // On-task apps pooled into one, normalized over the same app count so
+    // pooling can only lower the spread
+    let pooledEntropy = entropy;
+    if (discount > 0 && appTimeMap.size > 1) {
+        let onTaskTime = 0;
+        const pooled: number[] = [];
+        appTimeMap.forEach((time, packageName) => {
+            if (onTask(packageName)) onTaskTime += time;
+            else pooled.push(time);
+        });
+        if (onTaskTime > 0) pooled.push(onTaskTime);
+        pooledEntropy = shannonEntropy(pooled) / Math.log2(appTimeMap.size);
+    }
+
+    return {
+        switchesPerHour: safeDivide(totalSwitches, windowHours),
+        unlocksPerHour: safeDivide(totalUnlocks, windowHours),
+        avgSessionDuration: avgDuration,
+        entropy: clamp(entropy - discount * (entropy - pooledEntropy), 0, 1),
+    };
+}
+
+/** Normalized [S, U, D, H] of `features` over `ranges`, each in [0, 1]. */
+export function afiComponents(
+    features: AFIFeatures,
+    ranges: AFIRanges,
+): [number, number, number, number] {
+    // ── S: Switches per hour ────────────────────────────────────────────────
+    const S = minMaxNormalize(
+        features.switchesPerHour,
+        ranges.switchesPerHour.min,
+        ranges.switchesPerHour.max,
+    );
+
+    // ── U: Unlocks per hour ─────────────────────────────────────────────────
+    const U = minMaxNormalize(
+        features.unlocksPerHour,
+        ranges.unlocksPerHour.min,
+        ranges.unlocksPerHour.max,
+    );
+
+    // ── D: Average session duration (inverted) ──────────────────────────────
+    // Invert: shorter sessions → higher fragmentation
+    const inverseDuration = safeDivide(1, features.avgSessionDuration, 1);
+    const maxInverse = safeDivide(1, ranges.avgSessionDuration.min, 1);
+    const minInverse = safeDivide(1, ranges.avgSessionDuration.max, 0);
+    const D = minMaxNormalize(inverseDuration, minInverse, maxInverse);
+
+    // ── H: Normalized Shannon entropy of app time distribution ──────────────
+    const H = features.entropy;
+
+    return [S, U, D, H];
+}
 
 /**
  * Compute the Attention Fragmentation Index from raw usage sessions.
@@ -23,13 +136,18 @@ import {
  *
  * @param sessions  App usage sessions within the measurement window
  * @param windowMs  Duration of the measurement window in ms
+ * @param params    Weights and ranges — the user's calibration (getAFIParameters()) or the defaults
+ * @param taxonomy  App categories and on-task apps (getAppTaxonomy()); omit to treat every app alike
  * @returns AFIResult with score 0–1 and classification
  */
 export function computeAFI(
     sessions: AppUsageSession[],
     windowMs: number,
+    params: AFIParameters = DEFAULT_AFI_PARAMETERS,
+    taxonomy?: AppTaxonomy,
 ): AFIResult {
-    if (sessions.length === 0 || windowMs <= 0) {
+    const features = extractAFIFeatures(sessions, windowMs, taxonomy);
+    if (!features) {
         return {
             score: 0,
             level: 'deep',
@@ -40,48 +158,10 @@ export function computeAFI(
         };
     }
 
-    const windowHours = windowMs / (1000 * 60 * 60);
-
-    // ── S: Switches per hour ────────────────────────────────────────────────
-    const totalSwitches = sessions.reduce((s, ses) => s + ses.switchCount, 0);
-    const switchesPerHour = safeDivide(totalSwitches, windowHours);
-    const S = minMaxNormalize(
-        switchesPerHour,
-        NORM_RANGES.switchesPerHour.min,
-        NORM_RANGES.switchesPerHour.max,
-    );
-
-    // ── U: Unlocks per hour ─────────────────────────────────────────────────
-    const totalUnlocks = sessions.reduce((s, ses) => s + ses.unlockCount, 0);
-    const unlocksPerHour = safeDivide(totalUnlocks, windowHours);
-    const U = minMaxNormalize(
-        unlocksPerHour,
-        NORM_RANGES.unlocksPerHour.min,
-        NORM_RANGES.unlocksPerHour.max,
-    );
-
-    // ── D: Average session duration (inverted) ──────────────────────────────
-    const avgDuration =
-        sessions.reduce((s, ses) => s + ses.duration, 0) / sessions.length;
-    // Invert: shorter sessions → higher fragmentation
-    const inverseDuration = safeDivide(1, avgDuration, 1);
-    const maxInverse = safeDivide(1, NORM_RANGES.avgSessionDuration.min, 1);
-    const minInverse = safeDivide(1, NORM_RANGES.avgSessionDuration.max, 0);
-    const D = minMaxNormalize(inverseDuration, minInverse, maxInverse);
-
-    // ── H: Normalized Shannon entropy of app time distribution ──────────────
-    const appTimeMap = new Map<string, number>();
-    for (const ses of sessions) {
-        appTimeMap.set(
-            ses.packageName,
-            (appTimeMap.get(ses.packageName) || 0) + ses.duration,
-        );
-    }
-    const appTimes = Array.from(appTimeMap.values());
-    const H = normalizedEntropy(appTimes);
+    const [S, U, D, H] = afiComponents(features, params.ranges);
 
     // ── Weighted sum ────────────────────────────────────────────────────────
-    const { alpha, beta, gamma, delta } = AFI_WEIGHTS;
+    const { alpha, beta, gamma, delta } = params.weights;
     const score = clamp(alpha * S + beta * U + gamma * D + delta * H, 0, 1);
 
     // ── Classification ──────────────────────────────────────────────────────
@@ -97,9 +177,9 @@ export function computeAFI(
     return {
         score,
         level,
-        switchesPerHour,
-        unlocksPerHour,
-        avgSessionDuration: avgDuration,
+        switchesPerHour: features.switchesPerHour,
+        unlocksPerHour: features.unlocksPerHour,
+        avgSessionDuration: features.avgSessionDuration,
         entropy: H,
     };
 }
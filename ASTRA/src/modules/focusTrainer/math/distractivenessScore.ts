@@ -3,9 +3,10 @@
 // DS_i = w1*T_i + w2*F_i + w3*C_i
 // ─────────────────────────────────────────────────────────────────────────────
 
-import { AppDailyStats, DistractivenessResult } from '../models/types';
-import { DS_WEIGHTS, DS_THRESHOLD, NORM_RANGES } from '../models/constants';
+import { AppDailyStats, AppTaxonomy, DistractivenessResult } from '../models/types';
+import { APP_TAXONOMY, CATEGORY_DS_PRIOR, DS_WEIGHTS, DS_THRESHOLD, NORM_RANGES } from '../models/constants';
 import { minMaxNormalize, clamp } from './normalize';
+import { appCategory } from './appTaxonomy';
 
 /**
  * Compute Distractiveness Score for each app.
@@ -17,21 +18,27 @@ import { minMaxNormalize, clamp } from './normalize';
  *
  * DS_i = w1*T_i + w2*F_i + w3*C_i
  *
+ * With a taxonomy, DS_i is blended with the prior of the app's category:
+ * DS_i = (1 − p)·DS_i + p·prior, p = APP_TAXONOMY.priorWeight. Apps in
+ * 'other' keep their usage score.
+ *
  * If DS_i > threshold → classify as distractive
  *
  * @param appsStats  Array of per-app daily aggregated stats
+ * @param taxonomy   App categories (getAppTaxonomy()); omit to score on usage alone
  * @returns Array of DistractivenessResult (one per app)
  */
 export function computeDistractivenessScores(
     appsStats: AppDailyStats[],
+    taxonomy?: AppTaxonomy,
 ): DistractivenessResult[] {
-    return appsStats.map(app => computeSingleDS(app));
+    return appsStats.map(app => computeSingleDS(app, taxonomy));
 }
 
 /**
  * Compute DS for a single app
  */
-export function computeSingleDS(app: AppDailyStats): DistractivenessResult {
+export function computeSingleDS(app: AppDailyStats, taxonomy?: AppTaxonomy): DistractivenessResult {
     const { w1, w2, w3 } = DS_WEIGHTS;
 
     // Normalize inputs to [0, 1]
@@ -50,7 +57,11 @@ export function computeSingleDS(app: AppDailyStats): DistractivenessResult {
     // C is already 0–1
     const C = clamp(app.conflictDuringFocus, 0, 1);
 
-    const score = clamp(w1 * T + w2 * F + w3 * C, 0, 1);
+    const usageScore = clamp(w1 * T + w2 * F + w3 * C, 0, 1);
+
+    const prior = taxonomy ? CATEGORY_DS_PRIOR[appCategory(taxonomy, app.packageName)] : undefined;
+    const p = APP_TAXONOMY.priorWeight;
+    const score = prior === undefined ? usageScore : clamp((1 - p) * usageScore + p * prior, 0, 1);
 
     return {
         appName: app.appName,
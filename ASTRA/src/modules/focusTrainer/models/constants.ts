@@ -3,6 +3,8 @@
 // All tunable weights, thresholds, and defaults
 // ─────────────────────────────────────────────────────────────────────────────
 
+import type { AppCategory } from './types';
+
 // ── AFI Weights ──────────────────────────────────────────────────────────────
 /** Attention Fragmentation Index coefficients: αS + βU + γ(1/D) + δH */
 export const AFI_WEIGHTS = {
@@ -18,6 +20,19 @@ export const AFI_THRESHOLDS = {
     // ≥ 0.60 → Fragmented
 } as const;
 
+// ── AFI Calibration ──────────────────────────────────────────────────────────
+export const AFI_CALIBRATION = {
+    historyDays: 28,                 // usage and pomodoros the fit reads
+    minUsageHours: 48,               // hours with usage before ranges are learned
+    minLabelledSessions: 12,         // labelled pomodoros before weights are learned
+    preSessionMs: 60 * 60 * 1000,    // usage before a pomodoro that it labels
+    rangePercentiles: [0.05, 0.95] as [number, number],
+    priorHours: 48,                  // pseudo-hours holding the ranges at NORM_RANGES
+    priorSessions: 20,               // pseudo-sessions holding the weights at AFI_WEIGHTS
+    ridge: 0.05,                     // keeps the weight fit stable with correlated inputs
+    minWeight: 0.05,                 // no input is switched off entirely
+} as const;
+
 // ── Distractiveness Score Weights ────────────────────────────────────────────
 export const DS_WEIGHTS = {
     w1: 0.40,  // avg daily time
@@ -27,6 +42,27 @@ export const DS_WEIGHTS = {
 
 export const DS_THRESHOLD = 0.55; // above → classified distractive
 
+// ── App Taxonomy ─────────────────────────────────────────────────────────────
+export const APP_TAXONOMY = {
+    focusCategories: ['work', 'learning'] as AppCategory[], // on-task when no goal lists its apps
+    onTaskDiscount: 0.8,  // share of an on-task → on-task switch (and of their app spread) AFI ignores
+    priorWeight: 0.35,    // DS = (1 − w)·usage score + w·category prior
+} as const;
+
+/** How distracting apps of a category usually are (0–1); 'other' has no prior. */
+export const CATEGORY_DS_PRIOR: Partial<Record<AppCategory, number>> = {
+    work: 0.10,
+    learning: 0.15,
+    utility: 0.20,
+    media: 0.30,
+    messaging: 0.50,
+    news: 0.60,
+    shopping: 0.65,
+    video: 0.80,
+    games: 0.85,
+    social: 0.90,
+};
+
 // ── Cognitive Readiness Score Weights ────────────────────────────────────────
 export const CRS_WEIGHTS = {
     a: 0.30,  // sleep quality
@@ -114,9 +150,42 @@ export const NORM_RANGES = {
     steps: { min: 0, max: 15000 },
 } as const;
 
+// ── Usage Event Stream ───────────────────────────────────────────────────────
+export const USAGE_STREAM = {
+    minSessionMs: 1000,              // shorter foreground blips are dropped
+    resumeGapMs: 2000,               // same app back within this → one session (activity change)
+    switchGapMs: 60 * 1000,          // next app within this, no lock in between → a switch
+    initialBackfillMs: 24 * 3600000, // first ingest reads this far back
+    afiSlotMs: 3600000,              // AFI samples per hour, for the heatmap
+    // Home screens and system UI: time there is not an app session
+    ignoredPackages: [
+        'com.android.systemui',
+        'com.android.launcher',
+        'com.android.launcher3',
+        'com.google.android.apps.nexuslauncher',
+        'com.sec.android.app.launcher',
+        'com.miui.home',
+        'com.oneplus.launcher',
+        'com.huawei.android.launcher',
+    ] as string[],
+} as const;
+
 // ── Forecasting ──────────────────────────────────────────────────────────────
 export const FORECAST_WINDOW_DAYS = 7;
 
+export const FORECAST_MODEL = {
+    historyDays: 56,            // samples older than this are not read
+    halfLifeDays: 14,           // a sample two weeks old counts half
+    poolStrength: 2,            // pseudo-samples borrowed from the same hour on the same day type
+    priorSD: 0.2,               // AFI spread assumed before any residuals are seen
+    priorSDStrength: 3,         // pseudo-samples behind priorSD
+    slotSDStrength: 3,          // pulls each slot's spread towards the pooled one
+    ridge: 0.1,                 // shrinks the sleep/CRS coefficients (covariates scaled to 0–1) towards 0
+    minCovariateDays: 5,        // days with health data needed before covariates are used
+    intervalZ: 1.2816,          // 80% predictive interval
+    uncertaintyPenalty: 0.5,    // SDs of AFI charged against a slot when ranking
+} as const;
+
 // ── Heatmap Quality Labels ───────────────────────────────────────────────────
 export const HEATMAP_THRESHOLDS = {
     optimal: 0.25,  // AFI < 0.25
@@ -19,6 +19,24 @@ export interface AppUsageSession {
 
 export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
 
+/** One raw UsageStatsManager event, as returned by AstraTrackingModule.getUsageEvents */
+export interface RawUsageEvent {
+    t: number;               // epoch ms
+    type: number;            // UsageEvents.Event type code (1 resumed, 2 paused, 15/16 screen, 17/18 keyguard, 23 stopped)
+    pkg?: string;
+    cls?: string;
+}
+
+/** A recorded slice of the usage event stream — the native query result and the test fixture format */
+export interface UsageEventRecording {
+    format: 'astra.usage-events';
+    version: 1;
+    start: number;           // epoch ms, query window
+    end: number;
+    labels: Record<string, string>;   // packageName → app label
+    events: RawUsageEvent[];
+}
+
 /** Aggregated per-app statistics for a day */
 export interface AppDailyStats {
     appName: string;
@@ -57,6 +75,26 @@ export interface FocusGoal {
     isActive: boolean;
 }
 
+/** What kind of app a package is: the bundled mapping or the user's override */
+export type AppCategory =
+    | 'work'
+    | 'learning'
+    | 'utility'
+    | 'media'
+    | 'messaging'
+    | 'news'
+    | 'shopping'
+    | 'video'
+    | 'games'
+    | 'social'
+    | 'other';
+
+/** Package categories plus the apps that count as on-task, for AFI and DS */
+export interface AppTaxonomy {
+    categories: Record<string, AppCategory>; // package → category; unlisted → 'other'
+    goalApps: string[];                      // active goal's associatedApps; empty → APP_TAXONOMY.focusCategories
+}
+
 /** A single Pomodoro focus session */
 export interface PomodoroSession {
     id?: number;
@@ -68,6 +106,7 @@ export interface PomodoroSession {
     distractionTime?: number; // epoch ms when first distracted
     wasSuccessful: boolean;
     breakDuration: number;    // ms
+    focusRating?: number;     // 1–5, self-reported after the session
 }
 
 /** Cognitive training session result */
@@ -107,6 +146,26 @@ export interface FocusWindow {
     qualityLabel: 'optimal' | 'good' | 'fair' | 'poor';
 }
 
+/** Min–max ranges the AFI inputs are normalized over */
+export interface AFIRanges {
+    switchesPerHour: { min: number; max: number };
+    unlocksPerHour: { min: number; max: number };
+    avgSessionDuration: { min: number; max: number }; // ms
+}
+
+/** Weights and ranges computeAFI runs on: the bundled defaults or a user's calibration */
+export interface AFIParameters {
+    weights: { alpha: number; beta: number; gamma: number; delta: number };
+    ranges: AFIRanges;
+}
+
+/** A user's learned AFI parameters, as stored */
+export interface AFICalibration extends AFIParameters {
+    fittedAt: number;
+    labelledSessions: number; // rated/finished pomodoros behind the weights (0 → default weights)
+    usageHours: number;       // hours of usage behind the ranges (0 → default ranges)
+}
+
 /** AFI computation result */
 export interface AFIResult {
     score: number;            // 0–1
@@ -171,11 +230,25 @@ export interface ComplianceResult {
 export interface HourBlock {
     dayOfWeek: number;
     hour: number;
-    predictedAFI: number;
-    confidence: number;       // 0–1
+    predictedAFI: number;     // predictive mean
+    afiInterval: { low: number; high: number }; // 80% predictive interval
+    confidence: number;       // 0–1, recency-weighted evidence for this slot
     label: 'optimal' | 'good' | 'fair' | 'poor';
 }
 
+/** Day-level health covariates for the attention forecast */
+export interface ForecastCovariates {
+    sleepHours: number;
+    cognitiveReadiness: number; // 0–100, from the health module
+}
+
+/** One hourly AFI sample, with the health covariates of its day if known */
+export interface AFIObservation {
+    timestamp: number;
+    afi: number;
+    covariates?: ForecastCovariates;
+}
+
 /** Dual N-Back game state */
 export interface NBackGameState {
     level: number;            // current n
@@ -0,0 +1,57 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// App Taxonomy Service — What kind of app each package is
+// Bundled categories for common packages (models/appCategories.json) with the
+// user's overrides on top, and the active goal's associatedApps as the
+// on-task set. AFI discounts on-task switching; DS blends in category priors.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { AppCategory, AppTaxonomy, FocusGoal } from '../models/types';
+import { CATEGORY_DS_PRIOR } from '../models/constants';
+import { appCategory } from '../math/appTaxonomy';
+import bundledCategories from '../models/appCategories.json';
+import { getAppCategoryOverrides, setAppCategoryOverrides } from '../../../storage/mmkvStore';
+
+/** Every category, most focused first (the order the Settings picker cycles through). */
+export const APP_CATEGORIES: AppCategory[] = [...Object.keys(CATEGORY_DS_PRIOR) as AppCategory[], 'other'];
+
+function isAppCategory(value: unknown): value is AppCategory {
+    return APP_CATEGORIES.includes(value as AppCategory);
+}
+
+/** Bundled package → category mapping; entries with an unknown category are dropped. */
+export const BUNDLED_APP_CATEGORIES: Record<string, AppCategory> = Object.fromEntries(
+    Object.entries(bundledCategories as Record<string, string>).filter(
+        (entry): entry is [string, AppCategory] => isAppCategory(entry[1]),
+    ),
+);
+
+/**
+ * Bundled categories with the user's overrides, and `goal`'s apps as the
+ * on-task set. Without a goal (or for history, where the goal at the time is
+ * unknown) work and learning apps count as on-task.
+ */
+export function getAppTaxonomy(goal: FocusGoal | null = null): AppTaxonomy {
+    return {
+        categories: { ...BUNDLED_APP_CATEGORIES, ...getAppCategoryOverrides() },
+        goalApps: goal?.associatedApps ?? [],
+    };
+}
+
+export function getAppCategory(packageName: string): AppCategory {
+    return appCategory(getAppTaxonomy(), packageName);
+}
+
+/** Recategorize `packageName`; null goes back to the bundled category. */
+export function setAppCategoryOverride(packageName: string, category: AppCategory | null): void {
+    const { [packageName]: _previous, ...rest } = getAppCategoryOverrides();
+    const next = category === null || category === BUNDLED_APP_CATEGORIES[packageName]
+        ? rest
+        : { ...rest, [packageName]: category };
+    setAppCategoryOverrides(next);
+    console.log(`[Taxonomy] ${packageName} → ${category ?? `${BUNDLED_APP_CATEGORIES[packageName] ?? 'other'} (bundled)`}`);
+}
+
+export function clearAppCategoryOverrides(): void {
+    setAppCategoryOverrides({});
+    console.log('[Taxonomy] Category overrides cleared');
+}
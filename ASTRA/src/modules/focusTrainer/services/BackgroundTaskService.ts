@@ -3,6 +3,12 @@
 // Schedules periodic data collection and model updates
 // ─────────────────────────────────────────────────────────────────────────────
 
+import { ingestUsageEvents } from './UsageStatsService';
+import { sampleFocusWindows } from './HeatmapService';
+import { recalibrateAFI } from './CalibrationService';
+import { pruneDirectiveLog } from '../../../database/repository';
+import { getBackgroundTaskRuns, setBackgroundTaskRun } from '../../../storage/mmkvStore';
+
 export type TaskId =
     | 'collect-usage-stats'
     | 'update-afi'
@@ -37,10 +43,18 @@ const TASK_CONFIGS: Record<TaskId, { intervalMs: number; description: string }>
     },
     'daily-aggregation': {
         intervalMs: 24 * 60 * 60 * 1000,  // Once per day
-        description: 'Aggregate daily statistics',
+        description: 'Aggregate daily statistics, refit the AFI calibration and prune the directive log',
     },
 };
 
+// In-process work per task; the rest only exist as native schedules so far.
+// Listed in run order: usage has to be ingested before it can be sampled.
+const TASK_RUNNERS: Partial<Record<TaskId, () => Promise<unknown>>> = {
+    'collect-usage-stats': () => ingestUsageEvents(),
+    'update-heatmap': () => sampleFocusWindows(),
+    'daily-aggregation': () => Promise.all([recalibrateAFI(), pruneDirectiveLog()]),
+};
+
 /**
  * Schedule a background task.
  * In production: bridges to AndroidX WorkManager.enqueuePeriodicWork()
@@ -97,7 +111,7 @@ export function getTaskStatuses(): ScheduledTask[] {
     return (Object.keys(TASK_CONFIGS) as TaskId[]).map(id => ({
         id,
         intervalMs: TASK_CONFIGS[id].intervalMs,
-        lastRun: 0, // TODO: Read from persistent storage
+        lastRun: getBackgroundTaskRuns()[id] ?? 0,
         isActive: true,
     }));
 }
@@ -113,3 +127,33 @@ export function shouldTaskRun(
     const config = TASK_CONFIGS[taskId];
     return Date.now() - lastRunTime >= config.intervalMs;
 }
+
+/**
+ * Run a task's in-process work now and record the run.
+ * Returns false for tasks without in-process work.
+ */
+export async function runTask(taskId: TaskId, now: number = Date.now()): Promise<boolean> {
+    const runner = TASK_RUNNERS[taskId];
+    if (!runner) return false;
+    try {
+        await runner();
+    } catch (e) {
+        console.warn(`[Background] "${taskId}" failed:`, e);
+    }
+    setBackgroundTaskRun(taskId, now);
+    return true;
+}
+
+/**
+ * Run every task whose interval has passed since its last run.
+ * Called on app start and resume while WorkManager is not wired up.
+ */
+export async function runDueTasks(now: number = Date.now()): Promise<TaskId[]> {
+    const runs = getBackgroundTaskRuns();
+    const due = (Object.keys(TASK_RUNNERS) as TaskId[])
+        .filter(id => now - (runs[id] ?? 0) >= TASK_CONFIGS[id].intervalMs);
+    for (const id of due) {
+        await runTask(id, now);
+    }
+    return due;
+}
@@ -0,0 +1,61 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Calibration Service — The AFI parameters the app runs on
+// Learns per-user AFI ranges and weights from stored usage and pomodoro
+// outcomes (see math/afiCalibration.ts) and keeps them in storage.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { AFICalibration, AFIParameters } from '../models/types';
+import { AFI_CALIBRATION, USAGE_STREAM } from '../models/constants';
+import { DEFAULT_AFI_PARAMETERS, extractAFIFeatures } from '../math/attentionFragmentation';
+import { LabelledAFIExample, calibrateAFI, focusOutcomeTarget } from '../math/afiCalibration';
+import { groupBySlot } from '../engine/usageEventStream';
+import { getAppTaxonomy } from './AppTaxonomyService';
+import { getPomodoroSessionsInRange, getUsageSessionsInRange } from '../../../database/repository';
+import { getAFICalibration, setAFICalibration } from '../../../storage/mmkvStore';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+/** The user's calibrated AFI parameters, or the bundled ones before the first calibration. */
+export function getAFIParameters(): AFIParameters {
+    return getAFICalibration() ?? DEFAULT_AFI_PARAMETERS;
+}
+
+/**
+ * Refit from the last `historyDays`: hourly usage for the ranges, and each
+ * finished pomodoro labelled by the usage in the hour before it for the
+ * weights. Stores and returns the result.
+ */
+export async function recalibrateAFI(now: number = Date.now()): Promise<AFICalibration> {
+    const from = now - AFI_CALIBRATION.historyDays * DAY_MS;
+    const [usage, pomodoros] = await Promise.all([
+        getUsageSessionsInRange(from - AFI_CALIBRATION.preSessionMs, now),
+        getPomodoroSessionsInRange(from, now),
+    ]);
+
+    const taxonomy = getAppTaxonomy();
+    const hourly = groupBySlot(usage.filter(s => s.startTime >= from))
+        .map(([, sessions]) => extractAFIFeatures(sessions, USAGE_STREAM.afiSlotMs, taxonomy))
+        .filter(f => f !== null);
+
+    const examples: LabelledAFIExample[] = [];
+    for (const session of pomodoros) {
+        if (session.endTime === undefined) continue;
+        const before = usage.filter(s =>
+            s.startTime >= session.startTime - AFI_CALIBRATION.preSessionMs && s.startTime < session.startTime);
+        const features = extractAFIFeatures(before, AFI_CALIBRATION.preSessionMs, taxonomy);
+        if (features) examples.push({ features, fragmentation: focusOutcomeTarget(session) });
+    }
+
+    const calibration = calibrateAFI(hourly, examples, now);
+    setAFICalibration(calibration);
+    console.log(
+        `[Calibration] AFI refit on ${calibration.usageHours} usage hours, ${calibration.labelledSessions} labelled sessions`,
+    );
+    return calibration;
+}
+
+/** Forget the learned parameters and go back to the bundled ones. */
+export function resetAFICalibration(): void {
+    setAFICalibration(null);
+    console.log('[Calibration] AFI calibration cleared');
+}
@@ -0,0 +1,91 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Heatmap Service — AFI sampling into focus_windows
+// Computes hourly AFI over stored app_usage_sessions and folds it into the
+// per-(weekday, hour) running averages in focus_windows. The heatmap itself
+// is forecast from recent samples joined with the health module's days.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { AFIObservation, FocusWindow, ForecastCovariates, HourBlock } from '../models/types';
+import { FORECAST_MODEL, FORECAST_WINDOW_DAYS, USAGE_STREAM } from '../models/constants';
+import {
+    aggregateToFocusWindows,
+    forecastFocusHeatmap,
+    generateFocusHeatmap,
+    mergeFocusWindows,
+} from '../math/attentionForecasting';
+import { toAFISamples } from '../engine/usageEventStream';
+import { getAppTaxonomy } from './AppTaxonomyService';
+import { getAFIParameters } from './CalibrationService';
+import {
+    getFocusWindows,
+    getHealthDayRecords,
+    getUsageSessionsInRange,
+    upsertFocusWindows,
+} from '../../../database/repository';
+import {
+    getHeatmapSampledThrough,
+    getUsageIngestCursor,
+    setHeatmapSampledThrough,
+} from '../../../storage/mmkvStore';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+/** Health check-ins are stored under ISO (UTC) dates, so samples are joined on the same key. */
+function healthDayKey(at: number): string {
+    return new Date(at).toISOString().slice(0, 10);
+}
+
+function slotStart(at: number): number {
+    return Math.floor(at / USAGE_STREAM.afiSlotMs) * USAGE_STREAM.afiSlotMs;
+}
+
+/**
+ * Sample every complete hour since the last run and upsert the slots it
+ * touched. Hours without usage add no sample, and hours still open in usage
+ * ingestion wait for the next run. Returns the updated windows.
+ */
+export async function sampleFocusWindows(now: number = Date.now()): Promise<FocusWindow[]> {
+    const until = slotStart(Math.min(now, getUsageIngestCursor() ?? now));
+    const from = getHeatmapSampledThrough() ?? slotStart(until - FORECAST_WINDOW_DAYS * DAY_MS);
+    if (from >= until) return [];
+
+    const sessions = await getUsageSessionsInRange(from, until - 1);
+    const incoming = aggregateToFocusWindows(toAFISamples(sessions, getAFIParameters(), getAppTaxonomy()));
+    const touched = new Set(incoming.map(fw => `${fw.dayOfWeek}-${fw.hourOfDay}`));
+    const updated = mergeFocusWindows(await getFocusWindows(), incoming)
+        .filter(fw => touched.has(`${fw.dayOfWeek}-${fw.hourOfDay}`));
+
+    await upsertFocusWindows(updated, now);
+    setHeatmapSampledThrough(until);
+    if (updated.length > 0) {
+        console.log(`[Heatmap] Sampled ${sessions.length} sessions into ${updated.length} hour slots`);
+    }
+    return updated;
+}
+
+/**
+ * The 168-slot heatmap: forecast from the last `historyDays` of hourly AFI,
+ * with each sample's day of sleep/CRS and today's as covariates. Falls back
+ * to the stored focus windows when there is no recent usage.
+ */
+export async function loadFocusHeatmap(now: number = Date.now()): Promise<HourBlock[]> {
+    const from = now - FORECAST_MODEL.historyDays * DAY_MS;
+    const samples = toAFISamples(await getUsageSessionsInRange(from, now), getAFIParameters(), getAppTaxonomy());
+    if (samples.length === 0) {
+        return generateFocusHeatmap(await getFocusWindows());
+    }
+
+    const health = new Map<string, ForecastCovariates>();
+    for (const record of await getHealthDayRecords(healthDayKey(from))) {
+        health.set(record.input.date, {
+            sleepHours: record.input.sleep_hours,
+            cognitiveReadiness: record.computed.CognitiveReadiness,
+        });
+    }
+
+    const observations = samples.map((s): AFIObservation => ({
+        ...s,
+        covariates: health.get(healthDayKey(s.timestamp)),
+    }));
+    return forecastFocusHeatmap(observations, { now, today: health.get(healthDayKey(now)) });
+}
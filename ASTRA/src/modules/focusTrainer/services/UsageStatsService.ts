@@ -1,16 +1,26 @@
 // ─────────────────────────────────────────────────────────────────────────────
 // UsageStats Service — Android UsageStatsManager Bridge
-// Uses native AstraTrackingModule when available, falls back to mock data
+// Uses native AstraTrackingModule when available, falls back to mock data.
+// Sessions, switches and unlocks are rebuilt from the raw event stream; native
+// builds without the event query fall back to their tracked sessions.
 // ─────────────────────────────────────────────────────────────────────────────
 
-import { AppUsageSession, AppDailyStats, TimeOfDay } from '../models/types';
+import { AppUsageSession, AppDailyStats, FocusWindow, UsageEventRecording } from '../models/types';
+import { USAGE_STREAM } from '../models/constants';
 import { getTimeOfDay } from '../math/normalize';
+import { aggregateToFocusWindows } from '../math/attentionForecasting';
+import { parseUsageEventRecording, reconstructSessions, toAFISamples } from '../engine/usageEventStream';
 import {
     isNativeModuleAvailable,
     getTodaySessions as getNativeSessions,
+    getUsageEventRecording,
     hasUsagePermission as nativeHasPermission,
     requestUsagePermission as nativeRequestPermission,
 } from '../../backgroundTracking/NativeTrackingBridge';
+import { getAppTaxonomy } from './AppTaxonomyService';
+import { getAFIParameters } from './CalibrationService';
+import { insertUsageSession } from '../../../database/repository';
+import { getUsageIngestCursor, setUsageIngestCursor } from '../../../storage/mmkvStore';
 
 // ── Native Module Interface ──────────────────────────────────────────────────
 
@@ -25,23 +35,15 @@ export async function getUsageSessions(
     // Try native module first
     if (isNativeModuleAvailable()) {
         try {
-            const nativeSessions = await getNativeSessions();
-            return nativeSessions
-                .filter(s => s.startTime >= startTime && s.startTime <= endTime)
-                .map(s => {
-                    const date = new Date(s.startTime);
-                    return {
-                        appName: s.appName,
-                        packageName: s.packageName,
-                        startTime: s.startTime,
-                        endTime: s.endTime,
-                        duration: s.duration,
-                        switchCount: 0,
-                        unlockCount: 0,
-                        timeOfDay: getTimeOfDay(date.getHours()),
-                        dayOfWeek: date.getDay(),
-                    };
-                });
+            const recording = await fetchRecording(startTime, endTime);
+            if (recording) {
+                return reconstructSessions(recording, { closeOpenAt: Math.min(endTime, Date.now()) }).sessions;
+            }
+        } catch (e) {
+            console.warn('[UsageStats] Usage event query failed, using tracked sessions:', e);
+        }
+        try {
+            return await getTrackedSessions(startTime, endTime);
         } catch (e) {
             console.warn('[UsageStats] Native query failed, falling back to mock:', e);
         }
@@ -51,19 +53,99 @@ export async function getUsageSessions(
     return generateMockSessions(startTime, endTime);
 }
 
+/**
+ * Sessions recorded by the native tracking service, for builds without the
+ * event query. They carry no switch or unlock counts.
+ */
+async function getTrackedSessions(startTime: number, endTime: number): Promise<AppUsageSession[]> {
+    const nativeSessions = await getNativeSessions();
+    return nativeSessions
+        .filter(s => s.startTime >= startTime && s.startTime <= endTime)
+        .map(s => {
+            const date = new Date(s.startTime);
+            return {
+                appName: s.appName,
+                packageName: s.packageName,
+                startTime: s.startTime,
+                endTime: s.endTime,
+                duration: s.duration,
+                switchCount: 0,
+                unlockCount: 0,
+                timeOfDay: getTimeOfDay(date.getHours()),
+                dayOfWeek: date.getDay(),
+            };
+        });
+}
+
 /**
  * Get screen unlock count for a time range.
- * In production: bridges to UsageStatsManager.queryEvents() for KEYGUARD_HIDDEN events
+ * Counts KEYGUARD_HIDDEN events in the native event stream; without the
+ * event query unlocks are not observable on the device and none are counted.
  */
 export async function getUnlockCount(
     startTime: number,
     endTime: number,
 ): Promise<number> {
-    // TODO: Replace with native module call
+    if (isNativeModuleAvailable()) {
+        try {
+            const recording = await fetchRecording(startTime, endTime);
+            if (recording) return reconstructSessions(recording).unlocks;
+        } catch (e) {
+            console.warn('[UsageStats] Native unlock query failed:', e);
+        }
+        return 0;
+    }
     const hours = (endTime - startTime) / (1000 * 60 * 60);
     return Math.round(3 + Math.random() * 5 * hours); // ~3-8 per hour
 }
 
+// ── Event Stream Ingestion ───────────────────────────────────────────────────
+
+export interface UsageIngestResult {
+    sessions: AppUsageSession[];
+    unlocks: number;
+    /** Hourly AFI over the new sessions */
+    afiSamples: Array<{ timestamp: number; afi: number }>;
+    /** The samples grouped by weekday × hour */
+    focusWindows: FocusWindow[];
+}
+
+async function fetchRecording(startTime: number, endTime: number): Promise<UsageEventRecording | null> {
+    const json = await getUsageEventRecording(startTime, endTime);
+    return json ? parseUsageEventRecording(json) : null;
+}
+
+/**
+ * Store the closed sessions of a recording and move the ingest cursor to
+ * where the next query must start. Also used to replay recorded fixtures.
+ */
+export async function ingestUsageRecording(recording: UsageEventRecording): Promise<UsageIngestResult> {
+    const { sessions, unlocks, resumeFrom } = reconstructSessions(recording);
+    for (const session of sessions) {
+        await insertUsageSession(session);
+    }
+    setUsageIngestCursor(resumeFrom);
+
+    const afiSamples = toAFISamples(sessions, getAFIParameters(), getAppTaxonomy());
+    return { sessions, unlocks, afiSamples, focusWindows: aggregateToFocusWindows(afiSamples) };
+}
+
+/**
+ * Pull native usage events since the last ingest into app_usage_sessions.
+ * The first run reads back USAGE_STREAM.initialBackfillMs. No-op without the native module.
+ */
+export async function ingestUsageEvents(now: number = Date.now()): Promise<UsageIngestResult | null> {
+    if (!isNativeModuleAvailable()) return null;
+    const from = getUsageIngestCursor() ?? now - USAGE_STREAM.initialBackfillMs;
+    if (from >= now) return null;
+
+    const recording = await fetchRecording(from, now);
+    if (!recording) return null;
+    const result = await ingestUsageRecording(recording);
+    console.log(`[UsageStats] Ingested ${result.sessions.length} sessions, ${result.unlocks} unlocks`);
+    return result;
+}
+
 /**
  * Get daily aggregated stats per app.
  * Computed from raw sessions.
@@ -19,7 +19,10 @@ import {
     BlockingLevel,
 } from '../models/types';
 import { BlockingDecision } from '../engine/AdaptiveBlocker';
-import { NudgeState, getInitialNudgeState } from '../engine/NudgeManager';
+import {
+    getBlockingOverride,
+    setBlockingOverride as persistBlockingOverride,
+} from '../../../storage/mmkvStore';
 
 // ── State Shape ──────────────────────────────────────────────────────────────
 
@@ -48,7 +51,6 @@ export interface FocusState {
 
     // Blocking
     activeBlockingDecision: BlockingDecision | null;
-    nudgeState: NudgeState;
     userBlockingOverride: BlockingLevel | null;
 
     // Personality
@@ -79,7 +81,6 @@ export interface FocusState {
     setGoals: (goals: FocusGoal[]) => void;
     setDistractiveApps: (apps: DistractivenessResult[]) => void;
     setBlockingDecision: (decision: BlockingDecision | null) => void;
-    setNudgeState: (state: NudgeState) => void;
     setUserBlockingOverride: (level: BlockingLevel | null) => void;
     setPersonality: (profile: PersonalityProfile) => void;
     setFocusHeatmap: (heatmap: HourBlock[]) => void;
@@ -89,6 +90,9 @@ export interface FocusState {
     addTrainingResult: (result: CognitiveTrainingResult) => void;
     setBingeAlert: (alert: BingeDetectionResult | null) => void;
     resetState: () => void;
+
+    /** Reload durable fields (the blocking override) from the KV store. */
+    restorePersistedState: () => void;
 }
 
 // ── Initial State ────────────────────────────────────────────────────────────
@@ -107,7 +111,6 @@ const initialState = {
     goals: [],
     distractiveApps: [],
     activeBlockingDecision: null,
-    nudgeState: getInitialNudgeState(),
     userBlockingOverride: null,
     personality: { conscientiousness: 4, neuroticism: 4 },
     focusHeatmap: [],
@@ -150,9 +153,11 @@ export const useFocusStore = create<FocusState>((set) => ({
     setDistractiveApps: (apps) => set({ distractiveApps: apps }),
     setBlockingDecision: (decision) =>
         set({ activeBlockingDecision: decision }),
-    setNudgeState: (state) => set({ nudgeState: state }),
-    setUserBlockingOverride: (level) =>
-        set({ userBlockingOverride: level }),
+    // The blocking override must survive restarts
+    setUserBlockingOverride: (level) => {
+        persistBlockingOverride(level);
+        set({ userBlockingOverride: level });
+    },
     setPersonality: (profile) => set({ personality: profile }),
     setFocusHeatmap: (heatmap) => set({ focusHeatmap: heatmap }),
     setSuggestedWindows: (windows) => set({ suggestedWindows: windows }),
@@ -167,4 +172,9 @@ export const useFocusStore = create<FocusState>((set) => ({
     setBingeAlert: (alert) => set({ bingeAlert: alert }),
 
     resetState: () => set(initialState),
+
+    restorePersistedState: () =>
+        set({
+            userBlockingOverride: getBlockingOverride() as BlockingLevel | null,
+        }),
 }));
@@ -1,11 +1,9 @@
 /**
  * ASTRA Health Module — Zustand Store
- * Persists daily entries + computed scores via AsyncStorage.
+ * Daily entries + computed scores, persisted in SQLite (health_day_records).
  */
 
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
-import { zustandStorage, generateId } from '../../shared/store/storage';
 import type {
     DailyHealthInput,
     ComputedHealthScores,
@@ -25,10 +23,18 @@ import {
     getRecentRecords,
 } from '@/engine/health-trends';
 import { useUserStore } from '../../shared/store/user-store';
+import {
+    getHealthDayRecords,
+    upsertHealthDayRecord,
+    insertHealthSignals,
+} from '../../../database/repository';
 
 interface HealthState {
     records: HealthDayRecord[];
 
+    /** Load day records from SQLite. Call once after initializeDatabase. */
+    hydrate: () => Promise<void>;
+
     /** Add or update a daily input → recompute scores & rules. */
     addDailyInput: (input: DailyHealthInput) => void;
 
@@ -49,123 +55,120 @@ interface HealthState {
     getRollingAvg: (field: string, days: number) => number | null;
 }
 
-export const useHealthStore = create<HealthState>()(
-    persist(
-        (set, get) => ({
-            records: [],
-
-            addDailyInput: (input: DailyHealthInput) => {
-                // 1. Compute scores
-                let computed = computeDayScores(input);
-
-                // 2. Build rule context
-                const profile = useUserStore.getState().profile;
-                const existingRecords = get().records;
-                const ctx: RuleContext = {
-                    user: profile,
-                    health: input,
-                    healthRecords: existingRecords,
-                    focusSessions: [],
-                    meditationSessions: [],
-                };
-
-                // 3. Run rules
-                const ruleResult = runHealthRules(ctx, computed);
-
-                // 4. Apply readiness boost
-                if (ruleResult.readinessBoost) {
-                    const boosted = clamp(
-                        computed.CognitiveReadiness + ruleResult.readinessBoost,
-                        0,
-                        100
-                    );
-                    computed = {
-                        ...computed,
-                        CognitiveReadiness: boosted,
-                        AttentionCapacity: mapReadinessToAttention(boosted),
-                    };
-                }
-
-                // 5. Apply attention override
-                if (ruleResult.attentionOverride) {
-                    const overrideAttention = mapReadinessToAttention(
-                        ruleResult.attentionOverride === 'recovery'
-                            ? 0
-                            : ruleResult.attentionOverride === 'light'
-                                ? 40
-                                : ruleResult.attentionOverride === 'moderate'
-                                    ? 60
-                                    : 80
-                    );
-                    computed = {
-                        ...computed,
-                        AttentionCapacity: overrideAttention,
-                    };
-                }
-
-                const record: HealthDayRecord = {
-                    input,
-                    computed,
-                    flags: ruleResult.flags,
-                    recommendations: ruleResult.recommendations,
-                };
-
-                // 6. Upsert by date
-                set((s) => {
-                    const idx = s.records.findIndex(
-                        (r) => r.input.date === input.date
-                    );
-                    if (idx >= 0) {
-                        const updated = [...s.records];
-                        updated[idx] = record;
-                        return { records: updated };
-                    }
-                    return { records: [...s.records, record] };
-                });
-
-                // 7. Sync to SQLite for Cross-Module Queries (Focus Trainer)
-                import('../../../database/repository').then(({ insertHealthSignals }) => {
-                    insertHealthSignals({
-                        sleepDuration: input.sleep_hours,
-                        sleepQuality: input.sleep_quality / 5, // normalized to 0-1
-                        hrv: input.hrv_rmssd_ms || 40,
-                        hrvNormalized: (input.hrv_rmssd_ms || 40) / 100,
-                        steps: (input.exercise_minutes || 0) * 100, // mock step count based on exercise
-                        activityLevel: input.exercise_minutes ? Math.min(input.exercise_minutes / 60, 1) : 0,
-                        timestamp: Date.now(),
-                    }).catch(console.error);
-                });
-            },
-
-            getLatestRecord: () => {
-                const recs = get().records;
-                if (recs.length === 0) return null;
-                return recs.reduce((latest, r) =>
-                    r.input.date > latest.input.date ? r : latest
-                );
-            },
-
-            getRecordsForDays: (days: number) => {
-                return getRecentRecords(get().records, days);
-            },
-
-            getLatestHealthOutput: () => {
-                const latest = get().getLatestRecord();
-                if (!latest) return null;
-                return {
-                    CognitiveReadiness: latest.computed.CognitiveReadiness,
-                    AttentionCapacity: latest.computed.AttentionCapacity,
-                    flags: latest.flags,
-                };
-            },
-
-            getRollingAvg: (field: string, days: number) => {
-                return computeRollingAverage(get().records, field, days);
-            },
-        }),
-        {
-            name: 'astra-health',
-            storage: createJSONStorage(() => zustandStorage),
+export const useHealthStore = create<HealthState>((set, get) => ({
+    records: [],
+
+    hydrate: async () => {
+        const records = await getHealthDayRecords();
+        set({ records });
+    },
+
+    addDailyInput: (input: DailyHealthInput) => {
+        // 1. Compute scores
+        let computed = computeDayScores(input);
+
+        // 2. Build rule context
+        const profile = useUserStore.getState().profile;
+        const existingRecords = get().records;
+        const ctx: RuleContext = {
+            user: profile,
+            health: input,
+            healthRecords: existingRecords,
+            focusSessions: [],
+            meditationSessions: [],
+        };
+
+        // 3. Run rules
+        const ruleResult = runHealthRules(ctx, computed);
+
+        // 4. Apply readiness boost
+        if (ruleResult.readinessBoost) {
+            const boosted = clamp(
+                computed.CognitiveReadiness + ruleResult.readinessBoost,
+                0,
+                100
+            );
+            computed = {
+                ...computed,
+                CognitiveReadiness: boosted,
+                AttentionCapacity: mapReadinessToAttention(boosted),
+            };
+        }
+
+        // 5. Apply attention override
+        if (ruleResult.attentionOverride) {
+            const overrideAttention = mapReadinessToAttention(
+                ruleResult.attentionOverride === 'recovery'
+                    ? 0
+                    : ruleResult.attentionOverride === 'light'
+                        ? 40
+                        : ruleResult.attentionOverride === 'moderate'
+                            ? 60
+                            : 80
+            );
+            computed = {
+                ...computed,
+                AttentionCapacity: overrideAttention,
+            };
         }
-    )
-);
+
+        const record: HealthDayRecord = {
+            input,
+            computed,
+            flags: ruleResult.flags,
+            recommendations: ruleResult.recommendations,
+        };
+
+        // 6. Upsert by date
+        set((s) => {
+            const idx = s.records.findIndex(
+                (r) => r.input.date === input.date
+            );
+            if (idx >= 0) {
+                const updated = [...s.records];
+                updated[idx] = record;
+                return { records: updated };
+            }
+            return { records: [...s.records, record] };
+        });
+
+        // 7. Persist the day record, and mirror raw signals for
+        //    cross-module queries (Focus Trainer)
+        upsertHealthDayRecord(record).catch(console.error);
+        insertHealthSignals({
+            sleepDuration: input.sleep_hours,
+            sleepQuality: input.sleep_quality / 5, // normalized to 0-1
+            hrv: input.hrv_rmssd_ms || 40,
+            hrvNormalized: (input.hrv_rmssd_ms || 40) / 100,
+            steps: (input.exercise_minutes || 0) * 100, // mock step count based on exercise
+            activityLevel: input.exercise_minutes ? Math.min(input.exercise_minutes / 60, 1) : 0,
+            timestamp: Date.now(),
+        }).catch(console.error);
+    },
+
+    getLatestRecord: () => {
+        const recs = get().records;
+        if (recs.length === 0) return null;
+        return recs.reduce((latest, r) =>
+            r.input.date > latest.input.date ? r : latest
+        );
+    },
+
+    getRecordsForDays: (days: number) => {
+        return getRecentRecords(get().records, days);
+    },
+
+    getLatestHealthOutput: () => {
+        const latest = get().getLatestRecord();
+        if (!latest) return null;
+        return {
+            CognitiveReadiness: latest.computed.CognitiveReadiness,
+            AttentionCapacity: latest.computed.AttentionCapacity,
+            flags: latest.flags,
+        };
+    },
+
+    getRollingAvg: (field: string, days: number) => {
+        return computeRollingAverage(get().records, field, days);
+    },
+}));
@@ -0,0 +1,182 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Availability — When ASTRA may interrupt at all
+// Recurring quiet hours, an ad-hoc pause and calendar busy blocks. Checked by
+// the intervention budget before any quota, for every producer.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { formatClock } from '../agent/engine/contextTimeline';
+import type { AvailabilitySettings, AvailabilityStatus, BusyBlock, QuietHoursRule } from './budgetTypes';
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Longest pause the UI offers; longer requests are clamped. */
+export const MAX_PAUSE_HOURS = 24;
+
+export const DEFAULT_QUIET_HOURS: QuietHoursRule[] = [
+    { id: 'sleep', label: 'Sleep', days: EVERY_DAY, startMinute: 22 * 60, endMinute: 7 * 60, enabled: true },
+];
+
+export function defaultAvailability(): AvailabilitySettings {
+    return { quietHours: DEFAULT_QUIET_HOURS, pausedUntil: null, busyBlocks: [], busyImportedAt: 0 };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Quiet Hours
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Local time `minute` minutes after the midnight of `at`'s day, plus `dayOffset` days. */
+function atMinute(at: number, minute: number, dayOffset = 0): number {
+    const d = new Date(at);
+    d.setDate(d.getDate() + dayOffset);
+    d.setHours(0, minute, 0, 0);
+    return d.getTime();
+}
+
+/** The rule covering `at` and when it ends, or null. */
+export function activeQuietRule(rules: QuietHoursRule[], at: number): { rule: QuietHoursRule; until: number } | null {
+    const d = new Date(at);
+    const weekday = d.getDay();
+    const minute = d.getHours() * 60 + d.getMinutes();
+
+    for (const rule of rules) {
+        if (!rule.enabled || rule.startMinute === rule.endMinute) continue;
+
+        if (rule.startMinute < rule.endMinute) {
+            if (rule.days.includes(weekday) && minute >= rule.startMinute && minute < rule.endMinute) {
+                return { rule, until: atMinute(at, rule.endMinute) };
+            }
+            continue;
+        }
+
+        // Wraps midnight: the evening part belongs to today's rule,
+        // the early-morning part to yesterday's
+        if (rule.days.includes(weekday) && minute >= rule.startMinute) {
+            return { rule, until: atMinute(at, rule.endMinute, 1) };
+        }
+        if (rule.days.includes((weekday + 6) % 7) && minute < rule.endMinute) {
+            return { rule, until: atMinute(at, rule.endMinute) };
+        }
+    }
+    return null;
+}
+
+// ── Editing ──────────────────────────────────────────────────────────────────
+
+/** A weekday lunch-hour rule for the Settings editor to start from. */
+export function newQuietRule(now: number): QuietHoursRule {
+    return {
+        id: `quiet-${now.toString(36)}`,
+        label: 'Quiet hours',
+        days: [1, 2, 3, 4, 5],
+        startMinute: 12 * 60,
+        endMinute: 13 * 60,
+        enabled: true,
+    };
+}
+
+/** Add or remove `day` (0 = Sunday); the last remaining day stays. */
+export function toggleQuietDay(rule: QuietHoursRule, day: number): QuietHoursRule {
+    if (!rule.days.includes(day)) return { ...rule, days: [...rule.days, day].sort() };
+    if (rule.days.length === 1) return rule;
+    return { ...rule, days: rule.days.filter(d => d !== day) };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Check
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Pause first (the user asked), then meetings, then quiet hours. */
+export function checkAvailability(settings: AvailabilitySettings, at: number): AvailabilityStatus {
+    if (settings.pausedUntil !== null && at < settings.pausedUntil) {
+        return {
+            available: false,
+            reason: 'paused',
+            detail: `ASTRA paused until ${formatClock(settings.pausedUntil)}.`,
+            until: settings.pausedUntil,
+        };
+    }
+
+    const busy = settings.busyBlocks.find(b => at >= b.start && at < b.end);
+    if (busy) {
+        return {
+            available: false,
+            reason: 'busy',
+            detail: `Busy: ${busy.summary} until ${formatClock(busy.end)}.`,
+            until: busy.end,
+        };
+    }
+
+    const quiet = activeQuietRule(settings.quietHours, at);
+    if (quiet) {
+        return {
+            available: false,
+            reason: 'quiet-hours',
+            detail: `Quiet hours (${quiet.rule.label}) until ${formatClock(quiet.until)}.`,
+            until: quiet.until,
+        };
+    }
+
+    return { available: true };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Updates
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function pauseFor(settings: AvailabilitySettings, hours: number, now: number): AvailabilitySettings {
+    if (!(hours > 0)) throw new Error(`Pause must be a positive number of hours, got ${hours}`);
+    const until = now + Math.min(hours, MAX_PAUSE_HOURS) * HOUR_MS;
+    return { ...settings, pausedUntil: Math.max(until, settings.pausedUntil ?? 0) };
+}
+
+export function resume(settings: AvailabilitySettings): AvailabilitySettings {
+    return { ...settings, pausedUntil: null };
+}
+
+/** Replace the imported calendar blocks, dropping any that already ended. */
+export function withBusyBlocks(settings: AvailabilitySettings, blocks: BusyBlock[], now: number): AvailabilitySettings {
+    return {
+        ...settings,
+        busyBlocks: blocks.filter(b => b.end > now).sort((a, b) => a.start - b.start),
+        busyImportedAt: now,
+    };
+}
+
+/** Drop ended blocks and an expired pause so the stored settings stay small. */
+export function pruneAvailability(settings: AvailabilitySettings, now: number): AvailabilitySettings {
+    return {
+        ...settings,
+        pausedUntil: settings.pausedUntil !== null && settings.pausedUntil > now ? settings.pausedUntil : null,
+        busyBlocks: settings.busyBlocks.filter(b => b.end > now),
+    };
+}
+
+// ── Formatting ───────────────────────────────────────────────────────────────
+
+/** "22:00" / "7:30" → minutes after midnight; null if not a valid time. */
+export function parseClock(text: string): number | null {
+    const match = text.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+    return hours * 60 + minutes;
+}
+
+/** minutes after midnight → "22:00" (for editing). */
+export function formatClockInput(minute: number): string {
+    return `${Math.floor(minute / 60)}:${String(minute % 60).padStart(2, '0')}`;
+}
+
+/** "Sleep · every day · 10pm–7am" */
+export function describeQuietRule(rule: QuietHoursRule): string {
+    const days = rule.days.length === 7
+        ? 'every day'
+        : [...rule.days].sort().map(d => WEEKDAY_NAMES[d]).join(', ');
+    const start = formatClock(atMinute(0, rule.startMinute));
+    const end = formatClock(atMinute(0, rule.endMinute));
+    return `${rule.label} · ${days} · ${start}–${end}`;
+}
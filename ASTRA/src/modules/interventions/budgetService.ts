@@ -0,0 +1,131 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Intervention Budget Service — The gate every producer calls before showing
+// anything. Persists the budget and the user's availability in KV and logs
+// what it held back to SQLite.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+    getAvailability,
+    getInterventionBudget,
+    setAvailability,
+    setInterventionBudget,
+} from '../../storage/mmkvStore';
+import { insertInterventionSuppression } from '../../database/repository';
+import { checkBudget, recordDelivery, recordResponse, rollBudget } from './interventionBudget';
+import { checkAvailability, pauseFor, pruneAvailability, resume, withBusyBlocks } from './availability';
+import { importIcsBusyBlocks, type IcsImportResult } from './icsImport';
+import type {
+    AvailabilitySettings,
+    AvailabilityStatus,
+    BudgetDecision,
+    InterventionBudgetState,
+    InterventionRequest,
+    QuietHoursRule,
+} from './budgetTypes';
+
+// Audit writes are best-effort, like the directive log.
+function logSuppression(request: InterventionRequest, decision: BudgetDecision): void {
+    console.log(`[InterventionBudget] Suppressed ${request.producer} → ${request.channel} (${decision.reason}): ${decision.detail}`);
+    insertInterventionSuppression({
+        producer: request.producer,
+        channel: request.channel,
+        priority: request.priority,
+        reason: decision.reason!,
+        detail: decision.detail ?? '',
+        label: request.label,
+        suppressedAt: request.at,
+    }).catch(err => console.warn('[InterventionBudget] Failed to log suppression:', err));
+}
+
+/**
+ * Ask to show an intervention. When allowed, the delivery is counted right
+ * away, so only call this when you are about to show it. When not, the
+ * suppression is logged with its reason.
+ */
+export function requestIntervention(request: InterventionRequest): BudgetDecision {
+    const state = getInterventionBudget();
+    const decision = checkBudget(state, request, getAvailability());
+    if (decision.allowed) {
+        setInterventionBudget(recordDelivery(state, request));
+    } else {
+        logSuppression(request, decision);
+    }
+    return decision;
+}
+
+/** Same rules without counting or logging (e.g. to skip work that would be suppressed). */
+export function previewIntervention(request: InterventionRequest): BudgetDecision {
+    return checkBudget(getInterventionBudget(), request, getAvailability());
+}
+
+/**
+ * Preview interventions planned for later, in order, counting each allowed
+ * one as delivered before checking the next (e.g. notifications handed to
+ * the OS). Nothing is recorded or logged.
+ */
+export function previewInterventionSequence(requests: InterventionRequest[]): BudgetDecision[] {
+    let state = getInterventionBudget();
+    const availability = getAvailability();
+    return requests.map(request => {
+        const decision = checkBudget(state, request, availability);
+        if (decision.allowed) state = recordDelivery(state, request);
+        return decision;
+    });
+}
+
+/** Count an intervention that was shown without asking first (the OS posted it while JS was suspended). */
+export function recordShownIntervention(request: InterventionRequest): void {
+    setInterventionBudget(recordDelivery(getInterventionBudget(), request));
+}
+
+/** Feed the user's answer back: dismissals start the cooldown and build fatigue. */
+export function recordInterventionResponse(response: 'accepted' | 'snoozed' | 'dismissed', at: number = Date.now()): void {
+    setInterventionBudget(recordResponse(getInterventionBudget(), response, at));
+}
+
+/** Budget as of `now` (decayed fatigue, today's counts), for display. */
+export function getBudgetSnapshot(now: number = Date.now()): InterventionBudgetState {
+    return rollBudget(getInterventionBudget(), now);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Availability
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function updateAvailability(
+    now: number,
+    update: (settings: AvailabilitySettings) => AvailabilitySettings,
+): AvailabilitySettings {
+    const next = update(pruneAvailability(getAvailability(), now));
+    setAvailability(next);
+    return next;
+}
+
+export function getAvailabilityStatus(now: number = Date.now()): AvailabilityStatus {
+    return checkAvailability(getAvailability(), now);
+}
+
+/** "Pause ASTRA for N hours" — every producer is held until then. */
+export function pauseInterventions(hours: number, now: number = Date.now()): AvailabilitySettings {
+    return updateAvailability(now, settings => pauseFor(settings, hours, now));
+}
+
+export function resumeInterventions(now: number = Date.now()): AvailabilitySettings {
+    return updateAvailability(now, resume);
+}
+
+export function setQuietHours(rules: QuietHoursRule[], now: number = Date.now()): AvailabilitySettings {
+    return updateAvailability(now, settings => ({ ...settings, quietHours: rules }));
+}
+
+/** Replace the busy blocks with the events in an exported .ics calendar. */
+export function importCalendar(icsText: string, now: number = Date.now()): IcsImportResult {
+    const result = importIcsBusyBlocks(icsText, now);
+    updateAvailability(now, settings => withBusyBlocks(settings, result.blocks, now));
+    console.log(`[InterventionBudget] Imported ${result.blocks.length} busy blocks (${result.skipped} skipped)`);
+    return result;
+}
+
+export function clearCalendar(now: number = Date.now()): AvailabilitySettings {
+    return updateAvailability(now, settings => ({ ...settings, busyBlocks: [], busyImportedAt: 0 }));
+}
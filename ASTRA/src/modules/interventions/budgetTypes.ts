@@ -0,0 +1,106 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Intervention Budget Types — One rate limit for every intervention producer
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Everything that can interrupt the user. */
+export type InterventionProducer =
+    | 'orchestrator'          // agent nudges (overlay or notification)
+    | 'intervention-engine'   // focus trainer blocking decisions
+    | 'native-spiral'         // AstraTrackingModule spiralDetected
+    | 'native-binge';         // AstraTrackingModule bingeDetected
+
+/** Where the intervention reaches the user. Each channel has its own quota. */
+export type InterventionChannel = 'overlay' | 'notification' | 'blocking';
+
+export type InterventionPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface InterventionRequest {
+    producer: InterventionProducer;
+    channel: InterventionChannel;
+    priority: InterventionPriority;
+    /** When it would be shown (epoch ms). */
+    at: number;
+    /** Short description for the suppression log ("Time to Recharge"). */
+    label?: string;
+}
+
+export type SuppressionReason =
+    | 'paused'
+    | 'busy'
+    | 'quiet-hours'
+    | 'fatigue'
+    | 'dismiss-cooldown'
+    | 'channel-interval'
+    | 'channel-quota';
+
+export interface BudgetDecision {
+    allowed: boolean;
+    reason?: SuppressionReason;
+    /** Human-readable explanation ("Post-dismiss cooldown. Next nudge in 12 minutes."). */
+    detail?: string;
+}
+
+export interface ChannelUsage {
+    /** Deliveries on `InterventionBudgetState.day`. */
+    count: number;
+    lastAt: number;
+}
+
+export interface InterventionBudgetState {
+    /** Local YYYY-MM-DD the channel counts belong to. */
+    day: string;
+    channels: Record<InterventionChannel, ChannelUsage>;
+    lastDismissAt: number;
+    /** 0–1, decays continuously since `fatigueAt`. */
+    fatigue: number;
+    fatigueAt: number;
+    consecutiveDismissals: number;
+    /** Dismissals on `day`. */
+    dismissalsToday: number;
+}
+
+/** One row of the suppression audit. */
+export interface SuppressedIntervention {
+    id?: number;
+    producer: InterventionProducer;
+    channel: InterventionChannel;
+    priority: InterventionPriority;
+    reason: SuppressionReason;
+    detail: string;
+    label?: string;
+    suppressedAt: number;
+}
+
+// ── Availability ─────────────────────────────────────────────────────────────
+
+/** A recurring window with no interventions, e.g. sleep or family dinner. */
+export interface QuietHoursRule {
+    id: string;
+    label: string;
+    /** Weekdays the window starts on (0 = Sunday). */
+    days: number[];
+    /** Minutes after local midnight. end < start wraps past midnight. */
+    startMinute: number;
+    endMinute: number;
+    enabled: boolean;
+}
+
+/** A meeting or other busy time, imported from a calendar. */
+export interface BusyBlock {
+    start: number;
+    end: number;
+    summary: string;
+}
+
+export interface AvailabilitySettings {
+    quietHours: QuietHoursRule[];
+    /** "Pause ASTRA" — nothing is shown before this time. */
+    pausedUntil: number | null;
+    busyBlocks: BusyBlock[];
+    /** When the busy blocks were last imported (0 = never). */
+    busyImportedAt: number;
+}
+
+export type AvailabilityStatus =
+    | { available: true }
+    | { available: false; reason: 'paused' | 'busy' | 'quiet-hours'; detail: string; until: number };
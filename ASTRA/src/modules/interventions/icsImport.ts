@@ -0,0 +1,221 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// ICS Import — Busy blocks from an exported calendar (.ics text)
+// Enough of RFC 5545 for calendar exports: folded lines, UTC / local / all-day
+// times, DURATION, TRANSP and STATUS, and DAILY / WEEKLY RRULEs with EXDATE.
+// TZID times are read as device-local time (no time zone database here).
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { BusyBlock } from './budgetTypes';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+export const ICS_IMPORT_CONFIG = {
+    /** Only blocks overlapping the next two weeks are kept. */
+    horizonDays: 14,
+    maxBlocks: 200,
+} as const;
+
+export interface IcsImportResult {
+    blocks: BusyBlock[];
+    /** Events that were malformed or use recurrence rules we don't expand. */
+    skipped: number;
+}
+
+interface IcsProperty {
+    params: Record<string, string>;
+    value: string;
+}
+
+type IcsEvent = Record<string, IcsProperty[]>;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Parsing
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function unfold(text: string): string[] {
+    const lines: string[] = [];
+    for (const raw of text.split(/\r?\n/)) {
+        if ((raw.startsWith(' ') || raw.startsWith('\t')) && lines.length > 0) {
+            lines[lines.length - 1] += raw.slice(1);
+        } else if (raw.trim()) {
+            lines.push(raw);
+        }
+    }
+    return lines;
+}
+
+function parseLine(line: string): { name: string; prop: IcsProperty } | null {
+    const colon = line.indexOf(':');
+    if (colon < 0) return null;
+    const [name, ...paramParts] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+        const [key, value = ''] = part.split('=');
+        params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+    }
+    return { name: name.toUpperCase(), prop: { params, value: line.slice(colon + 1) } };
+}
+
+function readEvents(text: string): IcsEvent[] {
+    const lines = unfold(text);
+    if (!lines.some(l => l.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+        throw new Error('Not an iCalendar file (missing BEGIN:VCALENDAR)');
+    }
+
+    const events: IcsEvent[] = [];
+    let current: IcsEvent | null = null;
+    let nested = 0; // VALARM etc. inside an event
+    for (const line of lines) {
+        const upper = line.trim().toUpperCase();
+        if (upper === 'BEGIN:VEVENT') { current = {}; nested = 0; continue; }
+        if (upper === 'END:VEVENT') { if (current) events.push(current); current = null; continue; }
+        if (!current) continue;
+        if (upper.startsWith('BEGIN:')) { nested++; continue; }
+        if (upper.startsWith('END:')) { nested--; continue; }
+        if (nested > 0) continue;
+
+        const parsed = parseLine(line);
+        if (parsed) (current[parsed.name] ??= []).push(parsed.prop);
+    }
+    return events;
+}
+
+/** DATE or DATE-TIME → epoch ms. All-day dates are local midnight. */
+export function parseIcsDate(prop: IcsProperty): { time: number; allDay: boolean } | null {
+    const m = prop.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!m) return null;
+    const [, y, mo, d, h, mi, s, utc] = m;
+    if (h === undefined) {
+        return { time: new Date(+y, +mo - 1, +d).getTime(), allDay: true };
+    }
+    const time = utc
+        ? Date.UTC(+y, +mo - 1, +d, +h, +mi, +(s ?? 0))
+        : new Date(+y, +mo - 1, +d, +h, +mi, +(s ?? 0)).getTime();
+    return { time, allDay: false };
+}
+
+/** "PT1H30M", "P1D", "P1W" → ms; null if unreadable. */
+export function parseIcsDuration(value: string): number | null {
+    const m = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!m || value.trim() === 'P' || value.trim().endsWith('T')) return null;
+    const [, sign, w, d, h, mi, s] = m;
+    const ms = ((+(w ?? 0) * 7 + +(d ?? 0)) * 24 * 3600 + +(h ?? 0) * 3600 + +(mi ?? 0) * 60 + +(s ?? 0)) * 1000;
+    return sign === '-' ? -ms : ms;
+}
+
+function text(event: IcsEvent, name: string): string | undefined {
+    return event[name]?.[0]?.value;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Recurrence
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const BYDAY_INDEX: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+/**
+ * Start times of every occurrence in [from, until), or null for rules we
+ * don't expand. Whole periods before `from` are counted without walking
+ * them, so a series that started years ago costs the same as a new one.
+ */
+function expandStarts(start: number, rrule: string | undefined, exdates: Set<number>, from: number, until: number): number[] | null {
+    if (!rrule) return exdates.has(start) ? [] : [start];
+
+    const rule: Record<string, string> = {};
+    for (const part of rrule.split(';')) {
+        const [key, value = ''] = part.split('=');
+        rule[key.toUpperCase()] = value.toUpperCase();
+    }
+    if (rule.FREQ !== 'DAILY' && rule.FREQ !== 'WEEKLY') return null;
+
+    const weekly = rule.FREQ === 'WEEKLY';
+    const interval = Math.max(1, Number(rule.INTERVAL ?? 1) || 1);
+    const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+    const ruleUntil = rule.UNTIL ? parseIcsDate({ params: {}, value: rule.UNTIL })?.time ?? Infinity : Infinity;
+    const first = new Date(start);
+    const byDay = weekly && rule.BYDAY
+        ? [...new Set(rule.BYDAY.split(',').map(d => BYDAY_INDEX[d.slice(-2)]).filter(d => d !== undefined))]
+        : [first.getDay()];
+
+    // A period is `interval` days, or `interval` weeks counted from the
+    // Sunday before DTSTART. Skip all but the last whole period before
+    // `from` (the spare one absorbs DST shifts), keeping COUNT honest.
+    const periodDays = weekly ? 7 * interval : interval;
+    const lead = weekly ? first.getDay() : 0;
+    const skip = Math.max(0, Math.floor((Math.floor((from - start) / DAY_MS) + lead) / periodDays) - 1);
+    const firstPeriodCount = weekly ? byDay.filter(d => d >= first.getDay()).length : 1;
+    let produced = skip > 0 ? firstPeriodCount + (skip - 1) * byDay.length : 0;
+
+    const starts: number[] = [];
+    // Step a day at a time from there (keeps local wall-clock time across DST)
+    for (let offset = skip > 0 ? skip * periodDays - lead : 0; ; offset++) {
+        const day = new Date(first);
+        day.setDate(first.getDate() + offset);
+        const t = day.getTime();
+        if (t > ruleUntil || t >= until || produced >= count) break;
+
+        const inPeriod = weekly
+            ? Math.floor((offset + first.getDay()) / 7) % interval === 0 && byDay.includes(day.getDay())
+            : offset % interval === 0;
+        if (!inPeriod) continue;
+
+        produced++;
+        if (!exdates.has(t)) starts.push(t);
+    }
+    return starts;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Import
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Turn .ics text into busy blocks overlapping [now, now + horizon].
+ * Free (TRANSP:TRANSPARENT) and cancelled events are ignored.
+ */
+export function importIcsBusyBlocks(icsText: string, now: number): IcsImportResult {
+    const horizonEnd = now + ICS_IMPORT_CONFIG.horizonDays * DAY_MS;
+    const blocks: BusyBlock[] = [];
+    let skipped = 0;
+
+    for (const event of readEvents(icsText)) {
+        if (text(event, 'TRANSP')?.toUpperCase() === 'TRANSPARENT') continue;
+        if (text(event, 'STATUS')?.toUpperCase() === 'CANCELLED') continue;
+
+        const startProp = event.DTSTART?.[0];
+        const start = startProp ? parseIcsDate(startProp) : null;
+        if (!start) { skipped++; continue; }
+
+        let duration: number | null;
+        const endProp = event.DTEND?.[0];
+        if (endProp) {
+            const end = parseIcsDate(endProp);
+            duration = end ? end.time - start.time : null;
+        } else if (event.DURATION) {
+            duration = parseIcsDuration(event.DURATION[0].value);
+        } else {
+            duration = start.allDay ? DAY_MS : 0;
+        }
+        if (duration === null) { skipped++; continue; }
+        if (duration <= 0) continue;
+
+        const exdates = new Set<number>();
+        for (const prop of event.EXDATE ?? []) {
+            for (const value of prop.value.split(',')) {
+                const ex = parseIcsDate({ params: prop.params, value });
+                if (ex) exdates.add(ex.time);
+            }
+        }
+
+        const starts = expandStarts(start.time, text(event, 'RRULE'), exdates, now - duration, horizonEnd);
+        if (!starts) { skipped++; continue; }
+
+        const summary = (text(event, 'SUMMARY') ?? 'Busy').replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, ' ');
+        for (const s of starts) {
+            if (s + duration > now && s < horizonEnd) blocks.push({ start: s, end: s + duration, summary });
+        }
+    }
+
+    blocks.sort((a, b) => a.start - b.start);
+    return { blocks: blocks.slice(0, ICS_IMPORT_CONFIG.maxBlocks), skipped };
+}
@@ -0,0 +1,180 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Intervention Budget — Pure rules shared by every intervention producer
+// Availability (pause, busy, quiet hours), time-decayed fatigue, post-dismiss
+// cooldown and per-channel quotas. Persistence and the suppression audit live
+// in budgetService.ts.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { NUDGE_LIMITS } from '../focusTrainer/models/constants';
+import { FATIGUE_CONFIG } from '../personalization/models/personalizationConstants';
+import { checkAvailability, defaultAvailability } from './availability';
+import type {
+    AvailabilitySettings,
+    BudgetDecision,
+    InterventionBudgetState,
+    InterventionChannel,
+    InterventionPriority,
+    InterventionRequest,
+} from './budgetTypes';
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 3600 * 1000;
+
+export const BUDGET_CONFIG = {
+    channels: {
+        // In-app nudges keep the original NudgeManager limits
+        overlay: { maxPerDay: NUDGE_LIMITS.maxPerDay, minIntervalMs: NUDGE_LIMITS.minIntervalMs },
+        // Notifications reach the user outside the app, so they are scarcer
+        notification: { maxPerDay: 3, minIntervalMs: 60 * MINUTE_MS },
+        // Blocking screens only fire on a distracting app, often mid-session
+        blocking: { maxPerDay: 8, minIntervalMs: 10 * MINUTE_MS },
+    } as Record<InterventionChannel, { maxPerDay: number; minIntervalMs: number }>,
+    cooldownAfterDismissMs: NUDGE_LIMITS.cooldownAfterDismiss,
+} as const;
+
+/** Local YYYY-MM-DD (the day resets at local midnight, not UTC). */
+export function localDayKey(at: number): string {
+    const d = new Date(at);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function emptyBudgetState(now: number = Date.now()): InterventionBudgetState {
+    return {
+        day: localDayKey(now),
+        channels: {
+            overlay: { count: 0, lastAt: 0 },
+            notification: { count: 0, lastAt: 0 },
+            blocking: { count: 0, lastAt: 0 },
+        },
+        lastDismissAt: 0,
+        fatigue: 0,
+        fatigueAt: now,
+        consecutiveDismissals: 0,
+        dismissalsToday: 0,
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Fatigue & Day Rollover
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Fatigue at `now`. Decays continuously at the personalization layer's daily
+ * rate, so a quiet afternoon already counts for something.
+ */
+export function currentFatigue(state: InterventionBudgetState, now: number): number {
+    const days = Math.max(0, now - state.fatigueAt) / DAY_MS;
+    return state.fatigue * Math.pow(1 - FATIGUE_CONFIG.dailyDecayRate, days);
+}
+
+/** Bring the state to `now`: decay fatigue and reset counts on a new day. */
+export function rollBudget(state: InterventionBudgetState, now: number): InterventionBudgetState {
+    const day = localDayKey(now);
+    const base = day === state.day ? state : { ...emptyBudgetState(now), lastDismissAt: state.lastDismissAt };
+    return {
+        ...base,
+        fatigue: currentFatigue(state, now),
+        fatigueAt: now,
+        consecutiveDismissals: day === state.day ? state.consecutiveDismissals : 0,
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Decision
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const PRIORITY_RANK: Record<InterventionPriority, number> = { low: 0, medium: 1, high: 2, urgent: 3 };
+
+/**
+ * Decide whether an intervention may be shown. Rules, in order:
+ *   1. Availability (paused, busy, quiet hours) — nothing
+ *   2. Fatigue ≥ critical — urgent only; ≥ high — high and urgent only
+ *   3. Post-dismiss cooldown — urgent only
+ *   4. Channel spacing and daily quota — everyone
+ */
+export function checkBudget(
+    state: InterventionBudgetState,
+    request: InterventionRequest,
+    availability: AvailabilitySettings = defaultAvailability(),
+): BudgetDecision {
+    const now = request.at;
+    const rolled = rollBudget(state, now);
+    const rank = PRIORITY_RANK[request.priority];
+
+    const status = checkAvailability(availability, now);
+    if (!status.available) {
+        return { allowed: false, reason: status.reason, detail: status.detail };
+    }
+
+    if (rolled.fatigue >= FATIGUE_CONFIG.criticalFatigueThreshold && rank < PRIORITY_RANK.urgent) {
+        return { allowed: false, reason: 'fatigue', detail: `Intervention fatigue critical (${rolled.fatigue.toFixed(2)}). Urgent only.` };
+    }
+    if (rolled.fatigue >= FATIGUE_CONFIG.highFatigueThreshold && rank < PRIORITY_RANK.high) {
+        return { allowed: false, reason: 'fatigue', detail: `Intervention fatigue high (${rolled.fatigue.toFixed(2)}). High priority only.` };
+    }
+
+    if (rolled.lastDismissAt > 0 && rank < PRIORITY_RANK.urgent) {
+        const elapsed = now - rolled.lastDismissAt;
+        if (elapsed < BUDGET_CONFIG.cooldownAfterDismissMs) {
+            const remaining = Math.ceil((BUDGET_CONFIG.cooldownAfterDismissMs - elapsed) / MINUTE_MS);
+            return { allowed: false, reason: 'dismiss-cooldown', detail: `Post-dismiss cooldown. Next nudge in ${remaining} minutes.` };
+        }
+    }
+
+    const quota = BUDGET_CONFIG.channels[request.channel];
+    const usage = rolled.channels[request.channel];
+    if (usage.lastAt > 0 && now - usage.lastAt < quota.minIntervalMs) {
+        const remaining = Math.ceil((quota.minIntervalMs - (now - usage.lastAt)) / MINUTE_MS);
+        return { allowed: false, reason: 'channel-interval', detail: `Cooldown active on ${request.channel}. Next in ${remaining} minutes.` };
+    }
+    if (usage.count >= quota.maxPerDay) {
+        return { allowed: false, reason: 'channel-quota', detail: `Daily ${request.channel} limit reached (${quota.maxPerDay}). Will reset tomorrow.` };
+    }
+
+    return { allowed: true };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Bookkeeping
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Deliveries on `state.day`, across every channel. */
+export function deliveriesToday(state: InterventionBudgetState): number {
+    return Object.values(state.channels).reduce((sum, usage) => sum + usage.count, 0);
+}
+
+/** Count a delivered intervention against its channel and add fatigue. */
+export function recordDelivery(state: InterventionBudgetState, request: InterventionRequest): InterventionBudgetState {
+    const rolled = rollBudget(state, request.at);
+    const usage = rolled.channels[request.channel];
+    return {
+        ...rolled,
+        channels: { ...rolled.channels, [request.channel]: { count: usage.count + 1, lastAt: request.at } },
+        fatigue: Math.min(1, rolled.fatigue + FATIGUE_CONFIG.fatiguePerNudge),
+    };
+}
+
+/**
+ * Apply the user's response. Dismissals start the cooldown and add fatigue
+ * that compounds over consecutive dismissals; anything else breaks the streak.
+ */
+export function recordResponse(
+    state: InterventionBudgetState,
+    response: 'accepted' | 'snoozed' | 'dismissed',
+    at: number,
+): InterventionBudgetState {
+    const rolled = rollBudget(state, at);
+    if (response !== 'dismissed') return { ...rolled, consecutiveDismissals: 0 };
+
+    const consecutive = rolled.consecutiveDismissals + 1;
+    const delta = FATIGUE_CONFIG.fatiguePerDismissal
+        * Math.pow(FATIGUE_CONFIG.consecutiveDismissalMultiplier, consecutive - 1);
+    return {
+        ...rolled,
+        lastDismissAt: at,
+        fatigue: Math.min(1, rolled.fatigue + delta),
+        consecutiveDismissals: consecutive,
+        dismissalsToday: rolled.dismissalsToday + 1,
+    };
+}
@@ -19,8 +19,6 @@ import { initializeBaselineState } from '../layers/baselineInitializer';
 // Layer 2
 import {
     processComplianceEvent as processEvent,
-    decayFatigue,
-    shouldThrottleIntervention,
     selectBestNudgeTone,
     getMostEffectiveIntervention,
 } from '../layers/behavioralAdaptation';
@@ -114,10 +112,7 @@ export function computePersonalizationProfile(
     };
 
     // ── Uninstall risk ───────────────────────────────────────────────────
-    const uninstallRiskScore = computeAdaptiveUninstallRisk(state);
-
-    // ── Fatigue ──────────────────────────────────────────────────────────
-    const fatigue = shouldThrottleIntervention(state.fatigue);
+    const uninstallRiskScore = computeAdaptiveUninstallRisk(state, context.interventionFatigue);
 
     return {
         strictnessLevel: state.strictness.currentLevel,
@@ -131,7 +126,7 @@ export function computePersonalizationProfile(
         cognitiveReadiness: context.cognitiveReadinessScore,
         attentionTrend: state.attention.trend,
         interventionSuitability: iss,
-        fatigueLevel: state.fatigue.fatigueScore,
+        fatigueLevel: context.interventionFatigue,
         currentStreak: state.habits.currentStreak,
     };
 }
@@ -183,7 +178,6 @@ export function recordSession(
 
 /**
  * Perform once-daily maintenance:
- * - Decay intervention fatigue
  * - Check/reset streaks
  * - Reset recent compliance windows
  * - Update days since onboarding
@@ -192,18 +186,15 @@ export function performDailyUpdate(state: PersonalizationState): Personalization
     const now = Date.now();
     const today = new Date(now).toISOString().split('T')[0];
 
-    // 1. Decay fatigue
-    const newFatigue = decayFatigue(state.fatigue);
-
-    // 2. Check streak
+    // 1. Check streak
     const newHabits = checkStreakBroken(state.habits, today);
 
-    // 3. Update days since onboarding
+    // 2. Update days since onboarding
     const daysSinceOnboarding = Math.floor(
         (now - state.createdAt) / (24 * 3600 * 1000),
     );
 
-    // 4. Reset recent compliance windows (weekly reset)
+    // 3. Reset recent compliance windows (weekly reset)
     const daysSinceLastUpdate = Math.floor(
         (now - state.lastDailyUpdate) / (24 * 3600 * 1000),
     );
@@ -222,7 +213,6 @@ export function performDailyUpdate(state: PersonalizationState): Personalization
 
     return {
         ...state,
-        fatigue: newFatigue,
         habits: newHabits,
         complianceMatrix: newMatrix,
         daysSinceOnboarding,
@@ -248,11 +238,11 @@ function getPrimaryDistraction(state: PersonalizationState): DistractionCategory
 /**
  * Compute adaptive uninstall risk.
  *
- * Factors: override frequency, fatigue, declining compliance, low streak
+ * Factors: override frequency, intervention fatigue, declining compliance, low streak
  */
-function computeAdaptiveUninstallRisk(state: PersonalizationState): number {
+function computeAdaptiveUninstallRisk(state: PersonalizationState, interventionFatigue: number): number {
     const overrideFactor = state.strictness.overrideFrequency * 0.30;
-    const fatigueFactor = state.fatigue.fatigueScore * 0.25;
+    const fatigueFactor = interventionFatigue * 0.25;
     const lowStreak = state.habits.currentStreak < 3 ? 0.15 : 0;
     const lowCompliance = averageCompliance(state) < 0.3 ? 0.20 : 0;
     const arsFactor = state.authorityResistanceScore * 0.10;
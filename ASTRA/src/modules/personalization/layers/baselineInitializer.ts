@@ -9,7 +9,6 @@ import {
     StrictnessLevel,
     ComplianceMatrix,
     AdaptiveStrictnessState,
-    InterventionFatigueState,
     AttentionEvolution,
     HabitState,
 } from '../models/personalizationTypes';
@@ -156,14 +155,6 @@ export function initializeBaselineState(profile: UserProfile): PersonalizationSt
         adjustmentDirection: 'hold',
     };
 
-    const fatigue: InterventionFatigueState = {
-        fatigueScore: 0,
-        nudgesDeliveredToday: 0,
-        dismissalsToday: 0,
-        lastNudgeTime: 0,
-        consecutiveDismissals: 0,
-    };
-
     const attention: AttentionEvolution = {
         expectedFocusTime: baselineFocusLength,
         successRate: 0.5,
@@ -202,7 +193,6 @@ export function initializeBaselineState(profile: UserProfile): PersonalizationSt
         impulsivityIndex: ii,
         complianceMatrix,
         strictness,
-        fatigue,
         nudgeEffectiveness,
         attention,
         habits,
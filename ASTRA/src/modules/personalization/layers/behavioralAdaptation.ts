@@ -9,7 +9,6 @@ import {
     ComplianceMatrix,
     InterventionTracking,
     AdaptiveStrictnessState,
-    InterventionFatigueState,
     StrictnessLevel,
     ComplianceTrend,
 } from '../models/personalizationTypes';
@@ -17,7 +16,6 @@ import { NudgeTone } from '../../onboarding/models/onboardingTypes';
 import {
     BAYESIAN_CONFIG,
     STRICTNESS_CONFIG,
-    FATIGUE_CONFIG,
 } from '../models/personalizationConstants';
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -184,66 +182,6 @@ export function evolveStrictness(
     };
 }
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// Intervention Fatigue Tracking
-// ═══════════════════════════════════════════════════════════════════════════════
-
-/**
- * Update fatigue state after a nudge delivery.
- */
-export function recordNudgeFatigue(
-    state: InterventionFatigueState,
-    wasDismissed: boolean,
-): InterventionFatigueState {
-    const now = Date.now();
-
-    let fatigueDelta = FATIGUE_CONFIG.fatiguePerNudge;
-    let consecutive = wasDismissed ? state.consecutiveDismissals + 1 : 0;
-
-    if (wasDismissed) {
-        fatigueDelta += FATIGUE_CONFIG.fatiguePerDismissal;
-        // Compound consecutive dismissals
-        fatigueDelta *= Math.pow(FATIGUE_CONFIG.consecutiveDismissalMultiplier, consecutive - 1);
-    }
-
-    return {
-        fatigueScore: clamp(state.fatigueScore + fatigueDelta),
-        nudgesDeliveredToday: state.nudgesDeliveredToday + 1,
-        dismissalsToday: state.dismissalsToday + (wasDismissed ? 1 : 0),
-        lastNudgeTime: now,
-        consecutiveDismissals: consecutive,
-    };
-}
-
-/**
- * Apply daily fatigue decay (call once per day).
- */
-export function decayFatigue(state: InterventionFatigueState): InterventionFatigueState {
-    return {
-        ...state,
-        fatigueScore: clamp(state.fatigueScore * (1 - FATIGUE_CONFIG.dailyDecayRate)),
-        nudgesDeliveredToday: 0,
-        dismissalsToday: 0,
-        consecutiveDismissals: 0,
-    };
-}
-
-/**
- * Check if interventions should be throttled due to fatigue.
- */
-export function shouldThrottleIntervention(fatigue: InterventionFatigueState): {
-    throttle: boolean;
-    severity: 'none' | 'reduce' | 'critical';
-} {
-    if (fatigue.fatigueScore >= FATIGUE_CONFIG.criticalFatigueThreshold) {
-        return { throttle: true, severity: 'critical' };
-    }
-    if (fatigue.fatigueScore >= FATIGUE_CONFIG.highFatigueThreshold) {
-        return { throttle: true, severity: 'reduce' };
-    }
-    return { throttle: false, severity: 'none' };
-}
-
 // ═══════════════════════════════════════════════════════════════════════════════
 // Nudge Effectiveness
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -291,7 +229,8 @@ export function selectBestNudgeTone(
 // ── Process Full Compliance Event ────────────────────────────────────────────
 
 /**
- * Process a compliance event and update all Layer 2 state.
+ * Process a compliance event and update all Layer 2 state. Intervention
+ * fatigue is not part of it: the intervention budget tracks that.
  */
 export function processComplianceEvent(
     state: PersonalizationState,
@@ -317,13 +256,7 @@ export function processComplianceEvent(
         state.authorityResistanceScore,
     );
 
-    // 4. Update fatigue
-    const newFatigue = recordNudgeFatigue(
-        state.fatigue,
-        !event.wasSuccessful,
-    );
-
-    // 5. Update nudge effectiveness (infer tone from baseline)
+    // 4. Update nudge effectiveness (infer tone from baseline)
     const newEffectiveness = updateNudgeEffectiveness(
         state.nudgeEffectiveness,
         state.baselineNudgeTone,
@@ -334,7 +267,6 @@ export function processComplianceEvent(
         ...state,
         complianceMatrix: newMatrix,
         strictness: newStrictness,
-        fatigue: newFatigue,
         nudgeEffectiveness: newEffectiveness,
         totalInteractions: state.totalInteractions + 1,
         updatedAt: Date.now(),
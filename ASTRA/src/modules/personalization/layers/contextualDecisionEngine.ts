@@ -75,9 +75,9 @@ export function computeInterventionSuitability(
         recommendedType !== 'reflective';
 
     // ── Fatigue gate ─────────────────────────────────────────────────────
-    if (state.fatigue.fatigueScore >= FATIGUE_CONFIG.criticalFatigueThreshold) {
+    if (context.interventionFatigue >= FATIGUE_CONFIG.criticalFatigueThreshold) {
         recommendedType = 'reflective'; // back off when fatigued
-    } else if (state.fatigue.fatigueScore >= FATIGUE_CONFIG.highFatigueThreshold &&
+    } else if (context.interventionFatigue >= FATIGUE_CONFIG.highFatigueThreshold &&
         recommendedType === 'hard_block') {
         recommendedType = 'soft_delay'; // reduce one level
     }
@@ -52,16 +52,6 @@ export interface AdaptiveStrictnessState {
     adjustmentDirection: 'up' | 'down' | 'hold';
 }
 
-// ── Intervention Fatigue ─────────────────────────────────────────────────────
-
-export interface InterventionFatigueState {
-    fatigueScore: number;         // 0–1 (decays over time)
-    nudgesDeliveredToday: number;
-    dismissalsToday: number;
-    lastNudgeTime: number;
-    consecutiveDismissals: number;
-}
-
 // ── Attention Evolution ──────────────────────────────────────────────────────
 
 export interface AttentionEvolution {
@@ -131,6 +121,7 @@ export interface PersonalizationContext {
     isInFocusSession: boolean;
     stressProxy: number;             // 0–1 (derived from HRV + fragmentation)
     goalUrgency: number;             // 0–1
+    interventionFatigue: number;     // 0–1, from the intervention budget (getBudgetSnapshot())
     currentApp?: string;
 }
 
@@ -152,7 +143,6 @@ export interface PersonalizationState {
     // Layer 2: Adaptive (evolves with usage)
     complianceMatrix: ComplianceMatrix;
     strictness: AdaptiveStrictnessState;
-    fatigue: InterventionFatigueState;
     nudgeEffectiveness: Record<NudgeTone, number>; // tone → effectiveness 0–1
 
     // Attention tracking
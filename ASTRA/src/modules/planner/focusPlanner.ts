@@ -0,0 +1,403 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Focus Planner — Places focus blocks for active goals into good heatmap
+// windows, sized by today's attention capacity, and re-plans when the
+// orchestrator asks to delay, reduce load or reschedule.
+// Pure functions; persistence lives in plannerStore.ts.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { AttentionCapacity } from '../shared/types';
+import type { FocusGoal, PomodoroSession } from '../focusTrainer/models/types';
+import type { AvailabilitySettings } from '../interventions/budgetTypes';
+import { activeQuietRule } from '../interventions/availability';
+import { localDayKey } from '../interventions/interventionBudget';
+import type { DayPlan, PlannedBlock, PlannerAdjustment, PlannerInput } from './plannerTypes';
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const PLANNER_CONFIG = {
+    horizonDays: 7,
+    /** Blocks per day by capacity level; each block is `capacity.minutes` long. */
+    blocksPerDay: { high: 4, moderate: 3, light: 2, recovery: 0 } as Record<AttentionCapacity['level'], number>,
+    /** Future days have no health data yet (same default as state ingestion). */
+    assumedCapacity: { level: 'moderate', minutes: 25 } as AttentionCapacity,
+    /** Blocks start on the hour, within [firstHour, lastHour). */
+    firstHour: 7,
+    lastHour: 22,
+    /** Slots with no heatmap data are only used during these hours. */
+    fallbackHours: [9, 10, 11, 14, 15, 16],
+    /** 'delay' keeps the next two hours free. */
+    delayMs: 2 * HOUR_MS,
+    /** 'reduce-load' keeps this share of the blocks still ahead today. */
+    reduceLoadShare: 0.5,
+    /** A block is missed once it ended this long ago without a session. */
+    missedAfterMs: 15 * MINUTE_MS,
+    /** Sessions started up to this early still count for a block. */
+    earlyStartMs: 30 * MINUTE_MS,
+} as const;
+
+/** Used when there are no active goals, so the day still gets focus time. */
+const GENERAL_FOCUS: FocusGoal = {
+    id: '',
+    title: 'Focus block',
+    importance: 0.5,
+    associatedApps: [],
+    isActive: true,
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Slots
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface Slot {
+    start: number;
+    hour: number;
+    predictedAFI: number;
+    confidence: number;
+}
+
+/** Local midnight of a YYYY-MM-DD key. */
+export function dayStart(day: string): number {
+    const [y, m, d] = day.split('-').map(Number);
+    return new Date(y, m - 1, d).getTime();
+}
+
+function addDays(day: string, days: number): string {
+    const [y, m, d] = day.split('-').map(Number);
+    return localDayKey(new Date(y, m - 1, d + days).getTime());
+}
+
+function isFree(start: number, end: number, availability: AvailabilitySettings | undefined): boolean {
+    if (!availability) return true;
+    if (availability.busyBlocks.some(b => b.start < end && b.end > start)) return false;
+    return !activeQuietRule(availability.quietHours, start) && !activeQuietRule(availability.quietHours, end - 1);
+}
+
+/**
+ * Open slots of one day, best first. Good and optimal heatmap hours qualify;
+ * hours with no data fall back to ordinary working hours.
+ */
+function openSlots(
+    day: string,
+    input: PlannerInput,
+    minutes: number,
+    earliest: number,
+    taken: PlannedBlock[],
+    excludeHours: Set<number> = new Set(),
+): Slot[] {
+    const midnight = dayStart(day);
+    const weekday = new Date(midnight).getDay();
+    const slots: Slot[] = [];
+
+    for (let hour = PLANNER_CONFIG.firstHour; hour < PLANNER_CONFIG.lastHour; hour++) {
+        if (excludeHours.has(hour)) continue;
+        const cell = input.heatmap.find(hb => hb.dayOfWeek === weekday && hb.hour === hour);
+        const noData = !cell || cell.confidence === 0;
+        const eligible = noData
+            ? (PLANNER_CONFIG.fallbackHours as readonly number[]).includes(hour)
+            : cell.label === 'optimal' || cell.label === 'good';
+        if (!eligible) continue;
+
+        const start = new Date(midnight).setHours(hour);
+        const end = start + minutes * MINUTE_MS;
+        if (start < earliest) continue;
+        if (taken.some(b => b.status !== 'cancelled' && b.start < end && b.end > start)) continue;
+        if (!isFree(start, end, input.availability)) continue;
+
+        slots.push({ start, hour, predictedAFI: cell?.predictedAFI ?? 0.5, confidence: cell?.confidence ?? 0 });
+    }
+
+    return slots.sort((a, b) => a.predictedAFI - b.predictedAFI || a.start - b.start);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Placement
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Split `count` blocks over the goals by importance (largest remainder),
+ * most important first so it gets the best slots.
+ */
+export function allocateGoals(goals: FocusGoal[], count: number): FocusGoal[] {
+    if (count <= 0) return [];
+    const active = goals.filter(g => g.isActive);
+    if (active.length === 0) return Array(count).fill(GENERAL_FOCUS);
+
+    const sorted = [...active].sort((a, b) => b.importance - a.importance);
+    const weights = sorted.map(g => Math.max(g.importance, 0.05));
+    const total = weights.reduce((s, w) => s + w, 0);
+    const shares = weights.map(w => (count * w) / total);
+    const counts = shares.map(Math.floor);
+    const byRemainder = shares
+        .map((s, i) => ({ i, rest: s - counts[i] }))
+        .sort((a, b) => b.rest - a.rest || a.i - b.i);
+    for (let k = 0; k < count - counts.reduce((s, c) => s + c, 0); k++) counts[byRemainder[k].i]++;
+
+    return sorted.flatMap((g, i) => Array(counts[i]).fill(g));
+}
+
+/** A goal with its own schedule only gets blocks inside it. */
+function fitsGoal(goal: FocusGoal, start: number, end: number): boolean {
+    if (goal.scheduledStart !== undefined && start < goal.scheduledStart) return false;
+    if (goal.scheduledEnd !== undefined && end > goal.scheduledEnd) return false;
+    return true;
+}
+
+/** Best open slot per goal, in goal order. `unplaced` are goal indexes that got none. */
+function placeBlocks(
+    day: string,
+    goals: FocusGoal[],
+    slots: Slot[],
+    minutes: number,
+    revision: number,
+): { blocks: PlannedBlock[]; unplaced: number[] } {
+    const remaining = [...slots];
+    const blocks: PlannedBlock[] = [];
+    const unplaced: number[] = [];
+
+    goals.forEach((goal, i) => {
+        const index = remaining.findIndex(s => fitsGoal(goal, s.start, s.start + minutes * MINUTE_MS));
+        if (index < 0) {
+            unplaced.push(i);
+            return;
+        }
+        const [slot] = remaining.splice(index, 1);
+        blocks.push({
+            id: `${day}-r${revision}-${i}`,
+            day,
+            goalId: goal.id || undefined,
+            goalTitle: goal.title,
+            start: slot.start,
+            end: slot.start + minutes * MINUTE_MS,
+            predictedAFI: slot.predictedAFI,
+            confidence: slot.confidence,
+            status: 'planned',
+        });
+    });
+
+    return { blocks: blocks.sort((a, b) => a.start - b.start), unplaced };
+}
+
+/** A fresh plan for `day`. Today only plans from `now` on. */
+export function planDay(day: string, input: PlannerInput, capacity: AttentionCapacity): DayPlan {
+    const count = PLANNER_CONFIG.blocksPerDay[capacity.level];
+    const earliest = Math.max(input.now, dayStart(day));
+    const slots = capacity.minutes > 0 ? openSlots(day, input, capacity.minutes, earliest, []) : [];
+    return {
+        day,
+        capacity,
+        adjustment: 'proceed',
+        revision: 0,
+        updatedAt: input.now,
+        blocks: placeBlocks(day, allocateGoals(input.goals, count), slots, capacity.minutes, 0).blocks,
+    };
+}
+
+interface ReplanOptions {
+    earliest: number;
+    /** How many blocks to place; defaults to the number being moved. */
+    count?: number;
+    excludeHours?: Set<number>;
+    capacity?: AttentionCapacity;
+    adjustment?: PlannerAdjustment;
+    /** Shown on blocks that had to be dropped. */
+    note?: string;
+}
+
+/**
+ * Move every planned block that has not started by `earliest`. Blocks that
+ * no longer fit are kept as cancelled so the user sees what was dropped.
+ */
+function replanUpcoming(plan: DayPlan, input: PlannerInput, options: ReplanOptions): DayPlan {
+    const capacity = options.capacity ?? plan.capacity;
+    const upcoming = plan.blocks.filter(b => b.status === 'planned' && b.start >= input.now);
+    const kept = plan.blocks.filter(b => !upcoming.includes(b));
+    const count = options.count ?? upcoming.length;
+    const revision = plan.revision + 1;
+
+    // Keep the goal mix of the moved blocks; top up (or trim) by importance
+    const byImportance = [...upcoming].sort((a, b) => importanceOf(b, input.goals) - importanceOf(a, input.goals));
+    const movedGoals = byImportance.map(b =>
+        input.goals.find(g => g.id === b.goalId) ?? { ...GENERAL_FOCUS, title: b.goalTitle },
+    );
+    const goals = count <= movedGoals.length
+        ? movedGoals.slice(0, count)
+        : [...movedGoals, ...allocateGoals(input.goals, count - movedGoals.length)];
+
+    const slots = capacity.minutes > 0
+        ? openSlots(plan.day, input, capacity.minutes, options.earliest, kept, options.excludeHours)
+        : [];
+    const placed = placeBlocks(plan.day, goals, slots, capacity.minutes, revision);
+    const dropped = byImportance
+        .filter((_, i) => i >= count || placed.unplaced.includes(i))
+        .map(b => ({ ...b, status: 'cancelled' as const, note: options.note ?? 'No open window left today' }));
+
+    return {
+        ...plan,
+        capacity,
+        adjustment: options.adjustment ?? plan.adjustment,
+        revision,
+        updatedAt: input.now,
+        blocks: [...kept, ...dropped, ...placed.blocks].sort((a, b) => a.start - b.start),
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Plans Over Time
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Planned blocks that ended without a session become missed. */
+export function markMissed(plans: DayPlan[], now: number): DayPlan[] {
+    return plans.map(plan => {
+        const missed = plan.blocks.some(b => b.status === 'planned' && b.end + PLANNER_CONFIG.missedAfterMs < now);
+        if (!missed) return plan;
+        return {
+            ...plan,
+            updatedAt: now,
+            blocks: plan.blocks.map(b =>
+                b.status === 'planned' && b.end + PLANNER_CONFIG.missedAfterMs < now ? { ...b, status: 'missed' as const } : b,
+            ),
+        };
+    });
+}
+
+/**
+ * Bring the plans up to date: mark missed blocks, plan any day in the
+ * horizon that has no plan yet, and re-size today's remaining blocks when
+ * the capacity level changed. Unchanged plans keep their identity.
+ */
+export function refreshPlans(plans: DayPlan[], input: PlannerInput): DayPlan[] {
+    const today = localDayKey(input.now);
+    const next = markMissed(plans, input.now);
+
+    for (let offset = 0; offset < PLANNER_CONFIG.horizonDays; offset++) {
+        const day = addDays(today, offset);
+        const index = next.findIndex(p => p.day === day);
+        if (index < 0) {
+            next.push(planDay(day, input, offset === 0 ? input.capacity : PLANNER_CONFIG.assumedCapacity));
+            continue;
+        }
+
+        const plan = next[index];
+        if (offset === 0 && plan.capacity.level !== input.capacity.level) {
+            next[index] = resizeRest(plan, input, `Capacity now ${input.capacity.level}`);
+        }
+    }
+
+    return next.sort((a, b) => a.day.localeCompare(b.day));
+}
+
+/** Re-place the rest of the day from `now` for the current capacity. */
+function resizeRest(plan: DayPlan, input: PlannerInput, note: string): DayPlan {
+    const used = plan.blocks.filter(b => b.status === 'done' || b.status === 'missed').length;
+    const share = plan.adjustment === 'reduce-load' ? PLANNER_CONFIG.reduceLoadShare : 1;
+    return replanUpcoming(plan, input, {
+        earliest: input.now,
+        count: Math.max(0, Math.ceil(PLANNER_CONFIG.blocksPerDay[input.capacity.level] * share) - used),
+        capacity: input.capacity,
+        note,
+    });
+}
+
+/** "Re-plan" button: today's remaining blocks placed again from scratch. */
+export function replanToday(plans: DayPlan[], input: PlannerInput): DayPlan[] {
+    const today = localDayKey(input.now);
+    return plans.map(p => (p.day === today ? resizeRest(p, input, 'Re-planned') : p));
+}
+
+/**
+ * Apply an orchestrator planner adjustment to today's plan (and, for
+ * 'reschedule', the rest of the week). Applied once per change: repeating
+ * the same adjustment on the next orchestrator run is a no-op.
+ */
+export function applyAdjustment(plans: DayPlan[], adjustment: PlannerAdjustment, input: PlannerInput): DayPlan[] {
+    const today = localDayKey(input.now);
+    const todayPlan = plans.find(p => p.day === today);
+    if (!todayPlan || todayPlan.adjustment === adjustment) return plans;
+
+    const replace = (updated: Map<string, DayPlan>) => plans.map(p => updated.get(p.day) ?? p);
+
+    switch (adjustment) {
+        case 'proceed':
+            return replace(new Map([[today, { ...todayPlan, adjustment, updatedAt: input.now }]]));
+
+        case 'delay':
+            return replace(new Map([[today, replanUpcoming(todayPlan, input, {
+                earliest: input.now + PLANNER_CONFIG.delayMs,
+                adjustment,
+            })]]));
+
+        case 'reduce-load': {
+            // Keep the most important, best-placed blocks; cancel the rest
+            const upcoming = todayPlan.blocks
+                .filter(b => b.status === 'planned' && b.start >= input.now)
+                .sort((a, b) => importanceOf(b, input.goals) - importanceOf(a, input.goals) || a.predictedAFI - b.predictedAFI);
+            const keep = new Set(upcoming.slice(0, Math.ceil(upcoming.length * PLANNER_CONFIG.reduceLoadShare)));
+            const blocks = todayPlan.blocks.map(b =>
+                upcoming.includes(b) && !keep.has(b) ? { ...b, status: 'cancelled' as const, note: 'Load reduced' } : b,
+            );
+            return replace(new Map([[today, {
+                ...todayPlan, adjustment, blocks, revision: todayPlan.revision + 1, updatedAt: input.now,
+            }]]));
+        }
+
+        case 'reschedule': {
+            // Sessions keep getting skipped: stay away from the hours they were skipped in
+            const missedHours = new Set(
+                plans.flatMap(p => p.blocks).filter(b => b.status === 'missed').map(b => new Date(b.start).getHours()),
+            );
+            const updated = new Map<string, DayPlan>();
+            for (const plan of plans) {
+                if (plan.day < today) continue;
+                const moved = replanUpcoming(plan, input, {
+                    earliest: Math.max(input.now, dayStart(plan.day)),
+                    excludeHours: missedHours,
+                    adjustment: plan.day === today ? adjustment : plan.adjustment,
+                });
+                updated.set(plan.day, moved);
+            }
+            return replace(updated);
+        }
+    }
+}
+
+function importanceOf(block: PlannedBlock, goals: FocusGoal[]): number {
+    return goals.find(g => g.id === block.goalId)?.importance ?? GENERAL_FOCUS.importance;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Sessions
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Credit a finished focus session to the block it fulfils: a planned (or just
+ * marked missed) block whose window contains the session start, preferring
+ * the same goal. Returns the plans unchanged when nothing matches.
+ */
+export function linkSession(plans: DayPlan[], sessionId: number, session: PomodoroSession): DayPlan[] {
+    const candidates = plans
+        .flatMap(p => p.blocks)
+        .filter(b =>
+            (b.status === 'planned' || b.status === 'missed')
+            && session.startTime >= b.start - PLANNER_CONFIG.earlyStartMs
+            && session.startTime <= b.end,
+        )
+        .sort((a, b) =>
+            Number(b.goalId === session.goalId) - Number(a.goalId === session.goalId)
+            || Math.abs(a.start - session.startTime) - Math.abs(b.start - session.startTime),
+        );
+    const match = candidates[0];
+    if (!match) return plans;
+
+    return plans.map(plan => plan.day !== match.day ? plan : {
+        ...plan,
+        updatedAt: session.endTime ?? session.startTime,
+        blocks: plan.blocks.map(b => (b.id === match.id ? { ...b, status: 'done' as const, sessionId } : b)),
+    });
+}
+
+/** The block running now or next today, if any. */
+export function currentBlock(plans: DayPlan[], now: number): PlannedBlock | null {
+    const today = plans.find(p => p.day === localDayKey(now));
+    return today?.blocks.find(b => b.status === 'planned' && b.end > now) ?? null;
+}
@@ -0,0 +1,106 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Planner Store — Zustand State Management
+// Keeps the focus plan for the coming week in SQLite, re-plans it when the
+// orchestrator adjusts, and links finished Pomodoro sessions to their blocks.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { create } from 'zustand';
+import type { AttentionCapacity } from '../shared/types';
+import type { PomodoroSession } from '../focusTrainer/models/types';
+import { useFocusStore } from '../focusTrainer/store/focusStore';
+import { generateFocusHeatmap } from '../focusTrainer/math/attentionForecasting';
+import { getDayPlans, saveDayPlans } from '../../database/repository';
+import { getAvailability } from '../../storage/mmkvStore';
+import { localDayKey } from '../interventions/interventionBudget';
+import {
+    PLANNER_CONFIG,
+    applyAdjustment,
+    currentBlock,
+    linkSession,
+    refreshPlans,
+    replanToday,
+} from './focusPlanner';
+import type { DayPlan, PlannedBlock, PlannerAdjustment, PlannerInput } from './plannerTypes';
+
+/** Missed blocks this far back still steer 'reschedule'. */
+const HISTORY_DAYS = 14;
+
+interface PlannerStoreState {
+    /** Recent and upcoming day plans, oldest first. */
+    plans: DayPlan[];
+    /** Latest capacity from the health module (assumed until one arrives). */
+    capacity: AttentionCapacity;
+    isLoaded: boolean;
+    error: string | null;
+
+    /** Load stored plans and fill in any missing day of the coming week. */
+    loadPlans: () => Promise<void>;
+    /** Apply the orchestrator's adjustment (no-op when it did not change). */
+    applyPlannerAdjustment: (adjustment: PlannerAdjustment, capacity?: AttentionCapacity) => Promise<void>;
+    /** Re-plan what is left of today from scratch. */
+    replanToday: () => Promise<void>;
+    /** Credit a finished session to its block. */
+    linkFocusSession: (sessionId: number, session: PomodoroSession) => Promise<void>;
+    getCurrentBlock: () => PlannedBlock | null;
+}
+
+function plannerInput(capacity: AttentionCapacity, now: number): PlannerInput {
+    const { goals, activeGoal, focusHeatmap } = useFocusStore.getState();
+    const active = goals.filter(g => g.isActive);
+    if (activeGoal?.isActive && !active.some(g => g.id === activeGoal.id)) active.push(activeGoal);
+    return {
+        goals: active,
+        // No heatmap yet → every slot counts as "no data"
+        heatmap: focusHeatmap.length > 0 ? focusHeatmap : generateFocusHeatmap([]),
+        capacity,
+        availability: getAvailability(),
+        now,
+    };
+}
+
+// Changes run one at a time so an orchestrator run and a finished session
+// never write over each other.
+let pending: Promise<void> = Promise.resolve();
+
+export const usePlannerStore = create<PlannerStoreState>((set, get) => {
+    /** Run `update` on up-to-date plans and store only the days it changed. */
+    const mutate = (update: (plans: DayPlan[], input: PlannerInput) => DayPlan[], capacity?: AttentionCapacity) => {
+        pending = pending.then(async () => {
+            const now = Date.now();
+            const nextCapacity = capacity ?? get().capacity;
+            let loaded = get().plans;
+            if (!get().isLoaded) {
+                loaded = await getDayPlans(localDayKey(now - HISTORY_DAYS * 24 * 3600 * 1000));
+            }
+
+            const input = plannerInput(nextCapacity, now);
+            const refreshed = refreshPlans(loaded, input);
+            const next = update(refreshed, input);
+            await saveDayPlans(next.filter(p => !loaded.includes(p)));
+            set({ plans: next, capacity: nextCapacity, isLoaded: true, error: null });
+        }).catch(err => {
+            console.warn('[Planner] Failed to update plan:', err);
+            set({ error: err instanceof Error ? err.message : 'Planning failed' });
+        });
+        return pending;
+    };
+
+    return {
+        plans: [],
+        capacity: PLANNER_CONFIG.assumedCapacity,
+        isLoaded: false,
+        error: null,
+
+        loadPlans: () => mutate(plans => plans),
+
+        applyPlannerAdjustment: (adjustment, capacity) =>
+            mutate((plans, input) => applyAdjustment(plans, adjustment, input), capacity),
+
+        replanToday: () => mutate((plans, input) => replanToday(plans, input)),
+
+        linkFocusSession: (sessionId, session) =>
+            mutate(plans => linkSession(plans, sessionId, session)),
+
+        getCurrentBlock: () => currentBlock(get().plans, Date.now()),
+    };
+});
@@ -0,0 +1,59 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Focus Planner Types — Day plans of focus blocks for active goals
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { AttentionCapacity } from '../shared/types';
+import type { FocusGoal, HourBlock } from '../focusTrainer/models/types';
+import type { PersonalizationDirective } from '../agent/types/orchestratorTypes';
+import type { AvailabilitySettings } from '../interventions/budgetTypes';
+
+export type PlannerAdjustment = PersonalizationDirective['plannerAdjustment'];
+
+export type PlannedBlockStatus =
+    | 'planned'     // still ahead (or running)
+    | 'done'        // a focus session was linked to it
+    | 'missed'      // ended without a session
+    | 'cancelled';  // dropped by an adjustment
+
+export interface PlannedBlock {
+    id: string;
+    /** Local YYYY-MM-DD of the plan it belongs to. */
+    day: string;
+    /** Undefined for general focus blocks (no active goal). */
+    goalId?: string;
+    goalTitle: string;
+    start: number;
+    end: number;
+    /** Heatmap prediction for the slot (lower = better focus). */
+    predictedAFI: number;
+    confidence: number;
+    status: PlannedBlockStatus;
+    /** pomodoro_sessions.id of the session that fulfilled it. */
+    sessionId?: number;
+    /** Why it was cancelled or moved ("Load reduced"). */
+    note?: string;
+}
+
+export interface DayPlan {
+    day: string;
+    /** Capacity the plan was sized for. Future days use an assumed capacity. */
+    capacity: AttentionCapacity;
+    /** Last orchestrator adjustment applied to this day. */
+    adjustment: PlannerAdjustment;
+    /** Bumped on every re-plan. */
+    revision: number;
+    updatedAt: number;
+    blocks: PlannedBlock[];
+}
+
+/** Everything a plan is built from, gathered by the planner store. */
+export interface PlannerInput {
+    /** Active goals; general focus blocks are planned when empty. */
+    goals: FocusGoal[];
+    heatmap: HourBlock[];
+    /** Today's capacity from the health module. */
+    capacity: AttentionCapacity;
+    /** Quiet hours and busy blocks are never planned over. */
+    availability?: AvailabilitySettings;
+    now: number;
+}
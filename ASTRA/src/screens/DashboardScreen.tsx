@@ -13,10 +13,13 @@ import {
     Dimensions,
 } from 'react-native';
 import { useOrchestratorStore } from '../modules/agent/store/orchestratorStore';
+import { describeContextSpan, formatClock } from '../modules/agent/engine/contextTimeline';
 import NudgeOverlay from '../components/NudgeOverlay';
 import { useFocusStore } from '../modules/focusTrainer/store/focusStore';
 import { getUsageSessions, getDailyAppStats } from '../modules/focusTrainer/services/UsageStatsService';
 import { getHealthSignals } from '../modules/focusTrainer/services/HealthService';
+import { getAFIParameters } from '../modules/focusTrainer/services/CalibrationService';
+import { getAppTaxonomy } from '../modules/focusTrainer/services/AppTaxonomyService';
 import { computeAFI } from '../modules/focusTrainer/math/attentionFragmentation';
 import { computeDistractivenessScores } from '../modules/focusTrainer/math/distractivenessScore';
 import { computeCRS, getCRSSuggestion } from '../modules/focusTrainer/math/cognitiveReadiness';
@@ -42,7 +45,7 @@ export default function DashboardScreen({ navigation }: any) {
         setDistractiveApps,
     } = useFocusStore();
 
-    const { directive, contextMode, runOrchestration } = useOrchestratorStore();
+    const { directive, contextMode, timeline, runOrchestration } = useOrchestratorStore();
 
     // ── Load data on mount ──────────────────────────────────────────────────
     const refreshData = useCallback(async () => {
@@ -52,7 +55,8 @@ export default function DashboardScreen({ navigation }: any) {
 
             // Fetch usage sessions
             const sessions = await getUsageSessions(oneHourAgo, now);
-            const afi = computeAFI(sessions, 60 * 60 * 1000);
+            const taxonomy = getAppTaxonomy(activeGoal);
+            const afi = computeAFI(sessions, 60 * 60 * 1000, getAFIParameters(), taxonomy);
             setAFI(afi);
 
             // Fetch health & compute CRS
@@ -70,7 +74,7 @@ export default function DashboardScreen({ navigation }: any) {
 
             // Fetch daily stats & classify apps
             const dailyStats = await getDailyAppStats(now);
-            const dsResults = computeDistractivenessScores(dailyStats);
+            const dsResults = computeDistractivenessScores(dailyStats, taxonomy);
             setDistractiveApps(dsResults.filter(r => r.isDistractive));
 
             // ── Run Orchestrator (HYBRID: Rules + Groq LLM) ─────────────
@@ -87,7 +91,7 @@ export default function DashboardScreen({ navigation }: any) {
         } catch (err) {
             console.error('[Dashboard] Error refreshing:', err);
         }
-    }, [personality]);
+    }, [personality, activeGoal]);
 
     useEffect(() => {
         refreshData();
@@ -292,6 +296,18 @@ export default function DashboardScreen({ navigation }: any) {
                         <Text style={[styles.strictnessLabel, { fontSize: 16 }]}>
                             {directive.contextState.mode.replace(/-/g, ' ').toUpperCase()}
                         </Text>
+                        {timeline?.current && (
+                            <Text style={[styles.strictnessNote, { marginTop: 4 }]}>
+                                {`You've been ${describeContextSpan(timeline.current)}`}
+                            </Text>
+                        )}
+                        {timeline && timeline.spans.length > 1 && (
+                            <Text style={styles.timelineRow}>
+                                {timeline.spans
+                                    .map(span => `${formatClock(span.start)} ${span.mode.replace(/-/g, ' ')}`)
+                                    .join('  →  ')}
+                            </Text>
+                        )}
                         <Text style={[styles.strictnessNote, { marginTop: 6 }]}>
                             Gap: {directive.behavioralGap.level} • Tone: {directive.tone} • Source: {directive.source}
                         </Text>
@@ -306,6 +322,9 @@ export default function DashboardScreen({ navigation }: any) {
                                 ⚠️ Recovery: {directive.recoveryAction}
                             </Text>
                         )}
+                        <TouchableOpacity onPress={() => navigation.navigate('WhyThis')}>
+                            <Text style={styles.whyLink}>Why this? ›</Text>
+                        </TouchableOpacity>
                     </View>
                 )}
             </ScrollView>
@@ -355,6 +374,17 @@ const styles = StyleSheet.create({
         borderLeftWidth: 3,
         borderLeftColor: AstraColors.primary,
     },
+    timelineRow: {
+        fontSize: 11,
+        color: AstraColors.mutedForeground,
+        marginTop: 6,
+    },
+    whyLink: {
+        fontSize: 13,
+        fontWeight: '600',
+        color: AstraColors.primary,
+        marginTop: 12,
+    },
     cardLabel: {
         fontSize: 11,
         fontWeight: '600',
@@ -0,0 +1,149 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Why This? Screen — Drill-down into the current directive's reasoning
+// Renders the per-stage trace: inputs used, thresholds crossed, branch taken
+// ─────────────────────────────────────────────────────────────────────────────
+
+import React, { useMemo } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+} from 'react-native';
+import { useOrchestratorStore } from '../modules/agent/store/orchestratorStore';
+import { groupTraceByStage } from '../modules/agent/engine/directiveTrace';
+import type { TraceEntry, TraceValue } from '../modules/agent/types/orchestratorTypes';
+import { AstraColors, AstraCard, AstraRadius } from '../constants/astraTheme';
+
+function formatValue(value: TraceValue): string {
+    if (value === null) return '—';
+    if (typeof value === 'boolean') return value ? 'yes' : 'no';
+    return String(value);
+}
+
+function TraceRow({ entry }: { entry: TraceEntry }) {
+    const inputs = Object.entries(entry.inputs);
+    return (
+        <View style={styles.entry}>
+            <View style={styles.entryHeader}>
+                <Text style={styles.step}>{entry.step}</Text>
+                <Text style={styles.outcome}>{entry.outcome}</Text>
+            </View>
+            {entry.thresholds.map((t, i) => (
+                <Text key={i} style={styles.threshold}>↳ {t}</Text>
+            ))}
+            {inputs.length > 0 && (
+                <View style={styles.inputs}>
+                    {inputs.map(([key, value]) => (
+                        <View key={key} style={styles.inputChip}>
+                            <Text style={styles.inputText}>{key}: {formatValue(value)}</Text>
+                        </View>
+                    ))}
+                </View>
+            )}
+        </View>
+    );
+}
+
+export default function DirectiveTraceScreen({ navigation }: any) {
+    const directive = useOrchestratorStore((s) => s.directive);
+    const groups = useMemo(() => groupTraceByStage(directive?.trace ?? []), [directive]);
+
+    return (
+        <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+            <TouchableOpacity onPress={() => navigation.navigate('Dashboard')}>
+                <Text style={styles.back}>‹ Insights</Text>
+            </TouchableOpacity>
+            <Text style={styles.caption}>ASTRA Intelligence</Text>
+            <Text style={styles.title}>Why this?</Text>
+
+            {!directive ? (
+                <Text style={styles.noData}>No recommendation yet — open Insights to generate one.</Text>
+            ) : (
+                <>
+                    <View style={[styles.card, styles.summaryCard]}>
+                        <Text style={styles.summaryMode}>
+                            {directive.contextState.mode.replace(/-/g, ' ').toUpperCase()}
+                        </Text>
+                        <Text style={styles.summaryText}>
+                            {directive.recommendedFocus.type === 'skip'
+                                ? `Skip focus — ${directive.recommendedFocus.reason}`
+                                : `${directive.recommendedFocus.sessionLength} min ${directive.recommendedFocus.type} — ${directive.recommendedFocus.reason}`}
+                        </Text>
+                        <Text style={styles.summaryMeta}>
+                            {new Date(directive.generatedAt).toLocaleTimeString()} • Source: {directive.source}
+                        </Text>
+                    </View>
+
+                    {groups.length === 0 && (
+                        <Text style={styles.noData}>This recommendation was made before reasoning was recorded.</Text>
+                    )}
+                    {groups.map(group => (
+                        <View key={group.stage} style={styles.card}>
+                            <Text style={styles.stageLabel}>{group.label}</Text>
+                            {group.entries.map((entry, i) => (
+                                <TraceRow key={`${entry.step}-${i}`} entry={entry} />
+                            ))}
+                        </View>
+                    ))}
+                </>
+            )}
+        </ScrollView>
+    );
+}
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: AstraColors.background },
+    content: { padding: 20, paddingTop: 56, paddingBottom: 100 },
+    back: { fontSize: 15, color: AstraColors.primary, fontWeight: '600', marginBottom: 12 },
+    caption: {
+        fontSize: 11,
+        fontWeight: '600',
+        color: AstraColors.mutedForeground,
+        letterSpacing: 1.5,
+        textTransform: 'uppercase',
+        marginBottom: 4,
+    },
+    title: {
+        fontSize: 30, fontWeight: '700', color: AstraColors.foreground,
+        letterSpacing: -0.5, marginBottom: 20,
+    },
+    noData: { fontSize: 13, color: AstraColors.mutedForeground, fontStyle: 'italic' },
+    card: {
+        ...AstraCard,
+        padding: 20,
+        marginBottom: 12,
+    },
+    summaryCard: { borderLeftWidth: 3, borderLeftColor: '#A855F7' },
+    summaryMode: { fontSize: 16, fontWeight: '700', color: AstraColors.foreground },
+    summaryText: { fontSize: 14, color: AstraColors.foreground, marginTop: 6, lineHeight: 20 },
+    summaryMeta: { fontSize: 12, color: AstraColors.mutedForeground, marginTop: 8 },
+    stageLabel: {
+        fontSize: 11,
+        fontWeight: '600',
+        color: AstraColors.mutedForeground,
+        textTransform: 'uppercase',
+        letterSpacing: 1,
+        marginBottom: 12,
+    },
+    entry: {
+        paddingVertical: 10,
+        borderTopWidth: 0.5,
+        borderTopColor: AstraColors.border,
+    },
+    entryHeader: { flexDirection: 'row', justifyContent: 'space-between', gap: 12 },
+    step: { fontSize: 14, fontWeight: '600', color: AstraColors.foreground, flexShrink: 1 },
+    outcome: { fontSize: 13, color: AstraColors.primary, fontWeight: '600', textAlign: 'right', flexShrink: 1 },
+    threshold: { fontSize: 12, color: AstraColors.mutedForeground, marginTop: 4, lineHeight: 18 },
+    inputs: { flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 8 },
+    inputChip: {
+        backgroundColor: AstraColors.muted,
+        borderRadius: AstraRadius.sm,
+        paddingHorizontal: 8,
+        paddingVertical: 3,
+    },
+    inputText: { fontSize: 11, color: AstraColors.warmGray },
+});
@@ -12,13 +12,21 @@ import {
     Vibration,
 } from 'react-native';
 import { useFocusStore } from '../modules/focusTrainer/store/focusStore';
+import { useOrchestratorStore } from '../modules/agent/store/orchestratorStore';
+import { usePlannerStore } from '../modules/planner/plannerStore';
+import { formatClock } from '../modules/agent/engine/contextTimeline';
 import { PomodoroSession } from '../modules/focusTrainer/models/types';
 import {
     computeNextSessionLength,
     computeBreakDuration,
     isSessionSuccessful,
 } from '../modules/focusTrainer/math/pomodoroSurvival';
-import { insertPomodoroSession, getRecentPomodoroSessions } from '../database/repository';
+import {
+    insertPomodoroSession,
+    getRecentPomodoroSessions,
+    linkFollowUpSession,
+    setPomodoroFocusRating,
+} from '../database/repository';
 import { AstraColors, AstraCard, AstraShadow, AstraRadius } from '../constants/astraTheme';
 
 export default function FocusSessionScreen() {
@@ -32,10 +40,17 @@ export default function FocusSessionScreen() {
         endFocusSession,
         updateTimeRemaining,
     } = useFocusStore();
+    const recordFocusFollowUp = useOrchestratorStore((s) => s.recordFocusFollowUp);
+    const linkFocusSession = usePlannerStore((s) => s.linkFocusSession);
+    const plannedBlock = usePlannerStore((s) => s.getCurrentBlock());
+    // Without an active goal, the session works on the planned block's goal
+    const goalId = activeGoal?.id ?? plannedBlock?.goalId;
 
     const [phase, setPhase] = useState<'idle' | 'focus' | 'break'>('idle');
     const [sessionDuration, setSessionDuration] = useState(25 * 60 * 1000);
     const [breakDuration, setBreakDuration] = useState(5 * 60 * 1000);
+    // Last finished session, until the user rates it or starts the next one
+    const [unratedSessionId, setUnratedSessionId] = useState<number | null>(null);
     const intervalRef = useRef<NodeJS.Timeout | null>(null);
     const pulseAnim = useRef(new Animated.Value(1)).current;
     const sessionStartRef = useRef(0);
@@ -43,6 +58,7 @@ export default function FocusSessionScreen() {
     // ── Load optimal session length ────────────────────────────────────────
     useEffect(() => {
         loadOptimalDuration();
+        usePlannerStore.getState().loadPlans();
     }, []);
 
     const loadOptimalDuration = async () => {
@@ -112,9 +128,10 @@ export default function FocusSessionScreen() {
     const handleStart = () => {
         const now = Date.now();
         sessionStartRef.current = now;
+        setUnratedSessionId(null);
 
         const session: PomodoroSession = {
-            goalId: activeGoal?.id,
+            goalId,
             startTime: now,
             plannedDuration: sessionDuration,
             actualDuration: 0,
@@ -132,7 +149,7 @@ export default function FocusSessionScreen() {
         const actualDuration = now - sessionStartRef.current;
 
         const session: PomodoroSession = {
-            goalId: activeGoal?.id,
+            goalId,
             startTime: sessionStartRef.current,
             endTime: now,
             plannedDuration: sessionDuration,
@@ -141,7 +158,11 @@ export default function FocusSessionScreen() {
             breakDuration,
         };
 
-        await insertPomodoroSession(session);
+        const sessionId = await insertPomodoroSession(session);
+        setUnratedSessionId(sessionId);
+        await linkFollowUpSession(sessionId, session.startTime).catch(() => null);
+        linkFocusSession(sessionId, session);
+        recordFocusFollowUp(actualDuration / 60_000, session.startTime);
         endFocusSession();
 
         Vibration.vibrate([0, 500, 200, 500]);
@@ -158,6 +179,13 @@ export default function FocusSessionScreen() {
         endFocusSession();
     };
 
+    // Labels the session for AFI calibration (CalibrationService)
+    const handleRate = (rating: number) => {
+        if (unratedSessionId === null) return;
+        setPomodoroFocusRating(unratedSessionId, rating).catch(console.error);
+        setUnratedSessionId(null);
+    };
+
     // ── Format time ────────────────────────────────────────────────────────
     const formatTime = (ms: number) => {
         const totalSeconds = Math.ceil(ms / 1000);
@@ -226,11 +254,16 @@ export default function FocusSessionScreen() {
             </Animated.View>
 
             {/* ── Goal Display ───────────────────────────────────────────────── */}
-            {activeGoal && (
+            {activeGoal ? (
                 <View style={styles.goalBanner}>
                     <Text style={styles.goalLabel}>GOAL</Text>
                     <Text style={styles.goalTitle}>{activeGoal.title}</Text>
                 </View>
+            ) : plannedBlock && (
+                <View style={styles.goalBanner}>
+                    <Text style={styles.goalLabel}>PLANNED {formatClock(plannedBlock.start).toUpperCase()}</Text>
+                    <Text style={styles.goalTitle}>{plannedBlock.goalTitle}</Text>
+                </View>
             )}
 
             {/* ── Controls ───────────────────────────────────────────────────── */}
@@ -248,6 +281,20 @@ export default function FocusSessionScreen() {
                 )}
             </View>
 
+            {/* ── Focus Rating ───────────────────────────────────────────────── */}
+            {unratedSessionId !== null && phase !== 'focus' && (
+                <View style={styles.ratingCard}>
+                    <Text style={styles.ratingTitle}>How focused were you?</Text>
+                    <View style={styles.ratingRow}>
+                        {[1, 2, 3, 4, 5].map(r => (
+                            <TouchableOpacity key={r} style={styles.ratingBtn} onPress={() => handleRate(r)}>
+                                <Text style={styles.ratingBtnText}>{r}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                </View>
+            )}
+
             {/* ── Stats ──────────────────────────────────────────────────────── */}
             <View style={styles.statsContainer}>
                 <View style={styles.statBox}>
@@ -376,6 +423,37 @@ const styles = StyleSheet.create({
     controls: {
         marginBottom: 32,
     },
+    ratingCard: {
+        ...AstraCard,
+        paddingHorizontal: 20,
+        paddingVertical: 12,
+        marginBottom: 24,
+        width: '100%',
+        alignItems: 'center',
+    },
+    ratingTitle: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: AstraColors.foreground,
+        marginBottom: 10,
+    },
+    ratingRow: {
+        flexDirection: 'row',
+        gap: 10,
+    },
+    ratingBtn: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        backgroundColor: AstraColors.muted,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    ratingBtnText: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: AstraColors.foreground,
+    },
     startBtn: {
         backgroundColor: AstraColors.primary,
         paddingHorizontal: 48,
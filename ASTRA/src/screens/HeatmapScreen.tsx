@@ -1,6 +1,6 @@
 // ─────────────────────────────────────────────────────────────────────────────
 // Heatmap Screen — 7-day Focus Analytics
-// 7×24 grid showing predicted AFI per hour slot
+// 7×24 grid showing predicted AFI per hour slot, from the user's stored usage
 // ─────────────────────────────────────────────────────────────────────────────
 
 import React, { useEffect, useMemo } from 'react';
@@ -9,14 +9,19 @@ import {
     Text,
     StyleSheet,
     ScrollView,
+    TouchableOpacity,
 } from 'react-native';
 import { useFocusStore } from '../modules/focusTrainer/store/focusStore';
+import { usePlannerStore } from '../modules/planner/plannerStore';
+import { dayStart } from '../modules/planner/focusPlanner';
+import type { PlannedBlock } from '../modules/planner/plannerTypes';
+import { localDayKey } from '../modules/interventions/interventionBudget';
+import { formatClock } from '../modules/agent/engine/contextTimeline';
 import {
-    generateFocusHeatmap,
     findOptimalWindows,
     getSuggestedSchedule,
-    aggregateToFocusWindows,
 } from '../modules/focusTrainer/math/attentionForecasting';
+import { loadFocusHeatmap, sampleFocusWindows } from '../modules/focusTrainer/services/HeatmapService';
 import { HourBlock } from '../modules/focusTrainer/models/types';
 import { AstraColors, AstraCard, AstraRadius } from '../constants/astraTheme';
 
@@ -29,35 +34,31 @@ const HOURS_DISPLAY = [
 export default function HeatmapScreen() {
     const { focusHeatmap, suggestedWindows, setFocusHeatmap, setSuggestedWindows } =
         useFocusStore();
+    const { plans, loadPlans, replanToday } = usePlannerStore();
+    const upcomingPlans = plans.filter(p => p.day >= localDayKey(Date.now()));
 
     useEffect(() => {
         loadHeatmapData();
+        loadPlans();
     }, []);
 
-    const loadHeatmapData = () => {
-        // Generate mock AFI data points for 7 days
-        const now = Date.now();
-        const dataPoints = [];
-        for (let d = 0; d < 7; d++) {
-            for (let h = 0; h < 24; h++) {
-                const timestamp = now - d * 24 * 60 * 60 * 1000 + h * 60 * 60 * 1000;
-                // Simulate focus patterns: better in morning, worse in evening
-                const baseAFI = h >= 8 && h <= 11 ? 0.2 : h >= 14 && h <= 16 ? 0.35 : 0.6;
-                const noise = (Math.random() - 0.5) * 0.2;
-                dataPoints.push({ timestamp, afi: Math.max(0, Math.min(1, baseAFI + noise)) });
-            }
-        }
-
-        const windows = aggregateToFocusWindows(dataPoints);
-        const heatmap = generateFocusHeatmap(windows);
-        setFocusHeatmap(heatmap);
+    const loadHeatmapData = async () => {
+        try {
+            // Fold in any hours completed since the last sample, then read back
+            await sampleFocusWindows();
+            const heatmap = await loadFocusHeatmap();
+            setFocusHeatmap(heatmap);
 
-        const today = new Date().getDay();
-        const suggested = getSuggestedSchedule(heatmap, today);
-        setSuggestedWindows(suggested);
+            const today = new Date().getDay();
+            const suggested = getSuggestedSchedule(heatmap, today);
+            setSuggestedWindows(suggested);
+        } catch (err) {
+            console.warn('[Heatmap] Failed to load focus windows:', err);
+        }
     };
 
     const getColor = (block: HourBlock): string => {
+        if (block.confidence === 0) return AstraColors.muted;
         switch (block.label) {
             case 'optimal': return AstraColors.primary;
             case 'good': return AstraColors.primaryMuted;
@@ -71,6 +72,12 @@ export default function HeatmapScreen() {
         return 0.3 + block.confidence * 0.7;
     };
 
+    // Measured slots only — unmeasured ones show the neutral default
+    const measured = useMemo(() => focusHeatmap.filter(b => b.confidence > 0), [focusHeatmap]);
+    const bestSlots = findOptimalWindows(measured).slice(0, 3);
+    const worstSlot = measured.reduce<HourBlock | null>(
+        (worst, b) => (!worst || b.predictedAFI > worst.predictedAFI ? b : worst), null);
+
     // Group heatmap by day
     const heatmapByDay = useMemo(() => {
         const map = new Map<number, HourBlock[]>();
@@ -91,7 +98,7 @@ export default function HeatmapScreen() {
             <Text style={styles.caption}>ANALYTICS</Text>
             <Text style={styles.title}>Focus Heatmap</Text>
             <Text style={styles.subtitle}>
-                Your predicted attention quality across the week
+                Your attention quality across the week, from your own usage
             </Text>
 
             {/* ── Legend ──────────────────────────────────────────────────────── */}
@@ -114,6 +121,10 @@ export default function HeatmapScreen() {
                         </Text>
                     </View>
                 ))}
+                <View style={styles.legendItem}>
+                    <View style={[styles.legendDot, { backgroundColor: AstraColors.muted }]} />
+                    <Text style={styles.legendText}>No data</Text>
+                </View>
             </View>
 
             {/* ── Heatmap Grid ───────────────────────────────────────────────── */}
@@ -155,6 +166,9 @@ export default function HeatmapScreen() {
                     ))}
                 </View>
             </ScrollView>
+            <Text style={styles.coverage}>
+                {measured.length} of 168 weekly hours measured · fainter cells have fewer samples
+            </Text>
 
             {/* ── Suggested Windows ──────────────────────────────────────────── */}
             <View style={styles.suggestedCard}>
@@ -176,7 +190,7 @@ export default function HeatmapScreen() {
                                 </Text>
                             </View>
                             <Text style={styles.windowAFI}>
-                                AFI: {(w.predictedAFI * 100).toFixed(0)}%
+                                AFI: {(w.predictedAFI * 100).toFixed(0)}% ({(w.afiInterval.low * 100).toFixed(0)}–{(w.afiInterval.high * 100).toFixed(0)})
                             </Text>
                         </View>
                     ))
@@ -187,23 +201,73 @@ export default function HeatmapScreen() {
                 )}
             </View>
 
+            {/* ── Focus Plan ─────────────────────────────────────────────────── */}
+            <View style={styles.suggestedCard}>
+                <Text style={styles.suggestedTitle}>Focus Plan</Text>
+                {upcomingPlans.some(p => p.blocks.length > 0) ? (
+                    upcomingPlans.filter(p => p.blocks.length > 0).map(plan => (
+                        <View key={plan.day} style={styles.planDay}>
+                            <Text style={styles.planDayLabel}>
+                                {DAYS[new Date(dayStart(plan.day)).getDay()]}
+                                {plan.adjustment !== 'proceed' ? ` · ${plan.adjustment}` : ''}
+                            </Text>
+                            {plan.blocks.map(block => (
+                                <View key={block.id} style={styles.windowRow}>
+                                    <Text style={[styles.windowTime, block.status === 'cancelled' && styles.planCancelled]}>
+                                        {formatClock(block.start)} · {Math.round((block.end - block.start) / 60000)}m
+                                    </Text>
+                                    <Text style={styles.planGoal} numberOfLines={1}>{block.goalTitle}</Text>
+                                    <Text style={styles.windowAFI}>{STATUS_LABELS[block.status]}</Text>
+                                </View>
+                            ))}
+                        </View>
+                    ))
+                ) : (
+                    <Text style={styles.noData}>
+                        Nothing planned. Low attention capacity or no open windows this week.
+                    </Text>
+                )}
+                <TouchableOpacity style={styles.replanBtn} onPress={() => replanToday()}>
+                    <Text style={styles.replanBtnText}>Re-plan Today</Text>
+                </TouchableOpacity>
+            </View>
+
             {/* ── Insights ───────────────────────────────────────────────────── */}
             <View style={styles.insightCard}>
                 <Text style={styles.insightTitle}>Insights</Text>
-                <Text style={styles.insightText}>
-                    • Your best focus hours tend to be in the morning (8–11 AM)
-                </Text>
-                <Text style={styles.insightText}>
-                    • Attention fragmentation increases after 3 PM
-                </Text>
-                <Text style={styles.insightText}>
-                    • Consider scheduling demanding tasks before noon
-                </Text>
+                {measured.length === 0 ? (
+                    <Text style={styles.insightText}>
+                        • No usage measured yet. Hours fill in as ASTRA sees how you use your phone.
+                    </Text>
+                ) : (
+                    <>
+                        {bestSlots.length > 0 && (
+                            <Text style={styles.insightText}>
+                                • Your most focused hours so far: {bestSlots.map(b => `${DAYS[b.dayOfWeek]} ${formatHour(b.hour)}`).join(', ')}
+                            </Text>
+                        )}
+                        {worstSlot && (
+                            <Text style={styles.insightText}>
+                                • Attention is most fragmented on {DAYS[worstSlot.dayOfWeek]} around {formatHour(worstSlot.hour)} (AFI {(worstSlot.predictedAFI * 100).toFixed(0)}%)
+                            </Text>
+                        )}
+                        <Text style={styles.insightText}>
+                            • Consider scheduling demanding tasks in your green hours
+                        </Text>
+                    </>
+                )}
             </View>
         </ScrollView>
     );
 }
 
+const STATUS_LABELS: Record<PlannedBlock['status'], string> = {
+    planned: 'Planned',
+    done: 'Done',
+    missed: 'Missed',
+    cancelled: 'Dropped',
+};
+
 function formatHour(h: number): string {
     const hour = h % 24;
     if (hour === 0) return '12:00 AM';
@@ -248,6 +312,9 @@ const styles = StyleSheet.create({
     cell: {
         width: 16, height: 16, borderRadius: 4, marginHorizontal: 1,
     },
+    coverage: {
+        fontSize: 11, color: AstraColors.mutedForeground, marginTop: 8, textAlign: 'center',
+    },
     suggestedCard: {
         ...AstraCard,
         padding: 20,
@@ -266,6 +333,17 @@ const styles = StyleSheet.create({
     windowLabel: { fontSize: 10, fontWeight: '700', color: AstraColors.primaryForeground },
     windowAFI: { fontSize: 12, color: AstraColors.mutedForeground },
     noData: { fontSize: 13, color: AstraColors.mutedForeground, fontStyle: 'italic' },
+    planDay: { marginBottom: 8 },
+    planDayLabel: {
+        fontSize: 12, fontWeight: '600', color: AstraColors.mutedForeground, marginBottom: 6,
+    },
+    planGoal: { flex: 1, fontSize: 13, color: AstraColors.foreground },
+    planCancelled: { textDecorationLine: 'line-through', color: AstraColors.mutedForeground },
+    replanBtn: {
+        marginTop: 8, paddingVertical: 10, borderRadius: AstraRadius.md,
+        backgroundColor: AstraColors.primaryLight, alignItems: 'center',
+    },
+    replanBtnText: { fontSize: 14, fontWeight: '600', color: AstraColors.primary },
     insightCard: {
         ...AstraCard,
         padding: 20,
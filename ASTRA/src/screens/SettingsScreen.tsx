@@ -2,7 +2,7 @@
 // Settings Screen — Personality Calibration, Feature Toggles, Privacy
 // ─────────────────────────────────────────────────────────────────────────────
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import {
     View,
     Text,
@@ -12,12 +12,77 @@ import {
     TouchableOpacity,
     Alert,
     TextInput,
+    Share,
 } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
 import { useFocusStore } from '../modules/focusTrainer/store/focusStore';
 import { computeImpulsivityIndex } from '../modules/focusTrainer/math/personalityStrictness';
 import { PersonalityProfile, BlockingLevel } from '../modules/focusTrainer/models/types';
-import { setPersonalityProfile, setModuleEnabled, getUserProfile, setUserProfile } from '../storage/mmkvStore';
+import {
+    setPersonalityProfile,
+    setModuleEnabled,
+    getUserProfile,
+    setUserProfile,
+    getLLMSettings,
+    setLLMSettings,
+    getLLMValidationStats,
+    getPersonaSettings,
+    setPersonaSettings,
+    getBanditState,
+    resetBanditState,
+    getAvailability,
+    getPolicyOverride,
+    getAFICalibration,
+    getAppCategoryOverrides,
+} from '../storage/mmkvStore';
+import { LLMProviderKind, LLMSettings, PersonaId, PersonaSettings, SensitiveTopic } from '../modules/agent/llm/llmTypes';
+import { PROVIDER_DEFAULTS } from '../modules/agent/llm/providers';
+import {
+    PERSONA_PROFILES,
+    SENSITIVE_TOPIC_LABELS,
+    defaultPersonaForTone,
+} from '../modules/agent/llm/personas';
+import { BANDIT_CONFIG, summarizeBandit } from '../modules/agent/engine/strategyBandit';
+import {
+    clearUserPolicyOverride,
+    getActivePolicy,
+    importUserPolicyOverride,
+} from '../modules/agent/policy/policyService';
+import { recalibrateAFI, resetAFICalibration } from '../modules/focusTrainer/services/CalibrationService';
+import {
+    APP_CATEGORIES,
+    clearAppCategoryOverrides,
+    getAppCategory,
+    setAppCategoryOverride,
+} from '../modules/focusTrainer/services/AppTaxonomyService';
+import { getDailyAppStats } from '../modules/focusTrainer/services/UsageStatsService';
 import { AstraColors, AstraCard, AstraRadius } from '../constants/astraTheme';
+import {
+    exportEncryptedBackup,
+    importEncryptedBackup,
+    MIN_PASSPHRASE_LENGTH,
+} from '../modules/backup/services/BackupService';
+import { getDeviceBackupSources, reloadStoresAfterImport } from '../modules/backup/services/deviceBackup';
+import { ConflictPolicy } from '../modules/backup/models/backupTypes';
+import {
+    clearCalendar,
+    getAvailabilityStatus,
+    importCalendar,
+    pauseInterventions,
+    resumeInterventions,
+    setQuietHours,
+} from '../modules/interventions/budgetService';
+import {
+    WEEKDAY_NAMES,
+    describeQuietRule,
+    formatClockInput,
+    newQuietRule,
+    parseClock,
+    toggleQuietDay,
+} from '../modules/interventions/availability';
+import { formatClock } from '../modules/agent/engine/contextTimeline';
+import type { AvailabilitySettings, QuietHoursRule } from '../modules/interventions/budgetTypes';
 
 export default function SettingsScreen() {
     const {
@@ -40,6 +105,37 @@ export default function SettingsScreen() {
     const [userProfile, setUserProfileState] = useState(getUserProfile());
     const [goalText, setGoalText] = useState(userProfile?.goalText || '');
 
+    const [llmSettings, setLlmSettingsState] = useState<LLMSettings>(getLLMSettings());
+    const [llmStats] = useState(getLLMValidationStats());
+    const localOverrides = llmSettings.overrides['openai-compatible'] ?? {};
+    const [localBaseUrl, setLocalBaseUrl] = useState(localOverrides.baseUrl ?? PROVIDER_DEFAULTS['openai-compatible'].baseUrl);
+    const [localModel, setLocalModel] = useState(localOverrides.model ?? PROVIDER_DEFAULTS['openai-compatible'].model);
+
+    const [personaSettings, setPersonaSettingsState] = useState<PersonaSettings>(getPersonaSettings());
+    const [bandit, setBandit] = useState(getBanditState());
+    const [policyVersion, setPolicyVersion] = useState(getActivePolicy().version);
+    const [afiCalibration, setAfiCalibration] = useState(getAFICalibration());
+    const [categoryOverrides, setCategoryOverrides] = useState(getAppCategoryOverrides());
+    const [todayApps, setTodayApps] = useState<Array<{ packageName: string; appName: string }>>([]);
+    const [policyText, setPolicyText] = useState(() => {
+        const override = getPolicyOverride();
+        return override ? JSON.stringify(override, null, 2) : '';
+    });
+
+    const [availability, setAvailabilityState] = useState<AvailabilitySettings>(getAvailability());
+    const [editingRule, setEditingRule] = useState<QuietHoursRule | null>(null);
+    const [quietLabel, setQuietLabel] = useState('');
+    const [quietStart, setQuietStart] = useState('');
+    const [quietEnd, setQuietEnd] = useState('');
+    const [icsText, setIcsText] = useState('');
+    const [showIcsImport, setShowIcsImport] = useState(false);
+    const availabilityStatus = getAvailabilityStatus();
+
+    const [backupPassphrase, setBackupPassphrase] = useState('');
+    const [importText, setImportText] = useState('');
+    const [showImport, setShowImport] = useState(false);
+    const [backupBusy, setBackupBusy] = useState(false);
+
     // ── Save goal text ──────────────────────────────────────────────────────
     const handleSaveGoal = () => {
         if (userProfile && goalText.trim()) {
@@ -88,11 +184,254 @@ export default function SettingsScreen() {
         setUserBlockingOverride(level);
     };
 
-    // ── Export data ────────────────────────────────────────────────────────
-    const handleExport = () => {
+    // ── Coach persona ──────────────────────────────────────────────────────
+    const savePersonaSettings = (next: PersonaSettings) => {
+        setPersonaSettings(next);
+        setPersonaSettingsState(next);
+    };
+
+    const toggleTopicOptOut = (topic: SensitiveTopic, optedOut: boolean) => {
+        const others = personaSettings.optedOutTopics.filter(t => t !== topic);
+        savePersonaSettings({
+            ...personaSettings,
+            optedOutTopics: optedOut ? [...others, topic] : others,
+        });
+    };
+
+    const autoPersona = PERSONA_PROFILES[defaultPersonaForTone(userProfile?.nudgeTone ?? 'supportive')];
+    const activePersona = personaSettings.persona === 'auto'
+        ? autoPersona
+        : PERSONA_PROFILES[personaSettings.persona];
+
+    // ── Strategy learning ──────────────────────────────────────────────────
+    const banditArms = summarizeBandit(bandit).slice(0, 5);
+
+    const handleResetLearning = () => {
+        Alert.alert(
+            'Reset Strategy Learning',
+            'ASTRA will forget which nudge styles worked for you and start again from the default rules.',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Reset',
+                    style: 'destructive',
+                    onPress: () => {
+                        resetBanditState();
+                        setBandit(getBanditState());
+                    },
+                },
+            ],
+        );
+    };
+
+    // ── Orchestrator policy ────────────────────────────────────────────────
+    const handleApplyPolicy = () => {
+        const result = importUserPolicyOverride(policyText);
+        if (!result.value) {
+            Alert.alert('Override Rejected', result.errors.join('\n'));
+            return;
+        }
+        setPolicyVersion(result.value.version);
+        Alert.alert('Override Applied', `The next directive will use policy ${result.value.version}.`);
+    };
+
+    const handleResetPolicy = () => {
+        clearUserPolicyOverride();
+        setPolicyText('');
+        setPolicyVersion(getActivePolicy().version);
+    };
+
+    // ── App categories ─────────────────────────────────────────────────────
+    useEffect(() => {
+        getDailyAppStats(Date.now())
+            .then(stats => setTodayApps(
+                [...stats].sort((a, b) => b.totalTime - a.totalTime).slice(0, 8)
+                    .map(({ packageName, appName }) => ({ packageName, appName })),
+            ))
+            .catch(err => console.warn('[Settings] Loading today\'s apps failed:', err));
+    }, []);
+
+    const cycleAppCategory = (packageName: string) => {
+        const current = APP_CATEGORIES.indexOf(getAppCategory(packageName));
+        setAppCategoryOverride(packageName, APP_CATEGORIES[(current + 1) % APP_CATEGORIES.length]);
+        setCategoryOverrides(getAppCategoryOverrides());
+    };
+
+    const handleResetCategories = () => {
+        clearAppCategoryOverrides();
+        setCategoryOverrides({});
+    };
+
+    // ── AFI calibration ────────────────────────────────────────────────────
+    const handleRecalibrate = async () => {
+        try {
+            setAfiCalibration(await recalibrateAFI());
+        } catch (err) {
+            console.warn('[Settings] AFI recalibration failed:', err);
+        }
+    };
+
+    const handleResetCalibration = () => {
+        resetAFICalibration();
+        setAfiCalibration(null);
+    };
+
+    // ── LLM provider ───────────────────────────────────────────────────────
+    const saveLlmSettings = (next: LLMSettings) => {
+        setLLMSettings(next);
+        setLlmSettingsState(next);
+    };
+
+    const selectProvider = (provider: LLMProviderKind) => {
+        saveLlmSettings({ ...llmSettings, provider });
+    };
+
+    const handleSaveLocalServer = () => {
+        saveLlmSettings({
+            ...llmSettings,
+            overrides: {
+                ...llmSettings.overrides,
+                'openai-compatible': {
+                    ...llmSettings.overrides['openai-compatible'],
+                    baseUrl: localBaseUrl.trim(),
+                    model: localModel.trim(),
+                },
+            },
+        });
+        Alert.alert('Saved', 'The local model server will be used for the next directive.');
+    };
+
+    // ── Availability ────────────────────────────────────────────────────────
+    const editQuietRule = (rule: QuietHoursRule | null) => {
+        setEditingRule(rule);
+        setQuietLabel(rule?.label ?? '');
+        setQuietStart(rule ? formatClockInput(rule.startMinute) : '');
+        setQuietEnd(rule ? formatClockInput(rule.endMinute) : '');
+    };
+
+    const handleSaveQuietRule = () => {
+        if (!editingRule) return;
+        const start = parseClock(quietStart);
+        const end = parseClock(quietEnd);
+        if (start === null || end === null) {
+            Alert.alert('Invalid Time', 'Use 24-hour times like 22:00 and 7:00.');
+            return;
+        }
+        const rule = { ...editingRule, label: quietLabel.trim() || 'Quiet hours', startMinute: start, endMinute: end };
+        const exists = availability.quietHours.some(r => r.id === rule.id);
+        setAvailabilityState(setQuietHours(exists
+            ? availability.quietHours.map(r => (r.id === rule.id ? rule : r))
+            : [...availability.quietHours, rule]));
+        editQuietRule(null);
+    };
+
+    const handleRemoveQuietRule = () => {
+        if (!editingRule) return;
+        setAvailabilityState(setQuietHours(availability.quietHours.filter(r => r.id !== editingRule.id)));
+        editQuietRule(null);
+    };
+
+    const toggleQuietRule = (id: string, enabled: boolean) => {
+        setAvailabilityState(setQuietHours(
+            availability.quietHours.map(rule => (rule.id === id ? { ...rule, enabled } : rule)),
+        ));
+    };
+
+    const importCalendarText = (text: string) => {
+        try {
+            const result = importCalendar(text);
+            setAvailabilityState(getAvailability());
+            setIcsText('');
+            setShowIcsImport(false);
+            Alert.alert(
+                'Calendar Imported',
+                `${result.blocks.length} busy blocks in the next two weeks` +
+                (result.skipped > 0 ? ` (${result.skipped} events skipped).` : '.'),
+            );
+        } catch (e) {
+            Alert.alert('Import Failed', e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handlePickCalendarFile = async () => {
+        try {
+            const picked = await DocumentPicker.getDocumentAsync({
+                type: ['text/calendar', 'application/ics', '*/*'],
+                copyToCacheDirectory: true,
+            });
+            if (picked.canceled) return;
+            importCalendarText(await new File(picked.assets[0].uri).text());
+        } catch (e) {
+            Alert.alert('Import Failed', e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    // ── Export / import data ───────────────────────────────────────────────
+    const checkPassphrase = (): boolean => {
+        if (backupPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+            Alert.alert(
+                'Passphrase Needed',
+                `Enter a backup passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters. You will need it to restore.`,
+            );
+            return false;
+        }
+        return true;
+    };
+
+    const handleExport = async () => {
+        if (!checkPassphrase()) return;
+        setBackupBusy(true);
+        try {
+            const payload = await exportEncryptedBackup(getDeviceBackupSources(), backupPassphrase);
+            await Share.share({ title: 'ASTRA backup', message: payload });
+        } catch (e) {
+            Alert.alert('Export Failed', e instanceof Error ? e.message : String(e));
+        } finally {
+            setBackupBusy(false);
+        }
+    };
+
+    const runImport = async (policy: ConflictPolicy) => {
+        setBackupBusy(true);
+        try {
+            const report = await importEncryptedBackup(
+                getDeviceBackupSources(),
+                importText,
+                backupPassphrase,
+                policy,
+            );
+            await reloadStoresAfterImport();
+            setUserProfileState(getUserProfile());
+            setImportText('');
+            setShowImport(false);
+            Alert.alert(
+                'Import Complete',
+                `${report.rowsWritten} records restored` +
+                (report.rowsKept > 0 ? `, ${report.rowsKept} kept from this device` : '') +
+                (report.tablesSkipped.length > 0 ? `.\nSkipped: ${report.tablesSkipped.join(', ')}` : '.'),
+            );
+        } catch (e) {
+            Alert.alert('Import Failed', e instanceof Error ? e.message : String(e));
+        } finally {
+            setBackupBusy(false);
+        }
+    };
+
+    const handleImport = () => {
+        if (!checkPassphrase()) return;
+        if (!importText.trim()) {
+            Alert.alert('Nothing to Import', 'Paste the backup text first.');
+            return;
+        }
         Alert.alert(
-            'Export Data',
-            'Your focus data would be exported as a JSON file to your device. (Feature coming soon)',
+            'Import Backup',
+            'How should data that already exists on this device be handled?',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Keep Mine', onPress: () => runImport('keep-local') },
+                { text: 'Use Backup', onPress: () => runImport('prefer-bundle') },
+                { text: 'Replace All', style: 'destructive', onPress: () => runImport('replace-all') },
+            ],
         );
     };
 
@@ -284,6 +623,389 @@ export default function SettingsScreen() {
                 </View>
             </View>
 
+            {/* ── Availability ───────────────────────────────────────────────── */}
+            <View style={styles.card}>
+                <Text style={styles.sectionTitle}>Availability</Text>
+                <Text style={styles.sectionDesc}>
+                    {availabilityStatus.available
+                        ? 'ASTRA may interrupt you right now. Nothing is shown during quiet hours, a pause or a busy block.'
+                        : availabilityStatus.detail}
+                </Text>
+
+                {availability.quietHours.map(rule => (
+                    <View key={rule.id} style={styles.toggleRow}>
+                        <TouchableOpacity style={{ flex: 1 }} onPress={() => editQuietRule(rule)}>
+                            <Text style={styles.toggleLabel}>{describeQuietRule(rule)}</Text>
+                        </TouchableOpacity>
+                        <Switch
+                            value={rule.enabled}
+                            onValueChange={value => toggleQuietRule(rule.id, value)}
+                            trackColor={{ false: AstraColors.muted, true: AstraColors.primaryLight }}
+                            thumbColor={rule.enabled ? AstraColors.primary : AstraColors.mutedForeground}
+                        />
+                    </View>
+                ))}
+                {editingRule ? (
+                    <>
+                        <TextInput
+                            style={[styles.textInput, styles.singleLineInput]}
+                            value={quietLabel}
+                            onChangeText={setQuietLabel}
+                            placeholder="Quiet hours"
+                            placeholderTextColor={AstraColors.mutedForeground}
+                        />
+                        <View style={[styles.levelRow, { marginTop: 8 }]}>
+                            {WEEKDAY_NAMES.map((name, day) => (
+                                <TouchableOpacity
+                                    key={name}
+                                    style={[styles.levelBtn, editingRule.days.includes(day) && styles.levelBtnActive]}
+                                    onPress={() => setEditingRule(toggleQuietDay(editingRule, day))}
+                                >
+                                    <Text
+                                        style={[
+                                            styles.levelBtnText,
+                                            editingRule.days.includes(day) && styles.levelBtnTextActive,
+                                        ]}
+                                    >
+                                        {name.charAt(0)}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                        <View style={styles.levelRow}>
+                            <TextInput
+                                style={[styles.textInput, styles.singleLineInput, { flex: 1 }]}
+                                value={quietStart}
+                                onChangeText={setQuietStart}
+                                placeholder="22:00"
+                                placeholderTextColor={AstraColors.mutedForeground}
+                                keyboardType="numbers-and-punctuation"
+                            />
+                            <TextInput
+                                style={[styles.textInput, styles.singleLineInput, { flex: 1 }]}
+                                value={quietEnd}
+                                onChangeText={setQuietEnd}
+                                placeholder="7:00"
+                                placeholderTextColor={AstraColors.mutedForeground}
+                                keyboardType="numbers-and-punctuation"
+                            />
+                        </View>
+                        <TouchableOpacity style={[styles.playBtn, { marginTop: 12, marginBottom: 8 }]} onPress={handleSaveQuietRule}>
+                            <Text style={styles.playBtnText}>Save Quiet Hours</Text>
+                        </TouchableOpacity>
+                        <View style={styles.levelRow}>
+                            <TouchableOpacity style={[styles.dataBtn, { flex: 1 }]} onPress={() => editQuietRule(null)}>
+                                <Text style={styles.dataBtnText}>Cancel</Text>
+                            </TouchableOpacity>
+                            {availability.quietHours.some(r => r.id === editingRule.id) && (
+                                <TouchableOpacity
+                                    style={[styles.dataBtn, styles.deleteBtn, { flex: 1 }]}
+                                    onPress={handleRemoveQuietRule}
+                                >
+                                    <Text style={[styles.dataBtnText, styles.deleteBtnText]}>Remove</Text>
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                    </>
+                ) : (
+                    <TouchableOpacity style={[styles.dataBtn, { marginTop: 12 }]} onPress={() => editQuietRule(newQuietRule(Date.now()))}>
+                        <Text style={styles.dataBtnText}>Add Quiet Hours</Text>
+                    </TouchableOpacity>
+                )}
+
+                <Text style={[styles.strictnessLevel, { marginTop: 8 }]}>
+                    {availability.pausedUntil && availability.pausedUntil > Date.now()
+                        ? `Paused until ${formatClock(availability.pausedUntil)}`
+                        : 'Pause ASTRA'}
+                </Text>
+                <View style={styles.levelRow}>
+                    {[1, 3, 8].map(hours => (
+                        <TouchableOpacity
+                            key={hours}
+                            style={styles.levelBtn}
+                            onPress={() => setAvailabilityState(pauseInterventions(hours))}
+                        >
+                            <Text style={styles.levelBtnText}>{hours}h</Text>
+                        </TouchableOpacity>
+                    ))}
+                    <TouchableOpacity
+                        style={styles.levelBtn}
+                        onPress={() => setAvailabilityState(resumeInterventions())}
+                    >
+                        <Text style={styles.levelBtnText}>Resume</Text>
+                    </TouchableOpacity>
+                </View>
+
+                <Text style={[styles.strictnessLevel, { marginTop: 8 }]}>
+                    {availability.busyBlocks.length > 0
+                        ? `${availability.busyBlocks.length} busy blocks · next: ${availability.busyBlocks[0].summary} at ${formatClock(availability.busyBlocks[0].start)}`
+                        : 'No calendar imported'}
+                </Text>
+                <TouchableOpacity style={styles.dataBtn} onPress={handlePickCalendarFile}>
+                    <Text style={styles.dataBtnText}>Import Calendar File (.ics)</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.dataBtn} onPress={() => setShowIcsImport(!showIcsImport)}>
+                    <Text style={styles.dataBtnText}>Paste Calendar Text</Text>
+                </TouchableOpacity>
+                {showIcsImport && (
+                    <>
+                        <TextInput
+                            style={[styles.textInput, { marginTop: 0, marginBottom: 8 }]}
+                            value={icsText}
+                            onChangeText={setIcsText}
+                            placeholder="Paste the contents of an exported .ics file"
+                            placeholderTextColor={AstraColors.mutedForeground}
+                            multiline
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+                        <TouchableOpacity style={[styles.playBtn, { marginBottom: 8 }]} onPress={() => importCalendarText(icsText)}>
+                            <Text style={styles.playBtnText}>Import</Text>
+                        </TouchableOpacity>
+                    </>
+                )}
+                {availability.busyBlocks.length > 0 && (
+                    <TouchableOpacity
+                        style={[styles.dataBtn, styles.deleteBtn]}
+                        onPress={() => setAvailabilityState(clearCalendar())}
+                    >
+                        <Text style={[styles.dataBtnText, styles.deleteBtnText]}>Clear Calendar</Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+
+            {/* ── AI Coach Provider ──────────────────────────────────────────── */}
+            <View style={styles.card}>
+                <Text style={styles.sectionTitle}>AI Coach Provider</Text>
+                <Text style={styles.sectionDesc}>
+                    Where ASTRA's coaching messages are generated. A local OpenAI-compatible server (Ollama, llama.cpp) keeps everything on your network.
+                </Text>
+                <View style={styles.levelRow}>
+                    {([
+                        ['groq', 'Groq'],
+                        ['openai-compatible', 'Local'],
+                        ['mock', 'Offline Mock'],
+                    ] as [LLMProviderKind, string][]).map(([kind, label]) => (
+                        <TouchableOpacity
+                            key={kind}
+                            style={[
+                                styles.levelBtn,
+                                llmSettings.provider === kind && styles.levelBtnActive,
+                            ]}
+                            onPress={() => selectProvider(kind)}
+                        >
+                            <Text
+                                style={[
+                                    styles.levelBtnText,
+                                    llmSettings.provider === kind && styles.levelBtnTextActive,
+                                ]}
+                            >
+                                {label}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+                {llmSettings.provider === 'openai-compatible' && (
+                    <>
+                        <TextInput
+                            style={[styles.textInput, styles.singleLineInput, { marginTop: 12 }]}
+                            value={localBaseUrl}
+                            onChangeText={setLocalBaseUrl}
+                            placeholder="Server URL (e.g. http://192.168.1.10:11434/v1)"
+                            placeholderTextColor={AstraColors.mutedForeground}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+                        <TextInput
+                            style={[styles.textInput, styles.singleLineInput, { marginTop: 8 }]}
+                            value={localModel}
+                            onChangeText={setLocalModel}
+                            placeholder="Model name"
+                            placeholderTextColor={AstraColors.mutedForeground}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+                        <TouchableOpacity
+                            style={[styles.playBtn, { marginTop: 12 }]}
+                            onPress={handleSaveLocalServer}
+                        >
+                            <Text style={styles.playBtnText}>Save Server</Text>
+                        </TouchableOpacity>
+                    </>
+                )}
+                {llmStats.responses > 0 && (
+                    <Text style={[styles.strictnessLevel, { marginTop: 12 }]}>
+                        Output checks: {llmStats.responses} responses · {llmStats.repaired} repaired · {llmStats.unparseable} unreadable · {Object.values(llmStats.fieldFailures).reduce<number>((a, b) => a + (b ?? 0), 0)} fields rejected
+                    </Text>
+                )}
+            </View>
+
+            {/* ── Coach Persona ──────────────────────────────────────────────── */}
+            <View style={styles.card}>
+                <Text style={styles.sectionTitle}>Coach Persona</Text>
+                <Text style={styles.sectionDesc}>
+                    How ASTRA talks to you. Auto follows the tone picked from your onboarding answers ({autoPersona.label}).
+                </Text>
+                <View style={[styles.levelRow, { flexWrap: 'wrap' }]}>
+                    {(['auto', 'savage', 'coach', 'gentle', 'clinical-neutral'] as (PersonaId | 'auto')[]).map(id => (
+                        <TouchableOpacity
+                            key={id}
+                            style={[
+                                styles.levelBtn,
+                                { minWidth: '30%' },
+                                personaSettings.persona === id && styles.levelBtnActive,
+                            ]}
+                            onPress={() => savePersonaSettings({ ...personaSettings, persona: id })}
+                        >
+                            <Text
+                                style={[
+                                    styles.levelBtnText,
+                                    personaSettings.persona === id && styles.levelBtnTextActive,
+                                ]}
+                            >
+                                {id === 'auto' ? 'Auto' : PERSONA_PROFILES[id].label}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+                <Text style={[styles.strictnessLevel, { marginTop: 12 }]}>
+                    {activePersona.label}: {activePersona.description}
+                </Text>
+                <Text style={[styles.sectionDesc, { marginTop: 16 }]}>Never mention:</Text>
+                {(Object.keys(SENSITIVE_TOPIC_LABELS) as SensitiveTopic[]).map(topic => {
+                    const bannedByPersona = activePersona.bannedTopics.includes(topic);
+                    const optedOut = bannedByPersona || personaSettings.optedOutTopics.includes(topic);
+                    return (
+                        <View key={topic} style={styles.toggleRow}>
+                            <Text style={styles.toggleLabel}>{SENSITIVE_TOPIC_LABELS[topic]}</Text>
+                            <Switch
+                                value={optedOut}
+                                disabled={bannedByPersona}
+                                onValueChange={value => toggleTopicOptOut(topic, value)}
+                                trackColor={{ false: AstraColors.muted, true: AstraColors.primaryLight }}
+                                thumbColor={optedOut ? AstraColors.primary : AstraColors.mutedForeground}
+                            />
+                        </View>
+                    );
+                })}
+            </View>
+
+            {/* ── Strategy Learning ──────────────────────────────────────────── */}
+            <View style={styles.card}>
+                <Text style={styles.sectionTitle}>Strategy Learning</Text>
+                <Text style={styles.sectionDesc}>
+                    {bandit.updates < BANDIT_CONFIG.coldStartUpdates
+                        ? `Learning from your responses (${bandit.updates}/${BANDIT_CONFIG.coldStartUpdates}). Default rules are used until then.`
+                        : `Learned from ${bandit.updates} nudges. Safety rules still apply.`}
+                </Text>
+                {banditArms.map(arm => (
+                    <View key={arm.arm} style={styles.toggleRow}>
+                        <Text style={styles.toggleLabel}>{arm.arm}</Text>
+                        <Text style={styles.strictnessLevel}>
+                            {arm.pulls}× · avg {(arm.meanReward * 100).toFixed(0)}%
+                        </Text>
+                    </View>
+                ))}
+                {bandit.pending.length > 0 && (
+                    <Text style={[styles.strictnessLevel, { marginTop: 8 }]}>
+                        {bandit.pending.length} nudges awaiting outcome
+                    </Text>
+                )}
+                <TouchableOpacity
+                    style={[styles.dataBtn, styles.deleteBtn, { marginTop: 12 }]}
+                    onPress={handleResetLearning}
+                >
+                    <Text style={[styles.dataBtnText, styles.deleteBtnText]}>Reset Learning</Text>
+                </TouchableOpacity>
+            </View>
+
+            {/* ── Orchestrator Policy ────────────────────────────────────────── */}
+            <View style={styles.card}>
+                <Text style={styles.sectionTitle}>Orchestrator Policy</Text>
+                <Text style={styles.sectionDesc}>
+                    Thresholds behind ASTRA's decisions. Override any subset as JSON, e.g. {'{ "focus": { "deepWorkMax": 45 } }'}.
+                </Text>
+                <Text style={styles.strictnessLevel}>Active policy: {policyVersion}</Text>
+                <TextInput
+                    style={[styles.textInput, { marginTop: 12, marginBottom: 8 }]}
+                    value={policyText}
+                    onChangeText={setPolicyText}
+                    placeholder='{ "context": { "overloaded": { "minStress": 5 } } }'
+                    placeholderTextColor={AstraColors.mutedForeground}
+                    multiline
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                />
+                <TouchableOpacity style={[styles.playBtn, { marginBottom: 8 }]} onPress={handleApplyPolicy}>
+                    <Text style={styles.playBtnText}>Apply Override</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.dataBtn, styles.deleteBtn]} onPress={handleResetPolicy}>
+                    <Text style={[styles.dataBtnText, styles.deleteBtnText]}>Use Bundled Policy</Text>
+                </TouchableOpacity>
+            </View>
+
+            {/* ── App Categories ─────────────────────────────────────────────── */}
+            <View style={styles.card}>
+                <Text style={styles.sectionTitle}>App Categories</Text>
+                <Text style={styles.sectionDesc}>
+                    Hopping between work apps counts less against your focus than hopping between feeds, and social or video apps are flagged sooner. Tap a category to correct it.
+                </Text>
+                {todayApps.length === 0 && (
+                    <Text style={styles.strictnessLevel}>No app usage recorded today</Text>
+                )}
+                {todayApps.map(app => (
+                    <View key={app.packageName} style={styles.toggleRow}>
+                        <Text style={styles.toggleLabel}>{app.appName}</Text>
+                        <TouchableOpacity
+                            style={[
+                                styles.levelBtn,
+                                styles.categoryBtn,
+                                categoryOverrides[app.packageName] !== undefined && styles.levelBtnActive,
+                            ]}
+                            onPress={() => cycleAppCategory(app.packageName)}
+                        >
+                            <Text
+                                style={[
+                                    styles.levelBtnText,
+                                    categoryOverrides[app.packageName] !== undefined && styles.levelBtnTextActive,
+                                ]}
+                            >
+                                {getAppCategory(app.packageName)}
+                            </Text>
+                        </TouchableOpacity>
+                    </View>
+                ))}
+                {Object.keys(categoryOverrides).length > 0 && (
+                    <TouchableOpacity style={[styles.dataBtn, { marginTop: 12 }]} onPress={handleResetCategories}>
+                        <Text style={styles.dataBtnText}>Reset {Object.keys(categoryOverrides).length} Corrections</Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+
+            {/* ── AFI Calibration ────────────────────────────────────────────── */}
+            <View style={styles.card}>
+                <Text style={styles.sectionTitle}>Attention Calibration</Text>
+                <Text style={styles.sectionDesc}>
+                    ASTRA learns what fragmented attention looks like for you from your usage and how your focus sessions went. Rate sessions after they end to help it along.
+                </Text>
+                <Text style={styles.strictnessLevel}>
+                    {afiCalibration
+                        ? `${afiCalibration.usageHours > 0 ? `${afiCalibration.usageHours} hours of usage` : 'Default ranges'} · ${afiCalibration.labelledSessions > 0 ? `${afiCalibration.labelledSessions} sessions` : 'default weights'}`
+                        : 'Using default parameters'}
+                </Text>
+                {afiCalibration && afiCalibration.labelledSessions > 0 && (
+                    <Text style={styles.sectionDesc}>
+                        Switches {(afiCalibration.weights.alpha * 100).toFixed(0)}% · Unlocks {(afiCalibration.weights.beta * 100).toFixed(0)}% · Short sessions {(afiCalibration.weights.gamma * 100).toFixed(0)}% · App spread {(afiCalibration.weights.delta * 100).toFixed(0)}%
+                    </Text>
+                )}
+                <TouchableOpacity style={[styles.playBtn, { marginTop: 12, marginBottom: 8 }]} onPress={handleRecalibrate}>
+                    <Text style={styles.playBtnText}>Recalibrate Now</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.dataBtn, styles.deleteBtn]} onPress={handleResetCalibration}>
+                    <Text style={[styles.dataBtnText, styles.deleteBtnText]}>Use Default Parameters</Text>
+                </TouchableOpacity>
+            </View>
+
             {/* ── Feature Toggles ────────────────────────────────────────────── */}
             <View style={styles.card}>
                 <Text style={styles.sectionTitle}>Features</Text>
@@ -332,9 +1054,56 @@ export default function SettingsScreen() {
             {/* ── Data Management ────────────────────────────────────────────── */}
             <View style={styles.card}>
                 <Text style={styles.sectionTitle}>Data</Text>
-                <TouchableOpacity style={styles.dataBtn} onPress={handleExport}>
-                    <Text style={styles.dataBtnText}>Export All Data</Text>
+                <Text style={styles.sectionDesc}>
+                    Move everything to a new phone with an encrypted backup. Without the passphrase the backup cannot be read.
+                </Text>
+                <TextInput
+                    style={[styles.textInput, styles.singleLineInput]}
+                    value={backupPassphrase}
+                    onChangeText={setBackupPassphrase}
+                    placeholder="Backup passphrase"
+                    placeholderTextColor={AstraColors.mutedForeground}
+                    secureTextEntry
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                />
+                <TouchableOpacity
+                    style={[styles.dataBtn, { marginTop: 12 }]}
+                    onPress={handleExport}
+                    disabled={backupBusy}
+                >
+                    <Text style={styles.dataBtnText}>
+                        {backupBusy ? 'Working…' : 'Export Encrypted Backup'}
+                    </Text>
                 </TouchableOpacity>
+                <TouchableOpacity
+                    style={styles.dataBtn}
+                    onPress={() => setShowImport(!showImport)}
+                    disabled={backupBusy}
+                >
+                    <Text style={styles.dataBtnText}>Import Backup</Text>
+                </TouchableOpacity>
+                {showImport && (
+                    <>
+                        <TextInput
+                            style={[styles.textInput, { marginTop: 0, marginBottom: 8 }]}
+                            value={importText}
+                            onChangeText={setImportText}
+                            placeholder="Paste backup text here"
+                            placeholderTextColor={AstraColors.mutedForeground}
+                            multiline
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+                        <TouchableOpacity
+                            style={[styles.playBtn, { marginBottom: 8 }]}
+                            onPress={handleImport}
+                            disabled={backupBusy}
+                        >
+                            <Text style={styles.playBtnText}>Restore</Text>
+                        </TouchableOpacity>
+                    </>
+                )}
                 <TouchableOpacity
                     style={[styles.dataBtn, styles.deleteBtn]}
                     onPress={handleDeleteData}
@@ -426,6 +1195,7 @@ const styles = StyleSheet.create({
     },
     levelBtnText: { fontSize: 13, color: AstraColors.mutedForeground, fontWeight: '600' },
     levelBtnTextActive: { color: AstraColors.primary },
+    categoryBtn: { flex: 0, minWidth: 96, paddingHorizontal: 12 },
     privacyText: {
         fontSize: 14, color: AstraColors.mutedForeground, lineHeight: 24,
     },
@@ -450,6 +1220,8 @@ const styles = StyleSheet.create({
         marginTop: 12,
         textAlignVertical: 'top',
     },
+    // Single-line inputs reuse textInput without the multiline height
+    singleLineInput: { minHeight: 0, marginTop: 0 },
     playBtn: {
         backgroundColor: AstraColors.primaryLight,
         borderRadius: AstraRadius.md,
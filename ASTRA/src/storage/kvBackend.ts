@@ -0,0 +1,111 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Key-Value Backend — Pluggable synchronous storage for hot data
+// Typed, schema-versioned values on top of MMKV / AsyncStorage / memory
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Synchronous string store. Reads must be sync so the mmkvStore getters
+ * keep their signatures; backends over async storage preload in `hydrate`.
+ */
+export interface KeyValueBackend {
+    readonly name: string;
+    getString(key: string): string | undefined;
+    setString(key: string, value: string): void;
+    delete(key: string): void;
+    getAllKeys(): string[];
+    /** Preload persisted values. Awaited once at startup when present. */
+    hydrate?(): Promise<void>;
+}
+
+// ── In-Memory Backend ────────────────────────────────────────────────────────
+
+/** Non-durable backend for tests and as the pre-startup default. */
+export function createMemoryBackend(initial?: Map<string, string>): KeyValueBackend {
+    const store = initial ?? new Map<string, string>();
+    return {
+        name: 'memory',
+        getString: (key) => store.get(key),
+        setString: (key, value) => { store.set(key, value); },
+        delete: (key) => { store.delete(key); },
+        getAllKeys: () => Array.from(store.keys()),
+    };
+}
+
+// ── Active Backend ───────────────────────────────────────────────────────────
+
+let activeBackend: KeyValueBackend = createMemoryBackend();
+
+export function getKeyValueBackend(): KeyValueBackend {
+    return activeBackend;
+}
+
+/**
+ * Swap the backend. Call once during startup, before any value is read;
+ * values written to the previous backend are not carried over.
+ */
+export function setKeyValueBackend(backend: KeyValueBackend): void {
+    activeBackend = backend;
+}
+
+// ── Typed Values ─────────────────────────────────────────────────────────────
+
+/**
+ * Describes one stored value: its key, current schema version, a default,
+ * and an optional upgrade path from older versions. Values whose version
+ * cannot be migrated fall back to the default instead of being misread.
+ */
+export interface ValueSpec<T> {
+    key: string;
+    version: number;
+    fallback: () => T;
+    migrate?: (data: unknown, fromVersion: number) => T | undefined;
+}
+
+interface Envelope {
+    v: number;
+    data: unknown;
+}
+
+export function defineValue<T>(
+    key: string,
+    version: number,
+    fallback: () => T,
+    migrate?: (data: unknown, fromVersion: number) => T | undefined,
+): ValueSpec<T> {
+    return { key, version, fallback, migrate };
+}
+
+export function readValue<T>(spec: ValueSpec<T>): T {
+    const raw = activeBackend.getString(spec.key);
+    if (raw === undefined) return spec.fallback();
+
+    let envelope: Envelope;
+    try {
+        envelope = JSON.parse(raw);
+    } catch {
+        console.warn(`[KV] Unreadable value for ${spec.key}, using default`);
+        return spec.fallback();
+    }
+    if (!envelope || typeof envelope !== 'object' || typeof envelope.v !== 'number') {
+        return spec.fallback();
+    }
+
+    if (envelope.v === spec.version) return envelope.data as T;
+
+    const migrated = envelope.v < spec.version ? spec.migrate?.(envelope.data, envelope.v) : undefined;
+    if (migrated === undefined) {
+        console.warn(`[KV] No migration for ${spec.key} v${envelope.v} → v${spec.version}, using default`);
+        return spec.fallback();
+    }
+    writeValue(spec, migrated);
+    return migrated;
+}
+
+export function writeValue<T>(spec: ValueSpec<T>, value: T): void {
+    const envelope: Envelope = { v: spec.version, data: value };
+    activeBackend.setString(spec.key, JSON.stringify(envelope));
+}
+
+export function removeValue<T>(spec: ValueSpec<T>): void {
+    activeBackend.delete(spec.key);
+}
@@ -2,128 +2,147 @@
 // MMKV Cache Store — Fast key-value storage for hot data
 // ─────────────────────────────────────────────────────────────────────────────
 
-// In production: import { MMKV } from 'react-native-mmkv';
-// const storage = new MMKV();
-
-import { PersonalityProfile, NudgeType } from '../modules/focusTrainer/models/types';
-import { NudgeState } from '../modules/focusTrainer/engine/NudgeManager';
+import { AFICalibration, AppCategory, PersonalityProfile, NudgeType } from '../modules/focusTrainer/models/types';
 import { UserProfile } from '../modules/onboarding/models/onboardingTypes';
 import { PersonalizationState } from '../modules/personalization/models/personalizationTypes';
+import { LLMSettings, LLMValidationStats, PersonaSettings } from '../modules/agent/llm/llmTypes';
+import { DEFAULT_LLM_SETTINGS } from '../modules/agent/llm/providers';
+import { emptyValidationStats } from '../modules/agent/llm/responseSchema';
+import { DEFAULT_PERSONA_SETTINGS } from '../modules/agent/llm/personas';
+import { BanditState, emptyBanditState } from '../modules/agent/engine/strategyBandit';
+import { ContextHistory, emptyContextHistory } from '../modules/agent/engine/contextTimeline';
+import { NudgeQueue, emptyNudgeQueue } from '../modules/agent/engine/nudgeScheduler';
+import type { TaskId } from '../modules/focusTrainer/services/BackgroundTaskService';
+import type { OrchestratorPolicyOverride } from '../modules/agent/policy/policyTypes';
+import type { AvailabilitySettings, InterventionBudgetState } from '../modules/interventions/budgetTypes';
+import { emptyBudgetState } from '../modules/interventions/interventionBudget';
+import { defaultAvailability } from '../modules/interventions/availability';
+import { defineValue, readValue, writeValue, removeValue } from './kvBackend';
+
+// Backed by whichever KeyValueBackend initKeyValueStore() installed at startup
+// (MMKV on device, AsyncStorage in Expo Go, in-memory in tests).
+
+// ── Stored Values ────────────────────────────────────────────────────────────
+// Bump a value's version when its shape changes, and add a migrate
+// function if old data can be carried over.
+
+const VALUES = {
+    CURRENT_AFI: defineValue<number>('focus.currentAFI', 1, () => 0.5),
+    CURRENT_AFI_LEVEL: defineValue<string>('focus.currentAFILevel', 1, () => 'moderate'),
+    CURRENT_CRS: defineValue<number>('focus.currentCRS', 1, () => 0.5),
+    AFI_CALIBRATION: defineValue<AFICalibration | null>('focus.afiCalibration', 1, () => null),
+    APP_CATEGORY_OVERRIDES: defineValue<Record<string, AppCategory>>('focus.appCategoryOverrides', 1, () => ({})),
+    USAGE_INGEST_CURSOR: defineValue<number | null>('focus.usageIngestCursor', 1, () => null),
+    HEATMAP_SAMPLED_THROUGH: defineValue<number | null>('focus.heatmapSampledThrough', 1, () => null),
+    BACKGROUND_TASK_RUNS: defineValue<Partial<Record<TaskId, number>>>('focus.backgroundTaskRuns', 1, () => ({})),
+    PERSONALITY: defineValue<PersonalityProfile>('focus.personality', 1, () => ({ conscientiousness: 4, neuroticism: 4 })), // neutral default
+    MODULE_ENABLED: defineValue<boolean>('focus.moduleEnabled', 1, () => true),
+    COMPLIANCE_SUCCESSES: defineValue<number>('focus.complianceSuccesses', 1, () => 0),
+    COMPLIANCE_ATTEMPTS: defineValue<number>('focus.complianceAttempts', 1, () => 0),
+    BLOCKING_OVERRIDE: defineValue<number | null>('focus.blockingOverride', 1, () => null),
+    ONBOARDING_PROFILE: defineValue<UserProfile | null>('onboarding.userProfile', 1, () => null),
+    ONBOARDING_COMPLETE: defineValue<boolean>('onboarding.complete', 1, () => false),
+    PERSONALIZATION_STATE: defineValue<PersonalizationState | null>('personalization.state', 1, () => null),
+    PERSONALIZATION_LAST_DAILY: defineValue<number>('personalization.lastDailyUpdate', 1, () => 0),
+    LLM_SETTINGS: defineValue<LLMSettings>('agent.llmSettings', 1, () => DEFAULT_LLM_SETTINGS),
+    LLM_VALIDATION_STATS: defineValue<LLMValidationStats>('agent.llmValidationStats', 1, emptyValidationStats),
+    PERSONA_SETTINGS: defineValue<PersonaSettings>('agent.personaSettings', 1, () => DEFAULT_PERSONA_SETTINGS),
+    STRATEGY_BANDIT: defineValue<BanditState>('agent.strategyBandit', 1, emptyBanditState),
+    CONTEXT_HISTORY: defineValue<ContextHistory>('agent.contextHistory', 1, emptyContextHistory),
+    NUDGE_QUEUE: defineValue<NudgeQueue>('agent.nudgeQueue', 1, emptyNudgeQueue),
+    POLICY_OVERRIDE: defineValue<OrchestratorPolicyOverride | null>('agent.policyOverride', 1, () => null),
+    INTERVENTION_BUDGET: defineValue<InterventionBudgetState>('interventions.budget', 2, () => emptyBudgetState(),
+        (data, from) => (from === 1 ? { ...(data as InterventionBudgetState), dismissalsToday: 0 } : undefined)),
+    AVAILABILITY: defineValue<AvailabilitySettings>('interventions.availability', 1, defaultAvailability),
+};
 
-// ── Mock MMKV (in-memory) ────────────────────────────────────────────────────
-const store = new Map<string, string>();
+// ── AFI Cache ────────────────────────────────────────────────────────────────
 
-function getString(key: string): string | undefined {
-    return store.get(key);
+export function getCachedAFI(): number {
+    return readValue(VALUES.CURRENT_AFI);
 }
 
-function setString(key: string, value: string): void {
-    store.set(key, value);
+export function setCachedAFI(score: number, level: string): void {
+    writeValue(VALUES.CURRENT_AFI, score);
+    writeValue(VALUES.CURRENT_AFI_LEVEL, level);
 }
 
-function getNumber(key: string): number | undefined {
-    const val = store.get(key);
-    return val !== undefined ? Number(val) : undefined;
+export function getCachedAFILevel(): string {
+    return readValue(VALUES.CURRENT_AFI_LEVEL);
 }
 
-function setNumber(key: string, value: number): void {
-    store.set(key, String(value));
-}
+// ── CRS Cache ────────────────────────────────────────────────────────────────
 
-function getBoolean(key: string): boolean | undefined {
-    const val = store.get(key);
-    return val !== undefined ? val === 'true' : undefined;
+export function getCachedCRS(): number {
+    return readValue(VALUES.CURRENT_CRS);
 }
 
-function setBoolean(key: string, value: boolean): void {
-    store.set(key, String(value));
+export function setCachedCRS(score: number): void {
+    writeValue(VALUES.CURRENT_CRS, score);
 }
 
-function deleteKey(key: string): void {
-    store.delete(key);
+// ── AFI Calibration ──────────────────────────────────────────────────────────
+
+/** The user's learned AFI parameters; null until the first calibration. */
+export function getAFICalibration(): AFICalibration | null {
+    return readValue(VALUES.AFI_CALIBRATION);
 }
 
-// ── Cache Keys ───────────────────────────────────────────────────────────────
+export function setAFICalibration(calibration: AFICalibration | null): void {
+    writeValue(VALUES.AFI_CALIBRATION, calibration);
+}
 
-const KEYS = {
-    CURRENT_AFI: 'focus.currentAFI',
-    CURRENT_AFI_LEVEL: 'focus.currentAFILevel',
-    CURRENT_CRS: 'focus.currentCRS',
-    ACTIVE_SESSION: 'focus.activeSession',
-    NUDGE_STATE: 'focus.nudgeState',
-    PERSONALITY: 'focus.personality',
-    MODULE_ENABLED: 'focus.moduleEnabled',
-    LAST_HEALTH_SYNC: 'focus.lastHealthSync',
-    POMODORO_COUNT_TODAY: 'focus.pomodoroCountToday',
-    COMPLIANCE_SUCCESSES: 'focus.complianceSuccesses',
-    COMPLIANCE_ATTEMPTS: 'focus.complianceAttempts',
-    BLOCKING_OVERRIDE: 'focus.blockingOverride',
-    ONBOARDING_PROFILE: 'onboarding.userProfile',
-    ONBOARDING_COMPLETE: 'onboarding.complete',
-    PERSONALIZATION_STATE: 'personalization.state',
-    PERSONALIZATION_LAST_DAILY: 'personalization.lastDailyUpdate',
-} as const;
+// ── App Category Overrides ───────────────────────────────────────────────────
 
-// ── AFI Cache ────────────────────────────────────────────────────────────────
+/** The user's package → category corrections to the bundled taxonomy. */
+export function getAppCategoryOverrides(): Record<string, AppCategory> {
+    return readValue(VALUES.APP_CATEGORY_OVERRIDES);
+}
 
-export function getCachedAFI(): number {
-    return getNumber(KEYS.CURRENT_AFI) ?? 0.5;
+export function setAppCategoryOverrides(overrides: Record<string, AppCategory>): void {
+    writeValue(VALUES.APP_CATEGORY_OVERRIDES, overrides);
 }
 
-export function setCachedAFI(score: number, level: string): void {
-    setNumber(KEYS.CURRENT_AFI, score);
-    setString(KEYS.CURRENT_AFI_LEVEL, level);
+// ── Usage Event Ingestion ────────────────────────────────────────────────────
+
+/** Epoch ms the next usage-event query starts from (null before the first ingest). */
+export function getUsageIngestCursor(): number | null {
+    return readValue(VALUES.USAGE_INGEST_CURSOR);
 }
 
-export function getCachedAFILevel(): string {
-    return getString(KEYS.CURRENT_AFI_LEVEL) ?? 'moderate';
+export function setUsageIngestCursor(at: number): void {
+    writeValue(VALUES.USAGE_INGEST_CURSOR, at);
 }
 
-// ── CRS Cache ────────────────────────────────────────────────────────────────
+// ── Heatmap Sampling ─────────────────────────────────────────────────────────
 
-export function getCachedCRS(): number {
-    return getNumber(KEYS.CURRENT_CRS) ?? 0.5;
+/** End (epoch ms, slot-aligned) of the usage already folded into focus_windows. */
+export function getHeatmapSampledThrough(): number | null {
+    return readValue(VALUES.HEATMAP_SAMPLED_THROUGH);
 }
 
-export function setCachedCRS(score: number): void {
-    setNumber(KEYS.CURRENT_CRS, score);
+export function setHeatmapSampledThrough(at: number): void {
+    writeValue(VALUES.HEATMAP_SAMPLED_THROUGH, at);
 }
 
-// ── Personality Profile ──────────────────────────────────────────────────────
+// ── Background Tasks ─────────────────────────────────────────────────────────
 
-export function getPersonalityProfile(): PersonalityProfile {
-    const raw = getString(KEYS.PERSONALITY);
-    if (raw) {
-        try {
-            return JSON.parse(raw);
-        } catch { }
-    }
-    return { conscientiousness: 4, neuroticism: 4 }; // neutral default
+export function getBackgroundTaskRuns(): Partial<Record<TaskId, number>> {
+    return readValue(VALUES.BACKGROUND_TASK_RUNS);
 }
 
-export function setPersonalityProfile(profile: PersonalityProfile): void {
-    setString(KEYS.PERSONALITY, JSON.stringify(profile));
+export function setBackgroundTaskRun(taskId: TaskId, at: number): void {
+    writeValue(VALUES.BACKGROUND_TASK_RUNS, { ...getBackgroundTaskRuns(), [taskId]: at });
 }
 
-// ── Nudge State ──────────────────────────────────────────────────────────────
+// ── Personality Profile ──────────────────────────────────────────────────────
 
-export function getNudgeState(): NudgeState {
-    const raw = getString(KEYS.NUDGE_STATE);
-    if (raw) {
-        try {
-            return JSON.parse(raw);
-        } catch { }
-    }
-    return {
-        todayCount: 0,
-        lastNudgeTime: 0,
-        lastDismissTime: 0,
-        dailyResetDate: new Date().toISOString().split('T')[0],
-    };
+export function getPersonalityProfile(): PersonalityProfile {
+    return readValue(VALUES.PERSONALITY);
 }
 
-export function setNudgeState(state: NudgeState): void {
-    setString(KEYS.NUDGE_STATE, JSON.stringify(state));
+export function setPersonalityProfile(profile: PersonalityProfile): void {
+    writeValue(VALUES.PERSONALITY, profile);
 }
 
 // ── Compliance Tracking ──────────────────────────────────────────────────────
@@ -133,8 +152,8 @@ export function getComplianceStats(): {
     attempts: number;
 } {
     return {
-        successes: getNumber(KEYS.COMPLIANCE_SUCCESSES) ?? 0,
-        attempts: getNumber(KEYS.COMPLIANCE_ATTEMPTS) ?? 0,
+        successes: readValue(VALUES.COMPLIANCE_SUCCESSES),
+        attempts: readValue(VALUES.COMPLIANCE_ATTEMPTS),
     };
 }
 
@@ -142,84 +161,169 @@ export function setComplianceStats(
     successes: number,
     attempts: number,
 ): void {
-    setNumber(KEYS.COMPLIANCE_SUCCESSES, successes);
-    setNumber(KEYS.COMPLIANCE_ATTEMPTS, attempts);
+    writeValue(VALUES.COMPLIANCE_SUCCESSES, successes);
+    writeValue(VALUES.COMPLIANCE_ATTEMPTS, attempts);
 }
 
 // ── Module State ─────────────────────────────────────────────────────────────
 
 export function isModuleEnabled(): boolean {
-    return getBoolean(KEYS.MODULE_ENABLED) ?? true;
+    return readValue(VALUES.MODULE_ENABLED);
 }
 
 export function setModuleEnabled(enabled: boolean): void {
-    setBoolean(KEYS.MODULE_ENABLED, enabled);
+    writeValue(VALUES.MODULE_ENABLED, enabled);
 }
 
 // ── Blocking Override ────────────────────────────────────────────────────────
 
 export function getBlockingOverride(): number | null {
-    const val = getNumber(KEYS.BLOCKING_OVERRIDE);
-    return val !== undefined ? val : null;
+    return readValue(VALUES.BLOCKING_OVERRIDE);
 }
 
 export function setBlockingOverride(level: number | null): void {
     if (level === null) {
-        deleteKey(KEYS.BLOCKING_OVERRIDE);
+        removeValue(VALUES.BLOCKING_OVERRIDE);
     } else {
-        setNumber(KEYS.BLOCKING_OVERRIDE, level);
+        writeValue(VALUES.BLOCKING_OVERRIDE, level);
     }
 }
 
 // ── Onboarding Profile ───────────────────────────────────────────────────────
 
 export function getUserProfile(): UserProfile | null {
-    const raw = getString(KEYS.ONBOARDING_PROFILE);
-    if (raw) {
-        try {
-            return JSON.parse(raw);
-        } catch { }
-    }
-    return null;
+    return readValue(VALUES.ONBOARDING_PROFILE);
 }
 
 export function setUserProfile(profile: UserProfile): void {
-    setString(KEYS.ONBOARDING_PROFILE, JSON.stringify(profile));
+    writeValue(VALUES.ONBOARDING_PROFILE, profile);
 }
 
 export function isOnboardingComplete(): boolean {
-    return getBoolean(KEYS.ONBOARDING_COMPLETE) ?? false;
+    return readValue(VALUES.ONBOARDING_COMPLETE);
 }
 
 export function setOnboardingComplete(complete: boolean): void {
-    setBoolean(KEYS.ONBOARDING_COMPLETE, complete);
+    writeValue(VALUES.ONBOARDING_COMPLETE, complete);
 }
 
 // ── Personalization State ────────────────────────────────────────────────────
 
 export function getPersonalizationState(): PersonalizationState | null {
-    const json = getString(KEYS.PERSONALIZATION_STATE);
-    if (!json) return null;
-    try {
-        return JSON.parse(json) as PersonalizationState;
-    } catch {
-        return null;
-    }
+    return readValue(VALUES.PERSONALIZATION_STATE);
 }
 
 export function setPersonalizationState(state: PersonalizationState): void {
-    setString(KEYS.PERSONALIZATION_STATE, JSON.stringify(state));
+    writeValue(VALUES.PERSONALIZATION_STATE, state);
 }
 
 export function clearPersonalizationState(): void {
-    deleteKey(KEYS.PERSONALIZATION_STATE);
-    deleteKey(KEYS.PERSONALIZATION_LAST_DAILY);
+    removeValue(VALUES.PERSONALIZATION_STATE);
+    removeValue(VALUES.PERSONALIZATION_LAST_DAILY);
 }
 
 export function getLastDailyUpdate(): number {
-    return getNumber(KEYS.PERSONALIZATION_LAST_DAILY) ?? 0;
+    return readValue(VALUES.PERSONALIZATION_LAST_DAILY);
 }
 
 export function setLastDailyUpdate(timestamp: number): void {
-    setNumber(KEYS.PERSONALIZATION_LAST_DAILY, timestamp);
+    writeValue(VALUES.PERSONALIZATION_LAST_DAILY, timestamp);
+}
+
+// ── LLM Provider Settings ────────────────────────────────────────────────────
+
+export function getLLMSettings(): LLMSettings {
+    return readValue(VALUES.LLM_SETTINGS);
+}
+
+export function setLLMSettings(settings: LLMSettings): void {
+    writeValue(VALUES.LLM_SETTINGS, settings);
+}
+
+// ── LLM Output Validation Counters ───────────────────────────────────────────
+
+export function getLLMValidationStats(): LLMValidationStats {
+    return readValue(VALUES.LLM_VALIDATION_STATS);
+}
+
+export function setLLMValidationStats(stats: LLMValidationStats): void {
+    writeValue(VALUES.LLM_VALIDATION_STATS, stats);
+}
+
+export function resetLLMValidationStats(): void {
+    removeValue(VALUES.LLM_VALIDATION_STATS);
+}
+
+// ── Coach Persona ────────────────────────────────────────────────────────────
+
+export function getPersonaSettings(): PersonaSettings {
+    return readValue(VALUES.PERSONA_SETTINGS);
+}
+
+export function setPersonaSettings(settings: PersonaSettings): void {
+    writeValue(VALUES.PERSONA_SETTINGS, settings);
+}
+
+// ── Strategy Bandit ──────────────────────────────────────────────────────────
+
+export function getBanditState(): BanditState {
+    return readValue(VALUES.STRATEGY_BANDIT);
+}
+
+export function setBanditState(state: BanditState): void {
+    writeValue(VALUES.STRATEGY_BANDIT, state);
+}
+
+export function resetBanditState(): void {
+    removeValue(VALUES.STRATEGY_BANDIT);
+}
+
+// ── Context History ──────────────────────────────────────────────────────────
+
+export function getContextHistory(): ContextHistory {
+    return readValue(VALUES.CONTEXT_HISTORY);
+}
+
+export function setContextHistory(history: ContextHistory): void {
+    writeValue(VALUES.CONTEXT_HISTORY, history);
+}
+
+// ── Nudge Queue ──────────────────────────────────────────────────────────────
+
+export function getNudgeQueue(): NudgeQueue {
+    return readValue(VALUES.NUDGE_QUEUE);
+}
+
+export function setNudgeQueue(queue: NudgeQueue): void {
+    writeValue(VALUES.NUDGE_QUEUE, queue);
+}
+
+// ── Orchestrator Policy Override ─────────────────────────────────────────────
+
+export function getPolicyOverride(): OrchestratorPolicyOverride | null {
+    return readValue(VALUES.POLICY_OVERRIDE);
+}
+
+export function setPolicyOverride(override: OrchestratorPolicyOverride | null): void {
+    writeValue(VALUES.POLICY_OVERRIDE, override);
+}
+
+// ── Intervention Budget ──────────────────────────────────────────────────────
+
+export function getInterventionBudget(): InterventionBudgetState {
+    return readValue(VALUES.INTERVENTION_BUDGET);
+}
+
+export function setInterventionBudget(state: InterventionBudgetState): void {
+    writeValue(VALUES.INTERVENTION_BUDGET, state);
+}
+
+// ── Availability ─────────────────────────────────────────────────────────────
+
+export function getAvailability(): AvailabilitySettings {
+    return readValue(VALUES.AVAILABILITY);
+}
+
+export function setAvailability(settings: AvailabilitySettings): void {
+    writeValue(VALUES.AVAILABILITY, settings);
 }
@@ -0,0 +1,107 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Persistent Key-Value Backends — MMKV and AsyncStorage
+// Selected once at startup by initKeyValueStore()
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { MMKV } from 'react-native-mmkv';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+    KeyValueBackend,
+    createMemoryBackend,
+    setKeyValueBackend,
+} from './kvBackend';
+
+export type KeyValueBackendKind = 'mmkv' | 'async-storage' | 'memory';
+
+const MMKV_INSTANCE_ID = 'astra-kv';
+const ASYNC_STORAGE_PREFIX = 'astra.kv.';
+
+// ── MMKV ─────────────────────────────────────────────────────────────────────
+
+/** Throws when the native module is unavailable (e.g. Expo Go). */
+export function createMMKVBackend(): KeyValueBackend {
+    const mmkv = new MMKV({ id: MMKV_INSTANCE_ID });
+    return {
+        name: 'mmkv',
+        getString: (key) => mmkv.getString(key),
+        setString: (key, value) => mmkv.set(key, value),
+        delete: (key) => mmkv.delete(key),
+        getAllKeys: () => mmkv.getAllKeys(),
+    };
+}
+
+// ── AsyncStorage ─────────────────────────────────────────────────────────────
+
+/**
+ * Write-through cache over AsyncStorage. Reads are served from memory after
+ * `hydrate`; writes update memory immediately and persist in the background.
+ */
+export function createAsyncStorageBackend(): KeyValueBackend {
+    const cache = new Map<string, string>();
+
+    return {
+        name: 'async-storage',
+        getString: (key) => cache.get(key),
+        setString: (key, value) => {
+            cache.set(key, value);
+            AsyncStorage.setItem(ASYNC_STORAGE_PREFIX + key, value).catch((e) =>
+                console.warn(`[KV] Failed to persist ${key}`, e),
+            );
+        },
+        delete: (key) => {
+            cache.delete(key);
+            AsyncStorage.removeItem(ASYNC_STORAGE_PREFIX + key).catch((e) =>
+                console.warn(`[KV] Failed to remove ${key}`, e),
+            );
+        },
+        getAllKeys: () => Array.from(cache.keys()),
+        hydrate: async () => {
+            const keys = (await AsyncStorage.getAllKeys()).filter((k) =>
+                k.startsWith(ASYNC_STORAGE_PREFIX),
+            );
+            const pairs = await AsyncStorage.multiGet(keys);
+            for (const [key, value] of pairs) {
+                if (value !== null) cache.set(key.slice(ASYNC_STORAGE_PREFIX.length), value);
+            }
+        },
+    };
+}
+
+// ── Startup Selection ────────────────────────────────────────────────────────
+
+function parseKind(value: string | undefined): KeyValueBackendKind | undefined {
+    return value === 'mmkv' || value === 'async-storage' || value === 'memory' ? value : undefined;
+}
+
+/**
+ * Pick and install the key-value backend. Prefers MMKV and falls back to
+ * AsyncStorage when the native module is missing. The preference can be
+ * forced with EXPO_PUBLIC_KV_BACKEND. Must be awaited before reading
+ * any mmkvStore value.
+ */
+export async function initKeyValueStore(
+    preferred: KeyValueBackendKind = parseKind(process.env.EXPO_PUBLIC_KV_BACKEND) ?? 'mmkv',
+): Promise<KeyValueBackend> {
+    let backend: KeyValueBackend;
+
+    if (preferred === 'memory') {
+        backend = createMemoryBackend();
+    } else if (preferred === 'mmkv') {
+        try {
+            backend = createMMKVBackend();
+        } catch (e) {
+            console.warn('[KV] MMKV unavailable, falling back to AsyncStorage', e);
+            backend = createAsyncStorageBackend();
+        }
+    } else {
+        backend = createAsyncStorageBackend();
+    }
+
+    if (backend.hydrate) {
+        await backend.hydrate();
+    }
+
+    setKeyValueBackend(backend);
+    console.log(`[KV] Using ${backend.name} backend`);
+    return backend;
+}